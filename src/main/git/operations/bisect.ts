@@ -0,0 +1,178 @@
+import * as dugite from 'dugite';
+import * as fs from 'fs/promises';
+import { exec } from 'child_process';
+import type { BisectState, BisectVerdict, BisectRunStep, BisectRunResult } from '../../../shared/types/git';
+import { resolveGitPath } from './info';
+
+// Exit codes of a `git bisect run` style command: 125 skips, 128 and above abort
+const SKIP_EXIT_CODE = 125;
+const ABORT_EXIT_CODE = 128;
+
+// Output kept per automated step; test suites can be chatty
+const MAX_STEP_OUTPUT = 64 * 1024;
+
+/**
+ * Get the state of an in-progress bisect, including the commits left to test
+ * @param repoPath - Absolute path to the repository
+ * @returns Bisect state; `inProgress` is false when no bisect is running
+ */
+export async function getBisectState(repoPath: string): Promise<BisectState> {
+  const idle: BisectState = { inProgress: false, good: [], skipped: [], remaining: [], estimatedSteps: 0 };
+
+  try {
+    await fs.access(await resolveGitPath(repoPath, 'BISECT_START'));
+  } catch (error) {
+    return idle;
+  }
+
+  const refsResult = await dugite.GitProcess.exec(
+    ['for-each-ref', '--format=%(refname) %(objectname)', 'refs/bisect/'],
+    repoPath
+  );
+
+  if (refsResult.exitCode !== 0) {
+    throw new Error(`Failed to get bisect state: ${refsResult.stderr}`);
+  }
+
+  const state: BisectState = { ...idle, inProgress: true };
+  for (const line of refsResult.stdout.split('\n').filter((l) => l.trim())) {
+    const [ref, sha] = line.split(' ');
+    if (ref === 'refs/bisect/bad') {
+      state.bad = sha;
+    } else if (ref.startsWith('refs/bisect/good-')) {
+      state.good.push(sha);
+    } else if (ref.startsWith('refs/bisect/skip-')) {
+      state.skipped.push(sha);
+    }
+  }
+
+  const headResult = await dugite.GitProcess.exec(['rev-parse', 'HEAD'], repoPath);
+  if (headResult.exitCode === 0) {
+    state.current = headResult.stdout.trim();
+  }
+
+  // The range is only known once both ends have been marked
+  if (state.bad && state.good.length > 0) {
+    const rangeResult = await dugite.GitProcess.exec(
+      ['rev-list', state.bad, '--not', ...state.good],
+      repoPath
+    );
+
+    if (rangeResult.exitCode !== 0) {
+      throw new Error(`Failed to get bisect range: ${rangeResult.stderr}`);
+    }
+
+    const skipped = new Set(state.skipped);
+    state.remaining = rangeResult.stdout
+      .split('\n')
+      .filter((sha) => sha && !skipped.has(sha));
+
+    if (state.remaining.length === 1 && state.remaining[0] === state.bad) {
+      state.firstBad = state.bad;
+    } else {
+      // Each step halves the candidates; the bad end is one of them
+      state.estimatedSteps = Math.ceil(Math.log2(Math.max(state.remaining.length, 1)));
+    }
+  }
+
+  return state;
+}
+
+/**
+ * Start bisecting between a bad commit and one or more good commits
+ * @param repoPath - Absolute path to the repository
+ * @param bad - Commit known to have the bug
+ * @param good - Commits known not to have it
+ */
+export async function startBisect(repoPath: string, bad: string, good: string[]): Promise<void> {
+  const result = await dugite.GitProcess.exec(['bisect', 'start', bad, ...good, '--'], repoPath);
+
+  if (result.exitCode !== 0) {
+    throw new Error(`Failed to start bisect: ${result.stderr || result.stdout}`);
+  }
+}
+
+/**
+ * Mark a commit during a bisect
+ * @param repoPath - Absolute path to the repository
+ * @param verdict - Whether the commit is good, bad or untestable
+ * @param sha - Commit to mark (defaults to the checked-out commit)
+ */
+export async function markBisect(repoPath: string, verdict: BisectVerdict, sha?: string): Promise<void> {
+  const result = await dugite.GitProcess.exec(['bisect', verdict, ...(sha ? [sha] : [])], repoPath);
+
+  // Exit code 2 means only skipped commits are left, which the state reports on its own
+  if (result.exitCode !== 0 && !isOnlySkippedLeft(result.stdout)) {
+    throw new Error(`Failed to mark commit as ${verdict}: ${result.stderr || result.stdout}`);
+  }
+}
+
+/**
+ * End the bisect and return to the branch it started from
+ * @param repoPath - Absolute path to the repository
+ */
+export async function resetBisect(repoPath: string): Promise<void> {
+  const result = await dugite.GitProcess.exec(['bisect', 'reset'], repoPath);
+
+  if (result.exitCode !== 0) {
+    throw new Error(`Failed to reset bisect: ${result.stderr}`);
+  }
+}
+
+/**
+ * Test each commit the bisect checks out with a shell command until the first bad commit is found.
+ * Exit code 0 marks the commit good, 125 skips it, 1-127 marks it bad and anything higher stops the run.
+ * @param repoPath - Absolute path to the repository
+ * @param command - Shell command run in the repository root
+ * @returns Output of every step and the first bad commit, if found
+ */
+export async function runBisect(repoPath: string, command: string): Promise<BisectRunResult> {
+  const steps: BisectRunStep[] = [];
+  let state = await getBisectState(repoPath);
+
+  if (!state.inProgress || !state.bad || state.good.length === 0) {
+    throw new Error('Mark a good and a bad commit before running the bisect');
+  }
+
+  while (!state.firstBad && state.current) {
+    const sha = state.current;
+    const { exitCode, output } = await runCommand(command, repoPath);
+
+    if (exitCode >= ABORT_EXIT_CODE || exitCode < 0) {
+      steps.push({ sha, exitCode, output });
+      return { steps, stoppedReason: `Command exited with ${exitCode}; bisect run stopped` };
+    }
+
+    const verdict: BisectVerdict = exitCode === 0 ? 'good' : exitCode === SKIP_EXIT_CODE ? 'skip' : 'bad';
+    steps.push({ sha, exitCode, output, verdict });
+
+    const markResult = await dugite.GitProcess.exec(['bisect', verdict], repoPath);
+    if (markResult.exitCode !== 0) {
+      if (isOnlySkippedLeft(markResult.stdout)) {
+        return { steps, stoppedReason: 'Only skipped commits are left to test' };
+      }
+      throw new Error(`Failed to mark commit as ${verdict}: ${markResult.stderr || markResult.stdout}`);
+    }
+
+    state = await getBisectState(repoPath);
+  }
+
+  return { steps, firstBad: state.firstBad };
+}
+
+function isOnlySkippedLeft(output: string): boolean {
+  return output.includes("only 'skip'ped commits left");
+}
+
+function runCommand(command: string, cwd: string): Promise<{ exitCode: number; output: string }> {
+  return new Promise((resolve) => {
+    exec(command, { cwd, maxBuffer: 16 * 1024 * 1024 }, (error, stdout, stderr) => {
+      const output = `${stdout}${stderr}`;
+      const exitCode = error ? (typeof error.code === 'number' ? error.code : -1) : 0;
+      resolve({
+        exitCode,
+        output: output.length > MAX_STEP_OUTPUT ? output.slice(-MAX_STEP_OUTPUT) : output,
+      });
+    });
+  });
+}
@@ -0,0 +1,118 @@
+import * as dugite from 'dugite';
+import type { BlameCommit, BlameLine, BlameOptions, BlameResult } from '../../../shared/types/git';
+
+/**
+ * Attribute each line of a file to the commit that last changed it
+ * @param repoPath - Absolute path to the repository
+ * @param filePath - File path (relative to repo root)
+ * @param options - Revision, whitespace, moved-line and ignore-revs options
+ * @returns Blamed lines and the commits they point to
+ */
+export async function getBlame(
+  repoPath: string,
+  filePath: string,
+  options: BlameOptions = {}
+): Promise<BlameResult> {
+  const args = ['blame', '--porcelain'];
+  if (options.ignoreWhitespace) {
+    args.push('-w');
+  }
+  if (options.detectMoved) {
+    args.push('-M', '-C');
+  }
+  if (options.ignoreRevsFile) {
+    args.push('--ignore-revs-file', options.ignoreRevsFile);
+  }
+  if (options.rev) {
+    args.push(options.rev);
+  }
+  args.push('--', filePath);
+
+  const result = await dugite.GitProcess.exec(args, repoPath);
+
+  if (result.exitCode !== 0) {
+    throw new Error(`Failed to blame ${filePath}: ${result.stderr}`);
+  }
+
+  return {
+    path: filePath,
+    ...parsePorcelain(result.stdout),
+  };
+}
+
+function parsePorcelain(output: string): Omit<BlameResult, 'path'> {
+  const commits: Record<string, BlameCommit> = {};
+  const filenames = new Map<string, string>();
+  const lines: BlameLine[] = [];
+  let current: { sha: string; originalLineNumber: number; lineNumber: number } | null = null;
+
+  for (const line of output.split('\n')) {
+    // Content lines are the only ones that start with a tab
+    if (line.startsWith('\t')) {
+      if (current) {
+        lines.push({
+          ...current,
+          originalPath: filenames.get(current.sha) ?? '',
+          content: line.substring(1),
+        });
+      }
+      current = null;
+      continue;
+    }
+
+    if (!current) {
+      const header = line.match(/^([0-9a-f]{40,64}) (\d+) (\d+)/);
+      if (header) {
+        const sha = header[1];
+        current = {
+          sha,
+          originalLineNumber: parseInt(header[2]),
+          lineNumber: parseInt(header[3]),
+        };
+        if (!commits[sha]) {
+          commits[sha] = {
+            sha,
+            author: { name: '', email: '' },
+            date: new Date(0),
+            summary: '',
+          };
+        }
+      }
+      continue;
+    }
+
+    // Commit metadata follows the first header line of each commit
+    const separator = line.indexOf(' ');
+    const key = separator === -1 ? line : line.substring(0, separator);
+    const value = separator === -1 ? '' : line.substring(separator + 1);
+    const commit = commits[current.sha];
+
+    switch (key) {
+      case 'author':
+        commit.author.name = value;
+        break;
+      case 'author-mail':
+        commit.author.email = value.replace(/^<|>$/g, '');
+        break;
+      case 'author-time':
+        commit.date = new Date(parseInt(value) * 1000);
+        break;
+      case 'summary':
+        commit.summary = value;
+        break;
+      case 'previous': {
+        const [sha, ...pathParts] = value.split(' ');
+        commit.previous = { sha, path: pathParts.join(' ') };
+        break;
+      }
+      case 'boundary':
+        commit.boundary = true;
+        break;
+      case 'filename':
+        filenames.set(current.sha, value);
+        break;
+    }
+  }
+
+  return { commits, lines };
+}
@@ -0,0 +1,158 @@
+import * as dugite from 'dugite';
+import * as fs from 'fs/promises';
+import type { CherryPickOptions, RevertOptions, SequencerState } from '../../../shared/types/git';
+import { resolveGitPath } from './info';
+
+// Continuing opens the commit message editor, which must exit immediately without a terminal
+const NON_INTERACTIVE_ENV = { GIT_EDITOR: 'true' };
+
+/**
+ * Apply the changes introduced by one or more commits on top of HEAD
+ * @param repoPath - Absolute path to the repository
+ * @param shas - Commits to cherry-pick, in the order they should be applied
+ * @param options - Record-origin (-x), no-commit and mainline options
+ * @returns Sequencer state; still in progress when a commit stopped with conflicts
+ */
+export async function cherryPick(
+  repoPath: string,
+  shas: string[],
+  options: CherryPickOptions = {}
+): Promise<SequencerState> {
+  if (shas.length === 0) {
+    throw new Error('No commits selected');
+  }
+
+  const args = ['cherry-pick'];
+  if (options.recordOrigin) {
+    args.push('-x');
+  }
+  if (options.noCommit) {
+    args.push('--no-commit');
+  }
+  if (options.mainline) {
+    args.push('--mainline', String(options.mainline));
+  }
+  args.push(...shas);
+
+  const result = await dugite.GitProcess.exec(args, repoPath, { env: NON_INTERACTIVE_ENV });
+
+  return finishStep(repoPath, result, 'cherry-pick');
+}
+
+/**
+ * Create a commit that undoes the changes of an earlier commit
+ * @param repoPath - Absolute path to the repository
+ * @param sha - Commit to revert
+ * @param options - Mainline parent (required for merge commits) and no-commit options
+ * @returns Sequencer state; still in progress when the revert stopped with conflicts
+ */
+export async function revertCommit(
+  repoPath: string,
+  sha: string,
+  options: RevertOptions = {}
+): Promise<SequencerState> {
+  const args = ['revert'];
+  if (options.noCommit) {
+    args.push('--no-commit');
+  } else {
+    args.push('--no-edit');
+  }
+  if (options.mainline) {
+    args.push('--mainline', String(options.mainline));
+  }
+  args.push(sha);
+
+  const result = await dugite.GitProcess.exec(args, repoPath, { env: NON_INTERACTIVE_ENV });
+
+  return finishStep(repoPath, result, 'revert');
+}
+
+/**
+ * Get the state of an in-progress cherry-pick or revert
+ * @param repoPath - Absolute path to the repository
+ * @returns Operation, the commit being applied and how many commits remain after it
+ */
+export async function getSequencerState(repoPath: string): Promise<SequencerState> {
+  for (const operation of ['cherry-pick', 'revert'] as const) {
+    const headName = operation === 'cherry-pick' ? 'CHERRY_PICK_HEAD' : 'REVERT_HEAD';
+    const result = await dugite.GitProcess.exec(['rev-parse', '--quiet', '--verify', headName], repoPath);
+
+    if (result.exitCode === 0) {
+      return {
+        inProgress: true,
+        operation,
+        currentSha: result.stdout.trim(),
+        remaining: await countRemaining(repoPath),
+      };
+    }
+  }
+
+  return { inProgress: false };
+}
+
+/**
+ * Continue the in-progress cherry-pick or revert after resolving conflicts
+ * @param repoPath - Absolute path to the repository
+ * @returns Sequencer state after continuing
+ */
+export async function continueSequencer(repoPath: string): Promise<SequencerState> {
+  const state = await getSequencerState(repoPath);
+  if (!state.inProgress || !state.operation) {
+    throw new Error('No cherry-pick or revert in progress');
+  }
+
+  const result = await dugite.GitProcess.exec([state.operation, '--continue'], repoPath, {
+    env: NON_INTERACTIVE_ENV,
+  });
+
+  // Unlike a new conflict, unresolved files leave the same commit pending
+  const next = await getSequencerState(repoPath);
+  if (result.exitCode !== 0 && next.currentSha === state.currentSha) {
+    throw new Error(`Failed to continue ${state.operation}: ${result.stderr || result.stdout}`);
+  }
+
+  return finishStep(repoPath, result, state.operation);
+}
+
+/**
+ * Abort the in-progress cherry-pick or revert and return to the pre-operation state
+ * @param repoPath - Absolute path to the repository
+ */
+export async function abortSequencer(repoPath: string): Promise<void> {
+  const state = await getSequencerState(repoPath);
+  if (!state.inProgress || !state.operation) {
+    throw new Error('No cherry-pick or revert in progress');
+  }
+
+  const result = await dugite.GitProcess.exec([state.operation, '--abort'], repoPath);
+
+  if (result.exitCode !== 0) {
+    throw new Error(`Failed to abort ${state.operation}: ${result.stderr}`);
+  }
+}
+
+async function finishStep(
+  repoPath: string,
+  result: { exitCode: number; stdout: string; stderr: string },
+  operation: string
+): Promise<SequencerState> {
+  const state = await getSequencerState(repoPath);
+
+  // Stopping on a conflict leaves the operation in progress for the user to resolve
+  if (result.exitCode !== 0 && !state.inProgress) {
+    throw new Error(`Failed to ${operation}: ${result.stderr || result.stdout}`);
+  }
+
+  return state;
+}
+
+async function countRemaining(repoPath: string): Promise<number> {
+  try {
+    const todo = await fs.readFile(await resolveGitPath(repoPath, 'sequencer/todo'), 'utf8');
+    const lines = todo.split('\n').filter((line) => line.trim() && !line.startsWith('#'));
+    // The todo still lists the commit that stopped
+    return Math.max(lines.length - 1, 0);
+  } catch (error) {
+    return 0;
+  }
+}
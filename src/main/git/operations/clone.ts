@@ -0,0 +1,109 @@
+import * as dugite from 'dugite';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { pathToFileURL } from 'url';
+import type { CloneOptions, CloneProgress } from '../../../shared/types/git';
+
+// Progress lines look like "Receiving objects:  45% (450/1000), 1.20 MiB | 2.00 MiB/s"
+const PROGRESS_LINE = /^(?:remote: )?([A-Za-z][\w ]*):\s+(\d+)%/;
+
+/**
+ * Clone a repository from a URL, a local repository (bare or not) or a bundle file
+ * @param options - Source, target directory and clone flags
+ * @param onProgress - Called with every progress line git reports
+ * @param signal - Aborting it kills git, which removes the partial clone
+ * @returns Absolute path of the new repository
+ */
+export async function cloneRepository(
+  options: CloneOptions,
+  onProgress: (progress: CloneProgress) => void,
+  signal?: AbortSignal
+): Promise<string> {
+  const targetPath = path.resolve(options.targetPath);
+  const existing = await fs.readdir(targetPath).catch(() => null);
+  if (existing && existing.length > 0) {
+    throw new Error(`${targetPath} already exists and is not empty`);
+  }
+
+  const parentPath = path.dirname(targetPath);
+  await fs.mkdir(parentPath, { recursive: true });
+
+  const args = ['clone', '--progress'];
+  if (options.branch) {
+    args.push('--branch', options.branch);
+  }
+  if (options.depth) {
+    args.push('--depth', String(options.depth));
+  }
+  if (options.recurseSubmodules) {
+    args.push('--recurse-submodules');
+    if (options.depth) {
+      args.push('--shallow-submodules');
+    }
+  }
+  args.push('--', await resolveSource(options.source, !!options.depth), targetPath);
+
+  if (signal?.aborted) {
+    throw new Error('Clone cancelled');
+  }
+
+  const child = dugite.GitProcess.spawn(args, parentPath);
+  const abort = () => child.kill();
+  signal?.addEventListener('abort', abort);
+
+  // Progress is written to stderr, with carriage returns between updates of the same phase
+  let stderr = '';
+  let pending = '';
+  child.stderr?.on('data', (chunk: Buffer) => {
+    const text = chunk.toString();
+    stderr += text;
+    pending += text;
+
+    const lines = pending.split(/[\r\n]/);
+    pending = lines.pop() ?? '';
+    for (const line of lines.map((l) => l.trim()).filter((l) => l)) {
+      const match = line.match(PROGRESS_LINE);
+      onProgress({
+        phase: match ? match[1] : line,
+        percent: match ? parseInt(match[2], 10) : undefined,
+        message: line,
+      });
+    }
+  });
+
+  try {
+    const exitCode = await new Promise<number | null>((resolve, reject) => {
+      child.on('error', reject);
+      child.on('close', resolve);
+    });
+
+    if (signal?.aborted) {
+      throw new Error('Clone cancelled');
+    }
+    if (exitCode !== 0) {
+      throw new Error(`Failed to clone: ${lastLines(stderr)}`);
+    }
+  } finally {
+    signal?.removeEventListener('abort', abort);
+  }
+
+  return targetPath;
+}
+
+/**
+ * Local clones ignore --depth unless the source is given as a file:// URL. Bundles are
+ * read directly, so they keep their plain path.
+ */
+async function resolveSource(source: string, shallow: boolean): Promise<string> {
+  if (!shallow) {
+    return source;
+  }
+
+  const stats = await fs.stat(source).catch(() => null);
+  return stats?.isDirectory() ? pathToFileURL(path.resolve(source)).href : source;
+}
+
+function lastLines(output: string): string {
+  // Only the tail is useful; earlier lines are superseded progress updates
+  return output.split(/[\r\n]/).filter((line) => line.trim()).slice(-3).join('\n');
+}
@@ -0,0 +1,50 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import * as dugite from 'dugite';
+import { getCommitHistory } from './commits';
+
+vi.mock('dugite', () => ({
+  GitProcess: { exec: vi.fn() },
+}));
+
+const exec = vi.mocked(dugite.GitProcess.exec);
+
+// Arguments of the `git log` run for a query
+const logArgs = async (...params: Parameters<typeof getCommitHistory>) => {
+  await getCommitHistory(...params);
+  return exec.mock.calls[0][0];
+};
+
+describe('getCommitHistory', () => {
+  beforeEach(() => {
+    exec.mockReset();
+    exec.mockResolvedValue({ exitCode: 0, stdout: '', stderr: '' } as Awaited<ReturnType<typeof exec>>);
+  });
+
+  it('keeps a pickaxe search case-sensitive alongside a message filter', async () => {
+    const args = await logArgs('/repo', 50, 0, undefined, { message: 'fix', pickaxe: 'Token' });
+
+    expect(args).toContain('--grep=fix');
+    expect(args).toContain('-SToken');
+    expect(args).toContain('--fixed-strings');
+    expect(args).not.toContain('--regexp-ignore-case');
+  });
+
+  it('ignores case only when the query asks for it', async () => {
+    const args = await logArgs('/repo', 50, 0, undefined, { message: 'fix', pickaxe: 'Token', ignoreCase: true });
+
+    expect(args).toContain('--regexp-ignore-case');
+  });
+
+  it('uses -G for a regex pickaxe and puts paths after the revision', async () => {
+    const args = await logArgs('/repo', 50, 0, 'main', {
+      pickaxe: 'load\\w+',
+      pickaxeRegex: true,
+      paths: ['src', ' '],
+      merges: 'exclude',
+    });
+
+    expect(args).toContain('-Gload\\w+');
+    expect(args).toContain('--no-merges');
+    expect(args.slice(-3)).toEqual(['main', '--', 'src']);
+  });
+});
@@ -1,5 +1,14 @@
 import * as dugite from 'dugite';
-import type { Commit, Author, CommitStats, FileChange } from '../../../shared/types/git';
+import type { Commit, CommitQuery, CommitRef, Author, FileChange, FileHistoryEntry } from '../../../shared/types/git';
+import { DIFF_SUMMARY_ARGS, parseDiffSummary } from './diff';
+
+// One field per line in the order parseCommits reads them; %P is the space-separated parent list
+// and %D the ref decorations, which DECORATE_ARG makes full ref names so their type is known
+const COMMIT_FORMAT = '%H%n%P%n%D%n%an%n%ae%n%cn%n%ce%n%at%n%s%n%b';
+const DECORATE_ARG = '--decorate=full';
+
+// A name-status line such as "M\tpath" or "R100\told\tnew" at the start of a log block
+const NAME_STATUS_LINE = /^\s*[A-Z]\d*\t.*\n?/;
 
 /**
  * Get commit history for a repository
@@ -7,28 +16,39 @@ import type { Commit, Author, CommitStats, FileChange } from '../../../shared/ty
  * @param limit - Maximum number of commits to return
  * @param skip - Number of commits to skip
  * @param branch - Optional branch name to get commits from
+ * @param query - Optional filters applied by git before limit and skip
  * @returns Array of commits
  */
 export async function getCommitHistory(
   repoPath: string,
   limit: number = 50,
   skip: number = 0,
-  branch?: string
+  branch?: string,
+  query?: CommitQuery
 ): Promise<Commit[]> {
-  const format = '%H%n%an%n%ae%n%cn%n%ce%n%at%n%s%n%b%n--END--';
+  const format = `${COMMIT_FORMAT}%n--END--`;
   
   const args = [
     'log',
     `--max-count=${limit}`,
     `--skip=${skip}`,
     `--format=${format}`,
+    DECORATE_ARG,
     '--no-color',
   ];
 
+  if (query) {
+    args.push(...getCommitQueryArgs(query));
+  }
+
   // Add branch if specified
   if (branch) {
     args.push(branch);
   }
+
+  // Paths always follow "--" so they are never mistaken for revisions
+  const paths = query?.paths?.filter((path) => path.trim()) ?? [];
+  args.push('--', ...paths);
   
   const result = await dugite.GitProcess.exec(args, repoPath);
 
@@ -39,6 +59,63 @@ export async function getCommitHistory(
   return parseCommits(result.stdout);
 }
 
+/**
+ * Get the commits that touched a file, following it across renames
+ * @param repoPath - Absolute path to the repository
+ * @param filePath - Current file path (relative to repo root)
+ * @param limit - Maximum number of commits to return
+ * @param skip - Number of commits to skip
+ * @returns Commits with the file's path and change status in each
+ */
+export async function getFileHistory(
+  repoPath: string,
+  filePath: string,
+  limit: number = 50,
+  skip: number = 0
+): Promise<FileHistoryEntry[]> {
+  // The name-status line for the file follows each commit's --END-- marker
+  const format = `${COMMIT_FORMAT}%n--END--`;
+
+  const result = await dugite.GitProcess.exec(
+    [
+      'log',
+      '--follow',
+      '--name-status',
+      `--max-count=${limit}`,
+      `--skip=${skip}`,
+      `--format=${format}`,
+      DECORATE_ARG,
+      '--no-color',
+      '--',
+      filePath,
+    ],
+    repoPath
+  );
+
+  if (result.exitCode !== 0) {
+    throw new Error(`Failed to get file history: ${result.stderr}`);
+  }
+
+  const blocks = result.stdout.split('--END--');
+  const entries: FileHistoryEntry[] = [];
+
+  // Each block holds the previous commit's name-status line followed by the next commit's header
+  for (let i = 0; i < blocks.length - 1; i++) {
+    const header = blocks[i].replace(NAME_STATUS_LINE, '');
+    const [commit] = parseCommits(header + '--END--');
+    // Merges are listed without a name-status line; they keep the path of the newer commit
+    const change = parseNameStatus(blocks[i + 1]) ?? {
+      status: 'modified' as const,
+      path: entries[entries.length - 1]?.path ?? filePath,
+    };
+    if (commit) {
+      entries.push({ ...commit, ...change });
+    }
+  }
+
+  return entries;
+}
+
 /**
  * Get detailed information for a specific commit including file changes
  * @param repoPath - Absolute path to the repository
@@ -46,10 +123,9 @@ export async function getCommitHistory(
  * @returns Commit with stats and file changes
  */
 export async function getCommitDetails(repoPath: string, sha: string): Promise<Commit & { files?: FileChange[] }> {
-  const format = '%H%n%an%n%ae%n%cn%n%ce%n%at%n%s%n%b';
   
   const result = await dugite.GitProcess.exec(
-    ['show', sha, `--format=${format}`, '--no-patch', '--no-color'],
+    ['show', sha, `--format=${COMMIT_FORMAT}`, DECORATE_ARG, '--no-patch', '--no-color'],
     repoPath
   );
 
@@ -64,28 +140,120 @@ export async function getCommitDetails(repoPath: string, sha: string): Promise<C
 
   // Get stats and file changes
   const statsResult = await dugite.GitProcess.exec(
-    ['show', sha, '--stat', '--numstat', '--format=', '--no-color'],
+    ['show', sha, ...DIFF_SUMMARY_ARGS, '--format=', '--no-color'],
     repoPath
   );
 
   if (statsResult.exitCode === 0) {
-    const { stats, files } = parseCommitStatsWithFiles(statsResult.stdout);
-    commits[0].stats = stats;
+    const { files, totalAdditions, totalDeletions } = parseDiffSummary(statsResult.stdout);
+    commits[0].stats = {
+      filesChanged: files.length,
+      additions: totalAdditions,
+      deletions: totalDeletions,
+    };
     return { ...commits[0], files };
   }
 
   return commits[0];
 }
 
+/**
+ * Get the parent SHAs of a commit, in order (the first parent is the mainline)
+ * @param repoPath - Absolute path to the repository
+ * @param sha - Commit SHA
+ * @returns Parent SHAs
+ */
+export async function getCommitParents(repoPath: string, sha: string): Promise<string[]> {
+  const result = await dugite.GitProcess.exec(
+    ['rev-list', '--parents', '--max-count=1', sha],
+    repoPath
+  );
+
+  if (result.exitCode !== 0) {
+    throw new Error(`Failed to get commit parents: ${result.stderr}`);
+  }
+
+  return result.stdout.trim().split(' ').slice(1);
+}
+
+function getCommitQueryArgs(query: CommitQuery): string[] {
+  const args: string[] = [];
+
+  const author = query.author?.trim();
+  const committer = query.committer?.trim();
+  const message = query.message?.trim();
+  if (author) args.push(`--author=${author}`);
+  if (committer) args.push(`--committer=${committer}`);
+  if (message) args.push(`--grep=${message}`);
+  if (author || committer || message) {
+    // Applies to all three patterns, but not to the pickaxe search
+    args.push(query.regex ? '--extended-regexp' : '--fixed-strings');
+  }
+  // Also makes -S and -G case-insensitive, so it is only added when asked for
+  if (query.ignoreCase && (author || committer || message || query.pickaxe)) {
+    args.push('--regexp-ignore-case');
+  }
+
+  if (query.since?.trim()) args.push(`--since=${query.since.trim()}`);
+  if (query.until?.trim()) args.push(`--until=${query.until.trim()}`);
+
+  // Not trimmed: leading or trailing whitespace can be part of the searched code
+  if (query.pickaxe) {
+    args.push(query.pickaxeRegex ? `-G${query.pickaxe}` : `-S${query.pickaxe}`);
+  }
+
+  if (query.merges === 'only') {
+    args.push('--merges');
+  } else if (query.merges === 'exclude') {
+    args.push('--no-merges');
+  }
+  if (query.firstParent) {
+    args.push('--first-parent');
+  }
+
+  return args;
+}
+
+function parseNameStatus(block: string): Pick<FileHistoryEntry, 'path' | 'oldPath' | 'status'> | null {
+  const match = block.match(NAME_STATUS_LINE);
+  if (!match) return null;
+
+  const [code, ...paths] = match[0].trim().split('\t');
+  const statuses: Record<string, FileChange['status']> = {
+    A: 'added',
+    D: 'deleted',
+    R: 'renamed',
+    C: 'copied',
+    T: 'type-changed',
+  };
+  const status = statuses[code.charAt(0)] ?? 'modified';
+
+  // Renames and copies list the old path first
+  return paths.length > 1
+    ? { status, oldPath: paths[0], path: paths[1] }
+    : { status, path: paths[0] };
+}
+
 function parseCommits(output: string): Commit[] {
   const commits: Commit[] = [];
   const commitBlocks = output.split('--END--').filter((block) => block.trim());
 
   for (const block of commitBlocks) {
     const lines = block.trim().split('\n');
-    if (lines.length < 7) continue;
+    if (lines.length < 9) continue;
 
-    const [sha, authorName, authorEmail, committerName, committerEmail, timestamp, subject, ...bodyLines] = lines;
+    const [
+      sha,
+      parents,
+      decorations,
+      authorName,
+      authorEmail,
+      committerName,
+      committerEmail,
+      timestamp,
+      subject,
+      ...bodyLines
+    ] = lines;
 
     const author: Author = {
       name: authorName,
@@ -106,13 +274,44 @@ function parseCommits(output: string): Commit[] {
       author,
       committer,
       date: new Date(parseInt(timestamp) * 1000),
-      parents: [], // Would need additional parsing
+      parents: parents ? parents.split(' ') : [],
+      refs: parseDecorations(decorations),
     });
   }
 
   return commits;
 }
 
+// "HEAD -> refs/heads/main, tag: refs/tags/v1, refs/remotes/origin/main, refs/stash"
+function parseDecorations(decorations: string): CommitRef[] {
+  const refs: CommitRef[] = [];
+
+  for (const decoration of decorations.split(', ')) {
+    let name = decoration.trim();
+    if (!name) continue;
+
+    // A checked-out branch is listed as "HEAD -> branch", a detached HEAD as plain "HEAD"
+    if (name === 'HEAD' || name.startsWith('HEAD -> ')) {
+      refs.push({ name: 'HEAD', type: 'head' });
+      name = name.substring('HEAD -> '.length);
+    }
+    if (name.startsWith('tag: ')) {
+      refs.push({ name: name.substring('tag: refs/tags/'.length), type: 'tag' });
+    } else if (name.startsWith('refs/heads/')) {
+      refs.push({ name: name.substring('refs/heads/'.length), type: 'local' });
+    } else if (name.startsWith('refs/remotes/')) {
+      // Skip symbolic remote HEADs such as origin/HEAD; they repeat the remote's default branch
+      if (!name.endsWith('/HEAD')) {
+        refs.push({ name: name.substring('refs/remotes/'.length), type: 'remote' });
+      }
+    } else if (name === 'refs/stash') {
+      refs.push({ name: 'stash', type: 'stash' });
+    }
+  }
+
+  return refs;
+}
+
 /**
  * Get total commit count for a repository
  * @param repoPath - Absolute path to the repository
@@ -143,51 +342,3 @@ export async function getCommitCount(
 
   return parseInt(result.stdout.trim()) || 0;
 }
-
-function parseCommitStatsWithFiles(output: string): { stats: CommitStats; files: FileChange[] } {
-  const lines = output.trim().split('\n');
-  const files: FileChange[] = [];
-  let totalAdditions = 0;
-  let totalDeletions = 0;
-  let filesChanged = 0;
-
-  for (const line of lines) {
-    if (!line.trim()) continue;
-    
-    // Parse numstat format: additions deletions filename
-    const parts = line.split('\t');
-    if (parts.length < 3) continue;
-
-    const additions = parts[0] === '-' ? 0 : parseInt(parts[0]) || 0;
-    const deletions = parts[1] === '-' ? 0 : parseInt(parts[1]) || 0;
-    const path = parts[2];
-
-    totalAdditions += additions;
-    totalDeletions += deletions;
-    filesChanged++;
-
-    // Determine file status
-    let status: FileChange['status'] = 'modified';
-    if (additions > 0 && deletions === 0) {
-      status = 'added';
-    } else if (additions === 0 && deletions > 0) {
-      status = 'deleted';
-    }
-
-    files.push({
-      path,
-      status,
-      additions,
-      deletions,
-    });
-  }
-
-  return {
-    stats: {
-      filesChanged,
-      additions: totalAdditions,
-      deletions: totalDeletions,
-    },
-    files,
-  };
-}
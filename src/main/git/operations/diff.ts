@@ -1,5 +1,11 @@
 import * as dugite from 'dugite';
-import type { DiffResult, FileChange } from '../../../shared/types/git';
+import type { DiffOptions, DiffResult, FileChange, IgnoreWhitespaceMode } from '../../../shared/types/git';
+
+// Raw output carries the status letter, file modes and blob ids, numstat the line counts;
+// -M/-C detect renames and copies, and -z keeps paths with special characters unquoted
+export const DIFF_SUMMARY_ARGS = ['-z', '-M', '-C', '--raw', '--numstat', '--no-abbrev'];
+
+const GITLINK_MODE = '160000';
 
 /**
  * Compare two branches and get the diff
@@ -14,7 +20,7 @@ export async function compareBranches(
   compareBranch: string
 ): Promise<DiffResult> {
   const result = await dugite.GitProcess.exec(
-    ['diff', '--numstat', `${baseBranch}...${compareBranch}`],
+    ['diff', ...DIFF_SUMMARY_ARGS, `${baseBranch}...${compareBranch}`],
     repoPath
   );
 
@@ -22,7 +28,7 @@ export async function compareBranches(
     throw new Error(`Failed to compare branches: ${result.stderr}`);
   }
 
-  return parseDiff(result.stdout);
+  return parseDiffSummary(result.stdout);
 }
 
 /**
@@ -30,14 +36,16 @@ export async function compareBranches(
  * @param repoPath - Absolute path to the repository
  * @param filePaths - Array of file paths
  * @param staged - Whether to get diff for staged changes
+ * @param options - Whitespace, context and algorithm options
  * @returns Diff content
  */
 export async function getFileDiff(
   repoPath: string,
   filePaths: string[],
-  staged: boolean = false
+  staged: boolean = false,
+  options?: DiffOptions
 ): Promise<string> {
-  const args = ['diff'];
+  const args = ['diff', ...getDiffOptionArgs(options)];
   if (staged) {
     args.push('--cached');
   }
@@ -65,7 +73,7 @@ export async function getCommitDiff(
   toCommit: string
 ): Promise<DiffResult> {
   const result = await dugite.GitProcess.exec(
-    ['diff', '--numstat', `${fromCommit}..${toCommit}`],
+    ['diff', ...DIFF_SUMMARY_ARGS, `${fromCommit}..${toCommit}`],
     repoPath
   );
 
@@ -73,7 +81,7 @@ export async function getCommitDiff(
     throw new Error(`Failed to get commit diff: ${result.stderr}`);
   }
 
-  return parseDiff(result.stdout);
+  return parseDiffSummary(result.stdout);
 }
 
 /**
@@ -81,15 +89,20 @@ export async function getCommitDiff(
  * @param repoPath - Absolute path to the repository
  * @param commitSha - Commit SHA
  * @param filePath - File path
+ * @param oldPath - Previous path when the commit renamed the file, so the diff shows a rename
+ * @param options - Whitespace, context and algorithm options
  * @returns Diff content
  */
 export async function getCommitFileDiff(
   repoPath: string,
   commitSha: string,
-  filePath: string
+  filePath: string,
+  oldPath?: string,
+  options?: DiffOptions
 ): Promise<string> {
+  const paths = oldPath && oldPath !== filePath ? [oldPath, filePath] : [filePath];
   const result = await dugite.GitProcess.exec(
-    ['show', `${commitSha}`, '--', filePath],
+    ['show', `${commitSha}`, ...getDiffOptionArgs(options), '--', ...paths],
     repoPath
   );
 
@@ -106,16 +119,18 @@ export async function getCommitFileDiff(
  * @param baseBranch - Base branch name
  * @param compareBranch - Branch to compare against base
  * @param filePaths - Array of file paths
+ * @param options - Whitespace, context and algorithm options
  * @returns Diff content
  */
 export async function getBranchFileDiff(
   repoPath: string,
   baseBranch: string,
   compareBranch: string,
-  filePaths: string[]
+  filePaths: string[],
+  options?: DiffOptions
 ): Promise<string> {
   const result = await dugite.GitProcess.exec(
-    ['diff', `${baseBranch}...${compareBranch}`, '--', ...filePaths],
+    ['diff', ...getDiffOptionArgs(options), `${baseBranch}...${compareBranch}`, '--', ...filePaths],
     repoPath
   );
 
@@ -126,38 +141,76 @@ export async function getBranchFileDiff(
   return result.stdout;
 }
 
-function parseDiff(output: string): DiffResult {
+/**
+ * Parse `git diff` output produced with DIFF_SUMMARY_ARGS. The raw entries come first, then
+ * one numstat entry per file in the same order.
+ */
+export function parseDiffSummary(output: string): DiffResult {
+  const tokens = output.split('\0');
   const files: FileChange[] = [];
+  let numstatIndex = 0;
   let totalAdditions = 0;
   let totalDeletions = 0;
 
-  const lines = output.split('\n').filter((line) => line.trim());
+  let i = 0;
+  while (i < tokens.length) {
+    const token = tokens[i].replace(/^\n+/, '');
+    if (!token) {
+      i++;
+      continue;
+    }
 
-  for (const line of lines) {
-    const parts = line.split('\t');
-    if (parts.length < 3) continue;
+    // Combined merge entries ("::mode mode mode ...") have no numstat counterpart
+    if (token.startsWith('::')) {
+      i += 2;
+      continue;
+    }
 
-    const additions = parts[0] === '-' ? 0 : parseInt(parts[0]);
-    const deletions = parts[1] === '-' ? 0 : parseInt(parts[1]);
-    const path = parts[2];
+    if (token.startsWith(':')) {
+      // ":oldMode newMode oldSha newSha STATUS[score]"
+      const [oldMode, newMode, oldSha, newSha, code] = token.substring(1).split(' ');
+      const letter = code.charAt(0);
+      const hasOldPath = letter === 'R' || letter === 'C';
+      const oldPath = hasOldPath ? tokens[i + 1] : undefined;
+      const path = hasOldPath ? tokens[i + 2] : tokens[i + 1];
+      i += hasOldPath ? 3 : 2;
 
-    // Determine file status
-    let status: FileChange['status'] = 'modified';
-    if (additions > 0 && deletions === 0) {
-      status = 'added';
-    } else if (additions === 0 && deletions > 0) {
-      status = 'deleted';
+      const file: FileChange = {
+        path,
+        status: getDiffStatus(letter),
+        additions: 0,
+        deletions: 0,
+      };
+      if (oldPath) {
+        file.oldPath = oldPath;
+      }
+      if (oldMode === GITLINK_MODE || newMode === GITLINK_MODE) {
+        file.submodule = {
+          oldSha: oldMode === GITLINK_MODE ? oldSha : undefined,
+          newSha: newMode === GITLINK_MODE ? newSha : undefined,
+        };
+      }
+      files.push(file);
+      continue;
     }
 
-    files.push({
-      path,
-      status,
-      additions,
-      deletions,
-    });
+    // "additions\tdeletions\tpath", or an empty path followed by old and new paths
+    const [additions, deletions, path] = token.split('\t');
+    i += path === '' ? 3 : 1;
+
+    const file = files[numstatIndex++];
+    if (!file) continue;
+
+    // Binary files report "-" for both counts
+    if (additions === '-' && deletions === '-') {
+      file.binary = true;
+      continue;
+    }
 
-    totalAdditions += additions;
-    totalDeletions += deletions;
+    file.additions = parseInt(additions) || 0;
+    file.deletions = parseInt(deletions) || 0;
+    totalAdditions += file.additions;
+    totalDeletions += file.deletions;
   }
 
   return {
@@ -166,3 +219,50 @@ function parseDiff(output: string): DiffResult {
     totalDeletions,
   };
 }
+
+function getDiffStatus(letter: string): FileChange['status'] {
+  switch (letter) {
+    case 'A':
+      return 'added';
+    case 'D':
+      return 'deleted';
+    case 'R':
+      return 'renamed';
+    case 'C':
+      return 'copied';
+    case 'T':
+      return 'type-changed';
+    default:
+      return 'modified';
+  }
+}
+
+const IGNORE_WHITESPACE_FLAGS: Record<IgnoreWhitespaceMode, string | null> = {
+  none: null,
+  'at-eol': '--ignore-space-at-eol',
+  change: '--ignore-space-change',
+  all: '--ignore-all-space',
+};
+
+function getDiffOptionArgs(options: DiffOptions = {}): string[] {
+  const args: string[] = [];
+
+  const whitespaceFlag = IGNORE_WHITESPACE_FLAGS[options.ignoreWhitespace ?? 'none'];
+  if (whitespaceFlag) {
+    args.push(whitespaceFlag);
+  }
+  if (options.ignoreBlankLines) {
+    args.push('--ignore-blank-lines');
+  }
+  if (options.contextLines !== undefined && options.contextLines >= 0) {
+    args.push(`--unified=${Math.floor(options.contextLines)}`);
+  }
+  if (options.algorithm) {
+    args.push(`--diff-algorithm=${options.algorithm}`);
+  }
+  if (options.wordDiff) {
+    args.push('--word-diff=porcelain');
+  }
+
+  return args;
+}
@@ -0,0 +1,215 @@
+import * as dugite from 'dugite';
+import { createWriteStream } from 'fs';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import type { BlobContent, DiffContents, TreeEntry } from '../../../shared/types/git';
+
+// Larger files are listed but not loaded for preview
+const MAX_BLOB_SIZE = 1024 * 1024;
+
+/**
+ * Overwrite a working tree file with its content at an earlier revision. The change is left
+ * unstaged so it can be reviewed in Changes before committing.
+ * @param repoPath - Absolute path to the repository
+ * @param sha - Revision to restore the file from
+ * @param sourcePath - Path of the file in that revision (relative to repo root)
+ * @param targetPath - Path to write to; differs from sourcePath when the file was renamed since
+ */
+export async function restoreFileVersion(
+  repoPath: string,
+  sha: string,
+  sourcePath: string,
+  targetPath: string = sourcePath
+): Promise<void> {
+  const target = path.join(repoPath, targetPath);
+  await fs.mkdir(path.dirname(target), { recursive: true });
+
+  // Stream the blob to disk so binary files are not mangled by string decoding;
+  // --filters applies the target path's eol and smudge filters like a checkout would
+  const child = dugite.GitProcess.spawn(
+    ['cat-file', '--filters', `--path=${targetPath}`, `${sha}:${sourcePath}`],
+    repoPath
+  );
+
+  let stderr = '';
+  child.stderr?.on('data', (chunk) => {
+    stderr += chunk;
+  });
+
+  const tempPath = `${target}.gitmoon-restore`;
+  const output = createWriteStream(tempPath);
+  child.stdout?.pipe(output);
+
+  const [exitCode] = await Promise.all([
+    new Promise<number | null>((resolve, reject) => {
+      child.on('error', reject);
+      child.on('close', resolve);
+    }),
+    new Promise<void>((resolve, reject) => {
+      output.on('finish', resolve);
+      output.on('error', reject);
+    }),
+  ]);
+
+  if (exitCode !== 0) {
+    await fs.rm(tempPath, { force: true });
+    throw new Error(`Failed to restore ${targetPath}: ${stderr}`);
+  }
+
+  // Keep the mode (e.g. the executable bit) of the file being replaced
+  const existing = await fs.stat(target).catch(() => null);
+  if (existing) {
+    await fs.chmod(tempPath, existing.mode);
+  }
+
+  await fs.rename(tempPath, target);
+}
+
+/**
+ * List the entries of a directory at a revision
+ * @param repoPath - Absolute path to the repository
+ * @param rev - Branch, tag or commit
+ * @param dirPath - Directory path (relative to repo root); empty for the root
+ * @returns Directories first, then files, each sorted by name
+ */
+export async function getTree(repoPath: string, rev: string, dirPath: string = ''): Promise<TreeEntry[]> {
+  const result = await dugite.GitProcess.exec(
+    ['ls-tree', '-z', '--long', `${rev}:${dirPath}`],
+    repoPath
+  );
+
+  if (result.exitCode !== 0) {
+    throw new Error(`Failed to list ${dirPath || 'repository root'} at ${rev}: ${result.stderr}`);
+  }
+
+  const entries = result.stdout
+    .split('\0')
+    .filter((line) => line.trim())
+    .map((line): TreeEntry => {
+      // <mode> <type> <sha> <size>\t<name>
+      const tab = line.indexOf('\t');
+      const [mode, type, sha, size] = line.substring(0, tab).split(/\s+/);
+      const name = line.substring(tab + 1);
+
+      return {
+        name,
+        path: dirPath ? `${dirPath}/${name}` : name,
+        type: type as TreeEntry['type'],
+        mode,
+        sha,
+        size: size === '-' ? undefined : parseInt(size),
+      };
+    });
+
+  return entries.sort((a, b) => {
+    if ((a.type === 'tree') !== (b.type === 'tree')) {
+      return a.type === 'tree' ? -1 : 1;
+    }
+    return a.name.localeCompare(b.name);
+  });
+}
+
+/**
+ * Read a file's contents at a revision
+ * @param repoPath - Absolute path to the repository
+ * @param rev - Branch, tag or commit
+ * @param filePath - File path (relative to repo root)
+ * @param maxSize - Files larger than this many bytes are not read
+ * @returns Size, binary flag and, for text files within the limit, the content
+ */
+export async function getBlob(
+  repoPath: string,
+  rev: string,
+  filePath: string,
+  maxSize: number = MAX_BLOB_SIZE
+): Promise<BlobContent> {
+  const object = `${rev}:${filePath}`;
+  const sizeResult = await dugite.GitProcess.exec(['cat-file', '-s', object], repoPath);
+
+  if (sizeResult.exitCode !== 0) {
+    throw new Error(`Failed to read ${filePath} at ${rev}: ${sizeResult.stderr}`);
+  }
+
+  const size = parseInt(sizeResult.stdout.trim());
+  if (size > maxSize) {
+    return { path: filePath, size, binary: false, tooLarge: true };
+  }
+
+  const result = await dugite.GitProcess.exec(['cat-file', 'blob', object], repoPath);
+
+  if (result.exitCode !== 0) {
+    throw new Error(`Failed to read ${filePath} at ${rev}: ${result.stderr}`);
+  }
+
+  // Same heuristic as git: a NUL byte in the first 8000 bytes means binary
+  const binary = result.stdout.substring(0, 8000).includes('\0');
+
+  return {
+    path: filePath,
+    size,
+    binary,
+    tooLarge: false,
+    content: binary ? undefined : result.stdout,
+  };
+}
+
+/**
+ * Read both versions of a file from the blob ids on a diff's "index <old>..<new>" line
+ * @param repoPath - Absolute path to the repository
+ * @param filePath - File path (relative to repo root), used to read unstaged changes
+ * @param oldId - Blob id of the old version, possibly abbreviated
+ * @param newId - Blob id of the new version, possibly abbreviated
+ * @returns Text of each side that could be read
+ */
+export async function getDiffContents(
+  repoPath: string,
+  filePath: string,
+  oldId: string,
+  newId: string
+): Promise<DiffContents> {
+  const [oldContent, newContent] = await Promise.all([
+    readBlobText(repoPath, oldId),
+    readBlobText(repoPath, newId).then(
+      // Unstaged changes name a blob that only exists as the working tree file
+      (content) => content ?? readWorkingTreeText(repoPath, filePath, newId)
+    ),
+  ]);
+
+  return { oldContent, newContent };
+}
+
+async function readBlobText(repoPath: string, id: string): Promise<string | undefined> {
+  // An all-zero id stands for the missing side of an added or deleted file
+  if (/^0+$/.test(id)) return undefined;
+
+  const sizeResult = await dugite.GitProcess.exec(['cat-file', '-s', id], repoPath);
+  if (sizeResult.exitCode !== 0 || parseInt(sizeResult.stdout.trim()) > MAX_BLOB_SIZE) {
+    return undefined;
+  }
+
+  const result = await dugite.GitProcess.exec(['cat-file', 'blob', id], repoPath);
+  if (result.exitCode !== 0 || result.stdout.substring(0, 8000).includes('\0')) {
+    return undefined;
+  }
+  return result.stdout;
+}
+
+async function readWorkingTreeText(
+  repoPath: string,
+  filePath: string,
+  id: string
+): Promise<string | undefined> {
+  if (/^0+$/.test(id)) return undefined;
+
+  // Only use the file if it still matches the diff that was shown
+  const hashResult = await dugite.GitProcess.exec(['hash-object', '--', filePath], repoPath);
+  if (hashResult.exitCode !== 0 || !hashResult.stdout.trim().startsWith(id)) {
+    return undefined;
+  }
+
+  const content = await fs.readFile(path.join(repoPath, filePath), 'utf8').catch(() => undefined);
+  if (content === undefined || content.length > MAX_BLOB_SIZE || content.substring(0, 8000).includes('\0')) {
+    return undefined;
+  }
+  return content;
+}
@@ -1,7 +1,22 @@
-export { getCommitHistory, getCommitDetails, getCommitCount } from './commits';
+export { getCommitHistory, getFileHistory, getCommitDetails, getCommitCount, getCommitParents } from './commits';
 export { getBranches, getCurrentBranch, createBranch, deleteBranch, checkout } from './branches';
+export { getTags, createTag, deleteTag, deleteRemoteTag, pushTags } from './tags';
 export { getStatus, stageFiles, unstageFiles, commit } from './status';
+export { stageHunk, unstageHunk, stageLines, unstageLines } from './patch';
 export { compareBranches, getFileDiff, getCommitDiff, getCommitFileDiff, getBranchFileDiff } from './diff';
+export { getMergeState, getConflict, resolveConflict, mergeContinue, mergeAbort } from './merge';
+export { getRebasePlan, startRebase, getRebaseState, continueRebase, skipRebase, abortRebase } from './rebase';
+export { cherryPick, revertCommit, getSequencerState, continueSequencer, abortSequencer } from './cherry-pick';
+export { resetToCommit, getResetSnapshot, undoReset, discardResetSnapshot } from './reset';
+export { getReflog, restoreRef } from './reflog';
+export { getBlame } from './blame';
+export { restoreFileVersion, getTree, getBlob, getDiffContents } from './files';
+export { getSubmodules, initSubmodules, updateSubmodules, syncSubmodules } from './submodules';
+export { cloneRepository } from './clone';
+export { initRepository, getInitTemplates } from './init';
+export { getBisectState, startBisect, markBisect, resetBisect, runBisect } from './bisect';
+export { getWorktrees, addWorktree, removeWorktree, lockWorktree, unlockWorktree, pruneWorktrees } from './worktrees';
+export { stashPush, getStashes, getStashDiff, applyStash, popStash, dropStash, branchFromStash } from './stash';
 export { fetch, pull, push } from './sync';
-export { getRemoteUrl } from './remote';
+export { getRemoteUrl, getRemotes, addRemote, renameRemote, removeRemote, setRemoteUrl } from './remote';
 export { getLastFetchTime, getRepositoryInfo } from './info';
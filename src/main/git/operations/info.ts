@@ -60,3 +60,19 @@ export async function getRepositoryInfo(repoPath: string): Promise<{
     isDetached,
   };
 }
+
+/**
+ * Resolve a path inside the repository's git directory, honouring worktrees and GIT_DIR
+ * @param repoPath - Absolute path to the repository
+ * @param name - Path relative to the git directory (e.g. MERGE_MSG)
+ * @returns Absolute path
+ */
+export async function resolveGitPath(repoPath: string, name: string): Promise<string> {
+  const result = await dugite.GitProcess.exec(['rev-parse', '--git-path', name], repoPath);
+
+  if (result.exitCode !== 0) {
+    throw new Error(`Failed to resolve git path: ${result.stderr}`);
+  }
+
+  return path.resolve(repoPath, result.stdout.trim());
+}
@@ -0,0 +1,89 @@
+import * as dugite from 'dugite';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import type { InitRepositoryOptions, InitTemplates } from '../../../shared/types/git';
+import { GITIGNORE_TEMPLATES, LICENSE_TEMPLATES, renderLicense, renderReadme } from '../templates';
+
+/**
+ * List the .gitignore and license templates bundled with the app
+ * @returns Template ids and display names
+ */
+export function getInitTemplates(): InitTemplates {
+  return {
+    gitignore: GITIGNORE_TEMPLATES.map(({ id, name }) => ({ id, name })),
+    licenses: LICENSE_TEMPLATES.map(({ id, name }) => ({ id, name })),
+  };
+}
+
+/**
+ * Create a repository, write the chosen template files and make the first commit
+ * @param options - Directory, initial branch and templates to write
+ * @returns Absolute path of the new repository
+ */
+export async function initRepository(options: InitRepositoryOptions): Promise<string> {
+  const repoPath = path.resolve(options.path);
+  await fs.mkdir(repoPath, { recursive: true });
+
+  const existing = await fs.stat(path.join(repoPath, '.git')).catch(() => null);
+  if (existing) {
+    throw new Error(`${repoPath} is already a git repository`);
+  }
+
+  const initResult = await dugite.GitProcess.exec(
+    ['init', `--initial-branch=${options.initialBranch || 'main'}`],
+    repoPath
+  );
+
+  if (initResult.exitCode !== 0) {
+    throw new Error(`Failed to init repository: ${initResult.stderr}`);
+  }
+
+  const files = new Map<string, string>();
+
+  const gitignore = GITIGNORE_TEMPLATES.find((template) => template.id === options.gitignore);
+  if (gitignore) {
+    files.set('.gitignore', gitignore.content);
+  }
+
+  const license = LICENSE_TEMPLATES.find((template) => template.id === options.license);
+  if (license) {
+    const holder = options.licenseHolder || (await readUserName(repoPath)) || 'the authors';
+    files.set('LICENSE', renderLicense(license, holder));
+  }
+
+  if (options.readme) {
+    files.set('README.md', renderReadme(path.basename(repoPath), options.description));
+  }
+
+  for (const [name, content] of files) {
+    const filePath = path.join(repoPath, name);
+    // Never overwrite files in a folder that already had content
+    const present = await fs.stat(filePath).catch(() => null);
+    if (!present) {
+      await fs.writeFile(filePath, content, 'utf8');
+    }
+  }
+
+  if (files.size > 0) {
+    const addResult = await dugite.GitProcess.exec(['add', '--', ...files.keys()], repoPath);
+    if (addResult.exitCode !== 0) {
+      throw new Error(`Failed to stage template files: ${addResult.stderr}`);
+    }
+  }
+
+  const commitResult = await dugite.GitProcess.exec(
+    ['commit', '--allow-empty', '-m', options.commitMessage || 'Initial commit'],
+    repoPath
+  );
+
+  if (commitResult.exitCode !== 0) {
+    throw new Error(`Failed to create the first commit: ${commitResult.stderr}`);
+  }
+
+  return repoPath;
+}
+
+async function readUserName(repoPath: string): Promise<string | undefined> {
+  const result = await dugite.GitProcess.exec(['config', 'user.name'], repoPath);
+  return result.exitCode === 0 ? result.stdout.trim() || undefined : undefined;
+}
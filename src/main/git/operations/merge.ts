@@ -0,0 +1,204 @@
+import * as dugite from 'dugite';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import type { ConflictFile, ConflictSegment, MergeState } from '../../../shared/types/git';
+import { resolveGitPath } from './info';
+
+const OURS_LABEL = 'ours';
+const BASE_LABEL = 'base';
+const THEIRS_LABEL = 'theirs';
+
+/**
+ * Get the state of an in-progress merge
+ * @param repoPath - Absolute path to the repository
+ * @returns Whether a merge is in progress, the commit being merged and its message
+ */
+export async function getMergeState(repoPath: string): Promise<MergeState> {
+  const headResult = await dugite.GitProcess.exec(
+    ['rev-parse', '--quiet', '--verify', 'MERGE_HEAD'],
+    repoPath
+  );
+
+  if (headResult.exitCode !== 0) {
+    return { inProgress: false };
+  }
+
+  let message: string | undefined;
+  try {
+    const messagePath = await resolveGitPath(repoPath, 'MERGE_MSG');
+    const content = await fs.readFile(messagePath, 'utf8');
+    message = content.split('\n').find((line) => line.trim() && !line.startsWith('#'));
+  } catch (error) {
+    // MERGE_MSG is optional; the merge head alone identifies the merge
+  }
+
+  return {
+    inProgress: true,
+    mergeHead: headResult.stdout.trim(),
+    message,
+  };
+}
+
+/**
+ * Load the base, ours and theirs versions of a conflicted file from index stages 1, 2 and 3,
+ * along with a three-way merge of them split into common and conflicting segments
+ * @param repoPath - Absolute path to the repository
+ * @param filePath - File path (relative to repo root)
+ * @returns Conflict versions and merge segments
+ */
+export async function getConflict(repoPath: string, filePath: string): Promise<ConflictFile> {
+  const [base, ours, theirs] = await Promise.all([
+    readStage(repoPath, filePath, 1),
+    readStage(repoPath, filePath, 2),
+    readStage(repoPath, filePath, 3),
+  ]);
+
+  if (ours === null && theirs === null) {
+    throw new Error(`${filePath} has no conflict to resolve`);
+  }
+
+  const merged = await mergeVersions(repoPath, base ?? '', ours ?? '', theirs ?? '');
+
+  return {
+    path: filePath,
+    base,
+    ours,
+    theirs,
+    segments: parseConflictMarkers(merged),
+  };
+}
+
+/**
+ * Write the resolved content of a conflicted file and mark it resolved by staging it
+ * @param repoPath - Absolute path to the repository
+ * @param filePath - File path (relative to repo root)
+ * @param content - Resolved content, or null to resolve the conflict by deleting the file
+ */
+export async function resolveConflict(
+  repoPath: string,
+  filePath: string,
+  content: string | null
+): Promise<void> {
+  if (content === null) {
+    const result = await dugite.GitProcess.exec(['rm', '--quiet', '--', filePath], repoPath);
+
+    if (result.exitCode !== 0) {
+      throw new Error(`Failed to resolve conflict: ${result.stderr}`);
+    }
+    return;
+  }
+
+  await fs.writeFile(path.join(repoPath, filePath), content, 'utf8');
+
+  const result = await dugite.GitProcess.exec(['add', '--', filePath], repoPath);
+
+  if (result.exitCode !== 0) {
+    throw new Error(`Failed to resolve conflict: ${result.stderr}`);
+  }
+}
+
+/**
+ * Conclude an in-progress merge once all conflicts are resolved, using the prepared merge message
+ * @param repoPath - Absolute path to the repository
+ */
+export async function mergeContinue(repoPath: string): Promise<void> {
+  const result = await dugite.GitProcess.exec(['merge', '--continue'], repoPath, {
+    env: { GIT_EDITOR: 'true' },
+  });
+
+  if (result.exitCode !== 0) {
+    throw new Error(`Failed to continue merge: ${result.stderr || result.stdout}`);
+  }
+}
+
+/**
+ * Abort an in-progress merge and restore the pre-merge state
+ * @param repoPath - Absolute path to the repository
+ */
+export async function mergeAbort(repoPath: string): Promise<void> {
+  const result = await dugite.GitProcess.exec(['merge', '--abort'], repoPath);
+
+  if (result.exitCode !== 0) {
+    throw new Error(`Failed to abort merge: ${result.stderr}`);
+  }
+}
+
+async function readStage(repoPath: string, filePath: string, stage: number): Promise<string | null> {
+  const result = await dugite.GitProcess.exec(['show', `:${stage}:${filePath}`], repoPath);
+
+  // A missing stage means the file was added or deleted on that side
+  return result.exitCode === 0 ? result.stdout : null;
+}
+
+async function mergeVersions(
+  repoPath: string,
+  base: string,
+  ours: string,
+  theirs: string
+): Promise<string> {
+  const tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'gitmoon-merge-'));
+
+  try {
+    const oursPath = path.join(tempDir, OURS_LABEL);
+    const basePath = path.join(tempDir, BASE_LABEL);
+    const theirsPath = path.join(tempDir, THEIRS_LABEL);
+    await Promise.all([
+      fs.writeFile(oursPath, ours, 'utf8'),
+      fs.writeFile(basePath, base, 'utf8'),
+      fs.writeFile(theirsPath, theirs, 'utf8'),
+    ]);
+
+    const result = await dugite.GitProcess.exec(
+      [
+        'merge-file', '-p', '--diff3',
+        '-L', OURS_LABEL, '-L', BASE_LABEL, '-L', THEIRS_LABEL,
+        oursPath, basePath, theirsPath,
+      ],
+      repoPath
+    );
+
+    // merge-file exits with the number of conflicts, or a negative value on error
+    if (result.exitCode < 0 || result.exitCode > 127) {
+      throw new Error(`Failed to merge file versions: ${result.stderr}`);
+    }
+
+    return result.stdout;
+  } finally {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  }
+}
+
+function parseConflictMarkers(merged: string): ConflictSegment[] {
+  const segments: ConflictSegment[] = [];
+  let common = '';
+  let conflict: { ours: string; base: string; theirs: string } | null = null;
+  let section: 'ours' | 'base' | 'theirs' = 'ours';
+
+  // Keep line endings so segments join back into the exact file content
+  for (const line of merged.split(/(?<=\n)/)) {
+    const marker = line.replace(/\r?\n$/, '');
+
+    if (!conflict && marker === `<<<<<<< ${OURS_LABEL}`) {
+      if (common) segments.push({ type: 'common', content: common });
+      common = '';
+      conflict = { ours: '', base: '', theirs: '' };
+      section = 'ours';
+    } else if (conflict && section === 'ours' && marker === `||||||| ${BASE_LABEL}`) {
+      section = 'base';
+    } else if (conflict && section !== 'theirs' && marker === '=======') {
+      section = 'theirs';
+    } else if (conflict && section === 'theirs' && marker === `>>>>>>> ${THEIRS_LABEL}`) {
+      segments.push({ type: 'conflict', ...conflict });
+      conflict = null;
+    } else if (conflict) {
+      conflict[section] += line;
+    } else {
+      common += line;
+    }
+  }
+
+  if (common) segments.push({ type: 'common', content: common });
+
+  return segments;
+}
@@ -0,0 +1,55 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import * as dugite from 'dugite';
+import { stageLines, unstageLines } from './patch';
+
+vi.mock('dugite', () => ({
+  GitProcess: { exec: vi.fn() },
+}));
+
+const exec = vi.mocked(dugite.GitProcess.exec);
+type ExecResult = Awaited<ReturnType<typeof exec>>;
+
+// Old file "x\ny" without a newline at the end, new file "x\nY\nz\n"
+const diffHeader = ['diff --git a/f b/f', 'index 1b32298..20a747d 100644', '--- a/f', '+++ b/f'];
+const noNewlineDiff = [...diffHeader, '@@ -1,2 +1,3 @@', ' x', '-y', '\\ No newline at end of file', '+Y', '+z', ''].join('\n');
+
+// Patch passed to `git apply` after `git diff` returned the given output
+const appliedPatch = async (diff: string, apply: () => Promise<void>) => {
+  exec.mockResolvedValueOnce({ exitCode: 0, stdout: diff, stderr: '' } as ExecResult);
+  exec.mockResolvedValueOnce({ exitCode: 0, stdout: '', stderr: '' } as ExecResult);
+  await apply();
+  return exec.mock.calls[1][2]?.stdin;
+};
+
+describe('line staging', () => {
+  beforeEach(() => {
+    exec.mockReset();
+  });
+
+  it('re-adds a kept last line without a newline when added lines follow it', async () => {
+    const patch = await appliedPatch(noNewlineDiff, () =>
+      stageLines('/repo', 'f', [{ hunkIndex: 0, lineIndices: [3] }])
+    );
+
+    // Index becomes "x\ny\nY\n" rather than "x\nyY\n"
+    expect(patch).toBe(
+      [...diffHeader, '@@ -1,2 +1,3 @@', ' x', '-y', '\\ No newline at end of file', '+y', '+Y', ''].join('\n')
+    );
+  });
+
+  it('keeps a plain context line when nothing selected follows it', async () => {
+    const diff = [...diffHeader, '@@ -1,2 +1,2 @@', '-x', '+X', ' y', '\\ No newline at end of file', ''].join('\n');
+    const patch = await appliedPatch(diff, () => stageLines('/repo', 'f', [{ hunkIndex: 0, lineIndices: [0, 1] }]));
+
+    expect(patch).toBe(diff);
+  });
+
+  it('drops the marker of an unstaged line that context lines now follow', async () => {
+    const patch = await appliedPatch(noNewlineDiff, () =>
+      unstageLines('/repo', 'f', [{ hunkIndex: 0, lineIndices: [1] }])
+    );
+
+    // Reversed onto "x\nY\nz\n", this restores "x\ny\nY\nz\n"
+    expect(patch).toBe([...diffHeader, '@@ -1,4 +1,3 @@', ' x', '-y', ' Y', ' z', ''].join('\n'));
+  });
+});
@@ -0,0 +1,252 @@
+import * as dugite from 'dugite';
+import type { DiffLineSelection } from '../../../shared/types/git';
+
+interface DiffHunk {
+  oldStart: number;
+  oldCount: number;
+  newStart: number;
+  newCount: number;
+  context: string;
+  lines: string[];
+}
+
+interface FileDiff {
+  header: string[];
+  hunks: DiffHunk[];
+}
+
+/**
+ * Stage a single hunk of a file's unstaged changes
+ * @param repoPath - Absolute path to the repository
+ * @param filePath - File path (relative to repo root)
+ * @param hunkIndex - Index of the hunk in the file's unstaged diff
+ */
+export async function stageHunk(repoPath: string, filePath: string, hunkIndex: number): Promise<void> {
+  await applySelection(repoPath, filePath, [{ hunkIndex, lineIndices: 'all' }], false);
+}
+
+/**
+ * Unstage a single hunk of a file's staged changes
+ * @param repoPath - Absolute path to the repository
+ * @param filePath - File path (relative to repo root)
+ * @param hunkIndex - Index of the hunk in the file's staged diff
+ */
+export async function unstageHunk(repoPath: string, filePath: string, hunkIndex: number): Promise<void> {
+  await applySelection(repoPath, filePath, [{ hunkIndex, lineIndices: 'all' }], true);
+}
+
+/**
+ * Stage selected lines of a file's unstaged changes
+ * @param repoPath - Absolute path to the repository
+ * @param filePath - File path (relative to repo root)
+ * @param selections - Selected line indices, grouped by hunk
+ */
+export async function stageLines(
+  repoPath: string,
+  filePath: string,
+  selections: DiffLineSelection[]
+): Promise<void> {
+  await applySelection(repoPath, filePath, selections, false);
+}
+
+/**
+ * Unstage selected lines of a file's staged changes
+ * @param repoPath - Absolute path to the repository
+ * @param filePath - File path (relative to repo root)
+ * @param selections - Selected line indices, grouped by hunk
+ */
+export async function unstageLines(
+  repoPath: string,
+  filePath: string,
+  selections: DiffLineSelection[]
+): Promise<void> {
+  await applySelection(repoPath, filePath, selections, true);
+}
+
+type HunkSelection = { hunkIndex: number; lineIndices: number[] | 'all' };
+
+async function applySelection(
+  repoPath: string,
+  filePath: string,
+  selections: HunkSelection[],
+  cached: boolean
+): Promise<void> {
+  const diffArgs = ['diff', '--no-color', '--no-ext-diff'];
+  if (cached) {
+    diffArgs.push('--cached');
+  }
+  diffArgs.push('--', filePath);
+
+  const diffResult = await dugite.GitProcess.exec(diffArgs, repoPath);
+
+  if (diffResult.exitCode !== 0) {
+    throw new Error(`Failed to read diff: ${diffResult.stderr}`);
+  }
+
+  const fileDiff = parseFileDiff(diffResult.stdout);
+  const patch = buildPatch(fileDiff, selections, cached);
+  if (!patch) return;
+
+  const args = ['apply', '--cached', '--whitespace=nowarn'];
+  if (cached) {
+    args.push('--reverse');
+  }
+  args.push('-');
+
+  const result = await dugite.GitProcess.exec(args, repoPath, { stdin: patch });
+
+  if (result.exitCode !== 0) {
+    throw new Error(`Failed to apply patch: ${result.stderr}`);
+  }
+}
+
+function parseFileDiff(output: string): FileDiff {
+  const header: string[] = [];
+  const hunks: DiffHunk[] = [];
+  let current: DiffHunk | null = null;
+
+  for (const line of output.split('\n')) {
+    const match = line.match(/^@@ -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? @@(.*)$/);
+    if (match) {
+      current = {
+        oldStart: parseInt(match[1]),
+        oldCount: match[2] !== undefined ? parseInt(match[2]) : 1,
+        newStart: parseInt(match[3]),
+        newCount: match[4] !== undefined ? parseInt(match[4]) : 1,
+        context: match[5],
+        lines: [],
+      };
+      hunks.push(current);
+    } else if (current) {
+      // Hunk lines always carry a prefix, so an empty line is the trailing newline
+      if (line) current.lines.push(line);
+    } else if (line) {
+      header.push(line);
+    }
+  }
+
+  return { header, hunks };
+}
+
+/**
+ * Build a patch containing only the selected lines. For staging the patch is applied
+ * forwards on top of the index, so unselected additions are dropped and unselected
+ * removals become context. For unstaging the patch is applied in reverse, so the
+ * roles are swapped: unselected additions become context and removals are dropped.
+ */
+function buildPatch(fileDiff: FileDiff, selections: HunkSelection[], reverse: boolean): string | null {
+  if (fileDiff.hunks.length === 0) {
+    throw new Error('No changes found for this file; refresh and try again');
+  }
+
+  const selectionByHunk = new Map<number, Set<number> | 'all'>();
+  for (const selection of selections) {
+    const hunk = fileDiff.hunks[selection.hunkIndex];
+    if (!hunk) {
+      throw new Error('The diff has changed since it was loaded; refresh and try again');
+    }
+    selectionByHunk.set(
+      selection.hunkIndex,
+      selection.lineIndices === 'all' ? 'all' : new Set(selection.lineIndices)
+    );
+  }
+
+  const isNewOrDeleted = fileDiff.header.some(
+    (line) => line.startsWith('new file mode') || line.startsWith('deleted file mode')
+  );
+  if (isNewOrDeleted && !selectsEverything(fileDiff, selectionByHunk)) {
+    throw new Error('Added or deleted files can only be staged as a whole');
+  }
+
+  const dropPrefix = reverse ? '-' : '+';
+  const keepPrefix = reverse ? '+' : '-';
+  const output: string[] = [...fileDiff.header];
+  let offset = 0;
+
+  fileDiff.hunks.forEach((hunk, hunkIndex) => {
+    const selected = selectionByHunk.get(hunkIndex);
+    if (!selected) return;
+
+    const lines: string[] = [];
+    let oldCount = 0;
+    let newCount = 0;
+    let hasChanges = false;
+    // The marker after the previous line was dropped with it or already written
+    let skipMarker = false;
+
+    const isSelected = (lineIndex: number) => selected === 'all' || selected.has(lineIndex);
+
+    hunk.lines.forEach((line, lineIndex) => {
+      const prefix = line[0];
+
+      if (prefix === '\\') {
+        // "\ No newline at end of file" belongs to the preceding line
+        if (!skipMarker) lines.push(line);
+        return;
+      }
+
+      skipMarker = false;
+
+      if (prefix === ' ') {
+        lines.push(line);
+        oldCount++;
+        newCount++;
+      } else if (isSelected(lineIndex) && (prefix === '+' || prefix === '-')) {
+        lines.push(line);
+        hasChanges = true;
+        // Unselected lines after it turn into context on the same side, so it is no longer last
+        skipMarker = hunk.lines.some(
+          (later, laterIndex) => laterIndex > lineIndex && later[0] === keepPrefix && !isSelected(laterIndex)
+        );
+        if (prefix === '+') newCount++;
+        else oldCount++;
+      } else if (prefix === keepPrefix) {
+        const text = line.substring(1);
+        const marker = hunk.lines[lineIndex + 1];
+        const followedBySelection = hunk.lines.some(
+          (later, laterIndex) => laterIndex > lineIndex && later[0] === dropPrefix && isSelected(laterIndex)
+        );
+
+        if (marker?.[0] === '\\' && followedBySelection) {
+          // A kept last line without a newline gets selected lines after it. As context it
+          // would keep the missing newline and git would join the next line onto it, so
+          // rewrite it: without a newline on the side the patch applies to, with one on the other
+          lines.push(...(reverse ? [`-${text}`, `+${text}`, marker] : [`-${text}`, marker, `+${text}`]));
+          skipMarker = true;
+        } else {
+          lines.push(` ${text}`);
+        }
+        oldCount++;
+        newCount++;
+      } else if (prefix === dropPrefix) {
+        skipMarker = true;
+      }
+    });
+
+    if (!hasChanges) return;
+
+    // Only the side the patch is applied to keeps its original line numbers
+    const oldStart = reverse ? hunk.newStart + offset : hunk.oldStart;
+    const newStart = reverse ? hunk.newStart : hunk.oldStart + offset;
+    offset += reverse ? oldCount - newCount : newCount - oldCount;
+
+    output.push(`@@ -${oldStart},${oldCount} +${newStart},${newCount} @@${hunk.context}`);
+    output.push(...lines);
+  });
+
+  if (output.length === fileDiff.header.length) {
+    return null;
+  }
+
+  return output.join('\n') + '\n';
+}
+
+function selectsEverything(fileDiff: FileDiff, selectionByHunk: Map<number, Set<number> | 'all'>): boolean {
+  return fileDiff.hunks.every((hunk, hunkIndex) => {
+    const selected = selectionByHunk.get(hunkIndex);
+    if (selected === 'all') return true;
+    return hunk.lines.every(
+      (line, lineIndex) => (line[0] !== '+' && line[0] !== '-') || (selected?.has(lineIndex) ?? false)
+    );
+  });
+}
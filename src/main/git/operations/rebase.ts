@@ -0,0 +1,237 @@
+import * as dugite from 'dugite';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import type { RebaseState, RebaseTodoItem } from '../../../shared/types/git';
+import { resolveGitPath } from './info';
+
+// Generated todo and reword messages live here for the lifetime of a rebase
+const PLAN_DIR = 'gitmoon-rebase';
+
+// Rebases run without a terminal, so any editor git opens must exit immediately
+const NON_INTERACTIVE_ENV = { GIT_EDITOR: 'true' };
+
+/**
+ * Get the commits an interactive rebase onto a base would replay, oldest first
+ * @param repoPath - Absolute path to the repository
+ * @param base - Branch, tag or commit to rebase onto
+ * @returns Todo items, all set to pick
+ */
+export async function getRebasePlan(repoPath: string, base: string): Promise<RebaseTodoItem[]> {
+  const result = await dugite.GitProcess.exec(
+    ['log', '--reverse', '--no-merges', '--format=%H%x00%s', `${base}..HEAD`],
+    repoPath
+  );
+
+  if (result.exitCode !== 0) {
+    throw new Error(`Failed to get rebase plan: ${result.stderr}`);
+  }
+
+  return result.stdout
+    .split('\n')
+    .filter((line) => line.trim())
+    .map((line) => {
+      const [sha, message] = line.split('\0');
+      return { action: 'pick', sha, message };
+    });
+}
+
+/**
+ * Start an interactive rebase that replays the given todo list instead of opening an editor
+ * @param repoPath - Absolute path to the repository
+ * @param base - Branch, tag or commit to rebase onto
+ * @param todo - Todo items in the order they should be applied
+ * @returns Rebase state; still in progress when the rebase stopped for an edit or a conflict
+ */
+export async function startRebase(
+  repoPath: string,
+  base: string,
+  todo: RebaseTodoItem[]
+): Promise<RebaseState> {
+  const current = await getRebaseState(repoPath);
+  if (current.inProgress) {
+    throw new Error('A rebase is already in progress');
+  }
+
+  const planDir = await resolveGitPath(repoPath, PLAN_DIR);
+  await fs.rm(planDir, { recursive: true, force: true });
+  await fs.mkdir(planDir, { recursive: true });
+
+  const todoPath = path.join(planDir, 'git-rebase-todo');
+  await fs.writeFile(todoPath, await buildTodo(todo, planDir), 'utf8');
+
+  const result = await dugite.GitProcess.exec(['rebase', '--interactive', base], repoPath, {
+    env: {
+      ...NON_INTERACTIVE_ENV,
+      GIT_SEQUENCE_EDITOR: `cp ${shellQuote(todoPath)}`,
+    },
+  });
+
+  return finishStep(repoPath, result, 'start rebase');
+}
+
+/**
+ * Get the state of an in-progress rebase
+ * @param repoPath - Absolute path to the repository
+ * @returns Rebase state
+ */
+export async function getRebaseState(repoPath: string): Promise<RebaseState> {
+  const mergeDir = await resolveGitPath(repoPath, 'rebase-merge');
+  const applyDir = await resolveGitPath(repoPath, 'rebase-apply');
+
+  if (await exists(mergeDir)) {
+    const [headName, onto, step, totalSteps, stoppedSha] = await Promise.all([
+      readStateFile(mergeDir, 'head-name'),
+      readStateFile(mergeDir, 'onto'),
+      readStateFile(mergeDir, 'msgnum'),
+      readStateFile(mergeDir, 'end'),
+      readStateFile(mergeDir, 'stopped-sha'),
+    ]);
+
+    return {
+      inProgress: true,
+      headName: headName?.replace(/^refs\/heads\//, ''),
+      onto,
+      step: step ? parseInt(step) : undefined,
+      totalSteps: totalSteps ? parseInt(totalSteps) : undefined,
+      stoppedSha,
+    };
+  }
+
+  if (await exists(applyDir)) {
+    const [headName, onto, step, totalSteps] = await Promise.all([
+      readStateFile(applyDir, 'head-name'),
+      readStateFile(applyDir, 'onto'),
+      readStateFile(applyDir, 'next'),
+      readStateFile(applyDir, 'last'),
+    ]);
+
+    return {
+      inProgress: true,
+      headName: headName?.replace(/^refs\/heads\//, ''),
+      onto,
+      step: step ? parseInt(step) : undefined,
+      totalSteps: totalSteps ? parseInt(totalSteps) : undefined,
+    };
+  }
+
+  return { inProgress: false };
+}
+
+/**
+ * Continue a rebase after resolving conflicts or editing a commit
+ * @param repoPath - Absolute path to the repository
+ * @returns Rebase state after continuing
+ */
+export async function continueRebase(repoPath: string): Promise<RebaseState> {
+  const unmerged = await dugite.GitProcess.exec(['diff', '--name-only', '--diff-filter=U'], repoPath);
+  if (unmerged.stdout.trim()) {
+    throw new Error('Resolve all conflicts before continuing the rebase');
+  }
+
+  const result = await dugite.GitProcess.exec(['rebase', '--continue'], repoPath, {
+    env: NON_INTERACTIVE_ENV,
+  });
+
+  return finishStep(repoPath, result, 'continue rebase');
+}
+
+/**
+ * Skip the commit the rebase stopped at
+ * @param repoPath - Absolute path to the repository
+ * @returns Rebase state after skipping
+ */
+export async function skipRebase(repoPath: string): Promise<RebaseState> {
+  const result = await dugite.GitProcess.exec(['rebase', '--skip'], repoPath, {
+    env: NON_INTERACTIVE_ENV,
+  });
+
+  return finishStep(repoPath, result, 'skip commit');
+}
+
+/**
+ * Abort a rebase and restore the branch to where it was before the rebase started
+ * @param repoPath - Absolute path to the repository
+ */
+export async function abortRebase(repoPath: string): Promise<void> {
+  const result = await dugite.GitProcess.exec(['rebase', '--abort'], repoPath);
+
+  if (result.exitCode !== 0) {
+    throw new Error(`Failed to abort rebase: ${result.stderr}`);
+  }
+
+  await fs.rm(await resolveGitPath(repoPath, PLAN_DIR), { recursive: true, force: true });
+}
+
+async function buildTodo(todo: RebaseTodoItem[], planDir: string): Promise<string> {
+  if (todo.length === 0) {
+    throw new Error('Nothing to rebase');
+  }
+
+  const first = todo.find((item) => item.action !== 'drop');
+  if (first && (first.action === 'squash' || first.action === 'fixup')) {
+    throw new Error(`Cannot ${first.action} ${first.sha.substring(0, 7)} without a previous commit`);
+  }
+
+  const lines: string[] = [];
+  for (const [index, item] of todo.entries()) {
+    if (item.action !== 'reword') {
+      lines.push(`${item.action} ${item.sha} ${item.message}`);
+      continue;
+    }
+
+    if (!item.newMessage?.trim()) {
+      throw new Error(`Reword of ${item.sha.substring(0, 7)} needs a new message`);
+    }
+
+    // Reword without an editor: pick the commit, then amend it with the prepared message
+    const messagePath = path.join(planDir, `message-${index}`);
+    await fs.writeFile(messagePath, item.newMessage, 'utf8');
+    lines.push(`pick ${item.sha} ${item.message}`);
+    lines.push(`exec git commit --amend --allow-empty --no-verify --file=${shellQuote(messagePath)}`);
+  }
+
+  return lines.join('\n') + '\n';
+}
+
+async function finishStep(
+  repoPath: string,
+  result: { exitCode: number; stdout: string; stderr: string },
+  action: string
+): Promise<RebaseState> {
+  const state = await getRebaseState(repoPath);
+
+  // The copied todo and reword messages are only needed while the rebase runs
+  if (!state.inProgress) {
+    await fs.rm(await resolveGitPath(repoPath, PLAN_DIR), { recursive: true, force: true });
+  }
+
+  // A conflict or an edit stop leaves the rebase in progress; that is not a failure
+  if (result.exitCode !== 0 && !state.inProgress) {
+    throw new Error(`Failed to ${action}: ${result.stderr || result.stdout}`);
+  }
+
+  return state;
+}
+
+async function readStateFile(dir: string, name: string): Promise<string | undefined> {
+  try {
+    const content = await fs.readFile(path.join(dir, name), 'utf8');
+    return content.trim() || undefined;
+  } catch (error) {
+    return undefined;
+  }
+}
+
+async function exists(filePath: string): Promise<boolean> {
+  try {
+    await fs.access(filePath);
+    return true;
+  } catch (error) {
+    return false;
+  }
+}
+
+function shellQuote(filePath: string): string {
+  // Git runs editors and exec lines through sh, including on Windows
+  return `'${filePath.replace(/\\/g, '/').replace(/'/g, `'\\''`)}'`;
+}
@@ -0,0 +1,78 @@
+import * as dugite from 'dugite';
+import type { ReflogEntry, ResetSnapshot } from '../../../shared/types/git';
+import { getCurrentBranch } from './branches';
+import { resetToCommit } from './reset';
+
+/**
+ * Get the reflog of HEAD or a local branch, newest first
+ * @param repoPath - Absolute path to the repository
+ * @param ref - 'HEAD' or a local branch name
+ * @param limit - Maximum number of entries to return
+ * @returns Reflog entries
+ */
+export async function getReflog(
+  repoPath: string,
+  ref: string = 'HEAD',
+  limit: number = 200
+): Promise<ReflogEntry[]> {
+  // One extra entry supplies the old sha of the last entry returned
+  const result = await dugite.GitProcess.exec(
+    ['log', '--walk-reflogs', '--date=unix', '--format=%H%x00%gd%x00%gs', `-n${limit + 1}`, ref, '--'],
+    repoPath
+  );
+
+  if (result.exitCode !== 0) {
+    throw new Error(`Failed to get reflog: ${result.stderr}`);
+  }
+
+  const entries = result.stdout
+    .split('\n')
+    .filter((line) => line.trim())
+    .map((line, index): ReflogEntry => {
+      const [newSha, selector, subject] = line.split('\0');
+      // With --date=unix the selector reads <ref>@{<timestamp>}
+      const timestamp = selector.match(/@\{(\d+)\}$/)?.[1];
+      const separator = subject.indexOf(': ');
+
+      return {
+        index,
+        newSha,
+        action: separator === -1 ? subject : subject.substring(0, separator),
+        message: separator === -1 ? '' : subject.substring(separator + 2),
+        date: new Date(timestamp ? parseInt(timestamp) * 1000 : 0),
+      };
+    });
+
+  // Each entry moved the ref from where the next older entry left it
+  entries.forEach((entry, index) => {
+    entry.oldSha = entries[index + 1]?.newSha;
+  });
+
+  return entries.slice(0, limit);
+}
+
+/**
+ * Move HEAD or a branch back to an earlier position. HEAD and the checked-out branch are
+ * hard reset (with an undo snapshot); any other branch is repointed, or recreated if it was deleted.
+ * @param repoPath - Absolute path to the repository
+ * @param ref - 'HEAD' or a local branch name
+ * @param sha - Commit to restore the ref to
+ * @returns Snapshot taken when the working tree was reset, otherwise null
+ */
+export async function restoreRef(
+  repoPath: string,
+  ref: string,
+  sha: string
+): Promise<ResetSnapshot | null> {
+  if (ref === 'HEAD' || ref === await getCurrentBranch(repoPath)) {
+    return resetToCommit(repoPath, sha, 'hard');
+  }
+
+  const result = await dugite.GitProcess.exec(['branch', '--force', ref, sha], repoPath);
+
+  if (result.exitCode !== 0) {
+    throw new Error(`Failed to restore ${ref}: ${result.stderr}`);
+  }
+
+  return null;
+}
@@ -1,15 +1,120 @@
 import { GitProcess } from 'dugite';
+import type { Remote } from '../../../shared/types/git';
 
-export async function getRemoteUrl(repoPath: string): Promise<string | undefined> {
+export async function getRemoteUrl(repoPath: string, remote: string = 'origin'): Promise<string | undefined> {
   try {
-    const result = await GitProcess.exec(['remote', 'get-url', 'origin'], repoPath);
-    
+    const result = await GitProcess.exec(['remote', 'get-url', remote], repoPath);
+
     if (result.exitCode === 0 && result.stdout.trim()) {
       return result.stdout.trim();
     }
-    
+
     return undefined;
   } catch (error) {
     return undefined;
   }
 }
+
+/**
+ * Get all configured remotes with their fetch and push URLs
+ * @param repoPath - Absolute path to the repository
+ * @returns Array of remotes
+ */
+export async function getRemotes(repoPath: string): Promise<Remote[]> {
+  const result = await GitProcess.exec(['remote', '--verbose'], repoPath);
+
+  if (result.exitCode !== 0) {
+    throw new Error(`Failed to get remotes: ${result.stderr}`);
+  }
+
+  return parseRemotes(result.stdout);
+}
+
+/**
+ * Add a remote
+ * @param repoPath - Absolute path to the repository
+ * @param name - Name of the remote
+ * @param url - Fetch URL of the remote
+ */
+export async function addRemote(repoPath: string, name: string, url: string): Promise<void> {
+  const result = await GitProcess.exec(['remote', 'add', '--', name, url], repoPath);
+
+  if (result.exitCode !== 0) {
+    throw new Error(`Failed to add remote: ${result.stderr}`);
+  }
+}
+
+/**
+ * Rename a remote, updating its remote-tracking branches and config
+ * @param repoPath - Absolute path to the repository
+ * @param oldName - Current name of the remote
+ * @param newName - New name of the remote
+ */
+export async function renameRemote(repoPath: string, oldName: string, newName: string): Promise<void> {
+  const result = await GitProcess.exec(['remote', 'rename', '--', oldName, newName], repoPath);
+
+  if (result.exitCode !== 0) {
+    throw new Error(`Failed to rename remote: ${result.stderr}`);
+  }
+}
+
+/**
+ * Remove a remote and its remote-tracking branches
+ * @param repoPath - Absolute path to the repository
+ * @param name - Name of the remote
+ */
+export async function removeRemote(repoPath: string, name: string): Promise<void> {
+  const result = await GitProcess.exec(['remote', 'remove', '--', name], repoPath);
+
+  if (result.exitCode !== 0) {
+    throw new Error(`Failed to remove remote: ${result.stderr}`);
+  }
+}
+
+/**
+ * Change the fetch or push URL of a remote
+ * @param repoPath - Absolute path to the repository
+ * @param name - Name of the remote
+ * @param url - New URL
+ * @param pushUrl - Set the push URL instead of the fetch URL
+ */
+export async function setRemoteUrl(
+  repoPath: string,
+  name: string,
+  url: string,
+  pushUrl: boolean = false
+): Promise<void> {
+  const args = ['remote', 'set-url'];
+  if (pushUrl) {
+    args.push('--push');
+  }
+  args.push('--', name, url);
+
+  const result = await GitProcess.exec(args, repoPath);
+
+  if (result.exitCode !== 0) {
+    throw new Error(`Failed to set remote URL: ${result.stderr}`);
+  }
+}
+
+function parseRemotes(output: string): Remote[] {
+  const remotes = new Map<string, Remote>();
+  const lines = output.split('\n').filter((line) => line.trim());
+
+  for (const line of lines) {
+    // Each remote is listed twice: "origin\thttps://... (fetch)" and "... (push)"
+    const match = line.match(/^(\S+)\t(.*) \((fetch|push)\)$/);
+    if (!match) continue;
+
+    const [, name, url, kind] = match;
+    const remote = remotes.get(name) || { name, fetchUrl: '', pushUrl: '' };
+    if (kind === 'fetch') {
+      remote.fetchUrl = url;
+    } else {
+      remote.pushUrl = url;
+    }
+    remotes.set(name, remote);
+  }
+
+  return Array.from(remotes.values());
+}
@@ -0,0 +1,204 @@
+import * as dugite from 'dugite';
+import type { ResetMode, ResetSnapshot } from '../../../shared/types/git';
+import { getCurrentBranch } from './branches';
+
+// Snapshot refs live outside refs/heads and refs/tags so they never show up as branches or tags
+const SNAPSHOT_HEAD_REF = 'refs/gitmoon/reset-snapshot/head';
+const SNAPSHOT_CHANGES_REF = 'refs/gitmoon/reset-snapshot/changes';
+// Symbolic ref to the branch that was reset. Never pass it to update-ref: that would move or
+// delete the branch itself
+const SNAPSHOT_BRANCH_REF = 'refs/gitmoon/reset-snapshot/branch';
+
+/**
+ * Move the current branch (or detached HEAD) to a commit. A hard reset first records
+ * the previous HEAD and any uncommitted changes so it can be undone with undoReset.
+ * @param repoPath - Absolute path to the repository
+ * @param sha - Commit to reset to
+ * @param mode - soft keeps index and working tree, mixed keeps the working tree, hard discards both
+ * @returns Snapshot taken before a hard reset, or null for soft and mixed resets
+ */
+export async function resetToCommit(
+  repoPath: string,
+  sha: string,
+  mode: ResetMode
+): Promise<ResetSnapshot | null> {
+  const snapshot = mode === 'hard' ? await saveSnapshot(repoPath, sha) : null;
+
+  const result = await dugite.GitProcess.exec(['reset', `--${mode}`, sha], repoPath);
+
+  if (result.exitCode !== 0) {
+    throw new Error(`Failed to reset: ${result.stderr}`);
+  }
+
+  return snapshot;
+}
+
+/**
+ * Get the snapshot recorded by the last hard reset
+ * @param repoPath - Absolute path to the repository
+ * @returns Snapshot, or null if there is nothing to undo
+ */
+export async function getResetSnapshot(repoPath: string): Promise<ResetSnapshot | null> {
+  const previousHead = await readRef(repoPath, SNAPSHOT_HEAD_REF);
+  if (!previousHead) {
+    return null;
+  }
+
+  const branchResult = await dugite.GitProcess.exec(['symbolic-ref', '--quiet', SNAPSHOT_BRANCH_REF], repoPath);
+  const branchRef = branchResult.exitCode === 0 ? branchResult.stdout.trim() : '';
+
+  return {
+    previousHead,
+    branch: branchRef.startsWith('refs/heads/') ? branchRef.substring('refs/heads/'.length) : undefined,
+    changes: await readRef(repoPath, SNAPSHOT_CHANGES_REF),
+  };
+}
+
+/**
+ * Undo the last hard reset: move HEAD back and restore the uncommitted changes it discarded.
+ * The branch that was reset (or a detached HEAD) must still be checked out.
+ * @param repoPath - Absolute path to the repository
+ */
+export async function undoReset(repoPath: string): Promise<void> {
+  const snapshot = await getResetSnapshot(repoPath);
+  if (!snapshot) {
+    throw new Error('No reset to undo');
+  }
+
+  // Resetting another branch to the snapshot would throw away that branch's commits
+  const currentBranch = (await getCurrentBranch(repoPath)) || undefined;
+  if (currentBranch !== snapshot.branch) {
+    throw new Error(
+      snapshot.branch
+        ? `The reset was made on ${snapshot.branch}; check it out before undoing the reset`
+        : 'The reset was made on a detached HEAD; detach HEAD again before undoing the reset'
+    );
+  }
+
+  // Undoing is itself a hard reset, so refuse rather than discard newer work
+  if (await hasTrackedChanges(repoPath)) {
+    throw new Error('Commit or stash your changes before undoing the reset');
+  }
+
+  const resetResult = await dugite.GitProcess.exec(
+    ['reset', '--hard', snapshot.previousHead],
+    repoPath
+  );
+
+  if (resetResult.exitCode !== 0) {
+    throw new Error(`Failed to undo reset: ${resetResult.stderr}`);
+  }
+
+  if (snapshot.changes) {
+    const applyResult = await dugite.GitProcess.exec(
+      ['stash', 'apply', '--index', snapshot.changes],
+      repoPath
+    );
+
+    if (applyResult.exitCode !== 0) {
+      throw new Error(
+        `Restored ${snapshot.previousHead.substring(0, 7)} but failed to restore uncommitted changes ` +
+        `(still saved in ${SNAPSHOT_CHANGES_REF}): ${applyResult.stderr}`
+      );
+    }
+  }
+
+  await discardResetSnapshot(repoPath);
+}
+
+/**
+ * Forget the snapshot recorded by the last hard reset
+ * @param repoPath - Absolute path to the repository
+ */
+export async function discardResetSnapshot(repoPath: string): Promise<void> {
+  for (const ref of [SNAPSHOT_HEAD_REF, SNAPSHOT_CHANGES_REF]) {
+    if (!(await readRef(repoPath, ref))) continue;
+
+    const result = await dugite.GitProcess.exec(['update-ref', '-d', ref], repoPath);
+
+    if (result.exitCode !== 0) {
+      throw new Error(`Failed to discard reset snapshot: ${result.stderr}`);
+    }
+  }
+
+  await deleteBranchRef(repoPath);
+}
+
+async function saveSnapshot(repoPath: string, sha: string): Promise<ResetSnapshot> {
+  const previousHead = await readRef(repoPath, 'HEAD');
+  if (!previousHead) {
+    throw new Error('Failed to reset: HEAD does not point to a commit');
+  }
+
+  // stash create records index and working tree as a commit without touching either
+  const stashResult = await dugite.GitProcess.exec(
+    ['stash', 'create', `Uncommitted changes before reset to ${sha.substring(0, 7)}`],
+    repoPath
+  );
+
+  if (stashResult.exitCode !== 0) {
+    throw new Error(`Failed to save uncommitted changes: ${stashResult.stderr}`);
+  }
+
+  const changes = stashResult.stdout.trim() || undefined;
+  const branch = (await getCurrentBranch(repoPath)) || undefined;
+  const reason = `gitmoon: before reset --hard ${sha}`;
+
+  await updateRef(repoPath, SNAPSHOT_HEAD_REF, previousHead, reason);
+  if (changes) {
+    await updateRef(repoPath, SNAPSHOT_CHANGES_REF, changes, reason);
+  } else {
+    // Don't let changes from an older snapshot be restored onto this one
+    await dugite.GitProcess.exec(['update-ref', '-d', SNAPSHOT_CHANGES_REF], repoPath);
+  }
+
+  if (branch) {
+    const branchResult = await dugite.GitProcess.exec(
+      ['symbolic-ref', '-m', reason, SNAPSHOT_BRANCH_REF, `refs/heads/${branch}`],
+      repoPath
+    );
+
+    if (branchResult.exitCode !== 0) {
+      throw new Error(`Failed to record reset snapshot: ${branchResult.stderr}`);
+    }
+  } else {
+    await deleteBranchRef(repoPath);
+  }
+
+  return { previousHead, branch, changes };
+}
+
+async function deleteBranchRef(repoPath: string): Promise<void> {
+  const existing = await dugite.GitProcess.exec(['symbolic-ref', '--quiet', SNAPSHOT_BRANCH_REF], repoPath);
+  if (existing.exitCode !== 0) return;
+
+  const result = await dugite.GitProcess.exec(['symbolic-ref', '--delete', SNAPSHOT_BRANCH_REF], repoPath);
+
+  if (result.exitCode !== 0) {
+    throw new Error(`Failed to discard reset snapshot: ${result.stderr}`);
+  }
+}
+
+async function updateRef(repoPath: string, ref: string, sha: string, reason: string): Promise<void> {
+  const result = await dugite.GitProcess.exec(
+    ['update-ref', '--create-reflog', '-m', reason, ref, sha],
+    repoPath
+  );
+
+  if (result.exitCode !== 0) {
+    throw new Error(`Failed to record reset snapshot: ${result.stderr}`);
+  }
+}
+
+async function readRef(repoPath: string, ref: string): Promise<string | undefined> {
+  const result = await dugite.GitProcess.exec(['rev-parse', '--quiet', '--verify', `${ref}^{commit}`], repoPath);
+  return result.exitCode === 0 ? result.stdout.trim() : undefined;
+}
+
+async function hasTrackedChanges(repoPath: string): Promise<boolean> {
+  const result = await dugite.GitProcess.exec(
+    ['status', '--porcelain', '--untracked-files=no'],
+    repoPath
+  );
+  return result.stdout.trim().length > 0;
+}
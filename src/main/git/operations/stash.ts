@@ -0,0 +1,178 @@
+import * as dugite from 'dugite';
+import type { Stash, StashPushOptions } from '../../../shared/types/git';
+
+/**
+ * Stash working directory changes
+ * @param repoPath - Absolute path to the repository
+ * @param options - Message, include-untracked and keep-index options
+ */
+export async function stashPush(repoPath: string, options: StashPushOptions = {}): Promise<void> {
+  const args = ['stash', 'push'];
+  if (options.includeUntracked) {
+    args.push('--include-untracked');
+  }
+  if (options.keepIndex) {
+    args.push('--keep-index');
+  }
+  if (options.message) {
+    args.push('--message', options.message);
+  }
+
+  const result = await dugite.GitProcess.exec(args, repoPath);
+
+  if (result.exitCode !== 0) {
+    throw new Error(`Failed to stash changes: ${result.stderr}`);
+  }
+}
+
+/**
+ * List stash entries, newest first
+ * @param repoPath - Absolute path to the repository
+ * @returns Array of stashes
+ */
+export async function getStashes(repoPath: string): Promise<Stash[]> {
+  const result = await dugite.GitProcess.exec(
+    ['stash', 'list', '--format=%gd%x00%H%x00%gs%x00%ct'],
+    repoPath
+  );
+
+  if (result.exitCode !== 0) {
+    throw new Error(`Failed to list stashes: ${result.stderr}`);
+  }
+
+  return parseStashes(result.stdout);
+}
+
+/**
+ * Get the full diff of a stash, including untracked files it saved
+ * @param repoPath - Absolute path to the repository
+ * @param index - Stash index (0 is the most recent)
+ * @returns Diff content
+ */
+export async function getStashDiff(repoPath: string, index: number): Promise<string> {
+  const result = await dugite.GitProcess.exec(
+    ['stash', 'show', '--patch', '--include-untracked', '--no-color', stashRef(index)],
+    repoPath
+  );
+
+  if (result.exitCode !== 0) {
+    throw new Error(`Failed to show stash: ${result.stderr}`);
+  }
+
+  return result.stdout;
+}
+
+/**
+ * Apply a stash without removing it from the stash list
+ * @param repoPath - Absolute path to the repository
+ * @param index - Stash index
+ * @param restoreIndex - Also restore which changes were staged
+ */
+export async function applyStash(
+  repoPath: string,
+  index: number,
+  restoreIndex: boolean = false
+): Promise<void> {
+  const args = ['stash', 'apply'];
+  if (restoreIndex) {
+    args.push('--index');
+  }
+  args.push(stashRef(index));
+
+  const result = await dugite.GitProcess.exec(args, repoPath);
+
+  if (result.exitCode !== 0) {
+    throw new Error(`Failed to apply stash: ${result.stderr}`);
+  }
+}
+
+/**
+ * Apply a stash and remove it from the stash list
+ * @param repoPath - Absolute path to the repository
+ * @param index - Stash index
+ * @param restoreIndex - Also restore which changes were staged
+ */
+export async function popStash(
+  repoPath: string,
+  index: number,
+  restoreIndex: boolean = false
+): Promise<void> {
+  const args = ['stash', 'pop'];
+  if (restoreIndex) {
+    args.push('--index');
+  }
+  args.push(stashRef(index));
+
+  const result = await dugite.GitProcess.exec(args, repoPath);
+
+  if (result.exitCode !== 0) {
+    throw new Error(`Failed to pop stash: ${result.stderr}`);
+  }
+}
+
+/**
+ * Remove a stash from the stash list
+ * @param repoPath - Absolute path to the repository
+ * @param index - Stash index
+ */
+export async function dropStash(repoPath: string, index: number): Promise<void> {
+  const result = await dugite.GitProcess.exec(['stash', 'drop', stashRef(index)], repoPath);
+
+  if (result.exitCode !== 0) {
+    throw new Error(`Failed to drop stash: ${result.stderr}`);
+  }
+}
+
+/**
+ * Create and checkout a new branch at the commit the stash was made on,
+ * apply the stash there and drop it
+ * @param repoPath - Absolute path to the repository
+ * @param index - Stash index
+ * @param branchName - Name of the branch to create
+ */
+export async function branchFromStash(
+  repoPath: string,
+  index: number,
+  branchName: string
+): Promise<void> {
+  const result = await dugite.GitProcess.exec(
+    ['stash', 'branch', branchName, stashRef(index)],
+    repoPath
+  );
+
+  if (result.exitCode !== 0) {
+    throw new Error(`Failed to create branch from stash: ${result.stderr}`);
+  }
+}
+
+function stashRef(index: number): string {
+  if (!Number.isInteger(index) || index < 0) {
+    throw new Error(`Invalid stash index: ${index}`);
+  }
+  return `stash@{${index}}`;
+}
+
+function parseStashes(output: string): Stash[] {
+  const stashes: Stash[] = [];
+  const lines = output.split('\n').filter((line) => line.trim());
+
+  for (const line of lines) {
+    const [ref, sha, subject, timestamp] = line.split('\0');
+    const indexMatch = ref.match(/^stash@\{(\d+)\}$/);
+    if (!indexMatch) continue;
+
+    // Reflog subjects look like "WIP on main: abc1234 subject" or "On main: message"
+    const subjectMatch = subject.match(/^(?:WIP on|On) ([^:]+): (.*)$/);
+
+    stashes.push({
+      index: parseInt(indexMatch[1]),
+      ref,
+      sha,
+      message: subjectMatch ? subjectMatch[2] : subject,
+      branch: subjectMatch ? subjectMatch[1] : undefined,
+      date: new Date(parseInt(timestamp) * 1000),
+    });
+  }
+
+  return stashes;
+}
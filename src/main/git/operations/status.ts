@@ -1,5 +1,6 @@
 import * as dugite from 'dugite';
-import type { RepositoryStatus, FileChange } from '../../../shared/types/git';
+import type { RepositoryStatus, FileChange, CommitOptions } from '../../../shared/types/git';
+import { annotateSubmoduleChanges } from './submodules';
 
 /**
  * Get repository status (staged, unstaged, untracked files)
@@ -16,7 +17,10 @@ export async function getStatus(repoPath: string): Promise<RepositoryStatus> {
     throw new Error(`Failed to get status: ${result.stderr}`);
   }
 
-  return parseStatus(result.stdout);
+  const status = parseStatus(result.stdout);
+  await annotateSubmoduleChanges(repoPath, status);
+
+  return status;
 }
 
 /**
@@ -52,13 +56,46 @@ export async function unstageFiles(repoPath: string, files: string[]): Promise<v
 /**
  * Commit staged changes
  * @param repoPath - Absolute path to the repository
- * @param message - Commit message
+ * @param message - Full commit message (subject, blank line, body); may be empty when amending
+ * @param options - Amend, sign-off, author/date override and allow-empty options
  */
-export async function commit(repoPath: string, message: string): Promise<void> {
-  // Sanitize message to prevent command injection
-  const sanitizedMessage = message.replace(/["'`]/g, '');
-  
-  const result = await dugite.GitProcess.exec(['commit', '-m', sanitizedMessage], repoPath);
+export async function commit(
+  repoPath: string,
+  message: string,
+  options: CommitOptions = {}
+): Promise<void> {
+  const args = ['commit'];
+  if (options.amend) {
+    args.push('--amend');
+  }
+  if (options.signOff) {
+    args.push('--signoff');
+  }
+  if (options.allowEmpty) {
+    args.push('--allow-empty');
+  }
+  if (options.author) {
+    if (!/^[^<>]+ <[^<>]+>$/.test(options.author.trim())) {
+      throw new Error('Author must be in the form "Name <email>"');
+    }
+    args.push(`--author=${options.author.trim()}`);
+  }
+  if (options.date) {
+    args.push(`--date=${options.date}`);
+  }
+
+  // The message goes through stdin, so it reaches git verbatim without any shell quoting
+  let stdin: string | undefined;
+  if (message.trim()) {
+    args.push('--file=-');
+    stdin = message;
+  } else if (options.amend) {
+    args.push('--no-edit');
+  } else {
+    throw new Error('Commit message is required');
+  }
+
+  const result = await dugite.GitProcess.exec(args, repoPath, { stdin });
 
   if (result.exitCode !== 0) {
     throw new Error(`Failed to commit: ${result.stderr}`);
@@ -76,7 +113,8 @@ function parseStatus(output: string): RepositoryStatus {
   const untracked: string[] = [];
   const conflicted: string[] = [];
 
-  for (const entry of entries) {
+  for (let i = 0; i < entries.length; i++) {
+    const entry = entries[i];
     if (entry.startsWith('##')) {
       // Branch info
       const branchInfo = entry.substring(3);
@@ -97,6 +135,8 @@ function parseStatus(output: string): RepositoryStatus {
     const stagedStatus = entry[0];
     const unstagedStatus = entry[1];
     const filePath = entry.substring(3);
+    // With -z, the source of a staged rename or copy follows as its own entry
+    const oldPath = stagedStatus === 'R' || stagedStatus === 'C' ? entries[++i] : undefined;
 
     // Check for conflicts
     if (stagedStatus === 'U' || unstagedStatus === 'U' || (stagedStatus === 'A' && unstagedStatus === 'A')) {
@@ -111,6 +151,7 @@ function parseStatus(output: string): RepositoryStatus {
         status: getFileStatus(stagedStatus),
         additions: 0,
         deletions: 0,
+        ...(oldPath ? { oldPath } : {}),
       });
     }
 
@@ -153,6 +194,8 @@ function getFileStatus(code: string): FileChange['status'] {
       return 'renamed';
     case 'C':
       return 'copied';
+    case 'T':
+      return 'type-changed';
     default:
       return 'modified';
   }
@@ -0,0 +1,185 @@
+import * as dugite from 'dugite';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import type { RepositoryStatus, Submodule } from '../../../shared/types/git';
+
+// Index and tree entries with this mode are submodule commits (gitlinks)
+const GITLINK_MODE = '160000';
+
+/**
+ * List the submodules declared in .gitmodules with their recorded and checked-out commits
+ * @param repoPath - Absolute path to the repository
+ * @returns Array of submodules
+ */
+export async function getSubmodules(repoPath: string): Promise<Submodule[]> {
+  const configResult = await dugite.GitProcess.exec(
+    ['config', '--file', '.gitmodules', '--null', '--get-regexp', '^submodule\\.'],
+    repoPath
+  );
+
+  // Exit code 1 means no matching keys, including a missing .gitmodules
+  if (configResult.exitCode === 1) {
+    return [];
+  }
+  if (configResult.exitCode !== 0) {
+    throw new Error(`Failed to read .gitmodules: ${configResult.stderr}`);
+  }
+
+  const declared = new Map<string, { path?: string; url?: string }>();
+  for (const entry of configResult.stdout.split('\0').filter((e) => e.trim())) {
+    // --null separates key and value with a newline
+    const [key, value = ''] = entry.split('\n');
+    const match = key.match(/^submodule\.(.+)\.(path|url)$/);
+    if (!match) continue;
+
+    const submodule = declared.get(match[1]) ?? {};
+    submodule[match[2] as 'path' | 'url'] = value;
+    declared.set(match[1], submodule);
+  }
+
+  const entries = [...declared.entries()].filter(([, submodule]) => submodule.path);
+  const recorded = await readGitlinks(repoPath, ['ls-files', '--stage', '-z'], entries.map(([, s]) => s.path!));
+
+  return Promise.all(
+    entries.map(async ([name, submodule]): Promise<Submodule> => {
+      const subPath = submodule.path!;
+      const urlResult = await dugite.GitProcess.exec(
+        ['config', '--get', `submodule.${name}.url`],
+        repoPath
+      );
+      const checkedOutSha = await readCheckedOutSha(repoPath, subPath);
+
+      return {
+        name,
+        path: subPath,
+        url: submodule.url ?? '',
+        recordedSha: recorded.get(subPath),
+        checkedOutSha,
+        initialized: urlResult.exitCode === 0,
+        dirty: checkedOutSha ? await isDirty(repoPath, subPath) : false,
+      };
+    })
+  );
+}
+
+/**
+ * Copy submodule URLs from .gitmodules into the repository config
+ * @param repoPath - Absolute path to the repository
+ * @param paths - Submodule paths; all submodules when empty
+ */
+export async function initSubmodules(repoPath: string, paths: string[] = []): Promise<void> {
+  const result = await dugite.GitProcess.exec(['submodule', 'init', '--', ...paths], repoPath);
+
+  if (result.exitCode !== 0) {
+    throw new Error(`Failed to init submodules: ${result.stderr}`);
+  }
+}
+
+/**
+ * Clone missing submodules and check out the commits recorded in the superproject
+ * @param repoPath - Absolute path to the repository
+ * @param paths - Submodule paths; all submodules when empty
+ * @param recursive - Also update nested submodules
+ */
+export async function updateSubmodules(
+  repoPath: string,
+  paths: string[] = [],
+  recursive: boolean = true
+): Promise<void> {
+  const args = ['submodule', 'update', '--init'];
+  if (recursive) {
+    args.push('--recursive');
+  }
+  args.push('--', ...paths);
+
+  const result = await dugite.GitProcess.exec(args, repoPath);
+
+  if (result.exitCode !== 0) {
+    throw new Error(`Failed to update submodules: ${result.stderr}`);
+  }
+}
+
+/**
+ * Update submodule remote URLs after they changed in .gitmodules
+ * @param repoPath - Absolute path to the repository
+ * @param paths - Submodule paths; all submodules when empty
+ */
+export async function syncSubmodules(repoPath: string, paths: string[] = []): Promise<void> {
+  const result = await dugite.GitProcess.exec(
+    ['submodule', 'sync', '--recursive', '--', ...paths],
+    repoPath
+  );
+
+  if (result.exitCode !== 0) {
+    throw new Error(`Failed to sync submodules: ${result.stderr}`);
+  }
+}
+
+/**
+ * Mark status entries that are submodules with the commits their pointer moves between
+ * @param repoPath - Absolute path to the repository
+ * @param status - Parsed status, updated in place
+ */
+export async function annotateSubmoduleChanges(repoPath: string, status: RepositoryStatus): Promise<void> {
+  const paths = [...new Set([...status.staged, ...status.unstaged].map((change) => change.path))];
+  if (paths.length === 0) return;
+
+  const indexShas = await readGitlinks(repoPath, ['ls-files', '--stage', '-z'], paths);
+  const headShas = await readGitlinks(repoPath, ['ls-tree', '-z', 'HEAD'], paths);
+  const submodulePaths = paths.filter((p) => indexShas.has(p) || headShas.has(p));
+
+  for (const subPath of submodulePaths) {
+    const staged = status.staged.find((change) => change.path === subPath);
+    if (staged) {
+      staged.submodule = { oldSha: headShas.get(subPath), newSha: indexShas.get(subPath) };
+    }
+
+    const unstaged = status.unstaged.find((change) => change.path === subPath);
+    if (unstaged) {
+      const checkedOutSha = await readCheckedOutSha(repoPath, subPath);
+      unstaged.submodule = {
+        oldSha: indexShas.get(subPath),
+        newSha: checkedOutSha,
+        dirty: checkedOutSha ? await isDirty(repoPath, subPath) : false,
+      };
+    }
+  }
+}
+
+async function readGitlinks(repoPath: string, command: string[], paths: string[]): Promise<Map<string, string>> {
+  const shas = new Map<string, string>();
+  if (paths.length === 0) return shas;
+
+  const result = await dugite.GitProcess.exec([...command, '--', ...paths], repoPath);
+  if (result.exitCode !== 0) return shas;
+
+  // ls-files: <mode> <sha> <stage>\t<path>; ls-tree: <mode> <type> <sha>\t<path>
+  for (const entry of result.stdout.split('\0').filter((e) => e.trim())) {
+    const tab = entry.indexOf('\t');
+    const fields = entry.substring(0, tab).split(' ');
+    if (fields[0] === GITLINK_MODE) {
+      shas.set(entry.substring(tab + 1), command[0] === 'ls-tree' ? fields[2] : fields[1]);
+    }
+  }
+
+  return shas;
+}
+
+async function readCheckedOutSha(repoPath: string, subPath: string): Promise<string | undefined> {
+  const fullPath = path.join(repoPath, subPath);
+
+  // Without its own .git, rev-parse inside the directory would resolve the superproject's HEAD
+  try {
+    await fs.access(path.join(fullPath, '.git'));
+  } catch (error) {
+    return undefined;
+  }
+
+  const result = await dugite.GitProcess.exec(['rev-parse', 'HEAD'], fullPath);
+  return result.exitCode === 0 ? result.stdout.trim() : undefined;
+}
+
+async function isDirty(repoPath: string, subPath: string): Promise<boolean> {
+  const result = await dugite.GitProcess.exec(['status', '--porcelain'], path.join(repoPath, subPath));
+  return result.exitCode === 0 && result.stdout.trim().length > 0;
+}
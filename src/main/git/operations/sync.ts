@@ -1,25 +1,51 @@
 import { GitProcess } from 'dugite';
 
-export async function fetch(repoPath: string): Promise<void> {
-  const result = await GitProcess.exec(['fetch', '--all', '--prune'], repoPath);
-  
+/**
+ * Fetch from all remotes, or from a single remote when one is given
+ * @param repoPath - Absolute path to the repository
+ * @param remote - Optional remote to fetch from
+ * @param branch - Optional branch to fetch (requires a remote)
+ */
+export async function fetch(repoPath: string, remote?: string, branch?: string): Promise<void> {
+  const args = remote
+    ? ['fetch', '--prune', remote, ...(branch ? [branch] : [])]
+    : ['fetch', '--all', '--prune'];
+  const result = await GitProcess.exec(args, repoPath);
+
   if (result.exitCode !== 0) {
     throw new Error(`Git fetch failed: ${result.stderr}`);
   }
 }
 
-export async function pull(repoPath: string): Promise<void> {
-  const result = await GitProcess.exec(['pull'], repoPath);
-  
+/**
+ * Pull into the current branch, from its upstream unless a remote is given
+ * @param repoPath - Absolute path to the repository
+ * @param remote - Optional remote to pull from
+ * @param branch - Optional remote branch to merge (requires a remote)
+ */
+export async function pull(repoPath: string, remote?: string, branch?: string): Promise<void> {
+  const result = await GitProcess.exec(['pull', ...remoteArgs(remote, branch)], repoPath);
+
   if (result.exitCode !== 0) {
     throw new Error(`Git pull failed: ${result.stderr}`);
   }
 }
 
-export async function push(repoPath: string): Promise<void> {
-  const result = await GitProcess.exec(['push'], repoPath);
-  
+/**
+ * Push the current branch, to its upstream unless a remote is given
+ * @param repoPath - Absolute path to the repository
+ * @param remote - Optional remote to push to
+ * @param branch - Optional branch to push (requires a remote)
+ */
+export async function push(repoPath: string, remote?: string, branch?: string): Promise<void> {
+  const result = await GitProcess.exec(['push', ...remoteArgs(remote, branch)], repoPath);
+
   if (result.exitCode !== 0) {
     throw new Error(`Git push failed: ${result.stderr}`);
   }
 }
+
+function remoteArgs(remote?: string, branch?: string): string[] {
+  if (!remote) return [];
+  return branch ? [remote, branch] : [remote];
+}
@@ -0,0 +1,140 @@
+import * as dugite from 'dugite';
+import type { Tag } from '../../../shared/types/git';
+
+/**
+ * Get all tags in a repository, newest first
+ * @param repoPath - Absolute path to the repository
+ * @returns Array of tags with their target commit and, for annotated tags, tagger and message
+ */
+export async function getTags(repoPath: string): Promise<Tag[]> {
+  const format = [
+    '%(refname:short)',
+    '%(objecttype)',
+    '%(objectname)',
+    '%(*objectname)',
+    '%(taggername)',
+    '%(taggeremail)',
+    '%(creatordate:unix)',
+    '%(contents)',
+  ].join('%00');
+
+  const result = await dugite.GitProcess.exec(
+    ['for-each-ref', 'refs/tags', '--sort=-creatordate', `--format=${format}%1e`],
+    repoPath
+  );
+
+  if (result.exitCode !== 0) {
+    throw new Error(`Failed to get tags: ${result.stderr}`);
+  }
+
+  return parseTags(result.stdout);
+}
+
+/**
+ * Create a tag. The tag is annotated when a message is given, lightweight otherwise.
+ * @param repoPath - Absolute path to the repository
+ * @param tagName - Name of the tag to create
+ * @param target - Commit to tag
+ * @param message - Optional annotation message
+ */
+export async function createTag(
+  repoPath: string,
+  tagName: string,
+  target: string = 'HEAD',
+  message?: string
+): Promise<void> {
+  const args = ['tag'];
+  if (message) {
+    args.push('--annotate', '--message', message);
+  }
+  args.push('--', tagName, target);
+
+  const result = await dugite.GitProcess.exec(args, repoPath);
+
+  if (result.exitCode !== 0) {
+    throw new Error(`Failed to create tag: ${result.stderr}`);
+  }
+}
+
+/**
+ * Delete a local tag
+ * @param repoPath - Absolute path to the repository
+ * @param tagName - Name of the tag to delete
+ */
+export async function deleteTag(repoPath: string, tagName: string): Promise<void> {
+  const result = await dugite.GitProcess.exec(['tag', '--delete', '--', tagName], repoPath);
+
+  if (result.exitCode !== 0) {
+    throw new Error(`Failed to delete tag: ${result.stderr}`);
+  }
+}
+
+/**
+ * Delete a tag on a remote
+ * @param repoPath - Absolute path to the repository
+ * @param tagName - Name of the tag to delete
+ * @param remote - Remote name
+ */
+export async function deleteRemoteTag(
+  repoPath: string,
+  tagName: string,
+  remote: string = 'origin'
+): Promise<void> {
+  const result = await dugite.GitProcess.exec(
+    ['push', remote, '--delete', `refs/tags/${tagName}`],
+    repoPath
+  );
+
+  if (result.exitCode !== 0) {
+    throw new Error(`Failed to delete remote tag: ${result.stderr}`);
+  }
+}
+
+/**
+ * Push a single tag, or all tags when no tag name is given
+ * @param repoPath - Absolute path to the repository
+ * @param remote - Remote name
+ * @param tagName - Optional tag to push
+ */
+export async function pushTags(
+  repoPath: string,
+  remote: string = 'origin',
+  tagName?: string
+): Promise<void> {
+  const args = ['push', remote];
+  args.push(tagName ? `refs/tags/${tagName}` : '--tags');
+
+  const result = await dugite.GitProcess.exec(args, repoPath);
+
+  if (result.exitCode !== 0) {
+    throw new Error(`Failed to push tags: ${result.stderr}`);
+  }
+}
+
+function parseTags(output: string): Tag[] {
+  const tags: Tag[] = [];
+  const records = output.split('\x1e').filter((record) => record.trim());
+
+  for (const record of records) {
+    const [name, objectType, objectSha, peeledSha, taggerName, taggerEmail, timestamp, contents] = record
+      .replace(/^\n/, '')
+      .split('\0');
+
+    const isAnnotated = objectType === 'tag';
+    const message = contents?.trim();
+
+    tags.push({
+      name,
+      // Annotated tags point at a tag object; the commit is its peeled target
+      sha: isAnnotated && peeledSha ? peeledSha : objectSha,
+      isAnnotated,
+      tagger: isAnnotated && taggerName
+        ? { name: taggerName, email: taggerEmail.replace(/^<|>$/g, '') }
+        : undefined,
+      date: timestamp ? new Date(parseInt(timestamp) * 1000) : undefined,
+      message: isAnnotated && message ? message : undefined,
+    });
+  }
+
+  return tags;
+}
@@ -0,0 +1,162 @@
+import * as dugite from 'dugite';
+import type { Worktree } from '../../../shared/types/git';
+
+/**
+ * List the main worktree and all linked worktrees
+ * @param repoPath - Absolute path to the repository
+ * @returns Array of worktrees, main worktree first
+ */
+export async function getWorktrees(repoPath: string): Promise<Worktree[]> {
+  const result = await dugite.GitProcess.exec(['worktree', 'list', '--porcelain'], repoPath);
+
+  if (result.exitCode !== 0) {
+    throw new Error(`Failed to list worktrees: ${result.stderr}`);
+  }
+
+  return parseWorktrees(result.stdout);
+}
+
+/**
+ * Check out a branch in a new linked worktree
+ * @param repoPath - Absolute path to the repository
+ * @param worktreePath - Directory to create the worktree in
+ * @param branch - Branch to check out
+ * @param createBranch - Create `branch` first instead of checking out an existing one
+ * @param startPoint - Commit the new branch starts at (defaults to HEAD)
+ */
+export async function addWorktree(
+  repoPath: string,
+  worktreePath: string,
+  branch: string,
+  createBranch: boolean = false,
+  startPoint?: string
+): Promise<void> {
+  const args = createBranch
+    ? ['worktree', 'add', '-b', branch, worktreePath, ...(startPoint ? [startPoint] : [])]
+    : ['worktree', 'add', worktreePath, branch];
+
+  const result = await dugite.GitProcess.exec(args, repoPath);
+
+  if (result.exitCode !== 0) {
+    throw new Error(`Failed to add worktree: ${result.stderr}`);
+  }
+}
+
+/**
+ * Delete a linked worktree and its administrative files
+ * @param repoPath - Absolute path to the repository
+ * @param worktreePath - Path of the worktree to remove
+ * @param force - Remove even with uncommitted changes or a lock
+ */
+export async function removeWorktree(
+  repoPath: string,
+  worktreePath: string,
+  force: boolean = false
+): Promise<void> {
+  // A locked worktree needs --force twice
+  const args = ['worktree', 'remove', ...(force ? ['--force', '--force'] : []), worktreePath];
+  const result = await dugite.GitProcess.exec(args, repoPath);
+
+  if (result.exitCode !== 0) {
+    throw new Error(`Failed to remove worktree: ${result.stderr}`);
+  }
+}
+
+/**
+ * Protect a worktree from being pruned, moved or removed
+ * @param repoPath - Absolute path to the repository
+ * @param worktreePath - Path of the worktree to lock
+ * @param reason - Optional explanation shown in the worktree list
+ */
+export async function lockWorktree(
+  repoPath: string,
+  worktreePath: string,
+  reason?: string
+): Promise<void> {
+  const args = ['worktree', 'lock', ...(reason ? ['--reason', reason] : []), worktreePath];
+  const result = await dugite.GitProcess.exec(args, repoPath);
+
+  if (result.exitCode !== 0) {
+    throw new Error(`Failed to lock worktree: ${result.stderr}`);
+  }
+}
+
+/**
+ * Remove the lock from a worktree
+ * @param repoPath - Absolute path to the repository
+ * @param worktreePath - Path of the worktree to unlock
+ */
+export async function unlockWorktree(repoPath: string, worktreePath: string): Promise<void> {
+  const result = await dugite.GitProcess.exec(['worktree', 'unlock', worktreePath], repoPath);
+
+  if (result.exitCode !== 0) {
+    throw new Error(`Failed to unlock worktree: ${result.stderr}`);
+  }
+}
+
+/**
+ * Clean up administrative files of worktrees whose directories are gone
+ * @param repoPath - Absolute path to the repository
+ */
+export async function pruneWorktrees(repoPath: string): Promise<void> {
+  const result = await dugite.GitProcess.exec(['worktree', 'prune'], repoPath);
+
+  if (result.exitCode !== 0) {
+    throw new Error(`Failed to prune worktrees: ${result.stderr}`);
+  }
+}
+
+/**
+ * Parse `git worktree list --porcelain`: one block of "key value" lines per worktree,
+ * separated by blank lines
+ */
+function parseWorktrees(output: string): Worktree[] {
+  const worktrees: Worktree[] = [];
+
+  for (const block of output.split(/\n\s*\n/)) {
+    const lines = block.split('\n').filter((line) => line);
+    if (lines.length === 0 || !lines[0].startsWith('worktree ')) continue;
+
+    const worktree: Worktree = {
+      path: lines[0].substring('worktree '.length),
+      isMain: worktrees.length === 0,
+      bare: false,
+      detached: false,
+      locked: false,
+      prunable: false,
+    };
+
+    for (const line of lines.slice(1)) {
+      const space = line.indexOf(' ');
+      const key = space === -1 ? line : line.substring(0, space);
+      const value = space === -1 ? undefined : line.substring(space + 1);
+
+      switch (key) {
+        case 'HEAD':
+          worktree.head = value;
+          break;
+        case 'branch':
+          worktree.branch = value?.replace(/^refs\/heads\//, '');
+          break;
+        case 'detached':
+          worktree.detached = true;
+          break;
+        case 'bare':
+          worktree.bare = true;
+          break;
+        case 'locked':
+          worktree.locked = true;
+          worktree.lockReason = value;
+          break;
+        case 'prunable':
+          worktree.prunable = true;
+          worktree.prunableReason = value;
+          break;
+      }
+    }
+
+    worktrees.push(worktree);
+  }
+
+  return worktrees;
+}
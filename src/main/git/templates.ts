@@ -0,0 +1,223 @@
+import type { InitTemplate } from '../../shared/types/git';
+
+// Files offered when initializing a repository. They ship with the app so new repositories
+// can be set up offline. License texts use {{year}} and {{holder}} placeholders.
+
+interface TemplateFile extends InitTemplate {
+  content: string;
+}
+
+const COMMON_IGNORES = `# OS files
+.DS_Store
+Thumbs.db
+
+# Editors
+.vscode/
+.idea/
+*.swp
+`;
+
+export const GITIGNORE_TEMPLATES: TemplateFile[] = [
+  {
+    id: 'node',
+    name: 'Node',
+    content: `node_modules/
+dist/
+build/
+coverage/
+*.log
+npm-debug.log*
+yarn-debug.log*
+yarn-error.log*
+.env
+.env.local
+
+${COMMON_IGNORES}`,
+  },
+  {
+    id: 'python',
+    name: 'Python',
+    content: `__pycache__/
+*.py[cod]
+*.egg-info/
+.eggs/
+build/
+dist/
+.venv/
+venv/
+.pytest_cache/
+.mypy_cache/
+.coverage
+htmlcov/
+.env
+
+${COMMON_IGNORES}`,
+  },
+  {
+    id: 'go',
+    name: 'Go',
+    content: `/bin/
+*.exe
+*.test
+*.out
+vendor/
+go.work
+
+${COMMON_IGNORES}`,
+  },
+  {
+    id: 'rust',
+    name: 'Rust',
+    content: `/target/
+**/*.rs.bk
+
+${COMMON_IGNORES}`,
+  },
+  {
+    id: 'java',
+    name: 'Java',
+    content: `*.class
+*.jar
+*.war
+target/
+build/
+.gradle/
+out/
+
+${COMMON_IGNORES}`,
+  },
+  {
+    id: 'dotnet',
+    name: '.NET',
+    content: `bin/
+obj/
+*.user
+*.suo
+.vs/
+TestResults/
+
+${COMMON_IGNORES}`,
+  },
+  {
+    id: 'minimal',
+    name: 'OS and editor files only',
+    content: COMMON_IGNORES,
+  },
+];
+
+export const LICENSE_TEMPLATES: TemplateFile[] = [
+  {
+    id: 'mit',
+    name: 'MIT',
+    content: `MIT License
+
+Copyright (c) {{year}} {{holder}}
+
+Permission is hereby granted, free of charge, to any person obtaining a copy
+of this software and associated documentation files (the "Software"), to deal
+in the Software without restriction, including without limitation the rights
+to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+copies of the Software, and to permit persons to whom the Software is
+furnished to do so, subject to the following conditions:
+
+The above copyright notice and this permission notice shall be included in all
+copies or substantial portions of the Software.
+
+THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+SOFTWARE.
+`,
+  },
+  {
+    id: 'bsd-2-clause',
+    name: 'BSD 2-Clause',
+    content: `BSD 2-Clause License
+
+Copyright (c) {{year}}, {{holder}}
+
+Redistribution and use in source and binary forms, with or without
+modification, are permitted provided that the following conditions are met:
+
+1. Redistributions of source code must retain the above copyright notice, this
+   list of conditions and the following disclaimer.
+
+2. Redistributions in binary form must reproduce the above copyright notice,
+   this list of conditions and the following disclaimer in the documentation
+   and/or other materials provided with the distribution.
+
+THIS SOFTWARE IS PROVIDED BY THE COPYRIGHT HOLDERS AND CONTRIBUTORS "AS IS"
+AND ANY EXPRESS OR IMPLIED WARRANTIES, INCLUDING, BUT NOT LIMITED TO, THE
+IMPLIED WARRANTIES OF MERCHANTABILITY AND FITNESS FOR A PARTICULAR PURPOSE ARE
+DISCLAIMED. IN NO EVENT SHALL THE COPYRIGHT HOLDER OR CONTRIBUTORS BE LIABLE
+FOR ANY DIRECT, INDIRECT, INCIDENTAL, SPECIAL, EXEMPLARY, OR CONSEQUENTIAL
+DAMAGES (INCLUDING, BUT NOT LIMITED TO, PROCUREMENT OF SUBSTITUTE GOODS OR
+SERVICES; LOSS OF USE, DATA, OR PROFITS; OR BUSINESS INTERRUPTION) HOWEVER
+CAUSED AND ON ANY THEORY OF LIABILITY, WHETHER IN CONTRACT, STRICT LIABILITY,
+OR TORT (INCLUDING NEGLIGENCE OR OTHERWISE) ARISING IN ANY WAY OUT OF THE USE
+OF THIS SOFTWARE, EVEN IF ADVISED OF THE POSSIBILITY OF SUCH DAMAGE.
+`,
+  },
+  {
+    id: 'isc',
+    name: 'ISC',
+    content: `ISC License
+
+Copyright (c) {{year}} {{holder}}
+
+Permission to use, copy, modify, and/or distribute this software for any
+purpose with or without fee is hereby granted, provided that the above
+copyright notice and this permission notice appear in all copies.
+
+THE SOFTWARE IS PROVIDED "AS IS" AND THE AUTHOR DISCLAIMS ALL WARRANTIES
+WITH REGARD TO THIS SOFTWARE INCLUDING ALL IMPLIED WARRANTIES OF
+MERCHANTABILITY AND FITNESS. IN NO EVENT SHALL THE AUTHOR BE LIABLE FOR
+ANY SPECIAL, DIRECT, INDIRECT, OR CONSEQUENTIAL DAMAGES OR ANY DAMAGES
+WHATSOEVER RESULTING FROM LOSS OF USE, DATA OR PROFITS, WHETHER IN AN
+ACTION OF CONTRACT, NEGLIGENCE OR OTHER TORTIOUS ACTION, ARISING OUT OF
+OR IN CONNECTION WITH THE USE OR PERFORMANCE OF THIS SOFTWARE.
+`,
+  },
+  {
+    id: 'unlicense',
+    name: 'The Unlicense',
+    content: `This is free and unencumbered software released into the public domain.
+
+Anyone is free to copy, modify, publish, use, compile, sell, or
+distribute this software, either in source code form or as a compiled
+binary, for any purpose, commercial or non-commercial, and by any
+means.
+
+In jurisdictions that recognize copyright laws, the author or authors
+of this software dedicate any and all copyright interest in the
+software to the public domain. We make this dedication for the benefit
+of the public at large and to the detriment of our heirs and
+successors. We intend this dedication to be an overt act of
+relinquishment in perpetuity of all present and future rights to this
+software under copyright law.
+
+THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND,
+EXPRESS OR IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF
+MERCHANTABILITY, FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT.
+IN NO EVENT SHALL THE AUTHORS BE LIABLE FOR ANY CLAIM, DAMAGES OR
+OTHER LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE,
+ARISING FROM, OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR
+OTHER DEALINGS IN THE SOFTWARE.
+
+For more information, please refer to <https://unlicense.org>
+`,
+  },
+];
+
+export function renderReadme(name: string, description?: string): string {
+  return `# ${name}\n\n${description ? `${description}\n` : ''}`;
+}
+
+export function renderLicense(template: TemplateFile, holder: string): string {
+  return template.content
+    .replace(/\{\{year\}\}/g, String(new Date().getFullYear()))
+    .replace(/\{\{holder\}\}/g, holder);
+}
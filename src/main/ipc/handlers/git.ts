@@ -1,19 +1,27 @@
 import { ipcMain } from 'electron';
 import { IPC_CHANNELS } from '../../../shared/ipc-channels';
 import * as gitOps from '../../git/operations';
-import type { Result, Commit, Branch, RepositoryStatus, DiffResult } from '../../../shared/types/git';
+import type { Result, Commit, Branch, RepositoryStatus, DiffResult, DiffLineSelection, Stash, StashPushOptions, Tag, Remote, MergeState, ConflictFile, RebaseTodoItem, RebaseState, CherryPickOptions, RevertOptions, SequencerState, ResetMode, ResetSnapshot, ReflogEntry, CommitOptions, BlameOptions, BlameResult, FileHistoryEntry, TreeEntry, BlobContent, Submodule, Worktree, BisectState, BisectVerdict, BisectRunResult, CloneOptions, InitTemplates, InitRepositoryOptions, DiffContents, DiffOptions, CommitQuery } from '../../../shared/types/git';
+
+// Clones that are still running, by the id the renderer picked, so they can be cancelled
+const activeClones = new Map<string, AbortController>();
 
 export function setupGitHandlers(): void {
   // Get commits
   ipcMain.handle(
     IPC_CHANNELS.GIT_GET_COMMITS,
-    async (_, repoPath: string, options?: { limit?: number; skip?: number; branch?: string }): Promise<Result<Commit[]>> => {
+    async (
+      _,
+      repoPath: string,
+      options?: { limit?: number; skip?: number; branch?: string; query?: CommitQuery }
+    ): Promise<Result<Commit[]>> => {
       try {
         const commits = await gitOps.getCommitHistory(
           repoPath, 
           options?.limit || 50, 
           options?.skip || 0,
-          options?.branch
+          options?.branch,
+          options?.query
         );
         return { success: true, data: commits };
       } catch (error) {
@@ -108,9 +116,16 @@ export function setupGitHandlers(): void {
   // Get diff between branches for specific files
   ipcMain.handle(
     IPC_CHANNELS.GIT_GET_DIFF,
-    async (_, repoPath: string, base: string, compare: string, filePaths: string[]): Promise<Result<string>> => {
+    async (
+      _,
+      repoPath: string,
+      base: string,
+      compare: string,
+      filePaths: string[],
+      options?: DiffOptions
+    ): Promise<Result<string>> => {
       try {
-        const diff = await gitOps.getBranchFileDiff(repoPath, base, compare, filePaths);
+        const diff = await gitOps.getBranchFileDiff(repoPath, base, compare, filePaths, options);
         return { success: true, data: diff };
       } catch (error) {
         return {
@@ -124,9 +139,16 @@ export function setupGitHandlers(): void {
   // Get commit file diff
   ipcMain.handle(
     IPC_CHANNELS.GIT_GET_COMMIT_FILE_DIFF,
-    async (_, repoPath: string, commitSha: string, filePath: string): Promise<Result<string>> => {
+    async (
+      _,
+      repoPath: string,
+      commitSha: string,
+      filePath: string,
+      oldPath?: string,
+      options?: DiffOptions
+    ): Promise<Result<string>> => {
       try {
-        const diff = await gitOps.getCommitFileDiff(repoPath, commitSha, filePath);
+        const diff = await gitOps.getCommitFileDiff(repoPath, commitSha, filePath, oldPath, options);
         return { success: true, data: diff };
       } catch (error) {
         return {
@@ -185,12 +207,108 @@ export function setupGitHandlers(): void {
     }
   );
 
+  // Unstage files
+  ipcMain.handle(
+    IPC_CHANNELS.GIT_UNSTAGE_FILES,
+    async (_, repoPath: string, files: string[]): Promise<Result<void>> => {
+      try {
+        await gitOps.unstageFiles(repoPath, files);
+        return { success: true, data: undefined };
+      } catch (error) {
+        return {
+          success: false,
+          error: error instanceof Error ? error : new Error('Failed to unstage files'),
+        };
+      }
+    }
+  );
+
+  // Get working tree or staged diff for a file
+  ipcMain.handle(
+    IPC_CHANNELS.GIT_GET_FILE_DIFF,
+    async (_, repoPath: string, filePath: string, staged: boolean, options?: DiffOptions): Promise<Result<string>> => {
+      try {
+        const diff = await gitOps.getFileDiff(repoPath, [filePath], staged, options);
+        return { success: true, data: diff };
+      } catch (error) {
+        return {
+          success: false,
+          error: error instanceof Error ? error : new Error('Failed to get file diff'),
+        };
+      }
+    }
+  );
+
+  // Stage hunk
+  ipcMain.handle(
+    IPC_CHANNELS.GIT_STAGE_HUNK,
+    async (_, repoPath: string, filePath: string, hunkIndex: number): Promise<Result<void>> => {
+      try {
+        await gitOps.stageHunk(repoPath, filePath, hunkIndex);
+        return { success: true, data: undefined };
+      } catch (error) {
+        return {
+          success: false,
+          error: error instanceof Error ? error : new Error('Failed to stage hunk'),
+        };
+      }
+    }
+  );
+
+  // Unstage hunk
+  ipcMain.handle(
+    IPC_CHANNELS.GIT_UNSTAGE_HUNK,
+    async (_, repoPath: string, filePath: string, hunkIndex: number): Promise<Result<void>> => {
+      try {
+        await gitOps.unstageHunk(repoPath, filePath, hunkIndex);
+        return { success: true, data: undefined };
+      } catch (error) {
+        return {
+          success: false,
+          error: error instanceof Error ? error : new Error('Failed to unstage hunk'),
+        };
+      }
+    }
+  );
+
+  // Stage selected lines
+  ipcMain.handle(
+    IPC_CHANNELS.GIT_STAGE_LINES,
+    async (_, repoPath: string, filePath: string, selections: DiffLineSelection[]): Promise<Result<void>> => {
+      try {
+        await gitOps.stageLines(repoPath, filePath, selections);
+        return { success: true, data: undefined };
+      } catch (error) {
+        return {
+          success: false,
+          error: error instanceof Error ? error : new Error('Failed to stage lines'),
+        };
+      }
+    }
+  );
+
+  // Unstage selected lines
+  ipcMain.handle(
+    IPC_CHANNELS.GIT_UNSTAGE_LINES,
+    async (_, repoPath: string, filePath: string, selections: DiffLineSelection[]): Promise<Result<void>> => {
+      try {
+        await gitOps.unstageLines(repoPath, filePath, selections);
+        return { success: true, data: undefined };
+      } catch (error) {
+        return {
+          success: false,
+          error: error instanceof Error ? error : new Error('Failed to unstage lines'),
+        };
+      }
+    }
+  );
+
   // Commit
   ipcMain.handle(
     IPC_CHANNELS.GIT_COMMIT,
-    async (_, repoPath: string, message: string): Promise<Result<void>> => {
+    async (_, repoPath: string, message: string, options?: CommitOptions): Promise<Result<void>> => {
       try {
-        await gitOps.commit(repoPath, message);
+        await gitOps.commit(repoPath, message, options);
         return { success: true, data: undefined };
       } catch (error) {
         return {
@@ -204,9 +322,9 @@ export function setupGitHandlers(): void {
   // Fetch
   ipcMain.handle(
     IPC_CHANNELS.GIT_FETCH,
-    async (_, repoPath: string): Promise<Result<void>> => {
+    async (_, repoPath: string, remote?: string, branch?: string): Promise<Result<void>> => {
       try {
-        await gitOps.fetch(repoPath);
+        await gitOps.fetch(repoPath, remote, branch);
         return { success: true, data: undefined };
       } catch (error) {
         return {
@@ -220,9 +338,9 @@ export function setupGitHandlers(): void {
   // Pull
   ipcMain.handle(
     IPC_CHANNELS.GIT_PULL,
-    async (_, repoPath: string): Promise<Result<void>> => {
+    async (_, repoPath: string, remote?: string, branch?: string): Promise<Result<void>> => {
       try {
-        await gitOps.pull(repoPath);
+        await gitOps.pull(repoPath, remote, branch);
         return { success: true, data: undefined };
       } catch (error) {
         return {
@@ -236,9 +354,9 @@ export function setupGitHandlers(): void {
   // Push
   ipcMain.handle(
     IPC_CHANNELS.GIT_PUSH,
-    async (_, repoPath: string): Promise<Result<void>> => {
+    async (_, repoPath: string, remote?: string, branch?: string): Promise<Result<void>> => {
       try {
-        await gitOps.push(repoPath);
+        await gitOps.push(repoPath, remote, branch);
         return { success: true, data: undefined };
       } catch (error) {
         return {
@@ -252,9 +370,9 @@ export function setupGitHandlers(): void {
   // Get remote URL
   ipcMain.handle(
     IPC_CHANNELS.GIT_GET_REMOTE_URL,
-    async (_, repoPath: string): Promise<Result<string | undefined>> => {
+    async (_, repoPath: string, remote?: string): Promise<Result<string | undefined>> => {
       try {
-        const url = await gitOps.getRemoteUrl(repoPath);
+        const url = await gitOps.getRemoteUrl(repoPath, remote);
         return { success: true, data: url };
       } catch (error) {
         return {
@@ -280,4 +398,1046 @@ export function setupGitHandlers(): void {
       }
     }
   );
+
+  // Stash changes
+  ipcMain.handle(
+    IPC_CHANNELS.GIT_STASH_PUSH,
+    async (_, repoPath: string, options?: StashPushOptions): Promise<Result<void>> => {
+      try {
+        await gitOps.stashPush(repoPath, options);
+        return { success: true, data: undefined };
+      } catch (error) {
+        return {
+          success: false,
+          error: error instanceof Error ? error : new Error('Failed to stash changes'),
+        };
+      }
+    }
+  );
+
+  // List stashes
+  ipcMain.handle(
+    IPC_CHANNELS.GIT_STASH_LIST,
+    async (_, repoPath: string): Promise<Result<Stash[]>> => {
+      try {
+        const stashes = await gitOps.getStashes(repoPath);
+        return { success: true, data: stashes };
+      } catch (error) {
+        return {
+          success: false,
+          error: error instanceof Error ? error : new Error('Failed to list stashes'),
+        };
+      }
+    }
+  );
+
+  // Show stash diff
+  ipcMain.handle(
+    IPC_CHANNELS.GIT_STASH_SHOW,
+    async (_, repoPath: string, index: number): Promise<Result<string>> => {
+      try {
+        const diff = await gitOps.getStashDiff(repoPath, index);
+        return { success: true, data: diff };
+      } catch (error) {
+        return {
+          success: false,
+          error: error instanceof Error ? error : new Error('Failed to show stash'),
+        };
+      }
+    }
+  );
+
+  // Apply stash
+  ipcMain.handle(
+    IPC_CHANNELS.GIT_STASH_APPLY,
+    async (_, repoPath: string, index: number, restoreIndex?: boolean): Promise<Result<void>> => {
+      try {
+        await gitOps.applyStash(repoPath, index, restoreIndex);
+        return { success: true, data: undefined };
+      } catch (error) {
+        return {
+          success: false,
+          error: error instanceof Error ? error : new Error('Failed to apply stash'),
+        };
+      }
+    }
+  );
+
+  // Pop stash
+  ipcMain.handle(
+    IPC_CHANNELS.GIT_STASH_POP,
+    async (_, repoPath: string, index: number, restoreIndex?: boolean): Promise<Result<void>> => {
+      try {
+        await gitOps.popStash(repoPath, index, restoreIndex);
+        return { success: true, data: undefined };
+      } catch (error) {
+        return {
+          success: false,
+          error: error instanceof Error ? error : new Error('Failed to pop stash'),
+        };
+      }
+    }
+  );
+
+  // Drop stash
+  ipcMain.handle(
+    IPC_CHANNELS.GIT_STASH_DROP,
+    async (_, repoPath: string, index: number): Promise<Result<void>> => {
+      try {
+        await gitOps.dropStash(repoPath, index);
+        return { success: true, data: undefined };
+      } catch (error) {
+        return {
+          success: false,
+          error: error instanceof Error ? error : new Error('Failed to drop stash'),
+        };
+      }
+    }
+  );
+
+  // Create branch from stash
+  ipcMain.handle(
+    IPC_CHANNELS.GIT_STASH_BRANCH,
+    async (_, repoPath: string, index: number, branchName: string): Promise<Result<void>> => {
+      try {
+        await gitOps.branchFromStash(repoPath, index, branchName);
+        return { success: true, data: undefined };
+      } catch (error) {
+        return {
+          success: false,
+          error: error instanceof Error ? error : new Error('Failed to create branch from stash'),
+        };
+      }
+    }
+  );
+
+  // Get tags
+  ipcMain.handle(
+    IPC_CHANNELS.GIT_GET_TAGS,
+    async (_, repoPath: string): Promise<Result<Tag[]>> => {
+      try {
+        const tags = await gitOps.getTags(repoPath);
+        return { success: true, data: tags };
+      } catch (error) {
+        return {
+          success: false,
+          error: error instanceof Error ? error : new Error('Failed to get tags'),
+        };
+      }
+    }
+  );
+
+  // Create tag
+  ipcMain.handle(
+    IPC_CHANNELS.GIT_CREATE_TAG,
+    async (_, repoPath: string, tagName: string, target?: string, message?: string): Promise<Result<void>> => {
+      try {
+        await gitOps.createTag(repoPath, tagName, target, message);
+        return { success: true, data: undefined };
+      } catch (error) {
+        return {
+          success: false,
+          error: error instanceof Error ? error : new Error('Failed to create tag'),
+        };
+      }
+    }
+  );
+
+  // Delete tag
+  ipcMain.handle(
+    IPC_CHANNELS.GIT_DELETE_TAG,
+    async (_, repoPath: string, tagName: string): Promise<Result<void>> => {
+      try {
+        await gitOps.deleteTag(repoPath, tagName);
+        return { success: true, data: undefined };
+      } catch (error) {
+        return {
+          success: false,
+          error: error instanceof Error ? error : new Error('Failed to delete tag'),
+        };
+      }
+    }
+  );
+
+  // Delete tag on remote
+  ipcMain.handle(
+    IPC_CHANNELS.GIT_DELETE_REMOTE_TAG,
+    async (_, repoPath: string, tagName: string, remote?: string): Promise<Result<void>> => {
+      try {
+        await gitOps.deleteRemoteTag(repoPath, tagName, remote);
+        return { success: true, data: undefined };
+      } catch (error) {
+        return {
+          success: false,
+          error: error instanceof Error ? error : new Error('Failed to delete remote tag'),
+        };
+      }
+    }
+  );
+
+  // Push tags
+  ipcMain.handle(
+    IPC_CHANNELS.GIT_PUSH_TAGS,
+    async (_, repoPath: string, remote?: string, tagName?: string): Promise<Result<void>> => {
+      try {
+        await gitOps.pushTags(repoPath, remote, tagName);
+        return { success: true, data: undefined };
+      } catch (error) {
+        return {
+          success: false,
+          error: error instanceof Error ? error : new Error('Failed to push tags'),
+        };
+      }
+    }
+  );
+
+  // Get remotes
+  ipcMain.handle(
+    IPC_CHANNELS.GIT_GET_REMOTES,
+    async (_, repoPath: string): Promise<Result<Remote[]>> => {
+      try {
+        const remotes = await gitOps.getRemotes(repoPath);
+        return { success: true, data: remotes };
+      } catch (error) {
+        return {
+          success: false,
+          error: error instanceof Error ? error : new Error('Failed to get remotes'),
+        };
+      }
+    }
+  );
+
+  // Add remote
+  ipcMain.handle(
+    IPC_CHANNELS.GIT_ADD_REMOTE,
+    async (_, repoPath: string, name: string, url: string): Promise<Result<void>> => {
+      try {
+        await gitOps.addRemote(repoPath, name, url);
+        return { success: true, data: undefined };
+      } catch (error) {
+        return {
+          success: false,
+          error: error instanceof Error ? error : new Error('Failed to add remote'),
+        };
+      }
+    }
+  );
+
+  // Rename remote
+  ipcMain.handle(
+    IPC_CHANNELS.GIT_RENAME_REMOTE,
+    async (_, repoPath: string, oldName: string, newName: string): Promise<Result<void>> => {
+      try {
+        await gitOps.renameRemote(repoPath, oldName, newName);
+        return { success: true, data: undefined };
+      } catch (error) {
+        return {
+          success: false,
+          error: error instanceof Error ? error : new Error('Failed to rename remote'),
+        };
+      }
+    }
+  );
+
+  // Remove remote
+  ipcMain.handle(
+    IPC_CHANNELS.GIT_REMOVE_REMOTE,
+    async (_, repoPath: string, name: string): Promise<Result<void>> => {
+      try {
+        await gitOps.removeRemote(repoPath, name);
+        return { success: true, data: undefined };
+      } catch (error) {
+        return {
+          success: false,
+          error: error instanceof Error ? error : new Error('Failed to remove remote'),
+        };
+      }
+    }
+  );
+
+  // Set remote fetch or push URL
+  ipcMain.handle(
+    IPC_CHANNELS.GIT_SET_REMOTE_URL,
+    async (_, repoPath: string, name: string, url: string, pushUrl?: boolean): Promise<Result<void>> => {
+      try {
+        await gitOps.setRemoteUrl(repoPath, name, url, pushUrl);
+        return { success: true, data: undefined };
+      } catch (error) {
+        return {
+          success: false,
+          error: error instanceof Error ? error : new Error('Failed to set remote URL'),
+        };
+      }
+    }
+  );
+
+  // Get merge state
+  ipcMain.handle(
+    IPC_CHANNELS.GIT_GET_MERGE_STATE,
+    async (_, repoPath: string): Promise<Result<MergeState>> => {
+      try {
+        const state = await gitOps.getMergeState(repoPath);
+        return { success: true, data: state };
+      } catch (error) {
+        return {
+          success: false,
+          error: error instanceof Error ? error : new Error('Failed to get merge state'),
+        };
+      }
+    }
+  );
+
+  // Get conflict versions
+  ipcMain.handle(
+    IPC_CHANNELS.GIT_GET_CONFLICT,
+    async (_, repoPath: string, filePath: string): Promise<Result<ConflictFile>> => {
+      try {
+        const conflict = await gitOps.getConflict(repoPath, filePath);
+        return { success: true, data: conflict };
+      } catch (error) {
+        return {
+          success: false,
+          error: error instanceof Error ? error : new Error('Failed to load conflict'),
+        };
+      }
+    }
+  );
+
+  // Resolve conflict
+  ipcMain.handle(
+    IPC_CHANNELS.GIT_RESOLVE_CONFLICT,
+    async (_, repoPath: string, filePath: string, content: string | null): Promise<Result<void>> => {
+      try {
+        await gitOps.resolveConflict(repoPath, filePath, content);
+        return { success: true, data: undefined };
+      } catch (error) {
+        return {
+          success: false,
+          error: error instanceof Error ? error : new Error('Failed to resolve conflict'),
+        };
+      }
+    }
+  );
+
+  // Continue merge
+  ipcMain.handle(
+    IPC_CHANNELS.GIT_MERGE_CONTINUE,
+    async (_, repoPath: string): Promise<Result<void>> => {
+      try {
+        await gitOps.mergeContinue(repoPath);
+        return { success: true, data: undefined };
+      } catch (error) {
+        return {
+          success: false,
+          error: error instanceof Error ? error : new Error('Failed to continue merge'),
+        };
+      }
+    }
+  );
+
+  // Abort merge
+  ipcMain.handle(
+    IPC_CHANNELS.GIT_MERGE_ABORT,
+    async (_, repoPath: string): Promise<Result<void>> => {
+      try {
+        await gitOps.mergeAbort(repoPath);
+        return { success: true, data: undefined };
+      } catch (error) {
+        return {
+          success: false,
+          error: error instanceof Error ? error : new Error('Failed to abort merge'),
+        };
+      }
+    }
+  );
+
+  // Get rebase plan
+  ipcMain.handle(
+    IPC_CHANNELS.GIT_GET_REBASE_PLAN,
+    async (_, repoPath: string, base: string): Promise<Result<RebaseTodoItem[]>> => {
+      try {
+        const todo = await gitOps.getRebasePlan(repoPath, base);
+        return { success: true, data: todo };
+      } catch (error) {
+        return {
+          success: false,
+          error: error instanceof Error ? error : new Error('Failed to get rebase plan'),
+        };
+      }
+    }
+  );
+
+  // Start interactive rebase
+  ipcMain.handle(
+    IPC_CHANNELS.GIT_START_REBASE,
+    async (_, repoPath: string, base: string, todo: RebaseTodoItem[]): Promise<Result<RebaseState>> => {
+      try {
+        const state = await gitOps.startRebase(repoPath, base, todo);
+        return { success: true, data: state };
+      } catch (error) {
+        return {
+          success: false,
+          error: error instanceof Error ? error : new Error('Failed to start rebase'),
+        };
+      }
+    }
+  );
+
+  // Get rebase state
+  ipcMain.handle(
+    IPC_CHANNELS.GIT_GET_REBASE_STATE,
+    async (_, repoPath: string): Promise<Result<RebaseState>> => {
+      try {
+        const state = await gitOps.getRebaseState(repoPath);
+        return { success: true, data: state };
+      } catch (error) {
+        return {
+          success: false,
+          error: error instanceof Error ? error : new Error('Failed to get rebase state'),
+        };
+      }
+    }
+  );
+
+  // Continue rebase
+  ipcMain.handle(
+    IPC_CHANNELS.GIT_REBASE_CONTINUE,
+    async (_, repoPath: string): Promise<Result<RebaseState>> => {
+      try {
+        const state = await gitOps.continueRebase(repoPath);
+        return { success: true, data: state };
+      } catch (error) {
+        return {
+          success: false,
+          error: error instanceof Error ? error : new Error('Failed to continue rebase'),
+        };
+      }
+    }
+  );
+
+  // Skip rebase commit
+  ipcMain.handle(
+    IPC_CHANNELS.GIT_REBASE_SKIP,
+    async (_, repoPath: string): Promise<Result<RebaseState>> => {
+      try {
+        const state = await gitOps.skipRebase(repoPath);
+        return { success: true, data: state };
+      } catch (error) {
+        return {
+          success: false,
+          error: error instanceof Error ? error : new Error('Failed to skip commit'),
+        };
+      }
+    }
+  );
+
+  // Abort rebase
+  ipcMain.handle(
+    IPC_CHANNELS.GIT_REBASE_ABORT,
+    async (_, repoPath: string): Promise<Result<void>> => {
+      try {
+        await gitOps.abortRebase(repoPath);
+        return { success: true, data: undefined };
+      } catch (error) {
+        return {
+          success: false,
+          error: error instanceof Error ? error : new Error('Failed to abort rebase'),
+        };
+      }
+    }
+  );
+
+  // Get commit parents
+  ipcMain.handle(
+    IPC_CHANNELS.GIT_GET_COMMIT_PARENTS,
+    async (_, repoPath: string, sha: string): Promise<Result<string[]>> => {
+      try {
+        const parents = await gitOps.getCommitParents(repoPath, sha);
+        return { success: true, data: parents };
+      } catch (error) {
+        return {
+          success: false,
+          error: error instanceof Error ? error : new Error('Failed to get commit parents'),
+        };
+      }
+    }
+  );
+
+  // Cherry-pick commits
+  ipcMain.handle(
+    IPC_CHANNELS.GIT_CHERRY_PICK,
+    async (_, repoPath: string, shas: string[], options?: CherryPickOptions): Promise<Result<SequencerState>> => {
+      try {
+        const state = await gitOps.cherryPick(repoPath, shas, options);
+        return { success: true, data: state };
+      } catch (error) {
+        return {
+          success: false,
+          error: error instanceof Error ? error : new Error('Failed to cherry-pick'),
+        };
+      }
+    }
+  );
+
+  // Revert commit
+  ipcMain.handle(
+    IPC_CHANNELS.GIT_REVERT,
+    async (_, repoPath: string, sha: string, options?: RevertOptions): Promise<Result<SequencerState>> => {
+      try {
+        const state = await gitOps.revertCommit(repoPath, sha, options);
+        return { success: true, data: state };
+      } catch (error) {
+        return {
+          success: false,
+          error: error instanceof Error ? error : new Error('Failed to revert'),
+        };
+      }
+    }
+  );
+
+  // Get cherry-pick or revert state
+  ipcMain.handle(
+    IPC_CHANNELS.GIT_GET_SEQUENCER_STATE,
+    async (_, repoPath: string): Promise<Result<SequencerState>> => {
+      try {
+        const state = await gitOps.getSequencerState(repoPath);
+        return { success: true, data: state };
+      } catch (error) {
+        return {
+          success: false,
+          error: error instanceof Error ? error : new Error('Failed to get cherry-pick state'),
+        };
+      }
+    }
+  );
+
+  // Continue cherry-pick or revert
+  ipcMain.handle(
+    IPC_CHANNELS.GIT_SEQUENCER_CONTINUE,
+    async (_, repoPath: string): Promise<Result<SequencerState>> => {
+      try {
+        const state = await gitOps.continueSequencer(repoPath);
+        return { success: true, data: state };
+      } catch (error) {
+        return {
+          success: false,
+          error: error instanceof Error ? error : new Error('Failed to continue'),
+        };
+      }
+    }
+  );
+
+  // Abort cherry-pick or revert
+  ipcMain.handle(
+    IPC_CHANNELS.GIT_SEQUENCER_ABORT,
+    async (_, repoPath: string): Promise<Result<void>> => {
+      try {
+        await gitOps.abortSequencer(repoPath);
+        return { success: true, data: undefined };
+      } catch (error) {
+        return {
+          success: false,
+          error: error instanceof Error ? error : new Error('Failed to abort'),
+        };
+      }
+    }
+  );
+
+  // Reset to commit
+  ipcMain.handle(
+    IPC_CHANNELS.GIT_RESET,
+    async (_, repoPath: string, sha: string, mode: ResetMode): Promise<Result<ResetSnapshot | null>> => {
+      try {
+        const snapshot = await gitOps.resetToCommit(repoPath, sha, mode);
+        return { success: true, data: snapshot };
+      } catch (error) {
+        return {
+          success: false,
+          error: error instanceof Error ? error : new Error('Failed to reset'),
+        };
+      }
+    }
+  );
+
+  // Get reset snapshot
+  ipcMain.handle(
+    IPC_CHANNELS.GIT_GET_RESET_SNAPSHOT,
+    async (_, repoPath: string): Promise<Result<ResetSnapshot | null>> => {
+      try {
+        const snapshot = await gitOps.getResetSnapshot(repoPath);
+        return { success: true, data: snapshot };
+      } catch (error) {
+        return {
+          success: false,
+          error: error instanceof Error ? error : new Error('Failed to get reset snapshot'),
+        };
+      }
+    }
+  );
+
+  // Undo reset
+  ipcMain.handle(
+    IPC_CHANNELS.GIT_UNDO_RESET,
+    async (_, repoPath: string): Promise<Result<void>> => {
+      try {
+        await gitOps.undoReset(repoPath);
+        return { success: true, data: undefined };
+      } catch (error) {
+        return {
+          success: false,
+          error: error instanceof Error ? error : new Error('Failed to undo reset'),
+        };
+      }
+    }
+  );
+
+  // Discard reset snapshot
+  ipcMain.handle(
+    IPC_CHANNELS.GIT_DISCARD_RESET_SNAPSHOT,
+    async (_, repoPath: string): Promise<Result<void>> => {
+      try {
+        await gitOps.discardResetSnapshot(repoPath);
+        return { success: true, data: undefined };
+      } catch (error) {
+        return {
+          success: false,
+          error: error instanceof Error ? error : new Error('Failed to discard reset snapshot'),
+        };
+      }
+    }
+  );
+
+  // Get reflog
+  ipcMain.handle(
+    IPC_CHANNELS.GIT_GET_REFLOG,
+    async (_, repoPath: string, ref?: string, limit?: number): Promise<Result<ReflogEntry[]>> => {
+      try {
+        const entries = await gitOps.getReflog(repoPath, ref, limit);
+        return { success: true, data: entries };
+      } catch (error) {
+        return {
+          success: false,
+          error: error instanceof Error ? error : new Error('Failed to get reflog'),
+        };
+      }
+    }
+  );
+
+  // Restore ref
+  ipcMain.handle(
+    IPC_CHANNELS.GIT_RESTORE_REF,
+    async (_, repoPath: string, ref: string, sha: string): Promise<Result<ResetSnapshot | null>> => {
+      try {
+        const snapshot = await gitOps.restoreRef(repoPath, ref, sha);
+        return { success: true, data: snapshot };
+      } catch (error) {
+        return {
+          success: false,
+          error: error instanceof Error ? error : new Error('Failed to restore ref'),
+        };
+      }
+    }
+  );
+
+  // Get blame
+  ipcMain.handle(
+    IPC_CHANNELS.GIT_GET_BLAME,
+    async (_, repoPath: string, filePath: string, options?: BlameOptions): Promise<Result<BlameResult>> => {
+      try {
+        const blame = await gitOps.getBlame(repoPath, filePath, options);
+        return { success: true, data: blame };
+      } catch (error) {
+        return {
+          success: false,
+          error: error instanceof Error ? error : new Error('Failed to get blame'),
+        };
+      }
+    }
+  );
+
+  // Get file history
+  ipcMain.handle(
+    IPC_CHANNELS.GIT_GET_FILE_HISTORY,
+    async (_, repoPath: string, filePath: string, limit?: number, skip?: number): Promise<Result<FileHistoryEntry[]>> => {
+      try {
+        const entries = await gitOps.getFileHistory(repoPath, filePath, limit, skip);
+        return { success: true, data: entries };
+      } catch (error) {
+        return {
+          success: false,
+          error: error instanceof Error ? error : new Error('Failed to get file history'),
+        };
+      }
+    }
+  );
+
+  // Restore file version
+  ipcMain.handle(
+    IPC_CHANNELS.GIT_RESTORE_FILE_VERSION,
+    async (_, repoPath: string, sha: string, sourcePath: string, targetPath?: string): Promise<Result<void>> => {
+      try {
+        await gitOps.restoreFileVersion(repoPath, sha, sourcePath, targetPath);
+        return { success: true, data: undefined };
+      } catch (error) {
+        return {
+          success: false,
+          error: error instanceof Error ? error : new Error('Failed to restore file version'),
+        };
+      }
+    }
+  );
+
+  // Get tree
+  ipcMain.handle(
+    IPC_CHANNELS.GIT_GET_TREE,
+    async (_, repoPath: string, rev: string, dirPath?: string): Promise<Result<TreeEntry[]>> => {
+      try {
+        const entries = await gitOps.getTree(repoPath, rev, dirPath);
+        return { success: true, data: entries };
+      } catch (error) {
+        return {
+          success: false,
+          error: error instanceof Error ? error : new Error('Failed to get tree'),
+        };
+      }
+    }
+  );
+
+  // Get blob
+  ipcMain.handle(
+    IPC_CHANNELS.GIT_GET_BLOB,
+    async (_, repoPath: string, rev: string, filePath: string): Promise<Result<BlobContent>> => {
+      try {
+        const blob = await gitOps.getBlob(repoPath, rev, filePath);
+        return { success: true, data: blob };
+      } catch (error) {
+        return {
+          success: false,
+          error: error instanceof Error ? error : new Error('Failed to get blob'),
+        };
+      }
+    }
+  );
+
+  // Get old and new file contents for a diff
+  ipcMain.handle(
+    IPC_CHANNELS.GIT_GET_DIFF_CONTENTS,
+    async (_, repoPath: string, filePath: string, oldId: string, newId: string): Promise<Result<DiffContents>> => {
+      try {
+        const contents = await gitOps.getDiffContents(repoPath, filePath, oldId, newId);
+        return { success: true, data: contents };
+      } catch (error) {
+        return {
+          success: false,
+          error: error instanceof Error ? error : new Error('Failed to get diff contents'),
+        };
+      }
+    }
+  );
+
+  // Get submodules
+  ipcMain.handle(
+    IPC_CHANNELS.GIT_GET_SUBMODULES,
+    async (_, repoPath: string): Promise<Result<Submodule[]>> => {
+      try {
+        const submodules = await gitOps.getSubmodules(repoPath);
+        return { success: true, data: submodules };
+      } catch (error) {
+        return {
+          success: false,
+          error: error instanceof Error ? error : new Error('Failed to get submodules'),
+        };
+      }
+    }
+  );
+
+  // Init submodules
+  ipcMain.handle(
+    IPC_CHANNELS.GIT_INIT_SUBMODULES,
+    async (_, repoPath: string, paths?: string[]): Promise<Result<void>> => {
+      try {
+        await gitOps.initSubmodules(repoPath, paths);
+        return { success: true, data: undefined };
+      } catch (error) {
+        return {
+          success: false,
+          error: error instanceof Error ? error : new Error('Failed to init submodules'),
+        };
+      }
+    }
+  );
+
+  // Update submodules
+  ipcMain.handle(
+    IPC_CHANNELS.GIT_UPDATE_SUBMODULES,
+    async (_, repoPath: string, paths?: string[], recursive?: boolean): Promise<Result<void>> => {
+      try {
+        await gitOps.updateSubmodules(repoPath, paths, recursive);
+        return { success: true, data: undefined };
+      } catch (error) {
+        return {
+          success: false,
+          error: error instanceof Error ? error : new Error('Failed to update submodules'),
+        };
+      }
+    }
+  );
+
+  // Sync submodules
+  ipcMain.handle(
+    IPC_CHANNELS.GIT_SYNC_SUBMODULES,
+    async (_, repoPath: string, paths?: string[]): Promise<Result<void>> => {
+      try {
+        await gitOps.syncSubmodules(repoPath, paths);
+        return { success: true, data: undefined };
+      } catch (error) {
+        return {
+          success: false,
+          error: error instanceof Error ? error : new Error('Failed to sync submodules'),
+        };
+      }
+    }
+  );
+
+  // Get worktrees
+  ipcMain.handle(
+    IPC_CHANNELS.GIT_GET_WORKTREES,
+    async (_, repoPath: string): Promise<Result<Worktree[]>> => {
+      try {
+        const worktrees = await gitOps.getWorktrees(repoPath);
+        return { success: true, data: worktrees };
+      } catch (error) {
+        return {
+          success: false,
+          error: error instanceof Error ? error : new Error('Failed to get worktrees'),
+        };
+      }
+    }
+  );
+
+  // Add worktree
+  ipcMain.handle(
+    IPC_CHANNELS.GIT_ADD_WORKTREE,
+    async (_, repoPath: string, worktreePath: string, branch: string, createBranch?: boolean, startPoint?: string): Promise<Result<void>> => {
+      try {
+        await gitOps.addWorktree(repoPath, worktreePath, branch, createBranch, startPoint);
+        return { success: true, data: undefined };
+      } catch (error) {
+        return {
+          success: false,
+          error: error instanceof Error ? error : new Error('Failed to add worktree'),
+        };
+      }
+    }
+  );
+
+  // Remove worktree
+  ipcMain.handle(
+    IPC_CHANNELS.GIT_REMOVE_WORKTREE,
+    async (_, repoPath: string, worktreePath: string, force?: boolean): Promise<Result<void>> => {
+      try {
+        await gitOps.removeWorktree(repoPath, worktreePath, force);
+        return { success: true, data: undefined };
+      } catch (error) {
+        return {
+          success: false,
+          error: error instanceof Error ? error : new Error('Failed to remove worktree'),
+        };
+      }
+    }
+  );
+
+  // Lock worktree
+  ipcMain.handle(
+    IPC_CHANNELS.GIT_LOCK_WORKTREE,
+    async (_, repoPath: string, worktreePath: string, reason?: string): Promise<Result<void>> => {
+      try {
+        await gitOps.lockWorktree(repoPath, worktreePath, reason);
+        return { success: true, data: undefined };
+      } catch (error) {
+        return {
+          success: false,
+          error: error instanceof Error ? error : new Error('Failed to lock worktree'),
+        };
+      }
+    }
+  );
+
+  // Unlock worktree
+  ipcMain.handle(
+    IPC_CHANNELS.GIT_UNLOCK_WORKTREE,
+    async (_, repoPath: string, worktreePath: string): Promise<Result<void>> => {
+      try {
+        await gitOps.unlockWorktree(repoPath, worktreePath);
+        return { success: true, data: undefined };
+      } catch (error) {
+        return {
+          success: false,
+          error: error instanceof Error ? error : new Error('Failed to unlock worktree'),
+        };
+      }
+    }
+  );
+
+  // Prune worktrees
+  ipcMain.handle(
+    IPC_CHANNELS.GIT_PRUNE_WORKTREES,
+    async (_, repoPath: string): Promise<Result<void>> => {
+      try {
+        await gitOps.pruneWorktrees(repoPath);
+        return { success: true, data: undefined };
+      } catch (error) {
+        return {
+          success: false,
+          error: error instanceof Error ? error : new Error('Failed to prune worktrees'),
+        };
+      }
+    }
+  );
+
+  // Get bisect state
+  ipcMain.handle(
+    IPC_CHANNELS.GIT_GET_BISECT_STATE,
+    async (_, repoPath: string): Promise<Result<BisectState>> => {
+      try {
+        const state = await gitOps.getBisectState(repoPath);
+        return { success: true, data: state };
+      } catch (error) {
+        return {
+          success: false,
+          error: error instanceof Error ? error : new Error('Failed to get bisect state'),
+        };
+      }
+    }
+  );
+
+  // Start bisect
+  ipcMain.handle(
+    IPC_CHANNELS.GIT_START_BISECT,
+    async (_, repoPath: string, bad: string, good: string[]): Promise<Result<void>> => {
+      try {
+        await gitOps.startBisect(repoPath, bad, good);
+        return { success: true, data: undefined };
+      } catch (error) {
+        return {
+          success: false,
+          error: error instanceof Error ? error : new Error('Failed to start bisect'),
+        };
+      }
+    }
+  );
+
+  // Mark bisect commit
+  ipcMain.handle(
+    IPC_CHANNELS.GIT_MARK_BISECT,
+    async (_, repoPath: string, verdict: BisectVerdict, sha?: string): Promise<Result<void>> => {
+      try {
+        await gitOps.markBisect(repoPath, verdict, sha);
+        return { success: true, data: undefined };
+      } catch (error) {
+        return {
+          success: false,
+          error: error instanceof Error ? error : new Error('Failed to mark commit'),
+        };
+      }
+    }
+  );
+
+  // Reset bisect
+  ipcMain.handle(
+    IPC_CHANNELS.GIT_RESET_BISECT,
+    async (_, repoPath: string): Promise<Result<void>> => {
+      try {
+        await gitOps.resetBisect(repoPath);
+        return { success: true, data: undefined };
+      } catch (error) {
+        return {
+          success: false,
+          error: error instanceof Error ? error : new Error('Failed to reset bisect'),
+        };
+      }
+    }
+  );
+
+  // Run bisect
+  ipcMain.handle(
+    IPC_CHANNELS.GIT_RUN_BISECT,
+    async (_, repoPath: string, command: string): Promise<Result<BisectRunResult>> => {
+      try {
+        const result = await gitOps.runBisect(repoPath, command);
+        return { success: true, data: result };
+      } catch (error) {
+        return {
+          success: false,
+          error: error instanceof Error ? error : new Error('Failed to run bisect'),
+        };
+      }
+    }
+  );
+
+  // Clone repository, reporting progress on GIT_CLONE_PROGRESS
+  ipcMain.handle(
+    IPC_CHANNELS.GIT_CLONE,
+    async (event, cloneId: string, options: CloneOptions): Promise<Result<string>> => {
+      const controller = new AbortController();
+      activeClones.set(cloneId, controller);
+      try {
+        const repoPath = await gitOps.cloneRepository(
+          options,
+          (progress) => {
+            if (!event.sender.isDestroyed()) {
+              event.sender.send(IPC_CHANNELS.GIT_CLONE_PROGRESS, cloneId, progress);
+            }
+          },
+          controller.signal
+        );
+        return { success: true, data: repoPath };
+      } catch (error) {
+        return {
+          success: false,
+          error: error instanceof Error ? error : new Error('Failed to clone repository'),
+        };
+      } finally {
+        activeClones.delete(cloneId);
+      }
+    }
+  );
+
+  // Cancel clone
+  ipcMain.handle(IPC_CHANNELS.GIT_CANCEL_CLONE, async (_, cloneId: string): Promise<Result<void>> => {
+    activeClones.get(cloneId)?.abort();
+    return { success: true, data: undefined };
+  });
+
+  // Get init templates
+  ipcMain.handle(
+    IPC_CHANNELS.GIT_GET_INIT_TEMPLATES,
+    async (): Promise<Result<InitTemplates>> => {
+      try {
+        const templates = gitOps.getInitTemplates();
+        return { success: true, data: templates };
+      } catch (error) {
+        return {
+          success: false,
+          error: error instanceof Error ? error : new Error('Failed to get init templates'),
+        };
+      }
+    }
+  );
+
+  // Init repository
+  ipcMain.handle(
+    IPC_CHANNELS.GIT_INIT_REPOSITORY,
+    async (_, options: InitRepositoryOptions): Promise<Result<string>> => {
+      try {
+        const repoPath = await gitOps.initRepository(options);
+        return { success: true, data: repoPath };
+      } catch (error) {
+        return {
+          success: false,
+          error: error instanceof Error ? error : new Error('Failed to init repository'),
+        };
+      }
+    }
+  );
 }
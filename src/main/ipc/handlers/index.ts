@@ -4,6 +4,7 @@ import { setupGitHandlers } from './git';
 import { setupRepositoryHandlers } from './repository';
 import { setupNetworkHandlers } from './network';
 import { setupAutomationHandlers } from './automation';
+import { setupSettingsHandlers } from './settings';
 import path from 'path';
 import fs from 'fs';
 import { exec } from 'child_process';
@@ -16,6 +17,7 @@ export function setupIpcHandlers(): void {
   setupRepositoryHandlers();
   setupNetworkHandlers();
   setupAutomationHandlers();
+  setupSettingsHandlers();
 
   // App version
   ipcMain.handle(IPC_CHANNELS.APP_GET_VERSION, () => {
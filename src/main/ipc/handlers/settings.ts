@@ -0,0 +1,42 @@
+import { ipcMain } from 'electron';
+import Store from 'electron-store';
+import { IPC_CHANNELS } from '../../../shared/ipc-channels';
+import { DEFAULT_SETTINGS, type AppSettings } from '../../../shared/types/settings';
+import type { Result } from '../../../shared/types/git';
+
+const store = new Store<{ settings: AppSettings }>({
+  defaults: {
+    settings: DEFAULT_SETTINGS,
+  },
+});
+
+export function setupSettingsHandlers(): void {
+  // Get settings, filling in defaults for keys added since they were saved
+  ipcMain.handle(IPC_CHANNELS.SETTINGS_GET, async (): Promise<Result<AppSettings>> => {
+    try {
+      return { success: true, data: { ...DEFAULT_SETTINGS, ...store.get('settings') } };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error : new Error('Failed to get settings'),
+      };
+    }
+  });
+
+  // Update settings
+  ipcMain.handle(
+    IPC_CHANNELS.SETTINGS_UPDATE,
+    async (_, changes: Partial<AppSettings>): Promise<Result<AppSettings>> => {
+      try {
+        const settings = { ...DEFAULT_SETTINGS, ...store.get('settings'), ...changes };
+        store.set('settings', settings);
+        return { success: true, data: settings };
+      } catch (error) {
+        return {
+          success: false,
+          error: error instanceof Error ? error : new Error('Failed to update settings'),
+        };
+      }
+    }
+  );
+}
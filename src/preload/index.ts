@@ -3,9 +3,42 @@ import { IPC_CHANNELS } from '../shared/ipc-channels';
 import type {
   Repository,
   Commit,
+  CommitQuery,
   Branch,
   RepositoryStatus,
   DiffResult,
+  DiffLineSelection,
+  CommitOptions,
+  Stash,
+  StashPushOptions,
+  Tag,
+  Remote,
+  MergeState,
+  ConflictFile,
+  RebaseTodoItem,
+  RebaseState,
+  CherryPickOptions,
+  RevertOptions,
+  SequencerState,
+  ResetMode,
+  ResetSnapshot,
+  ReflogEntry,
+  BlameOptions,
+  BlameResult,
+  FileHistoryEntry,
+  TreeEntry,
+  BlobContent,
+  DiffContents,
+  DiffOptions,
+  Submodule,
+  Worktree,
+  BisectState,
+  BisectVerdict,
+  BisectRunResult,
+  CloneOptions,
+  CloneProgress,
+  InitTemplates,
+  InitRepositoryOptions,
   ConnectionStatus,
   Result,
 } from '../shared/types/git';
@@ -13,6 +46,7 @@ import type {
   AutomationScript,
   AutomationExecution,
 } from '../shared/types/automation';
+import type { AppSettings } from '../shared/types/settings';
 
 // Expose protected methods that allow the renderer process to use
 // ipcRenderer without exposing the entire object
@@ -34,7 +68,10 @@ const api = {
 
   // Git operations
   git: {
-    getCommits: (repoPath: string, options?: { limit?: number; skip?: number; branch?: string }): Promise<Result<Commit[]>> =>
+    getCommits: (
+      repoPath: string,
+      options?: { limit?: number; skip?: number; branch?: string; query?: CommitQuery }
+    ): Promise<Result<Commit[]>> =>
       ipcRenderer.invoke(IPC_CHANNELS.GIT_GET_COMMITS, repoPath, options),
     
     getCommitCount: (repoPath: string, branch?: string): Promise<Result<number>> =>
@@ -60,12 +97,19 @@ const api = {
       repoPath: string,
       base: string,
       compare: string,
-      filePaths: string[]
+      filePaths: string[],
+      options?: DiffOptions
     ): Promise<Result<string>> =>
-      ipcRenderer.invoke(IPC_CHANNELS.GIT_GET_DIFF, repoPath, base, compare, filePaths),
+      ipcRenderer.invoke(IPC_CHANNELS.GIT_GET_DIFF, repoPath, base, compare, filePaths, options),
     
-    getCommitFileDiff: (repoPath: string, commitSha: string, filePath: string): Promise<Result<string>> =>
-      ipcRenderer.invoke(IPC_CHANNELS.GIT_GET_COMMIT_FILE_DIFF, repoPath, commitSha, filePath),
+    getCommitFileDiff: (
+      repoPath: string,
+      commitSha: string,
+      filePath: string,
+      oldPath?: string,
+      options?: DiffOptions
+    ): Promise<Result<string>> =>
+      ipcRenderer.invoke(IPC_CHANNELS.GIT_GET_COMMIT_FILE_DIFF, repoPath, commitSha, filePath, oldPath, options),
     
     checkout: (repoPath: string, branch: string): Promise<Result<void>> =>
       ipcRenderer.invoke(IPC_CHANNELS.GIT_CHECKOUT, repoPath, branch),
@@ -76,23 +120,246 @@ const api = {
     stageFiles: (repoPath: string, files: string[]): Promise<Result<void>> =>
       ipcRenderer.invoke(IPC_CHANNELS.GIT_STAGE_FILES, repoPath, files),
     
-    commit: (repoPath: string, message: string): Promise<Result<void>> =>
-      ipcRenderer.invoke(IPC_CHANNELS.GIT_COMMIT, repoPath, message),
+    unstageFiles: (repoPath: string, files: string[]): Promise<Result<void>> =>
+      ipcRenderer.invoke(IPC_CHANNELS.GIT_UNSTAGE_FILES, repoPath, files),
+    
+    getFileDiff: (repoPath: string, filePath: string, staged: boolean, options?: DiffOptions): Promise<Result<string>> =>
+      ipcRenderer.invoke(IPC_CHANNELS.GIT_GET_FILE_DIFF, repoPath, filePath, staged, options),
+    
+    stageHunk: (repoPath: string, filePath: string, hunkIndex: number): Promise<Result<void>> =>
+      ipcRenderer.invoke(IPC_CHANNELS.GIT_STAGE_HUNK, repoPath, filePath, hunkIndex),
     
-    fetch: (repoPath: string): Promise<Result<void>> =>
-      ipcRenderer.invoke(IPC_CHANNELS.GIT_FETCH, repoPath),
+    unstageHunk: (repoPath: string, filePath: string, hunkIndex: number): Promise<Result<void>> =>
+      ipcRenderer.invoke(IPC_CHANNELS.GIT_UNSTAGE_HUNK, repoPath, filePath, hunkIndex),
     
-    pull: (repoPath: string): Promise<Result<void>> =>
-      ipcRenderer.invoke(IPC_CHANNELS.GIT_PULL, repoPath),
+    stageLines: (repoPath: string, filePath: string, selections: DiffLineSelection[]): Promise<Result<void>> =>
+      ipcRenderer.invoke(IPC_CHANNELS.GIT_STAGE_LINES, repoPath, filePath, selections),
     
-    push: (repoPath: string): Promise<Result<void>> =>
-      ipcRenderer.invoke(IPC_CHANNELS.GIT_PUSH, repoPath),
+    unstageLines: (repoPath: string, filePath: string, selections: DiffLineSelection[]): Promise<Result<void>> =>
+      ipcRenderer.invoke(IPC_CHANNELS.GIT_UNSTAGE_LINES, repoPath, filePath, selections),
     
-    getRemoteUrl: (repoPath: string): Promise<Result<string | undefined>> =>
-      ipcRenderer.invoke(IPC_CHANNELS.GIT_GET_REMOTE_URL, repoPath),
+    commit: (repoPath: string, message: string, options?: CommitOptions): Promise<Result<void>> =>
+      ipcRenderer.invoke(IPC_CHANNELS.GIT_COMMIT, repoPath, message, options),
+    
+    fetch: (repoPath: string, remote?: string, branch?: string): Promise<Result<void>> =>
+      ipcRenderer.invoke(IPC_CHANNELS.GIT_FETCH, repoPath, remote, branch),
+    
+    pull: (repoPath: string, remote?: string, branch?: string): Promise<Result<void>> =>
+      ipcRenderer.invoke(IPC_CHANNELS.GIT_PULL, repoPath, remote, branch),
+    
+    push: (repoPath: string, remote?: string, branch?: string): Promise<Result<void>> =>
+      ipcRenderer.invoke(IPC_CHANNELS.GIT_PUSH, repoPath, remote, branch),
+    
+    getRemoteUrl: (repoPath: string, remote?: string): Promise<Result<string | undefined>> =>
+      ipcRenderer.invoke(IPC_CHANNELS.GIT_GET_REMOTE_URL, repoPath, remote),
     
     getLastFetchTime: (repoPath: string): Promise<Result<number | null>> =>
       ipcRenderer.invoke(IPC_CHANNELS.GIT_GET_LAST_FETCH_TIME, repoPath),
+    
+    stashPush: (repoPath: string, options?: StashPushOptions): Promise<Result<void>> =>
+      ipcRenderer.invoke(IPC_CHANNELS.GIT_STASH_PUSH, repoPath, options),
+    
+    getStashes: (repoPath: string): Promise<Result<Stash[]>> =>
+      ipcRenderer.invoke(IPC_CHANNELS.GIT_STASH_LIST, repoPath),
+    
+    getStashDiff: (repoPath: string, index: number): Promise<Result<string>> =>
+      ipcRenderer.invoke(IPC_CHANNELS.GIT_STASH_SHOW, repoPath, index),
+    
+    applyStash: (repoPath: string, index: number, restoreIndex?: boolean): Promise<Result<void>> =>
+      ipcRenderer.invoke(IPC_CHANNELS.GIT_STASH_APPLY, repoPath, index, restoreIndex),
+    
+    popStash: (repoPath: string, index: number, restoreIndex?: boolean): Promise<Result<void>> =>
+      ipcRenderer.invoke(IPC_CHANNELS.GIT_STASH_POP, repoPath, index, restoreIndex),
+    
+    dropStash: (repoPath: string, index: number): Promise<Result<void>> =>
+      ipcRenderer.invoke(IPC_CHANNELS.GIT_STASH_DROP, repoPath, index),
+    
+    branchFromStash: (repoPath: string, index: number, branchName: string): Promise<Result<void>> =>
+      ipcRenderer.invoke(IPC_CHANNELS.GIT_STASH_BRANCH, repoPath, index, branchName),
+    
+    getTags: (repoPath: string): Promise<Result<Tag[]>> =>
+      ipcRenderer.invoke(IPC_CHANNELS.GIT_GET_TAGS, repoPath),
+    
+    createTag: (repoPath: string, tagName: string, target?: string, message?: string): Promise<Result<void>> =>
+      ipcRenderer.invoke(IPC_CHANNELS.GIT_CREATE_TAG, repoPath, tagName, target, message),
+    
+    deleteTag: (repoPath: string, tagName: string): Promise<Result<void>> =>
+      ipcRenderer.invoke(IPC_CHANNELS.GIT_DELETE_TAG, repoPath, tagName),
+    
+    deleteRemoteTag: (repoPath: string, tagName: string, remote?: string): Promise<Result<void>> =>
+      ipcRenderer.invoke(IPC_CHANNELS.GIT_DELETE_REMOTE_TAG, repoPath, tagName, remote),
+    
+    pushTags: (repoPath: string, remote?: string, tagName?: string): Promise<Result<void>> =>
+      ipcRenderer.invoke(IPC_CHANNELS.GIT_PUSH_TAGS, repoPath, remote, tagName),
+    
+    getRemotes: (repoPath: string): Promise<Result<Remote[]>> =>
+      ipcRenderer.invoke(IPC_CHANNELS.GIT_GET_REMOTES, repoPath),
+    
+    addRemote: (repoPath: string, name: string, url: string): Promise<Result<void>> =>
+      ipcRenderer.invoke(IPC_CHANNELS.GIT_ADD_REMOTE, repoPath, name, url),
+    
+    renameRemote: (repoPath: string, oldName: string, newName: string): Promise<Result<void>> =>
+      ipcRenderer.invoke(IPC_CHANNELS.GIT_RENAME_REMOTE, repoPath, oldName, newName),
+    
+    removeRemote: (repoPath: string, name: string): Promise<Result<void>> =>
+      ipcRenderer.invoke(IPC_CHANNELS.GIT_REMOVE_REMOTE, repoPath, name),
+    
+    setRemoteUrl: (repoPath: string, name: string, url: string, pushUrl?: boolean): Promise<Result<void>> =>
+      ipcRenderer.invoke(IPC_CHANNELS.GIT_SET_REMOTE_URL, repoPath, name, url, pushUrl),
+    
+    getMergeState: (repoPath: string): Promise<Result<MergeState>> =>
+      ipcRenderer.invoke(IPC_CHANNELS.GIT_GET_MERGE_STATE, repoPath),
+    
+    getConflict: (repoPath: string, filePath: string): Promise<Result<ConflictFile>> =>
+      ipcRenderer.invoke(IPC_CHANNELS.GIT_GET_CONFLICT, repoPath, filePath),
+    
+    resolveConflict: (repoPath: string, filePath: string, content: string | null): Promise<Result<void>> =>
+      ipcRenderer.invoke(IPC_CHANNELS.GIT_RESOLVE_CONFLICT, repoPath, filePath, content),
+    
+    mergeContinue: (repoPath: string): Promise<Result<void>> =>
+      ipcRenderer.invoke(IPC_CHANNELS.GIT_MERGE_CONTINUE, repoPath),
+    
+    mergeAbort: (repoPath: string): Promise<Result<void>> =>
+      ipcRenderer.invoke(IPC_CHANNELS.GIT_MERGE_ABORT, repoPath),
+    
+    getRebasePlan: (repoPath: string, base: string): Promise<Result<RebaseTodoItem[]>> =>
+      ipcRenderer.invoke(IPC_CHANNELS.GIT_GET_REBASE_PLAN, repoPath, base),
+    
+    startRebase: (repoPath: string, base: string, todo: RebaseTodoItem[]): Promise<Result<RebaseState>> =>
+      ipcRenderer.invoke(IPC_CHANNELS.GIT_START_REBASE, repoPath, base, todo),
+    
+    getRebaseState: (repoPath: string): Promise<Result<RebaseState>> =>
+      ipcRenderer.invoke(IPC_CHANNELS.GIT_GET_REBASE_STATE, repoPath),
+    
+    continueRebase: (repoPath: string): Promise<Result<RebaseState>> =>
+      ipcRenderer.invoke(IPC_CHANNELS.GIT_REBASE_CONTINUE, repoPath),
+    
+    skipRebase: (repoPath: string): Promise<Result<RebaseState>> =>
+      ipcRenderer.invoke(IPC_CHANNELS.GIT_REBASE_SKIP, repoPath),
+    
+    abortRebase: (repoPath: string): Promise<Result<void>> =>
+      ipcRenderer.invoke(IPC_CHANNELS.GIT_REBASE_ABORT, repoPath),
+    
+    getCommitParents: (repoPath: string, sha: string): Promise<Result<string[]>> =>
+      ipcRenderer.invoke(IPC_CHANNELS.GIT_GET_COMMIT_PARENTS, repoPath, sha),
+    
+    cherryPick: (repoPath: string, shas: string[], options?: CherryPickOptions): Promise<Result<SequencerState>> =>
+      ipcRenderer.invoke(IPC_CHANNELS.GIT_CHERRY_PICK, repoPath, shas, options),
+    
+    revertCommit: (repoPath: string, sha: string, options?: RevertOptions): Promise<Result<SequencerState>> =>
+      ipcRenderer.invoke(IPC_CHANNELS.GIT_REVERT, repoPath, sha, options),
+    
+    getSequencerState: (repoPath: string): Promise<Result<SequencerState>> =>
+      ipcRenderer.invoke(IPC_CHANNELS.GIT_GET_SEQUENCER_STATE, repoPath),
+    
+    continueSequencer: (repoPath: string): Promise<Result<SequencerState>> =>
+      ipcRenderer.invoke(IPC_CHANNELS.GIT_SEQUENCER_CONTINUE, repoPath),
+    
+    abortSequencer: (repoPath: string): Promise<Result<void>> =>
+      ipcRenderer.invoke(IPC_CHANNELS.GIT_SEQUENCER_ABORT, repoPath),
+    
+    resetToCommit: (repoPath: string, sha: string, mode: ResetMode): Promise<Result<ResetSnapshot | null>> =>
+      ipcRenderer.invoke(IPC_CHANNELS.GIT_RESET, repoPath, sha, mode),
+    
+    getResetSnapshot: (repoPath: string): Promise<Result<ResetSnapshot | null>> =>
+      ipcRenderer.invoke(IPC_CHANNELS.GIT_GET_RESET_SNAPSHOT, repoPath),
+    
+    undoReset: (repoPath: string): Promise<Result<void>> =>
+      ipcRenderer.invoke(IPC_CHANNELS.GIT_UNDO_RESET, repoPath),
+    
+    discardResetSnapshot: (repoPath: string): Promise<Result<void>> =>
+      ipcRenderer.invoke(IPC_CHANNELS.GIT_DISCARD_RESET_SNAPSHOT, repoPath),
+    
+    getReflog: (repoPath: string, ref?: string, limit?: number): Promise<Result<ReflogEntry[]>> =>
+      ipcRenderer.invoke(IPC_CHANNELS.GIT_GET_REFLOG, repoPath, ref, limit),
+    
+    restoreRef: (repoPath: string, ref: string, sha: string): Promise<Result<ResetSnapshot | null>> =>
+      ipcRenderer.invoke(IPC_CHANNELS.GIT_RESTORE_REF, repoPath, ref, sha),
+    
+    getBlame: (repoPath: string, filePath: string, options?: BlameOptions): Promise<Result<BlameResult>> =>
+      ipcRenderer.invoke(IPC_CHANNELS.GIT_GET_BLAME, repoPath, filePath, options),
+    
+    getFileHistory: (repoPath: string, filePath: string, limit?: number, skip?: number): Promise<Result<FileHistoryEntry[]>> =>
+      ipcRenderer.invoke(IPC_CHANNELS.GIT_GET_FILE_HISTORY, repoPath, filePath, limit, skip),
+    
+    restoreFileVersion: (repoPath: string, sha: string, sourcePath: string, targetPath?: string): Promise<Result<void>> =>
+      ipcRenderer.invoke(IPC_CHANNELS.GIT_RESTORE_FILE_VERSION, repoPath, sha, sourcePath, targetPath),
+    
+    getTree: (repoPath: string, rev: string, dirPath?: string): Promise<Result<TreeEntry[]>> =>
+      ipcRenderer.invoke(IPC_CHANNELS.GIT_GET_TREE, repoPath, rev, dirPath),
+    
+    getBlob: (repoPath: string, rev: string, filePath: string): Promise<Result<BlobContent>> =>
+      ipcRenderer.invoke(IPC_CHANNELS.GIT_GET_BLOB, repoPath, rev, filePath),
+    
+    getDiffContents: (repoPath: string, filePath: string, oldId: string, newId: string): Promise<Result<DiffContents>> =>
+      ipcRenderer.invoke(IPC_CHANNELS.GIT_GET_DIFF_CONTENTS, repoPath, filePath, oldId, newId),
+    
+    getSubmodules: (repoPath: string): Promise<Result<Submodule[]>> =>
+      ipcRenderer.invoke(IPC_CHANNELS.GIT_GET_SUBMODULES, repoPath),
+    
+    initSubmodules: (repoPath: string, paths?: string[]): Promise<Result<void>> =>
+      ipcRenderer.invoke(IPC_CHANNELS.GIT_INIT_SUBMODULES, repoPath, paths),
+    
+    updateSubmodules: (repoPath: string, paths?: string[], recursive?: boolean): Promise<Result<void>> =>
+      ipcRenderer.invoke(IPC_CHANNELS.GIT_UPDATE_SUBMODULES, repoPath, paths, recursive),
+    
+    syncSubmodules: (repoPath: string, paths?: string[]): Promise<Result<void>> =>
+      ipcRenderer.invoke(IPC_CHANNELS.GIT_SYNC_SUBMODULES, repoPath, paths),
+    
+    getWorktrees: (repoPath: string): Promise<Result<Worktree[]>> =>
+      ipcRenderer.invoke(IPC_CHANNELS.GIT_GET_WORKTREES, repoPath),
+    
+    addWorktree: (repoPath: string, worktreePath: string, branch: string, createBranch?: boolean, startPoint?: string): Promise<Result<void>> =>
+      ipcRenderer.invoke(IPC_CHANNELS.GIT_ADD_WORKTREE, repoPath, worktreePath, branch, createBranch, startPoint),
+    
+    removeWorktree: (repoPath: string, worktreePath: string, force?: boolean): Promise<Result<void>> =>
+      ipcRenderer.invoke(IPC_CHANNELS.GIT_REMOVE_WORKTREE, repoPath, worktreePath, force),
+    
+    lockWorktree: (repoPath: string, worktreePath: string, reason?: string): Promise<Result<void>> =>
+      ipcRenderer.invoke(IPC_CHANNELS.GIT_LOCK_WORKTREE, repoPath, worktreePath, reason),
+    
+    unlockWorktree: (repoPath: string, worktreePath: string): Promise<Result<void>> =>
+      ipcRenderer.invoke(IPC_CHANNELS.GIT_UNLOCK_WORKTREE, repoPath, worktreePath),
+    
+    pruneWorktrees: (repoPath: string): Promise<Result<void>> =>
+      ipcRenderer.invoke(IPC_CHANNELS.GIT_PRUNE_WORKTREES, repoPath),
+    
+    getBisectState: (repoPath: string): Promise<Result<BisectState>> =>
+      ipcRenderer.invoke(IPC_CHANNELS.GIT_GET_BISECT_STATE, repoPath),
+    
+    startBisect: (repoPath: string, bad: string, good: string[]): Promise<Result<void>> =>
+      ipcRenderer.invoke(IPC_CHANNELS.GIT_START_BISECT, repoPath, bad, good),
+    
+    markBisect: (repoPath: string, verdict: BisectVerdict, sha?: string): Promise<Result<void>> =>
+      ipcRenderer.invoke(IPC_CHANNELS.GIT_MARK_BISECT, repoPath, verdict, sha),
+    
+    resetBisect: (repoPath: string): Promise<Result<void>> =>
+      ipcRenderer.invoke(IPC_CHANNELS.GIT_RESET_BISECT, repoPath),
+    
+    runBisect: (repoPath: string, command: string): Promise<Result<BisectRunResult>> =>
+      ipcRenderer.invoke(IPC_CHANNELS.GIT_RUN_BISECT, repoPath, command),
+    
+    clone: (cloneId: string, options: CloneOptions): Promise<Result<string>> =>
+      ipcRenderer.invoke(IPC_CHANNELS.GIT_CLONE, cloneId, options),
+    
+    cancelClone: (cloneId: string): Promise<Result<void>> =>
+      ipcRenderer.invoke(IPC_CHANNELS.GIT_CANCEL_CLONE, cloneId),
+    
+    // Returns a function that removes the listener
+    onCloneProgress: (callback: (cloneId: string, progress: CloneProgress) => void) => {
+      const listener = (_: Electron.IpcRendererEvent, cloneId: string, progress: CloneProgress) =>
+        callback(cloneId, progress);
+      ipcRenderer.on(IPC_CHANNELS.GIT_CLONE_PROGRESS, listener);
+      return () => {
+        ipcRenderer.removeListener(IPC_CHANNELS.GIT_CLONE_PROGRESS, listener);
+      };
+    },
+    
+    getInitTemplates: (): Promise<Result<InitTemplates>> =>
+      ipcRenderer.invoke(IPC_CHANNELS.GIT_GET_INIT_TEMPLATES),
+    
+    initRepository: (options: InitRepositoryOptions): Promise<Result<string>> =>
+      ipcRenderer.invoke(IPC_CHANNELS.GIT_INIT_REPOSITORY, options),
   },
 
   // Network operations
@@ -126,6 +393,15 @@ const api = {
       ipcRenderer.invoke(IPC_CHANNELS.AUTOMATION_GET_HISTORY, scriptId),
   },
 
+  // Settings
+  settings: {
+    get: (): Promise<Result<AppSettings>> =>
+      ipcRenderer.invoke(IPC_CHANNELS.SETTINGS_GET),
+    
+    update: (changes: Partial<AppSettings>): Promise<Result<AppSettings>> =>
+      ipcRenderer.invoke(IPC_CHANNELS.SETTINGS_UPDATE, changes),
+  },
+
   // App operations
   app: {
     getVersion: (): Promise<string> =>
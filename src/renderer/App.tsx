@@ -34,8 +34,9 @@ export const App: React.FC = () => {
       }
     });
 
-    // Load repositories
+    // Load repositories and settings
     loadRepositories();
+    loadSettings();
   }, []);
 
   const loadRepositories = async () => {
@@ -47,6 +48,15 @@ export const App: React.FC = () => {
     }
   };
 
+  const loadSettings = async () => {
+    if (!window.api) return;
+
+    const result = await window.api.settings.get();
+    if (result.success) {
+      useAppStore.getState().setSettings(result.data);
+    }
+  };
+
   return (
     <div className="flex h-screen w-screen overflow-hidden bg-background text-text-primary">
       <Sidebar />
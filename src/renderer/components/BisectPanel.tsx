@@ -0,0 +1,274 @@
+import React from 'react';
+import {
+  Bug,
+  Check,
+  X,
+  SkipForward,
+  Play,
+  Square,
+  ChevronDown,
+  ChevronRight,
+  AlertCircle,
+} from 'lucide-react';
+import type { BisectState, BisectVerdict, BisectRunResult, Result } from '@shared/types/git';
+
+interface BisectPanelProps {
+  repoPath: string;
+  state: BisectState;
+  onChanged: () => void;
+  // Hides the start form when no bisect is running
+  onClose: () => void;
+}
+
+export const BisectPanel: React.FC<BisectPanelProps> = ({ repoPath, state, onChanged, onClose }) => {
+  const [bad, setBad] = React.useState('HEAD');
+  const [good, setGood] = React.useState('');
+  const [command, setCommand] = React.useState('');
+  const [busy, setBusy] = React.useState(false);
+  const [running, setRunning] = React.useState(false);
+  const [error, setError] = React.useState<string | null>(null);
+  const [runResult, setRunResult] = React.useState<BisectRunResult | null>(null);
+  const [expandedStep, setExpandedStep] = React.useState<number | null>(null);
+
+  const runAction = async (action: () => Promise<Result<void>>) => {
+    if (!window.api || busy) return;
+
+    setBusy(true);
+    setError(null);
+    try {
+      const result = await action();
+      if (!result.success) {
+        setError(result.error.message || 'Bisect failed');
+      }
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Bisect failed');
+    } finally {
+      setBusy(false);
+      onChanged();
+    }
+  };
+
+  const handleStart = () => {
+    const goodRevs = good.split(/[\s,]+/).filter((rev) => rev);
+    if (!bad.trim() || goodRevs.length === 0) return;
+
+    setRunResult(null);
+    runAction(() => window.api.git.startBisect(repoPath, bad.trim(), goodRevs));
+  };
+
+  const handleMark = (verdict: BisectVerdict) => {
+    runAction(() => window.api.git.markBisect(repoPath, verdict));
+  };
+
+  const handleReset = async () => {
+    await runAction(() => window.api.git.resetBisect(repoPath));
+    setRunResult(null);
+    onClose();
+  };
+
+  const handleRun = async () => {
+    if (!window.api || !command.trim() || busy) return;
+
+    setBusy(true);
+    setRunning(true);
+    setError(null);
+    setRunResult(null);
+    setExpandedStep(null);
+    try {
+      const result = await window.api.git.runBisect(repoPath, command.trim());
+      if (result.success) {
+        setRunResult(result.data);
+      } else {
+        setError(result.error.message || 'Bisect run failed');
+      }
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Bisect run failed');
+    } finally {
+      setBusy(false);
+      setRunning(false);
+      onChanged();
+    }
+  };
+
+  const short = (sha?: string) => sha?.substring(0, 7) ?? '-';
+
+  const getVerdictColor = (verdict?: BisectVerdict) => {
+    switch (verdict) {
+      case 'good':
+        return 'text-success';
+      case 'bad':
+        return 'text-error';
+      case 'skip':
+        return 'text-warning';
+      default:
+        return 'text-muted';
+    }
+  };
+
+  return (
+    <div className="border-b border-border bg-warning/10 px-4 py-3 space-y-3">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center space-x-2 text-sm">
+          <Bug className="w-4 h-4 text-warning" />
+          {!state.inProgress ? (
+            <span className="font-medium">Start a bisect</span>
+          ) : state.firstBad ? (
+            <span>
+              <span className="font-medium">First bad commit: </span>
+              <code className="font-mono text-error">{short(state.firstBad)}</code>
+            </span>
+          ) : !state.bad || state.good.length === 0 ? (
+            <span className="font-medium">
+              Bisect in progress: mark a {state.bad ? 'good' : 'bad'} commit to narrow the range
+            </span>
+          ) : (
+            <span>
+              <span className="font-medium">Bisecting: </span>
+              {state.remaining.length} commit{state.remaining.length !== 1 ? 's' : ''} left, roughly{' '}
+              {state.estimatedSteps} step{state.estimatedSteps !== 1 ? 's' : ''}
+              <span className="text-muted">
+                {' '}· testing <code className="font-mono">{short(state.current)}</code>
+                {state.skipped.length > 0 && ` · ${state.skipped.length} skipped`}
+              </span>
+            </span>
+          )}
+        </div>
+
+        <div className="flex items-center space-x-2">
+          {state.inProgress && !state.firstBad && (
+            <>
+              <button
+                onClick={() => handleMark('good')}
+                disabled={busy}
+                className="flex items-center space-x-1 px-3 py-1 text-xs bg-success/20 text-success hover:bg-success/30 rounded transition-colors disabled:opacity-50"
+              >
+                <Check className="w-3 h-3" />
+                <span>Good</span>
+              </button>
+              <button
+                onClick={() => handleMark('bad')}
+                disabled={busy}
+                className="flex items-center space-x-1 px-3 py-1 text-xs bg-error/20 text-error hover:bg-error/30 rounded transition-colors disabled:opacity-50"
+              >
+                <X className="w-3 h-3" />
+                <span>Bad</span>
+              </button>
+              <button
+                onClick={() => handleMark('skip')}
+                disabled={busy}
+                className="flex items-center space-x-1 px-3 py-1 text-xs bg-surface hover:bg-surface-elevated rounded transition-colors disabled:opacity-50"
+              >
+                <SkipForward className="w-3 h-3" />
+                <span>Skip</span>
+              </button>
+            </>
+          )}
+          {state.inProgress ? (
+            <button
+              onClick={handleReset}
+              disabled={busy}
+              className="flex items-center space-x-1 px-3 py-1 text-xs bg-surface hover:bg-surface-elevated rounded transition-colors disabled:opacity-50"
+            >
+              <Square className="w-3 h-3" />
+              <span>End Bisect</span>
+            </button>
+          ) : (
+            <button
+              onClick={onClose}
+              className="px-3 py-1 text-xs bg-surface hover:bg-surface-elevated rounded transition-colors"
+            >
+              Cancel
+            </button>
+          )}
+        </div>
+      </div>
+
+      {error && (
+        <div className="flex items-center space-x-2 text-error text-xs">
+          <AlertCircle className="w-3.5 h-3.5 flex-shrink-0" />
+          <span className="break-all">{error}</span>
+        </div>
+      )}
+
+      {/* Start Form */}
+      {!state.inProgress && (
+        <div className="flex items-center space-x-2">
+          <input
+            type="text"
+            value={bad}
+            onChange={(e) => setBad(e.target.value)}
+            placeholder="Bad commit"
+            className="w-48 px-3 py-1.5 bg-surface border border-border rounded text-sm font-mono focus:outline-none focus:border-accent transition-colors"
+          />
+          <input
+            type="text"
+            value={good}
+            onChange={(e) => setGood(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && handleStart()}
+            placeholder="Good commits, e.g. v1.2.0"
+            className="flex-1 px-3 py-1.5 bg-surface border border-border rounded text-sm font-mono focus:outline-none focus:border-accent transition-colors"
+          />
+          <button
+            onClick={handleStart}
+            disabled={busy || !bad.trim() || !good.trim()}
+            className="px-3 py-1.5 bg-accent hover:bg-accent/80 text-background rounded text-sm transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Start
+          </button>
+        </div>
+      )}
+
+      {/* Automated Run */}
+      {state.inProgress && state.bad && state.good.length > 0 && !state.firstBad && (
+        <div className="flex items-center space-x-2">
+          <input
+            type="text"
+            value={command}
+            onChange={(e) => setCommand(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && handleRun()}
+            placeholder="Test command, e.g. npm test (exit 0 = good, 125 = skip, other = bad)"
+            className="flex-1 px-3 py-1.5 bg-surface border border-border rounded text-sm font-mono focus:outline-none focus:border-accent transition-colors"
+          />
+          <button
+            onClick={handleRun}
+            disabled={busy || !command.trim()}
+            className="flex items-center space-x-1 px-3 py-1.5 bg-accent hover:bg-accent/80 text-background rounded text-sm transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <Play className={`w-3.5 h-3.5 ${running ? 'animate-pulse' : ''}`} />
+            <span>{running ? 'Running...' : 'Run'}</span>
+          </button>
+        </div>
+      )}
+
+      {/* Run Results */}
+      {runResult && (
+        <div className="bg-surface rounded max-h-64 overflow-y-auto custom-scrollbar">
+          {runResult.steps.map((step, index) => (
+            <div key={`${step.sha}-${index}`} className="border-b border-border last:border-b-0">
+              <button
+                onClick={() => setExpandedStep(expandedStep === index ? null : index)}
+                className="w-full flex items-center space-x-2 px-3 py-1.5 text-xs text-left hover:bg-surface-elevated transition-colors"
+              >
+                {expandedStep === index ? <ChevronDown className="w-3 h-3" /> : <ChevronRight className="w-3 h-3" />}
+                <span className="text-muted">Step {index + 1}</span>
+                <code className="font-mono">{short(step.sha)}</code>
+                <span className={`font-medium ${getVerdictColor(step.verdict)}`}>
+                  {step.verdict ?? 'stopped'}
+                </span>
+                <span className="text-muted">exit {step.exitCode}</span>
+              </button>
+              {expandedStep === index && (
+                <pre className="px-3 pb-2 text-xs font-mono text-muted whitespace-pre-wrap break-all">
+                  {step.output || '(no output)'}
+                </pre>
+              )}
+            </div>
+          ))}
+          {runResult.stoppedReason && (
+            <div className="px-3 py-1.5 text-xs text-warning">{runResult.stoppedReason}</div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,35 @@
+import React from 'react';
+import { getLanguage, TOKEN_CLASSES } from '../utils/highlight';
+import { useHighlightedLines } from '../utils/useHighlightedLines';
+
+interface CodePreviewProps {
+  content: string;
+  fileName: string;
+}
+
+export const CodePreview: React.FC<CodePreviewProps> = ({ content, fileName }) => {
+  const text = content.replace(/\n$/, '');
+  const plainLines = React.useMemo(() => text.split('\n'), [text]);
+  const highlighted = useHighlightedLines(text, getLanguage(fileName));
+
+  return (
+    <div className="font-mono text-xs">
+      {plainLines.map((line, index) => (
+        <div key={index} className="flex hover:bg-surface-elevated">
+          <span className="w-12 flex-shrink-0 pr-3 text-right text-muted select-none">
+            {index + 1}
+          </span>
+          <pre className="flex-1 whitespace-pre">
+            {highlighted?.[index]
+              ? highlighted[index].map((token, tokenIndex) => (
+                  <span key={tokenIndex} className={TOKEN_CLASSES[token.type]}>
+                    {token.text}
+                  </span>
+                ))
+              : line}
+          </pre>
+        </div>
+      ))}
+    </div>
+  );
+};
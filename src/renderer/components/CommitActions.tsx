@@ -0,0 +1,526 @@
+import React from 'react';
+import { GitCommit, Undo2, Copy, X, AlertCircle, AlertTriangle, RotateCcw, History } from 'lucide-react';
+import type { ResetMode, ResetSnapshot } from '@shared/types/git';
+
+type CommitAction = 'cherry-pick' | 'revert';
+
+interface CommitRef {
+  sha: string;
+  message: string;
+}
+
+interface CommitActionDialogProps {
+  repoPath: string;
+  action: CommitAction;
+  // Commits in the order they should be applied; revert uses the first one
+  commits: CommitRef[];
+  onClose: () => void;
+  onCompleted?: () => void;
+}
+
+export const CommitActionDialog: React.FC<CommitActionDialogProps> = ({
+  repoPath,
+  action,
+  commits,
+  onClose,
+  onCompleted,
+}) => {
+  const [recordOrigin, setRecordOrigin] = React.useState(false);
+  const [noCommit, setNoCommit] = React.useState(false);
+  const [parents, setParents] = React.useState<string[]>([]);
+  const [mainline, setMainline] = React.useState(1);
+  const [running, setRunning] = React.useState(false);
+  const [error, setError] = React.useState<string | null>(null);
+  const [stoppedOnConflict, setStoppedOnConflict] = React.useState(false);
+
+  const isRevert = action === 'revert';
+  const targets = isRevert ? commits.slice(0, 1) : commits;
+
+  const targetSha = targets.length === 1 ? targets[0].sha : null;
+
+  React.useEffect(() => {
+    loadParents();
+  }, [repoPath, targetSha]);
+
+  const loadParents = async () => {
+    if (!window.api || !targetSha) return;
+
+    try {
+      const result = await window.api.git.getCommitParents(repoPath, targetSha);
+      if (result.success) {
+        setParents(result.data);
+      }
+    } catch (error) {
+      console.error('Failed to load commit parents:', error);
+    }
+  };
+
+  const isMerge = parents.length > 1;
+
+  const handleRun = async () => {
+    if (!window.api || running) return;
+
+    setRunning(true);
+    setError(null);
+    try {
+      const result = isRevert
+        ? await window.api.git.revertCommit(repoPath, targets[0].sha, {
+            noCommit,
+            mainline: isMerge ? mainline : undefined,
+          })
+        : await window.api.git.cherryPick(repoPath, targets.map((commit) => commit.sha), {
+            recordOrigin,
+            noCommit,
+            mainline: isMerge ? mainline : undefined,
+          });
+
+      if (!result.success) {
+        setError(result.error.message || `Failed to ${action}`);
+      } else if (result.data.inProgress) {
+        setStoppedOnConflict(true);
+        onCompleted?.();
+      } else {
+        onCompleted?.();
+        onClose();
+      }
+    } catch (error) {
+      setError(error instanceof Error ? error.message : `Failed to ${action}`);
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  const title = isRevert
+    ? 'Revert Commit'
+    : `Cherry-pick ${targets.length} Commit${targets.length !== 1 ? 's' : ''}`;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-background/80 backdrop-blur-sm" onClick={onClose}>
+      <div className="w-[32rem] max-h-[80vh] glass rounded-lg flex flex-col" onClick={(e) => e.stopPropagation()}>
+        {/* Header */}
+        <div className="flex items-center justify-between p-4 border-b border-border">
+          <h2 className="text-lg font-semibold">{title}</h2>
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-surface-elevated rounded-lg transition-colors"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-4 space-y-4 overflow-y-auto custom-scrollbar">
+          {/* Commits */}
+          <div className="space-y-1 max-h-40 overflow-y-auto custom-scrollbar">
+            {targets.map((commit) => (
+              <div key={commit.sha} className="flex items-center space-x-2 text-sm">
+                <code className="text-xs text-accent font-mono">{commit.sha.substring(0, 7)}</code>
+                <span className="truncate">{commit.message}</span>
+              </div>
+            ))}
+          </div>
+
+          {stoppedOnConflict ? (
+            <div className="flex items-start space-x-2 text-warning text-sm">
+              <AlertTriangle className="w-4 h-4 flex-shrink-0 mt-0.5" />
+              <span>
+                The {action} stopped with conflicts. Resolve them in the Changes view, then continue or abort from there.
+              </span>
+            </div>
+          ) : (
+            <>
+              {/* Mainline Parent */}
+              {isMerge && (
+                <div className="space-y-2">
+                  <div className="text-sm font-medium">
+                    {isRevert ? 'Parent to keep (mainline)' : 'Parent to diff against (mainline)'}
+                  </div>
+                  {parents.map((parent, index) => (
+                    <label key={parent} className="flex items-center space-x-2 text-sm cursor-pointer">
+                      <input
+                        type="radio"
+                        checked={mainline === index + 1}
+                        onChange={() => setMainline(index + 1)}
+                      />
+                      <span>Parent {index + 1}</span>
+                      <code className="text-xs text-muted font-mono">{parent.substring(0, 7)}</code>
+                    </label>
+                  ))}
+                </div>
+              )}
+
+              {/* Options */}
+              <div className="space-y-2 text-sm">
+                {!isRevert && (
+                  <label className="flex items-center space-x-2 cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={recordOrigin}
+                      onChange={(e) => setRecordOrigin(e.target.checked)}
+                    />
+                    <span>Record the original commit in the message (-x)</span>
+                  </label>
+                )}
+                <label className="flex items-center space-x-2 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={noCommit}
+                    onChange={(e) => setNoCommit(e.target.checked)}
+                  />
+                  <span>Apply changes without committing</span>
+                </label>
+              </div>
+            </>
+          )}
+
+          {error && (
+            <div className="flex items-start space-x-2 text-error text-sm">
+              <AlertCircle className="w-4 h-4 flex-shrink-0 mt-0.5" />
+              <span className="break-all whitespace-pre-wrap">{error}</span>
+            </div>
+          )}
+        </div>
+
+        {/* Footer */}
+        <div className="p-3 border-t border-border flex justify-end space-x-2 text-sm">
+          <button
+            onClick={onClose}
+            className="px-4 py-1.5 bg-surface hover:bg-surface-elevated rounded transition-colors"
+          >
+            {stoppedOnConflict ? 'Close' : 'Cancel'}
+          </button>
+          {!stoppedOnConflict && (
+            <button
+              onClick={handleRun}
+              disabled={running || targets.length === 0}
+              className="px-4 py-1.5 bg-accent hover:bg-accent/80 text-background rounded transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {running ? 'Working...' : isRevert ? 'Revert' : 'Cherry-pick'}
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+const RESET_MODES: { mode: ResetMode; label: string; description: string }[] = [
+  { mode: 'soft', label: 'Soft', description: 'Keep all changes staged' },
+  { mode: 'mixed', label: 'Mixed', description: 'Keep all changes, unstaged' },
+  { mode: 'hard', label: 'Hard', description: 'Discard all changes (a snapshot is saved so you can undo)' },
+];
+
+interface ResetDialogProps {
+  repoPath: string;
+  commit: CommitRef;
+  onClose: () => void;
+  onCompleted?: () => void;
+}
+
+export const ResetDialog: React.FC<ResetDialogProps> = ({ repoPath, commit, onClose, onCompleted }) => {
+  const [mode, setMode] = React.useState<ResetMode>('mixed');
+  const [running, setRunning] = React.useState(false);
+  const [error, setError] = React.useState<string | null>(null);
+
+  const handleReset = async () => {
+    if (!window.api || running) return;
+
+    setRunning(true);
+    setError(null);
+    try {
+      const result = await window.api.git.resetToCommit(repoPath, commit.sha, mode);
+      if (result.success) {
+        onCompleted?.();
+        onClose();
+      } else {
+        setError(result.error.message || 'Failed to reset');
+      }
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to reset');
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-background/80 backdrop-blur-sm" onClick={onClose}>
+      <div className="w-[32rem] max-h-[80vh] glass rounded-lg flex flex-col" onClick={(e) => e.stopPropagation()}>
+        {/* Header */}
+        <div className="flex items-center justify-between p-4 border-b border-border">
+          <h2 className="text-lg font-semibold">Reset to Commit</h2>
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-surface-elevated rounded-lg transition-colors"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-4 space-y-4 overflow-y-auto custom-scrollbar">
+          <div className="flex items-center space-x-2 text-sm">
+            <code className="text-xs text-accent font-mono">{commit.sha.substring(0, 7)}</code>
+            <span className="truncate">{commit.message}</span>
+          </div>
+
+          {/* Mode */}
+          <div className="space-y-2">
+            {RESET_MODES.map((option) => (
+              <label key={option.mode} className="flex items-start space-x-2 text-sm cursor-pointer">
+                <input
+                  type="radio"
+                  checked={mode === option.mode}
+                  onChange={() => setMode(option.mode)}
+                  className="mt-1"
+                />
+                <span>
+                  <span className="font-medium">{option.label}</span>
+                  <span className="text-muted"> — {option.description}</span>
+                </span>
+              </label>
+            ))}
+          </div>
+
+          {error && (
+            <div className="flex items-start space-x-2 text-error text-sm">
+              <AlertCircle className="w-4 h-4 flex-shrink-0 mt-0.5" />
+              <span className="break-all whitespace-pre-wrap">{error}</span>
+            </div>
+          )}
+        </div>
+
+        {/* Footer */}
+        <div className="p-3 border-t border-border flex justify-end space-x-2 text-sm">
+          <button
+            onClick={onClose}
+            className="px-4 py-1.5 bg-surface hover:bg-surface-elevated rounded transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleReset}
+            disabled={running}
+            className={`px-4 py-1.5 rounded transition-colors disabled:opacity-50 disabled:cursor-not-allowed ${
+              mode === 'hard'
+                ? 'bg-error hover:bg-error/80 text-white'
+                : 'bg-accent hover:bg-accent/80 text-background'
+            }`}
+          >
+            {running ? 'Resetting...' : 'Reset'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+interface ResetUndoBannerProps {
+  repoPath: string;
+  // Changing this reloads the snapshot, e.g. after a reset from a context menu
+  refreshKey?: number;
+  onUndone?: () => void;
+}
+
+export const ResetUndoBanner: React.FC<ResetUndoBannerProps> = ({ repoPath, refreshKey, onUndone }) => {
+  const [snapshot, setSnapshot] = React.useState<ResetSnapshot | null>(null);
+  const [working, setWorking] = React.useState(false);
+  const [error, setError] = React.useState<string | null>(null);
+
+  React.useEffect(() => {
+    loadSnapshot();
+  }, [repoPath, refreshKey]);
+
+  const loadSnapshot = async () => {
+    if (!window.api) return;
+
+    try {
+      const result = await window.api.git.getResetSnapshot(repoPath);
+      if (result.success) {
+        setSnapshot(result.data);
+      }
+    } catch (error) {
+      console.error('Failed to load reset snapshot:', error);
+    }
+  };
+
+  const handleUndo = async () => {
+    if (!window.api || working) return;
+
+    setWorking(true);
+    setError(null);
+    try {
+      const result = await window.api.git.undoReset(repoPath);
+      if (result.success) {
+        setSnapshot(null);
+        onUndone?.();
+      } else {
+        setError(result.error.message || 'Failed to undo reset');
+      }
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to undo reset');
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const handleDismiss = async () => {
+    if (!window.api || working) return;
+    if (!confirm('Discard the reset snapshot? The hard reset can no longer be undone from GitMoon.')) return;
+
+    setWorking(true);
+    try {
+      const result = await window.api.git.discardResetSnapshot(repoPath);
+      if (result.success) {
+        setSnapshot(null);
+      } else {
+        setError(result.error.message || 'Failed to discard reset snapshot');
+      }
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to discard reset snapshot');
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  if (!snapshot) return null;
+
+  return (
+    <div className="border-b border-border bg-warning/10 px-4 py-3">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center space-x-2 min-w-0 text-sm">
+          <History className="w-4 h-4 text-warning flex-shrink-0" />
+          <span className="font-medium">
+            Hard reset{snapshot.branch ? ` of ${snapshot.branch}` : ''} from
+          </span>
+          <code className="text-xs font-mono">{snapshot.previousHead.substring(0, 7)}</code>
+          {snapshot.changes && (
+            <span className="text-muted truncate">(uncommitted changes saved)</span>
+          )}
+        </div>
+        <div className="flex items-center space-x-2 ml-4">
+          <button
+            onClick={handleUndo}
+            disabled={working}
+            className="flex items-center space-x-1 px-3 py-1.5 bg-accent hover:bg-accent/80 text-background rounded text-sm transition-colors disabled:opacity-50"
+          >
+            <RotateCcw className="w-3 h-3" />
+            <span>{working ? 'Working...' : 'Undo Reset'}</span>
+          </button>
+          <button
+            onClick={handleDismiss}
+            disabled={working}
+            className="px-3 py-1.5 bg-surface hover:bg-surface-elevated rounded text-sm transition-colors disabled:opacity-50"
+          >
+            Dismiss
+          </button>
+        </div>
+      </div>
+      {error && (
+        <div className="flex items-center space-x-2 text-error text-sm mt-2">
+          <AlertCircle className="w-4 h-4" />
+          <span className="break-all">{error}</span>
+        </div>
+      )}
+    </div>
+  );
+};
+
+interface CommitContextMenuProps {
+  repoPath: string;
+  position: { x: number; y: number };
+  // Selected commits, oldest first
+  commits: CommitRef[];
+  onClose: () => void;
+  onCompleted?: () => void;
+}
+
+export const CommitContextMenu: React.FC<CommitContextMenuProps> = ({
+  repoPath,
+  position,
+  commits,
+  onClose,
+  onCompleted,
+}) => {
+  const [dialog, setDialog] = React.useState<CommitAction | 'reset' | null>(null);
+
+  React.useEffect(() => {
+    if (dialog) return;
+
+    const handleDismiss = () => onClose();
+    const handleKeyDown = (e: KeyboardEvent) => e.key === 'Escape' && onClose();
+    window.addEventListener('click', handleDismiss);
+    window.addEventListener('keydown', handleKeyDown);
+    return () => {
+      window.removeEventListener('click', handleDismiss);
+      window.removeEventListener('keydown', handleKeyDown);
+    };
+  }, [dialog, onClose]);
+
+  if (dialog === 'reset') {
+    return (
+      <ResetDialog
+        repoPath={repoPath}
+        commit={commits[0]}
+        onClose={onClose}
+        onCompleted={onCompleted}
+      />
+    );
+  }
+
+  if (dialog) {
+    return (
+      <CommitActionDialog
+        repoPath={repoPath}
+        action={dialog}
+        commits={commits}
+        onClose={onClose}
+        onCompleted={onCompleted}
+      />
+    );
+  }
+
+  const itemClass = 'w-full flex items-center space-x-2 px-3 py-1.5 text-sm text-left hover:bg-surface-elevated transition-colors disabled:opacity-50 disabled:cursor-not-allowed';
+
+  return (
+    <div
+      className="fixed z-50 min-w-[14rem] glass rounded-lg border border-border py-1 shadow-lg"
+      style={{ left: position.x, top: position.y }}
+      onClick={(e) => e.stopPropagation()}
+      onContextMenu={(e) => e.preventDefault()}
+    >
+      <button className={itemClass} onClick={() => setDialog('cherry-pick')}>
+        <GitCommit className="w-4 h-4" />
+        <span>
+          Cherry-pick {commits.length > 1 ? `${commits.length} commits` : 'commit'}...
+        </span>
+      </button>
+      <button
+        className={itemClass}
+        onClick={() => setDialog('revert')}
+        disabled={commits.length !== 1}
+        title={commits.length !== 1 ? 'Revert one commit at a time' : undefined}
+      >
+        <Undo2 className="w-4 h-4" />
+        <span>Revert commit...</span>
+      </button>
+      <button
+        className={itemClass}
+        onClick={() => setDialog('reset')}
+        disabled={commits.length !== 1}
+        title={commits.length !== 1 ? 'Select a single commit to reset to' : undefined}
+      >
+        <RotateCcw className="w-4 h-4" />
+        <span>Reset current branch to here...</span>
+      </button>
+      <div className="border-t border-border my-1" />
+      <button
+        className={itemClass}
+        onClick={() => {
+          navigator.clipboard.writeText(commits.map((commit) => commit.sha).join('\n'));
+          onClose();
+        }}
+      >
+        <Copy className="w-4 h-4" />
+        <span>Copy SHA{commits.length > 1 ? 's' : ''}</span>
+      </button>
+    </div>
+  );
+};
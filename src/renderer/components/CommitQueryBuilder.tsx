@@ -0,0 +1,265 @@
+import React from 'react';
+import { Bookmark, Filter, Save, X } from 'lucide-react';
+import type { CommitQuery } from '@shared/types/git';
+import { useAppStore } from '../stores/app';
+import { hasCommitFilters, normalizeCommitQuery } from '../utils/commitQuery';
+
+interface CommitQueryBuilderProps {
+  // The query the view is currently showing; edits only take effect on Apply
+  query: CommitQuery;
+  onApply: (query: CommitQuery) => void;
+}
+
+const MERGE_CHOICES: { id: NonNullable<CommitQuery['merges']> | ''; label: string }[] = [
+  { id: '', label: 'All commits' },
+  { id: 'exclude', label: 'No merges' },
+  { id: 'only', label: 'Merges only' },
+];
+
+const inputClass =
+  'w-full px-3 py-1.5 bg-surface border border-border rounded-lg text-sm focus:outline-none focus:border-accent transition-colors';
+
+export const CommitQueryBuilder: React.FC<CommitQueryBuilderProps> = ({ query, onApply }) => {
+  const [savedSearches, updateSettings] = useAppStore((state) => [
+    state.settings.savedCommitSearches,
+    state.updateSettings,
+  ]);
+  const [draft, setDraft] = React.useState<CommitQuery>(query);
+  // Paths are edited as one comma-separated field and split on apply
+  const [pathsText, setPathsText] = React.useState((query.paths ?? []).join(', '));
+  const [saveName, setSaveName] = React.useState('');
+
+  React.useEffect(() => {
+    setDraft(query);
+    setPathsText((query.paths ?? []).join(', '));
+  }, [query]);
+
+  const setField = <K extends keyof CommitQuery>(key: K, value: CommitQuery[K]) => {
+    setDraft((current) => ({ ...current, [key]: value }));
+  };
+
+  const buildQuery = () => normalizeCommitQuery({ ...draft, paths: pathsText.split(',') });
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    onApply(buildQuery());
+  };
+
+  const handleSave = () => {
+    const name = saveName.trim();
+    const saved = buildQuery();
+    if (!name || !hasCommitFilters(saved)) return;
+
+    // Saving under an existing name replaces that search
+    updateSettings({
+      savedCommitSearches: [...savedSearches.filter((search) => search.name !== name), { name, query: saved }],
+    });
+    setSaveName('');
+    onApply(saved);
+  };
+
+  const handleDelete = (name: string) => {
+    updateSettings({ savedCommitSearches: savedSearches.filter((search) => search.name !== name) });
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="mt-4 p-4 bg-surface-elevated border border-border rounded-lg space-y-3">
+      {/* Saved Searches */}
+      {savedSearches.length > 0 && (
+        <div className="flex flex-wrap items-center gap-2">
+          <Bookmark className="w-4 h-4 text-muted" />
+          {savedSearches.map((search) => (
+            <span
+              key={search.name}
+              className="flex items-center text-xs bg-surface border border-border rounded-full overflow-hidden"
+            >
+              <button
+                type="button"
+                onClick={() => onApply(search.query)}
+                className="px-3 py-1 hover:text-accent transition-colors"
+              >
+                {search.name}
+              </button>
+              <button
+                type="button"
+                onClick={() => handleDelete(search.name)}
+                className="pr-2 py-1 text-muted hover:text-error transition-colors"
+                title="Delete saved search"
+              >
+                <X className="w-3 h-3" />
+              </button>
+            </span>
+          ))}
+        </div>
+      )}
+
+      <div className="grid grid-cols-2 gap-3">
+        <div>
+          <label className="text-xs text-muted">Author</label>
+          <input
+            type="text"
+            value={draft.author ?? ''}
+            onChange={(e) => setField('author', e.target.value)}
+            placeholder="Name or email"
+            className={`${inputClass} mt-1`}
+          />
+        </div>
+        <div>
+          <label className="text-xs text-muted">Committer</label>
+          <input
+            type="text"
+            value={draft.committer ?? ''}
+            onChange={(e) => setField('committer', e.target.value)}
+            placeholder="Name or email"
+            className={`${inputClass} mt-1`}
+          />
+        </div>
+        <div>
+          <label className="text-xs text-muted">Since</label>
+          <input
+            type="text"
+            value={draft.since ?? ''}
+            onChange={(e) => setField('since', e.target.value)}
+            placeholder="2024-01-31 or 2 weeks ago"
+            className={`${inputClass} mt-1`}
+          />
+        </div>
+        <div>
+          <label className="text-xs text-muted">Until</label>
+          <input
+            type="text"
+            value={draft.until ?? ''}
+            onChange={(e) => setField('until', e.target.value)}
+            placeholder="yesterday"
+            className={`${inputClass} mt-1`}
+          />
+        </div>
+        <div>
+          <div className="flex items-center justify-between">
+            <label className="text-xs text-muted">Message</label>
+            <label
+              className="flex items-center space-x-1 text-xs text-muted cursor-pointer"
+              title="Also applies to author and committer"
+            >
+              <input
+                type="checkbox"
+                checked={!!draft.regex}
+                onChange={(e) => setField('regex', e.target.checked)}
+              />
+              <span>Regex</span>
+            </label>
+          </div>
+          <input
+            type="text"
+            value={draft.message ?? ''}
+            onChange={(e) => setField('message', e.target.value)}
+            placeholder="Text in the commit message"
+            className={`${inputClass} mt-1 ${draft.regex ? 'font-mono' : ''}`}
+          />
+        </div>
+        <div>
+          <div className="flex items-center justify-between">
+            <label className="text-xs text-muted">Code change</label>
+            <label
+              className="flex items-center space-x-1 text-xs text-muted cursor-pointer"
+              title="Match added or removed lines (-G) instead of a changed occurrence count (-S)"
+            >
+              <input
+                type="checkbox"
+                checked={!!draft.pickaxeRegex}
+                onChange={(e) => setField('pickaxeRegex', e.target.checked)}
+              />
+              <span>Regex</span>
+            </label>
+          </div>
+          <input
+            type="text"
+            value={draft.pickaxe ?? ''}
+            onChange={(e) => setField('pickaxe', e.target.value)}
+            placeholder="Added or removed code"
+            className={`${inputClass} mt-1 font-mono`}
+          />
+        </div>
+        <div className="col-span-2">
+          <label className="text-xs text-muted">Paths</label>
+          <input
+            type="text"
+            value={pathsText}
+            onChange={(e) => setPathsText(e.target.value)}
+            placeholder="src/main, README.md"
+            className={`${inputClass} mt-1 font-mono`}
+          />
+        </div>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-x-4 gap-y-2 text-sm">
+        <select
+          value={draft.merges ?? ''}
+          onChange={(e) => setField('merges', (e.target.value || undefined) as CommitQuery['merges'])}
+          className="px-2 py-1 bg-surface border border-border rounded focus:outline-none focus:border-accent"
+        >
+          {MERGE_CHOICES.map((choice) => (
+            <option key={choice.id} value={choice.id}>{choice.label}</option>
+          ))}
+        </select>
+        <label className="flex items-center space-x-2 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={!!draft.firstParent}
+            onChange={(e) => setField('firstParent', e.target.checked)}
+          />
+          <span>First parent only</span>
+        </label>
+        <label
+          className="flex items-center space-x-2 cursor-pointer"
+          title="Applies to author, committer, message and code change"
+        >
+          <input
+            type="checkbox"
+            checked={!!draft.ignoreCase}
+            onChange={(e) => setField('ignoreCase', e.target.checked)}
+          />
+          <span>Ignore case</span>
+        </label>
+      </div>
+
+      {/* Actions */}
+      <div className="flex items-center justify-between pt-3 border-t border-border">
+        <div className="flex items-center space-x-2">
+          <input
+            type="text"
+            value={saveName}
+            onChange={(e) => setSaveName(e.target.value)}
+            placeholder="Name this search"
+            className="px-3 py-1.5 bg-surface border border-border rounded-lg text-sm focus:outline-none focus:border-accent transition-colors"
+          />
+          <button
+            type="button"
+            onClick={handleSave}
+            disabled={!saveName.trim() || !hasCommitFilters(buildQuery())}
+            className="flex items-center space-x-1 px-3 py-1.5 bg-surface hover:bg-surface-elevated rounded-lg transition-colors text-sm disabled:opacity-50"
+          >
+            <Save className="w-4 h-4" />
+            <span>Save</span>
+          </button>
+        </div>
+        <div className="flex space-x-2">
+          <button
+            type="button"
+            onClick={() => onApply({})}
+            className="px-3 py-1.5 bg-surface hover:bg-surface-elevated rounded-lg transition-colors text-sm"
+          >
+            Clear
+          </button>
+          <button
+            type="submit"
+            className="flex items-center space-x-1 px-3 py-1.5 bg-accent hover:bg-accent/80 text-background rounded-lg transition-colors text-sm font-medium"
+          >
+            <Filter className="w-4 h-4" />
+            <span>Apply</span>
+          </button>
+        </div>
+      </div>
+    </form>
+  );
+};
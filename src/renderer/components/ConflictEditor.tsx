@@ -0,0 +1,269 @@
+import React from 'react';
+import { X, Check, Pencil, RotateCcw, Trash2, AlertCircle } from 'lucide-react';
+import type { ConflictFile } from '@shared/types/git';
+
+interface ConflictEditorProps {
+  repoPath: string;
+  filePath: string;
+  onClose: () => void;
+  onResolved: () => void;
+}
+
+type Choice = 'ours' | 'theirs' | 'both' | 'base';
+
+const choiceLabels: Record<Choice, string> = {
+  ours: 'Use ours',
+  theirs: 'Use theirs',
+  both: 'Use both',
+  base: 'Use base',
+};
+
+const MARKER_PATTERN = /^(<<<<<<<|>>>>>>>) /m;
+
+export const ConflictEditor: React.FC<ConflictEditorProps> = ({ repoPath, filePath, onClose, onResolved }) => {
+  const [conflict, setConflict] = React.useState<ConflictFile | null>(null);
+  const [loading, setLoading] = React.useState(true);
+  const [error, setError] = React.useState<string | null>(null);
+  const [saving, setSaving] = React.useState(false);
+  const [choices, setChoices] = React.useState<Record<number, Choice>>({});
+  const [manualMode, setManualMode] = React.useState(false);
+  const [manualText, setManualText] = React.useState('');
+
+  React.useEffect(() => {
+    loadConflict();
+  }, [repoPath, filePath]);
+
+  const loadConflict = async () => {
+    if (!window.api) return;
+
+    setLoading(true);
+    setError(null);
+    setChoices({});
+    setManualMode(false);
+    try {
+      const result = await window.api.git.getConflict(repoPath, filePath);
+      if (result.success) {
+        setConflict(result.data);
+      } else {
+        setError(result.error.message || 'Failed to load conflict');
+      }
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to load conflict');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const withNewline = (text: string) => (text && !text.endsWith('\n') ? `${text}\n` : text);
+
+  const composeResult = () => {
+    if (!conflict) return '';
+
+    return conflict.segments
+      .map((segment, index) => {
+        if (segment.type === 'common') return segment.content;
+
+        switch (choices[index]) {
+          case 'ours':
+            return segment.ours;
+          case 'theirs':
+            return segment.theirs;
+          case 'both':
+            return withNewline(segment.ours) + segment.theirs;
+          case 'base':
+            return segment.base;
+          default:
+            // Unresolved hunks keep their markers so nothing is silently dropped
+            return `<<<<<<< ours\n${withNewline(segment.ours)}=======\n${withNewline(segment.theirs)}>>>>>>> theirs\n`;
+        }
+      })
+      .join('');
+  };
+
+  const result = manualMode ? manualText : composeResult();
+  const conflictIndices = conflict
+    ? conflict.segments.flatMap((segment, index) => (segment.type === 'conflict' ? [index] : []))
+    : [];
+  const resolvedCount = conflictIndices.filter((index) => choices[index]).length;
+
+  const saveResolution = async (content: string | null) => {
+    if (!window.api || saving) return;
+
+    setSaving(true);
+    setError(null);
+    try {
+      const saveResult = await window.api.git.resolveConflict(repoPath, filePath, content);
+      if (saveResult.success) {
+        onResolved();
+      } else {
+        setError(saveResult.error.message || 'Failed to resolve conflict');
+      }
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to resolve conflict');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleMarkResolved = () => {
+    if (MARKER_PATTERN.test(result) && !confirm('The result still contains conflict markers. Mark it resolved anyway?')) {
+      return;
+    }
+    saveResolution(result);
+  };
+
+  const handleDeleteFile = () => {
+    if (!confirm(`Resolve the conflict by deleting ${filePath}?`)) return;
+    saveResolution(null);
+  };
+
+  const renderSide = (label: string, content: string, exists: boolean, tone: string) => (
+    <div className="flex flex-col min-w-0">
+      <div className={`text-xs font-semibold px-2 py-1 ${tone}`}>{label}</div>
+      <pre className="flex-1 px-2 py-1 bg-background/40 whitespace-pre-wrap break-all min-h-[1.5rem]">
+        {exists ? content : <span className="italic text-muted">(deleted)</span>}
+      </pre>
+    </div>
+  );
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-background/80 backdrop-blur-sm">
+      <div className="w-[90vw] h-[85vh] glass rounded-lg flex flex-col">
+        {/* Header */}
+        <div className="flex items-center justify-between p-4 border-b border-border">
+          <div>
+            <h2 className="text-lg font-semibold">Resolve Conflict</h2>
+            <p className="text-sm text-muted font-mono">{filePath}</p>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-surface-elevated rounded-lg transition-colors"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        {error && (
+          <div className="mx-4 mt-4 p-3 rounded-lg border border-error">
+            <div className="flex items-center space-x-2 text-error text-sm">
+              <AlertCircle className="w-4 h-4" />
+              <span className="break-all">{error}</span>
+            </div>
+          </div>
+        )}
+
+        {loading ? (
+          <div className="flex-1 flex items-center justify-center text-muted">Loading conflict...</div>
+        ) : conflict && (
+          <div className="flex-1 flex min-h-0">
+            {/* Conflict Hunks */}
+            <div className="flex-1 overflow-auto custom-scrollbar bg-surface p-4 font-mono text-xs space-y-2">
+              {conflict.segments.map((segment, index) =>
+                segment.type === 'common' ? (
+                  <pre key={index} className="px-2 text-muted whitespace-pre-wrap break-all">
+                    {segment.content}
+                  </pre>
+                ) : (
+                  <div key={index} className="border border-border rounded">
+                    <div className="grid grid-cols-3 gap-px bg-border">
+                      {renderSide('Ours', segment.ours, conflict.ours !== null, 'bg-success/20 text-success')}
+                      {renderSide('Base', segment.base, conflict.base !== null, 'bg-surface-elevated text-muted')}
+                      {renderSide('Theirs', segment.theirs, conflict.theirs !== null, 'bg-accent/20 text-accent')}
+                    </div>
+                    <div className="flex items-center space-x-2 p-2 font-sans">
+                      {(Object.keys(choiceLabels) as Choice[]).map((choice) => (
+                        <button
+                          key={choice}
+                          onClick={() => setChoices({ ...choices, [index]: choice })}
+                          disabled={manualMode}
+                          className={`px-2 py-0.5 rounded text-xs transition-colors disabled:opacity-50 ${
+                            choices[index] === choice
+                              ? 'bg-accent text-background'
+                              : 'bg-surface-elevated hover:bg-border'
+                          }`}
+                        >
+                          {choiceLabels[choice]}
+                        </button>
+                      ))}
+                    </div>
+                  </div>
+                )
+              )}
+            </div>
+
+            {/* Result */}
+            <div className="w-[40%] flex flex-col border-l border-border">
+              <div className="flex items-center justify-between px-4 py-2 border-b border-border">
+                <span className="text-sm font-semibold">Result</span>
+                {manualMode ? (
+                  <button
+                    onClick={() => setManualMode(false)}
+                    className="flex items-center space-x-1 text-xs px-2 py-0.5 bg-surface-elevated hover:bg-border rounded transition-colors"
+                  >
+                    <RotateCcw className="w-3 h-3" />
+                    <span>Back to hunk choices</span>
+                  </button>
+                ) : (
+                  <button
+                    onClick={() => {
+                      setManualText(composeResult());
+                      setManualMode(true);
+                    }}
+                    className="flex items-center space-x-1 text-xs px-2 py-0.5 bg-surface-elevated hover:bg-border rounded transition-colors"
+                  >
+                    <Pencil className="w-3 h-3" />
+                    <span>Edit manually</span>
+                  </button>
+                )}
+              </div>
+              <textarea
+                value={result}
+                onChange={(e) => setManualText(e.target.value)}
+                readOnly={!manualMode}
+                spellCheck={false}
+                className={`flex-1 p-4 bg-surface font-mono text-xs resize-none focus:outline-none custom-scrollbar ${
+                  manualMode ? '' : 'text-muted'
+                }`}
+              />
+            </div>
+          </div>
+        )}
+
+        {/* Footer */}
+        <div className="p-3 border-t border-border flex justify-between items-center text-xs text-muted">
+          <span>
+            {manualMode
+              ? 'Editing result manually'
+              : `${resolvedCount} of ${conflictIndices.length} conflict${conflictIndices.length !== 1 ? 's' : ''} resolved`}
+          </span>
+          <div className="flex items-center space-x-2">
+            {conflict && (conflict.ours === null || conflict.theirs === null) && (
+              <button
+                onClick={handleDeleteFile}
+                disabled={saving}
+                className="flex items-center space-x-1 px-4 py-1.5 bg-red-500/20 hover:bg-red-500/30 text-red-400 rounded transition-colors disabled:opacity-50"
+              >
+                <Trash2 className="w-3 h-3" />
+                <span>Delete File</span>
+              </button>
+            )}
+            <button
+              onClick={handleMarkResolved}
+              disabled={!conflict || saving}
+              className="flex items-center space-x-1 px-4 py-1.5 bg-accent hover:bg-accent/80 text-background rounded transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <Check className="w-3 h-3" />
+              <span>{saving ? 'Saving...' : 'Mark Resolved'}</span>
+            </button>
+            <button
+              onClick={onClose}
+              className="px-4 py-1.5 bg-surface hover:bg-surface-elevated rounded transition-colors"
+            >
+              Close
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
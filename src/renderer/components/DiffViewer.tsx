@@ -1,28 +1,264 @@
 import React from 'react';
-import { X } from 'lucide-react';
+import { X, Plus, Minus, Rows2, Columns2, AlertCircle } from 'lucide-react';
+import type {
+  DiffAlgorithm,
+  DiffContents,
+  DiffLineSelection,
+  DiffOptions,
+  IgnoreWhitespaceMode,
+  SubmoduleChange,
+} from '@shared/types/git';
+import type { DiffViewMode } from '@shared/types/settings';
+import { useAppStore } from '../stores/app';
+import { describeSubmoduleChange } from '../utils/submodules';
+import { diffWords, type WordDiffSegment } from '../utils/wordDiff';
+import { getLanguage, TOKEN_CLASSES, type Token, type TokenType } from '../utils/highlight';
+import { useHighlightedLines } from '../utils/useHighlightedLines';
 
 interface DiffViewerProps {
   diff: string;
   fileName: string;
   onClose: () => void;
+  // When set, change lines become selectable and hunks/lines can be (un)staged
+  stageMode?: 'stage' | 'unstage';
+  onApplyHunk?: (hunkIndex: number) => void;
+  onApplyLines?: (selections: DiffLineSelection[]) => void;
+  // Why the last hunk or line (un)stage failed
+  applyError?: string | null;
+  // Lets the viewer load both versions of the file so syntax highlighting sees full context
+  repoPath?: string;
+  // When set, a toolbar lets the reviewer reload the diff with other whitespace/context options
+  options?: DiffOptions;
+  onOptionsChange?: (options: DiffOptions) => void;
+}
+
+// A run of text in `--word-diff=porcelain` output
+interface WordPart {
+  text: string;
+  kind: 'context' | 'add' | 'remove';
 }
 
 interface DiffLine {
-  type: 'header' | 'add' | 'remove' | 'context' | 'meta';
+  type: 'header' | 'add' | 'remove' | 'context' | 'meta' | 'submodule' | 'word';
   content: string;
+  wordParts?: WordPart[];
   oldLineNumber?: number;
   newLineNumber?: number;
+  hunkIndex?: number;
+  lineIndex?: number;
+}
+
+// One row of the split view: indexes into the parsed lines for each side, or a full-width line
+interface SplitRow {
+  left?: number;
+  right?: number;
+  full?: number;
 }
 
-export const DiffViewer: React.FC<DiffViewerProps> = ({ diff, fileName, onClose }) => {
+/**
+ * Line up removed lines with the added lines that follow them, so both views can highlight the
+ * changed words and the split view can show each pair on one row.
+ */
+function pairChangedLines(lines: DiffLine[]): { rows: SplitRow[]; segments: Map<number, WordDiffSegment[]> } {
+  const rows: SplitRow[] = [];
+  const segments = new Map<number, WordDiffSegment[]>();
+
+  let i = 0;
+  while (i < lines.length) {
+    const type = lines[i].type;
+    if (type === 'context') {
+      rows.push({ left: i, right: i });
+      i++;
+      continue;
+    }
+    if (type !== 'remove' && type !== 'add') {
+      rows.push({ full: i });
+      i++;
+      continue;
+    }
+
+    const removed: number[] = [];
+    while (i < lines.length && lines[i].type === 'remove') removed.push(i++);
+    const added: number[] = [];
+    while (i < lines.length && lines[i].type === 'add') added.push(i++);
+
+    for (let k = 0; k < Math.max(removed.length, added.length); k++) {
+      const left = removed[k];
+      const right = added[k];
+      rows.push({ left, right });
+
+      if (left === undefined || right === undefined) continue;
+      const { oldSegments, newSegments } = diffWords(
+        lines[left].content.substring(1),
+        lines[right].content.substring(1)
+      );
+      // Lines with nothing in common are rewrites; whole-line colouring already says that
+      if (oldSegments.some((segment) => !segment.changed && segment.text.trim())) {
+        segments.set(left, oldSegments);
+        segments.set(right, newSegments);
+      }
+    }
+  }
+
+  return { rows, segments };
+}
+
+// Text one side of the diff is highlighted from. `rows` maps line numbers to rows of `text` when
+// only the hunks are available; null means `text` is the whole file.
+interface HighlightSource {
+  text: string;
+  rows: Map<number, number> | null;
+}
+
+interface StyledPiece {
+  text: string;
+  type: TokenType;
+  changed: boolean;
+}
+
+/**
+ * Path and blob ids of a diff that touches exactly one file, read from its "index" and
+ * "+++"/"---" lines
+ */
+function parseSingleFileDiff(diff: string): { path: string; oldId?: string; newId?: string } | null {
+  if ((diff.match(/^diff --git /gm) ?? []).length !== 1) return null;
+
+  const index = diff.match(/^index ([0-9a-f]+)\.\.([0-9a-f]+)/m);
+  const newPath = diff.match(/^\+\+\+ b\/(.*)$/m);
+  const oldPath = diff.match(/^--- a\/(.*)$/m);
+  const path = newPath?.[1] ?? oldPath?.[1];
+  if (!path) return null;
+
+  return { path, oldId: index?.[1], newId: index?.[2] };
+}
+
+/**
+ * Cut a line's text at both syntax token and changed-word boundaries, so each piece carries
+ * one token type and one changed flag
+ */
+function combineHighlights(text: string, tokens?: Token[], segments?: WordDiffSegment[]): StyledPiece[] {
+  // Tokens from a file that doesn't match the diff line are ignored rather than misplaced
+  const syntax: Token[] =
+    tokens && tokens.map((token) => token.text).join('') === text ? tokens : [{ type: 'plain', text }];
+  const words = segments ?? [{ text, changed: false }];
+  const pieces: StyledPiece[] = [];
+
+  let t = 0;
+  let tokenOffset = 0;
+  let w = 0;
+  let wordOffset = 0;
+  while (t < syntax.length && w < words.length) {
+    const length = Math.min(syntax[t].text.length - tokenOffset, words[w].text.length - wordOffset);
+    if (length > 0) {
+      pieces.push({
+        text: syntax[t].text.substring(tokenOffset, tokenOffset + length),
+        type: syntax[t].type,
+        changed: words[w].changed,
+      });
+    }
+    tokenOffset += length;
+    wordOffset += length;
+    if (tokenOffset >= syntax[t].text.length) {
+      t++;
+      tokenOffset = 0;
+    }
+    if (wordOffset >= words[w].text.length) {
+      w++;
+      wordOffset = 0;
+    }
+  }
+  return pieces;
+}
+
+const WHITESPACE_MODES: { id: IgnoreWhitespaceMode; label: string }[] = [
+  { id: 'none', label: 'Show all' },
+  { id: 'at-eol', label: 'Ignore at line end' },
+  { id: 'change', label: 'Ignore amount' },
+  { id: 'all', label: 'Ignore all' },
+];
+
+const DIFF_ALGORITHMS: { id: DiffAlgorithm; label: string }[] = [
+  { id: 'myers', label: 'Myers' },
+  { id: 'minimal', label: 'Minimal' },
+  { id: 'patience', label: 'Patience' },
+  { id: 'histogram', label: 'Histogram' },
+];
+
+const CONTEXT_LINE_CHOICES = [0, 1, 3, 5, 10, 25, 100];
+
+const DEFAULT_CONTEXT_LINES = 3;
+
+// Hunk and line staging rebuild the patch with git's defaults, so their indexes only match
+// a diff that was produced the same way
+const isDefaultDiffOptions = (options?: DiffOptions) =>
+  !options ||
+  ((options.ignoreWhitespace ?? 'none') === 'none' &&
+    !options.ignoreBlankLines &&
+    (options.contextLines ?? DEFAULT_CONTEXT_LINES) === DEFAULT_CONTEXT_LINES &&
+    (options.algorithm ?? 'myers') === 'myers' &&
+    !options.wordDiff);
+
+const VIEW_MODES: { id: DiffViewMode; label: string; icon: typeof Rows2 }[] = [
+  { id: 'unified', label: 'Unified', icon: Rows2 },
+  { id: 'split', label: 'Split', icon: Columns2 },
+];
+
+export const DiffViewer: React.FC<DiffViewerProps> = ({
+  diff,
+  fileName,
+  onClose,
+  stageMode,
+  onApplyHunk,
+  onApplyLines,
+  applyError,
+  repoPath,
+  options,
+  onOptionsChange,
+}) => {
+  const [selectedLines, setSelectedLines] = React.useState<Set<string>>(new Set());
+  const viewMode = useAppStore((state) => state.settings.diffViewMode);
+  const updateSettings = useAppStore((state) => state.updateSettings);
+
+  React.useEffect(() => {
+    setSelectedLines(new Set());
+  }, [diff]);
+
   const parsedLines = React.useMemo(() => {
     const lines = diff.split('\n');
     const result: DiffLine[] = [];
     let oldLine = 0;
     let newLine = 0;
+    let hunkIndex = -1;
+    let lineIndex = 0;
+    let inHunk = false;
+    // Porcelain word diffs split each line into " "/"-"/"+" runs and end it with a "~" line
+    const wordDiff = /^~$/m.test(diff);
+    let wordParts: WordPart[] = [];
+    // Gitlink diffs are "-Subproject commit <sha>" / "+Subproject commit <sha>" pairs
+    let submodule: SubmoduleChange | null = null;
+
+    const flushSubmodule = () => {
+      if (!submodule) return;
+      result.push({ type: 'submodule', content: `Submodule ${describeSubmoduleChange(submodule)}`, hunkIndex });
+      submodule = null;
+    };
 
     for (const line of lines) {
-      if (line.startsWith('diff --git') || line.startsWith('index ') || line.startsWith('---') || line.startsWith('+++')) {
+      const subproject = inHunk ? line.match(/^([-+])Subproject commit ([0-9a-f]+)(-dirty)?$/) : null;
+      if (subproject) {
+        submodule = submodule ?? {};
+        if (subproject[1] === '-') {
+          submodule.oldSha = subproject[2];
+        } else {
+          submodule.newSha = subproject[2];
+          submodule.dirty = !!subproject[3];
+        }
+        continue;
+      }
+      flushSubmodule();
+
+      if (line.startsWith('diff --git')) {
+        inHunk = false;
         result.push({ type: 'meta', content: line });
       } else if (line.startsWith('@@')) {
         // Parse hunk header to get line numbers
@@ -31,32 +267,151 @@ export const DiffViewer: React.FC<DiffViewerProps> = ({ diff, fileName, onClose
           oldLine = parseInt(match[1]);
           newLine = parseInt(match[2]);
         }
-        result.push({ type: 'header', content: line });
+        inHunk = true;
+        hunkIndex++;
+        lineIndex = 0;
+        result.push({ type: 'header', content: line, hunkIndex });
+      } else if (!inHunk) {
+        result.push({ type: 'meta', content: line });
+      } else if (wordDiff && line.startsWith('~')) {
+        result.push({
+          type: 'word',
+          content: wordParts.map((part) => part.text).join(''),
+          wordParts,
+          hunkIndex,
+        });
+        wordParts = [];
+      } else if (wordDiff && /^[ +-]/.test(line)) {
+        const kind = line[0] === '+' ? 'add' : line[0] === '-' ? 'remove' : 'context';
+        wordParts.push({ text: line.substring(1), kind });
       } else if (line.startsWith('+')) {
         result.push({
           type: 'add',
           content: line,
           newLineNumber: newLine++,
+          hunkIndex,
+          lineIndex: lineIndex++,
         });
       } else if (line.startsWith('-')) {
         result.push({
           type: 'remove',
           content: line,
           oldLineNumber: oldLine++,
+          hunkIndex,
+          lineIndex: lineIndex++,
         });
-      } else {
+      } else if (line.startsWith('\\')) {
+        result.push({ type: 'meta', content: line, hunkIndex, lineIndex: lineIndex++ });
+      } else if (line) {
         result.push({
           type: 'context',
           content: line,
           oldLineNumber: oldLine++,
           newLineNumber: newLine++,
+          hunkIndex,
+          lineIndex: lineIndex++,
         });
       }
     }
+    flushSubmodule();
 
     return result;
   }, [diff]);
 
+  const { rows: splitRows, segments: wordSegments } = React.useMemo(
+    () => pairChangedLines(parsedLines),
+    [parsedLines]
+  );
+
+  const diffFile = React.useMemo(() => parseSingleFileDiff(diff), [diff]);
+  const language = diffFile ? getLanguage(diffFile.path) : null;
+  const [contents, setContents] = React.useState<DiffContents>({});
+
+  React.useEffect(() => {
+    setContents({});
+    if (!window.api || !repoPath || !language || !diffFile?.oldId || !diffFile.newId) return;
+
+    let cancelled = false;
+    window.api.git.getDiffContents(repoPath, diffFile.path, diffFile.oldId, diffFile.newId)
+      .then((result) => !cancelled && result.success && setContents(result.data))
+      .catch((error) => console.error('Failed to load file contents:', error));
+    return () => {
+      cancelled = true;
+    };
+  }, [repoPath, diffFile, language]);
+
+  // Without the full file, highlight the lines the hunks show for each side
+  const highlightSources = React.useMemo(() => {
+    const buildSource = (content: string | undefined, side: 'old' | 'new'): HighlightSource => {
+      if (content !== undefined) return { text: content, rows: null };
+
+      const rows = new Map<number, number>();
+      const text: string[] = [];
+      parsedLines.forEach((line) => {
+        const lineNumber = side === 'old' ? line.oldLineNumber : line.newLineNumber;
+        if (lineNumber !== undefined) {
+          rows.set(lineNumber, text.length);
+          text.push(line.content.substring(1));
+        }
+      });
+      return { text: text.join('\n'), rows };
+    };
+
+    return {
+      old: buildSource(contents.oldContent, 'old'),
+      new: buildSource(contents.newContent, 'new'),
+    };
+  }, [parsedLines, contents]);
+
+  const oldTokens = useHighlightedLines(language ? highlightSources.old.text : undefined, language);
+  const newTokens = useHighlightedLines(language ? highlightSources.new.text : undefined, language);
+
+  const getLineTokens = (line: DiffLine): Token[] | undefined => {
+    const side = line.type === 'remove' ? 'old' : 'new';
+    const lineNumber = side === 'old' ? line.oldLineNumber : line.newLineNumber;
+    const { rows } = highlightSources[side];
+    if (lineNumber === undefined) return undefined;
+
+    const row = rows ? rows.get(lineNumber) : lineNumber - 1;
+    return row === undefined ? undefined : (side === 'old' ? oldTokens : newTokens)?.[row];
+  };
+
+  const patchable = isDefaultDiffOptions(options);
+
+  const isSelectable = (line: DiffLine) =>
+    !!onApplyLines && patchable && (line.type === 'add' || line.type === 'remove');
+
+  const lineKey = (line: DiffLine) => `${line.hunkIndex}:${line.lineIndex}`;
+
+  const toggleLine = (line: DiffLine) => {
+    if (!isSelectable(line)) return;
+    const newSet = new Set(selectedLines);
+    const key = lineKey(line);
+    if (newSet.has(key)) {
+      newSet.delete(key);
+    } else {
+      newSet.add(key);
+    }
+    setSelectedLines(newSet);
+  };
+
+  const handleApplyLines = () => {
+    if (!onApplyLines || selectedLines.size === 0) return;
+
+    const byHunk = new Map<number, number[]>();
+    selectedLines.forEach((key) => {
+      const [hunk, line] = key.split(':').map(Number);
+      byHunk.set(hunk, [...(byHunk.get(hunk) || []), line]);
+    });
+
+    onApplyLines(
+      Array.from(byHunk.entries()).map(([hunkIndex, lineIndices]) => ({ hunkIndex, lineIndices }))
+    );
+  };
+
+  const actionLabel = stageMode === 'unstage' ? 'Unstage' : 'Stage';
+  const ActionIcon = stageMode === 'unstage' ? Minus : Plus;
+
   const getLineStyle = (type: DiffLine['type']) => {
     switch (type) {
       case 'add':
@@ -67,11 +422,115 @@ export const DiffViewer: React.FC<DiffViewerProps> = ({ diff, fileName, onClose
         return 'bg-accent/10 text-accent font-semibold';
       case 'meta':
         return 'text-muted text-xs';
+      case 'submodule':
+        return 'bg-warning/10 text-warning border-l-2 border-warning';
       default:
         return 'text-text-primary';
     }
   };
 
+  const renderContent = (line: DiffLine, index: number, withPrefix: boolean) => {
+    const pieces = combineHighlights(line.content.substring(1), getLineTokens(line), wordSegments.get(index));
+    const changedClass = line.type === 'add' ? 'bg-success/30 rounded-sm' : 'bg-error/30 rounded-sm';
+
+    return (
+      <>
+        {withPrefix && line.content.charAt(0)}
+        {pieces.map((piece, i) => (
+          <span key={i} className={`${TOKEN_CLASSES[piece.type]} ${piece.changed ? changedClass : ''}`}>
+            {piece.text}
+          </span>
+        ))}
+      </>
+    );
+  };
+
+  const renderWordParts = (parts: WordPart[]) =>
+    parts.map((part, i) => (
+      <span
+        key={i}
+        className={
+          part.kind === 'add'
+            ? 'bg-success/30 text-success rounded-sm'
+            : part.kind === 'remove'
+              ? 'bg-error/30 text-error line-through rounded-sm'
+              : ''
+        }
+      >
+        {part.text}
+      </span>
+    ));
+
+  const setOption = <K extends keyof DiffOptions>(key: K, value: DiffOptions[K]) =>
+    onOptionsChange?.({ ...options, [key]: value });
+
+  const renderUnifiedLine = (line: DiffLine, index: number) => (
+    <div
+      key={index}
+      onClick={() => toggleLine(line)}
+      className={`flex ${getLineStyle(line.type)} px-2 py-0.5 ${
+        isSelectable(line) ? 'cursor-pointer hover:brightness-125' : ''
+      } ${selectedLines.has(lineKey(line)) ? 'ring-1 ring-inset ring-accent bg-accent/20' : ''}`}
+    >
+      {/* Line Numbers */}
+      {line.type !== 'meta' && line.type !== 'header' && line.type !== 'submodule' && line.type !== 'word' && (
+        <div className="flex space-x-2 mr-4 select-none text-muted min-w-[80px]">
+          <span className="w-10 text-right">
+            {line.oldLineNumber !== undefined ? line.oldLineNumber : ''}
+          </span>
+          <span className="w-10 text-right">
+            {line.newLineNumber !== undefined ? line.newLineNumber : ''}
+          </span>
+        </div>
+      )}
+      
+      {/* Content */}
+      <pre className={`flex-1 whitespace-pre-wrap break-all ${
+        line.type === 'meta' || line.type === 'header' ? 'ml-0' : ''
+      }`}>
+        {line.type === 'word'
+          ? renderWordParts(line.wordParts ?? [])
+          : line.type === 'add' || line.type === 'remove' || line.type === 'context'
+            ? renderContent(line, index, true)
+            : line.content}
+      </pre>
+
+      {/* Hunk action */}
+      {line.type === 'header' && onApplyHunk && patchable && line.hunkIndex !== undefined && (
+        <button
+          onClick={() => onApplyHunk(line.hunkIndex!)}
+          className="ml-4 flex items-center space-x-1 text-xs px-2 py-0.5 bg-surface-elevated hover:bg-border rounded transition-colors font-normal"
+        >
+          <ActionIcon className="w-3 h-3" />
+          <span>{actionLabel} hunk</span>
+        </button>
+      )}
+    </div>
+  );
+
+  const renderSplitCell = (index: number | undefined, side: 'old' | 'new') => {
+    const border = side === 'old' ? 'border-r border-border' : '';
+    if (index === undefined) {
+      return <div className={`flex-1 min-w-0 bg-surface-elevated/40 ${border}`} />;
+    }
+
+    const line = parsedLines[index];
+    const lineNumber = side === 'old' ? line.oldLineNumber : line.newLineNumber;
+    return (
+      <div
+        onClick={() => toggleLine(line)}
+        className={`flex-1 min-w-0 flex ${getLineStyle(line.type)} ${border} px-2 py-0.5 ${
+          isSelectable(line) ? 'cursor-pointer hover:brightness-125' : ''
+        } ${selectedLines.has(lineKey(line)) ? 'ring-1 ring-inset ring-accent bg-accent/20' : ''}`}
+      >
+        <span className="w-10 mr-3 flex-shrink-0 text-right select-none text-muted">
+          {lineNumber !== undefined ? lineNumber : ''}
+        </span>
+        <pre className="flex-1 whitespace-pre-wrap break-all">{renderContent(line, index, false)}</pre>
+      </div>
+    );
+  };
+
   return (
     <div className="fixed inset-0 z-50 flex items-center justify-center bg-background/80 backdrop-blur-sm">
       <div className="w-[90vw] h-[85vh] glass rounded-lg flex flex-col">
@@ -81,45 +540,121 @@ export const DiffViewer: React.FC<DiffViewerProps> = ({ diff, fileName, onClose
             <h2 className="text-lg font-semibold">Diff Viewer</h2>
             <p className="text-sm text-muted font-mono">{fileName}</p>
           </div>
-          <button
-            onClick={onClose}
-            className="p-2 hover:bg-surface-elevated rounded-lg transition-colors"
-          >
-            <X className="w-5 h-5" />
-          </button>
+          <div className="flex items-center space-x-3">
+            <div className="flex bg-surface rounded-lg p-0.5">
+              {VIEW_MODES.map(({ id, label, icon: Icon }) => (
+                <button
+                  key={id}
+                  onClick={() => updateSettings({ diffViewMode: id })}
+                  className={`flex items-center space-x-1 px-3 py-1 rounded text-xs transition-colors ${
+                    viewMode === id ? 'bg-accent/20 text-accent' : 'text-muted hover:text-text-primary'
+                  }`}
+                >
+                  <Icon className="w-3.5 h-3.5" />
+                  <span>{label}</span>
+                </button>
+              ))}
+            </div>
+            <button
+              onClick={onClose}
+              className="p-2 hover:bg-surface-elevated rounded-lg transition-colors"
+            >
+              <X className="w-5 h-5" />
+            </button>
+          </div>
         </div>
 
+        {/* Diff Options */}
+        {onOptionsChange && (
+          <div className="px-4 py-2 border-b border-border flex flex-wrap items-center gap-x-4 gap-y-2 text-xs">
+            <label className="flex items-center space-x-2">
+              <span className="text-muted">Whitespace</span>
+              <select
+                value={options?.ignoreWhitespace ?? 'none'}
+                onChange={(e) => setOption('ignoreWhitespace', e.target.value as IgnoreWhitespaceMode)}
+                className="px-2 py-1 bg-surface border border-border rounded focus:outline-none focus:border-accent"
+              >
+                {WHITESPACE_MODES.map((mode) => (
+                  <option key={mode.id} value={mode.id}>{mode.label}</option>
+                ))}
+              </select>
+            </label>
+            <label className="flex items-center space-x-2">
+              <span className="text-muted">Context</span>
+              <select
+                value={options?.contextLines ?? DEFAULT_CONTEXT_LINES}
+                onChange={(e) => setOption('contextLines', Number(e.target.value))}
+                className="px-2 py-1 bg-surface border border-border rounded focus:outline-none focus:border-accent"
+              >
+                {CONTEXT_LINE_CHOICES.map((count) => (
+                  <option key={count} value={count}>{count} lines</option>
+                ))}
+              </select>
+            </label>
+            <label className="flex items-center space-x-2">
+              <span className="text-muted">Algorithm</span>
+              <select
+                value={options?.algorithm ?? 'myers'}
+                onChange={(e) => setOption('algorithm', e.target.value as DiffAlgorithm)}
+                className="px-2 py-1 bg-surface border border-border rounded focus:outline-none focus:border-accent"
+              >
+                {DIFF_ALGORITHMS.map((algorithm) => (
+                  <option key={algorithm.id} value={algorithm.id}>{algorithm.label}</option>
+                ))}
+              </select>
+            </label>
+            <label className="flex items-center space-x-2 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={!!options?.ignoreBlankLines}
+                onChange={(e) => setOption('ignoreBlankLines', e.target.checked)}
+              />
+              <span>Ignore blank lines</span>
+            </label>
+            <label className="flex items-center space-x-2 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={!!options?.wordDiff}
+                onChange={(e) => setOption('wordDiff', e.target.checked)}
+              />
+              <span>Word diff</span>
+            </label>
+            {!patchable && (
+              <button
+                onClick={() => onOptionsChange({})}
+                className="px-2 py-1 bg-surface hover:bg-surface-elevated rounded transition-colors"
+              >
+                Reset
+              </button>
+            )}
+          </div>
+        )}
+
         {/* Diff Content */}
         <div className="flex-1 overflow-auto custom-scrollbar bg-surface p-4">
           <div className="font-mono text-xs">
-            {parsedLines.map((line, index) => (
-              <div
-                key={index}
-                className={`flex ${getLineStyle(line.type)} px-2 py-0.5`}
-              >
-                {/* Line Numbers */}
-                {line.type !== 'meta' && line.type !== 'header' && (
-                  <div className="flex space-x-2 mr-4 select-none text-muted min-w-[80px]">
-                    <span className="w-10 text-right">
-                      {line.oldLineNumber !== undefined ? line.oldLineNumber : ''}
-                    </span>
-                    <span className="w-10 text-right">
-                      {line.newLineNumber !== undefined ? line.newLineNumber : ''}
-                    </span>
-                  </div>
-                )}
-                
-                {/* Content */}
-                <pre className={`flex-1 whitespace-pre-wrap break-all ${
-                  line.type === 'meta' || line.type === 'header' ? 'ml-0' : ''
-                }`}>
-                  {line.content}
-                </pre>
-              </div>
-            ))}
+            {viewMode === 'split'
+              ? splitRows.map((row, index) =>
+                  row.full !== undefined ? (
+                    renderUnifiedLine(parsedLines[row.full], row.full)
+                  ) : (
+                    <div key={`row-${index}`} className="flex">
+                      {renderSplitCell(row.left, 'old')}
+                      {renderSplitCell(row.right, 'new')}
+                    </div>
+                  )
+                )
+              : parsedLines.map((line, index) => renderUnifiedLine(line, index))}
           </div>
         </div>
 
+        {applyError && (
+          <div className="px-3 py-2 border-t border-border flex items-center space-x-2 text-error text-sm">
+            <AlertCircle className="w-4 h-4 flex-shrink-0" />
+            <span className="break-all whitespace-pre-wrap">{applyError}</span>
+          </div>
+        )}
+
         {/* Footer */}
         <div className="p-3 border-t border-border flex justify-between items-center text-xs text-muted">
           <div className="flex space-x-4">
@@ -132,12 +667,29 @@ export const DiffViewer: React.FC<DiffViewerProps> = ({ diff, fileName, onClose
               <span>Removed</span>
             </div>
           </div>
-          <button
-            onClick={onClose}
-            className="px-4 py-1.5 bg-surface hover:bg-surface-elevated rounded transition-colors"
-          >
-            Close
-          </button>
+          <div className="flex items-center space-x-2">
+            {(onApplyLines || onApplyHunk) && !patchable && (
+              <span>Reset the diff options to stage or unstage hunks and lines</span>
+            )}
+            {onApplyLines && patchable && (
+              <button
+                onClick={handleApplyLines}
+                disabled={selectedLines.size === 0}
+                className="flex items-center space-x-1 px-4 py-1.5 bg-accent hover:bg-accent/80 text-background rounded transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                <ActionIcon className="w-3 h-3" />
+                <span>
+                  {actionLabel} {selectedLines.size} selected line{selectedLines.size !== 1 ? 's' : ''}
+                </span>
+              </button>
+            )}
+            <button
+              onClick={onClose}
+              className="px-4 py-1.5 bg-surface hover:bg-surface-elevated rounded transition-colors"
+            >
+              Close
+            </button>
+          </div>
         </div>
       </div>
     </div>
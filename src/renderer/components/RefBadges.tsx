@@ -0,0 +1,42 @@
+import React from 'react';
+import { Archive, Crosshair, GitBranch, Globe, Tag } from 'lucide-react';
+import type { CommitRef, CommitRefType } from '@shared/types/git';
+
+interface RefBadgesProps {
+  refs: CommitRef[];
+  className?: string;
+}
+
+const REF_STYLES: Record<CommitRefType, { icon: React.ElementType; label: string; className: string }> = {
+  head: { icon: Crosshair, label: 'Checked out', className: 'text-success bg-success/20 border-success/40' },
+  local: { icon: GitBranch, label: 'Branch', className: 'text-accent bg-accent/20 border-accent/40' },
+  remote: {
+    icon: Globe,
+    label: 'Remote branch',
+    className: 'text-accent-purple bg-accent-purple/20 border-accent-purple/40',
+  },
+  tag: { icon: Tag, label: 'Tag', className: 'text-warning bg-warning/20 border-warning/40' },
+  stash: { icon: Archive, label: 'Latest stash', className: 'text-muted bg-surface border-border' },
+};
+
+export const RefBadges: React.FC<RefBadgesProps> = ({ refs, className = '' }) => {
+  if (refs.length === 0) return null;
+
+  return (
+    <div className={`flex flex-wrap gap-1 ${className}`}>
+      {refs.map((ref) => {
+        const { icon: Icon, label, className: style } = REF_STYLES[ref.type];
+        return (
+          <span
+            key={`${ref.type}:${ref.name}`}
+            className={`inline-flex items-center text-xs px-2 py-0.5 rounded border font-medium max-w-[16rem] ${style}`}
+            title={`${label}: ${ref.name}`}
+          >
+            <Icon className="w-3 h-3 mr-1 flex-shrink-0" />
+            <span className="truncate">{ref.name}</span>
+          </span>
+        );
+      })}
+    </div>
+  );
+};
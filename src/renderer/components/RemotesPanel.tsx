@@ -0,0 +1,215 @@
+import React from 'react';
+import { Globe, Plus, Pencil, Trash2, AlertCircle } from 'lucide-react';
+import type { Repository, Remote, Result } from '@shared/types/git';
+
+interface RemotesPanelProps {
+  repository: Repository;
+  remotes: Remote[];
+  onRemotesChanged: () => Promise<void>;
+}
+
+interface RemoteForm {
+  name: string;
+  fetchUrl: string;
+  pushUrl: string;
+}
+
+const emptyForm: RemoteForm = { name: '', fetchUrl: '', pushUrl: '' };
+
+export const RemotesPanel: React.FC<RemotesPanelProps> = ({ repository, remotes, onRemotesChanged }) => {
+  const [error, setError] = React.useState<string | null>(null);
+  const [busy, setBusy] = React.useState(false);
+  const [showAddForm, setShowAddForm] = React.useState(false);
+  const [editingRemote, setEditingRemote] = React.useState<string | null>(null);
+  const [form, setForm] = React.useState<RemoteForm>(emptyForm);
+
+  const runSteps = async (steps: Array<() => Promise<Result<void>>>) => {
+    if (!window.api || busy) return false;
+
+    setBusy(true);
+    setError(null);
+    try {
+      for (const step of steps) {
+        const result = await step();
+        if (!result.success) {
+          setError(result.error.message || 'Remote operation failed');
+          return false;
+        }
+      }
+      return true;
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Remote operation failed');
+      return false;
+    } finally {
+      await onRemotesChanged();
+      setBusy(false);
+    }
+  };
+
+  const handleAdd = async () => {
+    const name = form.name.trim();
+    const fetchUrl = form.fetchUrl.trim();
+    const pushUrl = form.pushUrl.trim();
+    if (!name || !fetchUrl) return;
+
+    const steps = [() => window.api.git.addRemote(repository.path, name, fetchUrl)];
+    if (pushUrl && pushUrl !== fetchUrl) {
+      steps.push(() => window.api.git.setRemoteUrl(repository.path, name, pushUrl, true));
+    }
+
+    if (await runSteps(steps)) {
+      setForm(emptyForm);
+      setShowAddForm(false);
+    }
+  };
+
+  const startEditing = (remote: Remote) => {
+    setShowAddForm(false);
+    setEditingRemote(remote.name);
+    setForm({ name: remote.name, fetchUrl: remote.fetchUrl, pushUrl: remote.pushUrl });
+  };
+
+  const handleSave = async (remote: Remote) => {
+    const name = form.name.trim();
+    const fetchUrl = form.fetchUrl.trim();
+    const pushUrl = form.pushUrl.trim();
+    if (!name || !fetchUrl) return;
+
+    const steps: Array<() => Promise<Result<void>>> = [];
+    if (name !== remote.name) {
+      steps.push(() => window.api.git.renameRemote(repository.path, remote.name, name));
+    }
+    if (fetchUrl !== remote.fetchUrl) {
+      steps.push(() => window.api.git.setRemoteUrl(repository.path, name, fetchUrl));
+    }
+    if (pushUrl && pushUrl !== remote.pushUrl) {
+      steps.push(() => window.api.git.setRemoteUrl(repository.path, name, pushUrl, true));
+    }
+
+    if (await runSteps(steps)) {
+      setEditingRemote(null);
+      setForm(emptyForm);
+    }
+  };
+
+  const handleRemove = async (remote: Remote) => {
+    if (!confirm(`Remove remote ${remote.name}? Its remote-tracking branches will be deleted.`)) return;
+    await runSteps([() => window.api.git.removeRemote(repository.path, remote.name)]);
+  };
+
+  const renderForm = (onSubmit: () => void, submitLabel: string, onCancel: () => void) => (
+    <div className="space-y-2 mt-2">
+      <div className="grid grid-cols-3 gap-2">
+        <input
+          type="text"
+          value={form.name}
+          onChange={(e) => setForm({ ...form, name: e.target.value })}
+          placeholder="Name (e.g. upstream)"
+          className="px-3 py-1.5 bg-surface border border-border rounded text-sm focus:outline-none focus:border-accent transition-colors"
+        />
+        <input
+          type="text"
+          value={form.fetchUrl}
+          onChange={(e) => setForm({ ...form, fetchUrl: e.target.value })}
+          placeholder="Fetch URL"
+          className="px-3 py-1.5 bg-surface border border-border rounded text-sm font-mono focus:outline-none focus:border-accent transition-colors"
+        />
+        <input
+          type="text"
+          value={form.pushUrl}
+          onChange={(e) => setForm({ ...form, pushUrl: e.target.value })}
+          placeholder="Push URL (defaults to fetch URL)"
+          className="px-3 py-1.5 bg-surface border border-border rounded text-sm font-mono focus:outline-none focus:border-accent transition-colors"
+        />
+      </div>
+      <div className="flex justify-end space-x-2">
+        <button
+          onClick={onCancel}
+          className="px-3 py-1.5 bg-surface hover:bg-surface-elevated rounded text-sm transition-colors"
+        >
+          Cancel
+        </button>
+        <button
+          onClick={onSubmit}
+          disabled={!form.name.trim() || !form.fetchUrl.trim() || busy}
+          className="px-3 py-1.5 bg-accent hover:bg-accent/80 text-background rounded text-sm transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {submitLabel}
+        </button>
+      </div>
+    </div>
+  );
+
+  return (
+    <div className="glass p-4 rounded-lg">
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="text-sm font-semibold">Remotes ({remotes.length})</h3>
+        <button
+          onClick={() => {
+            setEditingRemote(null);
+            setForm(emptyForm);
+            setShowAddForm(!showAddForm);
+          }}
+          className="flex items-center space-x-1 px-2 py-1 bg-surface hover:bg-surface-elevated rounded text-xs transition-colors"
+        >
+          <Plus className="w-3.5 h-3.5" />
+          <span>Add Remote</span>
+        </button>
+      </div>
+
+      {error && (
+        <div className="mb-3 p-2 rounded border border-error flex items-center space-x-2 text-error text-xs">
+          <AlertCircle className="w-3.5 h-3.5 flex-shrink-0" />
+          <span className="break-all">{error}</span>
+        </div>
+      )}
+
+      {showAddForm && renderForm(handleAdd, 'Add Remote', () => setShowAddForm(false))}
+
+      {remotes.length === 0 && !showAddForm ? (
+        <div className="text-xs text-muted">No remotes configured</div>
+      ) : (
+        <div className="space-y-2 mt-2">
+          {remotes.map((remote) => (
+            <div key={remote.name} className="bg-surface px-3 py-2 rounded">
+              <div className="flex items-center justify-between">
+                <div className="flex items-center space-x-2 min-w-0 flex-1">
+                  <Globe className="w-3.5 h-3.5 text-accent flex-shrink-0" />
+                  <span className="text-sm font-medium">{remote.name}</span>
+                  <span className="font-mono text-xs text-muted truncate" title={remote.fetchUrl}>
+                    {remote.fetchUrl}
+                  </span>
+                </div>
+                <div className="flex items-center space-x-1 ml-2">
+                  <button
+                    onClick={() => startEditing(remote)}
+                    disabled={busy}
+                    className="p-1.5 hover:bg-border rounded transition-colors disabled:opacity-50"
+                    title="Edit remote"
+                  >
+                    <Pencil className="w-3.5 h-3.5" />
+                  </button>
+                  <button
+                    onClick={() => handleRemove(remote)}
+                    disabled={busy}
+                    className="p-1.5 hover:bg-red-500/20 text-red-400 rounded transition-colors disabled:opacity-50"
+                    title="Remove remote"
+                  >
+                    <Trash2 className="w-3.5 h-3.5" />
+                  </button>
+                </div>
+              </div>
+              {remote.pushUrl && remote.pushUrl !== remote.fetchUrl && (
+                <div className="text-xs text-muted mt-1 ml-5 truncate" title={remote.pushUrl}>
+                  push: <span className="font-mono">{remote.pushUrl}</span>
+                </div>
+              )}
+              {editingRemote === remote.name &&
+                renderForm(() => handleSave(remote), 'Save', () => setEditingRemote(null))}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
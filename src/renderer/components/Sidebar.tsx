@@ -1,5 +1,5 @@
 import React from 'react';
-import { Home, Clock, Star, Settings, FolderGit2, GitBranch, GitCommit, FileText, GitCompare, Network, Zap, ChevronLeft } from 'lucide-react';
+import { Home, Clock, Star, Settings, FolderGit2, GitBranch, GitCommit, FileText, GitCompare, Network, Zap, ChevronLeft, Archive, Tag, GitPullRequestArrow, History, FileSearch, FileClock, FolderTree } from 'lucide-react';
 import { useRepositoryStore } from '../stores/repository';
 import { useAppStore } from '../stores/app';
 import { cn } from '../utils/cn';
@@ -23,6 +23,13 @@ export const Sidebar: React.FC = () => {
     { icon: GitBranch, label: 'Branches', id: 'branches' },
     { icon: GitCommit, label: 'Commits', id: 'commits' },
     { icon: FileText, label: 'Changes', id: 'changes' },
+    { icon: FolderTree, label: 'Files', id: 'files' },
+    { icon: FileSearch, label: 'Blame', id: 'blame' },
+    { icon: FileClock, label: 'File History', id: 'file-history' },
+    { icon: Archive, label: 'Stashes', id: 'stashes' },
+    { icon: Tag, label: 'Tags', id: 'tags' },
+    { icon: GitPullRequestArrow, label: 'Rebase', id: 'rebase' },
+    { icon: History, label: 'Reflog', id: 'reflog' },
     { icon: GitCompare, label: 'Compare', id: 'compare' },
     { icon: Network, label: 'Graph', id: 'graph' },
     { icon: Zap, label: 'Automation', id: 'automation' },
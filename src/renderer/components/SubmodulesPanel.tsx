@@ -0,0 +1,171 @@
+import React from 'react';
+import { Package, Download, RefreshCw, Link2, ExternalLink, AlertCircle } from 'lucide-react';
+import type { Repository, Submodule, Result } from '@shared/types/git';
+import { useRepositoryStore } from '../stores/repository';
+import { registerRepository } from '../utils/repositories';
+
+interface SubmodulesPanelProps {
+  repository: Repository;
+}
+
+export const SubmodulesPanel: React.FC<SubmodulesPanelProps> = ({ repository }) => {
+  const [submodules, setSubmodules] = React.useState<Submodule[]>([]);
+  const [error, setError] = React.useState<string | null>(null);
+  const [busy, setBusy] = React.useState<string | null>(null);
+
+  React.useEffect(() => {
+    loadSubmodules();
+  }, [repository.path]);
+
+  const loadSubmodules = async () => {
+    if (!window.api) return;
+
+    try {
+      const result = await window.api.git.getSubmodules(repository.path);
+      if (result.success) {
+        setSubmodules(result.data);
+      } else {
+        setError(result.error.message || 'Failed to load submodules');
+      }
+    } catch (error) {
+      console.error('Failed to load submodules:', error);
+    }
+  };
+
+  // `key` identifies the running action so only its button spins
+  const runAction = async (key: string, action: () => Promise<Result<void>>) => {
+    if (!window.api || busy) return;
+
+    setBusy(key);
+    setError(null);
+    try {
+      const result = await action();
+      if (!result.success) {
+        setError(result.error.message || 'Submodule operation failed');
+      }
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Submodule operation failed');
+    } finally {
+      await loadSubmodules();
+      setBusy(null);
+    }
+  };
+
+  const handleOpen = async (submodule: Submodule) => {
+    const separator = repository.path.includes('\\') ? '\\' : '/';
+    const subPath = `${repository.path}${separator}${submodule.path.split('/').join(separator)}`;
+    const name = submodule.path.split('/').pop() || submodule.name;
+
+    setError(null);
+    try {
+      const registered = await registerRepository(subPath, name);
+      useRepositoryStore.getState().selectRepository(registered.id);
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to open submodule');
+    }
+  };
+
+  const getState = (submodule: Submodule) => {
+    if (!submodule.initialized) return { label: 'not initialized', color: 'text-muted' };
+    if (!submodule.checkedOutSha) return { label: 'not checked out', color: 'text-muted' };
+    if (submodule.checkedOutSha !== submodule.recordedSha) return { label: 'moved', color: 'text-warning' };
+    if (submodule.dirty) return { label: 'modified', color: 'text-warning' };
+    return { label: 'up to date', color: 'text-success' };
+  };
+
+  if (submodules.length === 0 && !error) {
+    return null;
+  }
+
+  const allPaths = submodules.map((submodule) => submodule.path);
+
+  return (
+    <div className="glass p-4 rounded-lg">
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="text-sm font-semibold">Submodules ({submodules.length})</h3>
+        <div className="flex items-center space-x-1">
+          <button
+            onClick={() => runAction('init', () => window.api.git.initSubmodules(repository.path, allPaths))}
+            disabled={!!busy}
+            className="flex items-center space-x-1 px-2 py-1 bg-surface hover:bg-surface-elevated rounded text-xs transition-colors disabled:opacity-50"
+            title="Register submodule URLs from .gitmodules"
+          >
+            <Link2 className="w-3.5 h-3.5" />
+            <span>Init</span>
+          </button>
+          <button
+            onClick={() => runAction('update', () => window.api.git.updateSubmodules(repository.path, allPaths))}
+            disabled={!!busy}
+            className="flex items-center space-x-1 px-2 py-1 bg-surface hover:bg-surface-elevated rounded text-xs transition-colors disabled:opacity-50"
+            title="Clone and check out the recorded commits, recursively"
+          >
+            <Download className={`w-3.5 h-3.5 ${busy === 'update' ? 'animate-pulse' : ''}`} />
+            <span>Update</span>
+          </button>
+          <button
+            onClick={() => runAction('sync', () => window.api.git.syncSubmodules(repository.path, allPaths))}
+            disabled={!!busy}
+            className="flex items-center space-x-1 px-2 py-1 bg-surface hover:bg-surface-elevated rounded text-xs transition-colors disabled:opacity-50"
+            title="Apply URL changes from .gitmodules"
+          >
+            <RefreshCw className={`w-3.5 h-3.5 ${busy === 'sync' ? 'animate-spin' : ''}`} />
+            <span>Sync</span>
+          </button>
+        </div>
+      </div>
+
+      {error && (
+        <div className="mb-3 p-2 rounded border border-error flex items-center space-x-2 text-error text-xs">
+          <AlertCircle className="w-3.5 h-3.5 flex-shrink-0" />
+          <span className="break-all">{error}</span>
+        </div>
+      )}
+
+      <div className="space-y-2">
+        {submodules.map((submodule) => {
+          const state = getState(submodule);
+
+          return (
+            <div key={submodule.name} className="bg-surface px-3 py-2 rounded">
+              <div className="flex items-center justify-between">
+                <div className="flex items-center space-x-2 min-w-0 flex-1">
+                  <Package className="w-3.5 h-3.5 text-accent flex-shrink-0" />
+                  <span className="text-sm font-mono truncate">{submodule.path}</span>
+                  <span className={`text-xs ${state.color}`}>{state.label}</span>
+                </div>
+                <div className="flex items-center space-x-1 ml-2">
+                  <button
+                    onClick={() => runAction(`update:${submodule.path}`, () =>
+                      window.api.git.updateSubmodules(repository.path, [submodule.path])
+                    )}
+                    disabled={!!busy}
+                    className="p-1.5 hover:bg-border rounded transition-colors disabled:opacity-50"
+                    title="Update this submodule"
+                  >
+                    <Download className={`w-3.5 h-3.5 ${busy === `update:${submodule.path}` ? 'animate-pulse' : ''}`} />
+                  </button>
+                  <button
+                    onClick={() => handleOpen(submodule)}
+                    disabled={!submodule.checkedOutSha}
+                    className="p-1.5 hover:bg-border rounded transition-colors disabled:opacity-50"
+                    title={submodule.checkedOutSha ? 'Open as repository' : 'Update the submodule first'}
+                  >
+                    <ExternalLink className="w-3.5 h-3.5" />
+                  </button>
+                </div>
+              </div>
+              <div className="text-xs text-muted mt-1 ml-5 truncate" title={submodule.url}>
+                <span className="font-mono">{submodule.url}</span>
+              </div>
+              <div className="text-xs text-muted mt-1 ml-5 font-mono">
+                recorded {submodule.recordedSha?.substring(0, 7) ?? '-'}
+                {' · '}checked out {submodule.checkedOutSha?.substring(0, 7) ?? '-'}
+                {submodule.dirty && <span className="text-warning"> · uncommitted changes</span>}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
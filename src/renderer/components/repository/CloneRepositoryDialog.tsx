@@ -0,0 +1,240 @@
+import React from 'react';
+import { X, Download, AlertCircle } from 'lucide-react';
+import type { CloneProgress } from '@shared/types/git';
+import { registerRepository } from '../../utils/repositories';
+
+interface CloneRepositoryDialogProps {
+  onClose: () => void;
+}
+
+// "https://host/org/project.git", "/srv/project.git" or "backup.bundle" -> "project"/"backup"
+const nameFromSource = (source: string) =>
+  source
+    .trim()
+    .replace(/[\\/]+$/, '')
+    .split(/[\\/:]/)
+    .pop()
+    ?.replace(/\.(git|bundle)$/, '') ?? '';
+
+export const CloneRepositoryDialog: React.FC<CloneRepositoryDialogProps> = ({ onClose }) => {
+  const [source, setSource] = React.useState('');
+  const [parentDir, setParentDir] = React.useState('');
+  const [folderName, setFolderName] = React.useState('');
+  const [folderNameEdited, setFolderNameEdited] = React.useState(false);
+  const [branch, setBranch] = React.useState('');
+  const [depth, setDepth] = React.useState('');
+  const [recurseSubmodules, setRecurseSubmodules] = React.useState(false);
+  const [cloneId, setCloneId] = React.useState<string | null>(null);
+  const [progress, setProgress] = React.useState<CloneProgress | null>(null);
+  const [error, setError] = React.useState<string | null>(null);
+
+  React.useEffect(() => {
+    if (!window.api || !cloneId) return;
+
+    return window.api.git.onCloneProgress((id, update) => {
+      if (id === cloneId) {
+        setProgress(update);
+      }
+    });
+  }, [cloneId]);
+
+  const handleSourceChange = (value: string) => {
+    setSource(value);
+    if (!folderNameEdited) {
+      setFolderName(nameFromSource(value));
+    }
+  };
+
+  const separator = parentDir.includes('\\') ? '\\' : '/';
+  const targetPath = parentDir.trim() && folderName.trim()
+    ? `${parentDir.trim().replace(/[\\/]+$/, '')}${separator}${folderName.trim()}`
+    : '';
+  const depthValue = parseInt(depth, 10);
+
+  const handleClone = async () => {
+    if (!window.api || !source.trim() || !targetPath || cloneId) return;
+
+    const id = crypto.randomUUID();
+    setCloneId(id);
+    setProgress(null);
+    setError(null);
+    try {
+      const result = await window.api.git.clone(id, {
+        source: source.trim(),
+        targetPath,
+        branch: branch.trim() || undefined,
+        depth: depthValue > 0 ? depthValue : undefined,
+        recurseSubmodules,
+      });
+
+      if (result.success) {
+        await registerRepository(result.data, folderName.trim());
+        onClose();
+      } else {
+        setError(result.error.message || 'Failed to clone repository');
+      }
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to clone repository');
+    } finally {
+      setCloneId(null);
+    }
+  };
+
+  const handleCancel = () => {
+    if (cloneId) {
+      window.api.git.cancelClone(cloneId);
+    } else {
+      onClose();
+    }
+  };
+
+  const inputClass =
+    'w-full px-3 py-2 bg-surface border border-border rounded-lg text-sm focus:outline-none focus:border-accent transition-colors disabled:opacity-50';
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-background/80 backdrop-blur-sm">
+      <div className="w-full max-w-lg glass rounded-lg">
+        {/* Header */}
+        <div className="flex items-center justify-between p-4 border-b border-border">
+          <div className="flex items-center space-x-2">
+            <Download className="w-5 h-5 text-accent" />
+            <h2 className="text-lg font-semibold">Clone Repository</h2>
+          </div>
+          <button
+            onClick={handleCancel}
+            className="p-2 hover:bg-surface-elevated rounded-lg transition-colors"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-4 space-y-3">
+          <div>
+            <label className="text-xs text-muted">Source</label>
+            <input
+              type="text"
+              value={source}
+              onChange={(e) => handleSourceChange(e.target.value)}
+              disabled={!!cloneId}
+              placeholder="URL, path to a repository or a .bundle file"
+              className={`${inputClass} font-mono mt-1`}
+            />
+          </div>
+
+          <div className="grid grid-cols-3 gap-2">
+            <div className="col-span-2">
+              <label className="text-xs text-muted">Parent directory</label>
+              <input
+                type="text"
+                value={parentDir}
+                onChange={(e) => setParentDir(e.target.value)}
+                disabled={!!cloneId}
+                placeholder="/home/me/projects"
+                className={`${inputClass} font-mono mt-1`}
+              />
+            </div>
+            <div>
+              <label className="text-xs text-muted">Folder name</label>
+              <input
+                type="text"
+                value={folderName}
+                onChange={(e) => {
+                  setFolderName(e.target.value);
+                  setFolderNameEdited(true);
+                }}
+                disabled={!!cloneId}
+                className={`${inputClass} font-mono mt-1`}
+              />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-3 gap-2">
+            <div className="col-span-2">
+              <label className="text-xs text-muted">Branch</label>
+              <input
+                type="text"
+                value={branch}
+                onChange={(e) => setBranch(e.target.value)}
+                disabled={!!cloneId}
+                placeholder="Default branch"
+                className={`${inputClass} font-mono mt-1`}
+              />
+            </div>
+            <div>
+              <label className="text-xs text-muted">Depth</label>
+              <input
+                type="number"
+                min={1}
+                value={depth}
+                onChange={(e) => setDepth(e.target.value)}
+                disabled={!!cloneId}
+                placeholder="Full history"
+                className={`${inputClass} mt-1`}
+              />
+            </div>
+          </div>
+
+          <label className="flex items-center space-x-2 text-sm cursor-pointer">
+            <input
+              type="checkbox"
+              checked={recurseSubmodules}
+              onChange={(e) => setRecurseSubmodules(e.target.checked)}
+              disabled={!!cloneId}
+            />
+            <span>Clone submodules too</span>
+          </label>
+
+          {/* Progress */}
+          {cloneId && (
+            <div className="space-y-1">
+              <div className="flex items-center justify-between text-xs">
+                <span>{progress?.phase ?? 'Starting clone...'}</span>
+                {progress?.percent !== undefined && <span className="text-muted">{progress.percent}%</span>}
+              </div>
+              <div className="h-1.5 bg-surface rounded overflow-hidden">
+                <div
+                  className="h-full bg-accent transition-all"
+                  style={{ width: `${progress?.percent ?? 0}%` }}
+                />
+              </div>
+              {progress && (
+                <div className="text-xs text-muted font-mono truncate" title={progress.message}>
+                  {progress.message}
+                </div>
+              )}
+            </div>
+          )}
+
+          {error && (
+            <div className="flex items-center space-x-2 text-error text-sm">
+              <AlertCircle className="w-4 h-4 flex-shrink-0" />
+              <span className="break-all">{error}</span>
+            </div>
+          )}
+        </div>
+
+        {/* Footer */}
+        <div className="p-4 border-t border-border flex items-center justify-between">
+          <span className="text-xs text-muted font-mono truncate mr-4" title={targetPath}>
+            {targetPath}
+          </span>
+          <div className="flex space-x-2 flex-shrink-0">
+            <button
+              onClick={handleCancel}
+              className="px-4 py-2 bg-surface hover:bg-surface-elevated rounded-lg transition-colors text-sm"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={handleClone}
+              disabled={!source.trim() || !targetPath || !!cloneId}
+              className="px-4 py-2 bg-accent hover:bg-accent/80 text-background rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed text-sm font-medium"
+            >
+              {cloneId ? 'Cloning...' : 'Clone'}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
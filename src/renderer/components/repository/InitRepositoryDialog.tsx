@@ -0,0 +1,211 @@
+import React from 'react';
+import { X, FolderPlus, AlertCircle } from 'lucide-react';
+import type { InitTemplates } from '@shared/types/git';
+import { registerRepository } from '../../utils/repositories';
+
+interface InitRepositoryDialogProps {
+  onClose: () => void;
+}
+
+export const InitRepositoryDialog: React.FC<InitRepositoryDialogProps> = ({ onClose }) => {
+  const [templates, setTemplates] = React.useState<InitTemplates>({ gitignore: [], licenses: [] });
+  const [parentDir, setParentDir] = React.useState('');
+  const [folderName, setFolderName] = React.useState('');
+  const [initialBranch, setInitialBranch] = React.useState('main');
+  const [gitignore, setGitignore] = React.useState('');
+  const [license, setLicense] = React.useState('');
+  const [licenseHolder, setLicenseHolder] = React.useState('');
+  const [readme, setReadme] = React.useState(true);
+  const [description, setDescription] = React.useState('');
+  const [creating, setCreating] = React.useState(false);
+  const [error, setError] = React.useState<string | null>(null);
+
+  React.useEffect(() => {
+    if (!window.api) return;
+
+    window.api.git.getInitTemplates()
+      .then((result) => result.success && setTemplates(result.data))
+      .catch((error) => console.error('Failed to load templates:', error));
+  }, []);
+
+  const separator = parentDir.includes('\\') ? '\\' : '/';
+  const targetPath = parentDir.trim() && folderName.trim()
+    ? `${parentDir.trim().replace(/[\\/]+$/, '')}${separator}${folderName.trim()}`
+    : '';
+
+  const handleCreate = async () => {
+    if (!window.api || !targetPath || !initialBranch.trim() || creating) return;
+
+    setCreating(true);
+    setError(null);
+    try {
+      const result = await window.api.git.initRepository({
+        path: targetPath,
+        initialBranch: initialBranch.trim(),
+        gitignore: gitignore || undefined,
+        license: license || undefined,
+        licenseHolder: licenseHolder.trim() || undefined,
+        readme,
+        description: description.trim() || undefined,
+      });
+
+      if (result.success) {
+        await registerRepository(result.data, folderName.trim());
+        onClose();
+      } else {
+        setError(result.error.message || 'Failed to create repository');
+      }
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to create repository');
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  const inputClass =
+    'w-full px-3 py-2 bg-surface border border-border rounded-lg text-sm focus:outline-none focus:border-accent transition-colors';
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-background/80 backdrop-blur-sm">
+      <div className="w-full max-w-lg glass rounded-lg">
+        {/* Header */}
+        <div className="flex items-center justify-between p-4 border-b border-border">
+          <div className="flex items-center space-x-2">
+            <FolderPlus className="w-5 h-5 text-accent" />
+            <h2 className="text-lg font-semibold">Init Repository</h2>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-surface-elevated rounded-lg transition-colors"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-4 space-y-3">
+          <div className="grid grid-cols-3 gap-2">
+            <div className="col-span-2">
+              <label className="text-xs text-muted">Parent directory</label>
+              <input
+                type="text"
+                value={parentDir}
+                onChange={(e) => setParentDir(e.target.value)}
+                placeholder="/home/me/projects"
+                className={`${inputClass} font-mono mt-1`}
+              />
+            </div>
+            <div>
+              <label className="text-xs text-muted">Name</label>
+              <input
+                type="text"
+                value={folderName}
+                onChange={(e) => setFolderName(e.target.value)}
+                placeholder="my-project"
+                className={`${inputClass} font-mono mt-1`}
+              />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-2">
+            <div>
+              <label className="text-xs text-muted">Initial branch</label>
+              <input
+                type="text"
+                value={initialBranch}
+                onChange={(e) => setInitialBranch(e.target.value)}
+                className={`${inputClass} font-mono mt-1`}
+              />
+            </div>
+            <div>
+              <label className="text-xs text-muted">.gitignore</label>
+              <select
+                value={gitignore}
+                onChange={(e) => setGitignore(e.target.value)}
+                className={`${inputClass} mt-1`}
+              >
+                <option value="">None</option>
+                {templates.gitignore.map((template) => (
+                  <option key={template.id} value={template.id}>{template.name}</option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-2">
+            <div>
+              <label className="text-xs text-muted">License</label>
+              <select
+                value={license}
+                onChange={(e) => setLicense(e.target.value)}
+                className={`${inputClass} mt-1`}
+              >
+                <option value="">None</option>
+                {templates.licenses.map((template) => (
+                  <option key={template.id} value={template.id}>{template.name}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="text-xs text-muted">Copyright holder</label>
+              <input
+                type="text"
+                value={licenseHolder}
+                onChange={(e) => setLicenseHolder(e.target.value)}
+                disabled={!license}
+                placeholder="Defaults to your git user.name"
+                className={`${inputClass} mt-1 disabled:opacity-50`}
+              />
+            </div>
+          </div>
+
+          <label className="flex items-center space-x-2 text-sm cursor-pointer">
+            <input
+              type="checkbox"
+              checked={readme}
+              onChange={(e) => setReadme(e.target.checked)}
+            />
+            <span>Add a README</span>
+          </label>
+          {readme && (
+            <input
+              type="text"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              placeholder="Short description for the README (optional)"
+              className={inputClass}
+            />
+          )}
+
+          {error && (
+            <div className="flex items-center space-x-2 text-error text-sm">
+              <AlertCircle className="w-4 h-4 flex-shrink-0" />
+              <span className="break-all">{error}</span>
+            </div>
+          )}
+        </div>
+
+        {/* Footer */}
+        <div className="p-4 border-t border-border flex items-center justify-between">
+          <span className="text-xs text-muted font-mono truncate mr-4" title={targetPath}>
+            {targetPath}
+          </span>
+          <div className="flex space-x-2 flex-shrink-0">
+            <button
+              onClick={onClose}
+              className="px-4 py-2 bg-surface hover:bg-surface-elevated rounded-lg transition-colors text-sm"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={handleCreate}
+              disabled={!targetPath || !initialBranch.trim() || creating}
+              className="px-4 py-2 bg-accent hover:bg-accent/80 text-background rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed text-sm font-medium"
+            >
+              {creating ? 'Creating...' : 'Create'}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
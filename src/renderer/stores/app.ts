@@ -1,17 +1,21 @@
 import { create } from 'zustand';
 import type { ConnectionStatus } from '@shared/types/git';
+import { DEFAULT_SETTINGS, type AppSettings } from '@shared/types/settings';
 
 interface AppStore {
   connectionStatus: ConnectionStatus;
   theme: 'dark' | 'light';
   sidebarCollapsed: boolean;
   activeView: string;
+  settings: AppSettings;
   
   // Actions
   setConnectionStatus: (status: ConnectionStatus) => void;
   setTheme: (theme: 'dark' | 'light') => void;
   toggleSidebar: () => void;
   setActiveView: (view: string) => void;
+  setSettings: (settings: AppSettings) => void;
+  updateSettings: (changes: Partial<AppSettings>) => Promise<void>;
 }
 
 export const useAppStore = create<AppStore>((set) => ({
@@ -22,9 +26,24 @@ export const useAppStore = create<AppStore>((set) => ({
   theme: 'dark',
   sidebarCollapsed: false,
   activeView: 'home',
+  settings: DEFAULT_SETTINGS,
 
   setConnectionStatus: (status) => set({ connectionStatus: status }),
   setTheme: (theme) => set({ theme }),
   toggleSidebar: () => set((state) => ({ sidebarCollapsed: !state.sidebarCollapsed })),
   setActiveView: (view) => set({ activeView: view }),
+  setSettings: (settings) => set({ settings }),
+
+  // Apply the change right away and persist it in the background
+  updateSettings: async (changes) => {
+    set((state) => ({ settings: { ...state.settings, ...changes } }));
+    try {
+      const result = await window.api.settings.update(changes);
+      if (!result.success) {
+        console.error('Failed to save settings:', result.error);
+      }
+    } catch (error) {
+      console.error('Failed to save settings:', error);
+    }
+  },
 }));
@@ -0,0 +1,39 @@
+import type { CommitQuery } from '@shared/types/git';
+
+/**
+ * Drop empty fields and flags that have nothing to modify, so saved searches stay minimal
+ */
+export function normalizeCommitQuery(query: CommitQuery): CommitQuery {
+  const normalized: CommitQuery = {};
+
+  for (const key of ['author', 'committer', 'since', 'until', 'message'] as const) {
+    const value = query[key]?.trim();
+    if (value) normalized[key] = value;
+  }
+  if (normalized.author || normalized.committer || normalized.message) {
+    if (query.regex) normalized.regex = true;
+  }
+
+  const paths = query.paths?.map((path) => path.trim()).filter(Boolean) ?? [];
+  if (paths.length > 0) normalized.paths = paths;
+
+  if (query.pickaxe) {
+    normalized.pickaxe = query.pickaxe;
+    if (query.pickaxeRegex) normalized.pickaxeRegex = true;
+  }
+  if (query.ignoreCase && (normalized.author || normalized.committer || normalized.message || normalized.pickaxe)) {
+    normalized.ignoreCase = true;
+  }
+  if (query.merges) normalized.merges = query.merges;
+  if (query.firstParent) normalized.firstParent = true;
+
+  return normalized;
+}
+
+/**
+ * Whether a query filters anything. Flags such as `regex` only modify other fields and do
+ * not count on their own.
+ */
+export function hasCommitFilters(query: CommitQuery): boolean {
+  return Object.keys(normalizeCommitQuery(query)).length > 0;
+}
@@ -0,0 +1,101 @@
+import { describe, expect, it } from 'vitest';
+import { getEdgePath, layoutGraph, type GraphCommit } from './graphLayout';
+
+// Build commits from "sha:parent1,parent2" specs, listed children first
+const history = (...specs: string[]): GraphCommit[] =>
+  specs.map((spec) => {
+    const [sha, parents = ''] = spec.split(':');
+    return { sha, parents: parents ? parents.split(',') : [] };
+  });
+
+const lanesOf = (commits: GraphCommit[]) =>
+  Object.fromEntries(layoutGraph(commits).nodes.map((node) => [node.sha, node.lane]));
+
+describe('layoutGraph', () => {
+  it('keeps a linear history in one lane', () => {
+    const layout = layoutGraph(history('c:b', 'b:a', 'a'));
+
+    expect(layout.laneCount).toBe(1);
+    expect(layout.nodes.map((node) => node.lane)).toEqual([0, 0, 0]);
+    expect(layout.edges).toHaveLength(2);
+    expect(layout.edges.every((edge) => edge.toRow === edge.fromRow + 1 && edge.lane === 0)).toBe(true);
+  });
+
+  it('opens a lane for a merged branch and closes it at the fork point', () => {
+    // m merges f into the main line; f branched off from a
+    const commits = history('m:b,f', 'b:a', 'f:a', 'a');
+    const layout = layoutGraph(commits);
+
+    expect(lanesOf(commits)).toEqual({ m: 0, b: 0, f: 1, a: 0 });
+    expect(layout.laneCount).toBe(2);
+
+    const merge = layout.edges.find((edge) => edge.from === 'm' && edge.to === 'f')!;
+    expect(merge).toMatchObject({ merge: true, fromLane: 0, lane: 1, toRow: 2, toLane: 1 });
+
+    const forkBack = layout.edges.find((edge) => edge.from === 'f' && edge.to === 'a')!;
+    expect(forkBack).toMatchObject({ lane: 1, toRow: 3, toLane: 0 });
+  });
+
+  it('gives every parent of an octopus merge its own lane', () => {
+    const commits = history('o:a,b,c', 'a:r', 'b:r', 'c:r', 'r');
+    const layout = layoutGraph(commits);
+
+    expect(lanesOf(commits)).toEqual({ o: 0, a: 0, b: 1, c: 2, r: 0 });
+    expect(layout.edges.filter((edge) => edge.from === 'o').map((edge) => edge.lane)).toEqual([0, 1, 2]);
+    expect(layout.edges.filter((edge) => edge.to === 'r').every((edge) => edge.toLane === 0)).toBe(true);
+  });
+
+  it('reuses a lane once the line in it has ended', () => {
+    // y's line ends at m1, so the branch merged there can take its lane
+    const commits = history('m2:m1,y', 'y:m1', 'm1:b,x', 'x:b', 'b');
+    const layout = layoutGraph(commits);
+
+    expect(lanesOf(commits)).toEqual({ m2: 0, y: 1, m1: 0, x: 1, b: 0 });
+    expect(layout.laneCount).toBe(2);
+  });
+
+  it('follows an existing line when a merge parent is already awaited', () => {
+    const commits = history('t:p', 'm:q,p', 'q:p', 'p');
+    const layout = layoutGraph(commits);
+
+    const merge = layout.edges.find((edge) => edge.from === 'm' && edge.to === 'p')!;
+    expect(merge.lane).toBe(lanesOf(commits).t);
+    expect(layout.laneCount).toBe(2);
+  });
+
+  it('runs edges to parents outside the loaded commits off the bottom', () => {
+    const layout = layoutGraph(history('b:a'));
+
+    expect(layout.edges).toEqual([
+      expect.objectContaining({ from: 'b', to: 'a', toRow: 1, toLane: 0, lane: 0 }),
+    ]);
+  });
+
+  it('lays out many parallel lines', () => {
+    const tips = Array.from({ length: 50 }, (_, i) => `t${i}:base`);
+    const commits = history('merge:' + tips.map((tip) => tip.split(':')[0]).join(','), ...tips, 'base');
+    const layout = layoutGraph(commits);
+
+    expect(layout.laneCount).toBe(50);
+    expect(new Set(layout.nodes.slice(1, 51).map((node) => node.lane)).size).toBe(50);
+    expect(layout.nodes[51].lane).toBe(0);
+  });
+});
+
+describe('getEdgePath', () => {
+  const geometry = { laneWidth: 10, rowHeight: 20, offsetX: 5, offsetY: 5 };
+
+  it('draws a straight line within a lane', () => {
+    const [edge] = layoutGraph(history('b:a', 'a')).edges;
+    expect(getEdgePath(edge, geometry)).toBe('M 5,5 L 5,25');
+  });
+
+  it('curves out of the child lane and into the parent lane', () => {
+    const layout = layoutGraph(history('m:b,f', 'b:a', 'f:a', 'a'));
+    const merge = layout.edges.find((edge) => edge.from === 'm' && edge.to === 'f')!;
+    const forkBack = layout.edges.find((edge) => edge.from === 'f' && edge.to === 'a')!;
+
+    expect(getEdgePath(merge, geometry)).toBe('M 5,5 C 5,15 15,15 15,25 L 15,45');
+    expect(getEdgePath(forkBack, geometry)).toBe('M 15,45 C 15,55 5,55 5,65');
+  });
+});
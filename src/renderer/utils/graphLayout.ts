@@ -0,0 +1,210 @@
+export interface GraphCommit {
+  sha: string;
+  parents: string[];
+}
+
+export interface GraphNode {
+  sha: string;
+  row: number;
+  lane: number;
+  // Index into the view's palette; a first-parent line keeps its colour
+  color: number;
+}
+
+/**
+ * Line from a commit down to one of its parents. Between the two rows it runs straight down
+ * `lane`, curving out of the child's lane below the child and into the parent's lane at the
+ * parent. Parents outside the laid-out commits get `toRow` one past the last row.
+ */
+export interface GraphEdge {
+  from: string;
+  to: string;
+  fromRow: number;
+  fromLane: number;
+  toRow: number;
+  toLane: number;
+  lane: number;
+  color: number;
+  // Edge to a second or later parent
+  merge: boolean;
+}
+
+export interface GraphLayout {
+  nodes: GraphNode[];
+  edges: GraphEdge[];
+  laneCount: number;
+}
+
+export interface GraphGeometry {
+  laneWidth: number;
+  rowHeight: number;
+  // Centre of the node in lane 0, row 0
+  offsetX: number;
+  offsetY: number;
+}
+
+/**
+ * Assign each commit a lane and route an edge to every parent. Commits must be ordered
+ * children first, as `git log` lists them; a parent that shows up before one of its children
+ * is treated as a separate line. Runs in O((commits + edges) log lanes): every edge is created
+ * and closed once, and free lanes come from a heap so the graph stays packed to the left.
+ */
+export function layoutGraph(commits: GraphCommit[]): GraphLayout {
+  const nodes: GraphNode[] = [];
+  const edges: GraphEdge[] = [];
+  // Edges waiting for their parent to be placed, by parent sha
+  const pending = new Map<string, GraphEdge[]>();
+  const freeLanes = new LaneHeap();
+  let laneCount = 0;
+  let colorCount = 0;
+
+  const takeLane = () => (freeLanes.size > 0 ? freeLanes.pop() : laneCount++);
+
+  commits.forEach((commit, row) => {
+    // Lines of every child arriving at this commit end here; the leftmost one continues
+    const arriving = pending.get(commit.sha) ?? [];
+    pending.delete(commit.sha);
+
+    let lane: number;
+    let color: number;
+    if (arriving.length > 0) {
+      const main = arriving.reduce((left, edge) => (edge.lane < left.lane ? edge : left));
+      lane = main.lane;
+      color = main.color;
+    } else {
+      lane = takeLane();
+      color = colorCount++;
+    }
+
+    const released = new Set<number>();
+    for (const edge of arriving) {
+      edge.toRow = row;
+      edge.toLane = lane;
+      // Merge edges can share a lane with the first-parent line they joined
+      if (edge.lane !== lane) released.add(edge.lane);
+    }
+    released.forEach((freed) => freeLanes.push(freed));
+
+    nodes.push({ sha: commit.sha, row, lane, color });
+
+    commit.parents.forEach((parent, index) => {
+      const waiting = pending.get(parent);
+      let edgeLane: number;
+      let edgeColor: number;
+
+      if (index === 0) {
+        // The first parent carries on in this commit's lane
+        edgeLane = lane;
+        edgeColor = color;
+      } else if (waiting && waiting.length > 0) {
+        // Another line already heads for this parent; follow it instead of opening a lane
+        edgeLane = waiting[0].lane;
+        edgeColor = waiting[0].color;
+      } else {
+        edgeLane = takeLane();
+        edgeColor = colorCount++;
+      }
+
+      const edge: GraphEdge = {
+        from: commit.sha,
+        to: parent,
+        fromRow: row,
+        fromLane: lane,
+        toRow: commits.length,
+        toLane: edgeLane,
+        lane: edgeLane,
+        color: edgeColor,
+        merge: index > 0,
+      };
+      edges.push(edge);
+      if (waiting) {
+        waiting.push(edge);
+      } else {
+        pending.set(parent, [edge]);
+      }
+    });
+
+    if (commit.parents.length === 0) {
+      freeLanes.push(lane);
+    }
+  });
+
+  return { nodes, edges, laneCount };
+}
+
+/**
+ * SVG path data for an edge
+ */
+export function getEdgePath(edge: GraphEdge, geometry: GraphGeometry): string {
+  const x = (lane: number) => geometry.offsetX + lane * geometry.laneWidth;
+  const y = (row: number) => geometry.offsetY + row * geometry.rowHeight;
+  const curve = (fromLane: number, fromRow: number, toLane: number, toRow: number) => {
+    const midY = (y(fromRow) + y(toRow)) / 2;
+    return `C ${x(fromLane)},${midY} ${x(toLane)},${midY} ${x(toLane)},${y(toRow)}`;
+  };
+
+  const start = `M ${x(edge.fromLane)},${y(edge.fromRow)}`;
+  if (edge.toRow - edge.fromRow <= 1) {
+    return edge.fromLane === edge.toLane
+      ? `${start} L ${x(edge.toLane)},${y(edge.toRow)}`
+      : `${start} ${curve(edge.fromLane, edge.fromRow, edge.toLane, edge.toRow)}`;
+  }
+
+  const parts = [start];
+  let row = edge.fromRow;
+  if (edge.lane !== edge.fromLane) {
+    parts.push(curve(edge.fromLane, row, edge.lane, row + 1));
+    row++;
+  }
+
+  const straightUntil = edge.lane === edge.toLane ? edge.toRow : edge.toRow - 1;
+  if (straightUntil > row) {
+    parts.push(`L ${x(edge.lane)},${y(straightUntil)}`);
+  }
+  if (edge.lane !== edge.toLane) {
+    parts.push(curve(edge.lane, straightUntil, edge.toLane, edge.toRow));
+  }
+  return parts.join(' ');
+}
+
+// Min-heap of lane indexes
+class LaneHeap {
+  private items: number[] = [];
+
+  get size(): number {
+    return this.items.length;
+  }
+
+  push(lane: number): void {
+    const items = this.items;
+    items.push(lane);
+    let i = items.length - 1;
+    while (i > 0) {
+      const parent = (i - 1) >> 1;
+      if (items[parent] <= items[i]) break;
+      [items[parent], items[i]] = [items[i], items[parent]];
+      i = parent;
+    }
+  }
+
+  pop(): number {
+    const items = this.items;
+    const top = items[0];
+    const last = items.pop()!;
+    if (items.length > 0) {
+      items[0] = last;
+      let i = 0;
+      for (;;) {
+        const left = i * 2 + 1;
+        const right = left + 1;
+        let smallest = i;
+        if (left < items.length && items[left] < items[smallest]) smallest = left;
+        if (right < items.length && items[right] < items[smallest]) smallest = right;
+        if (smallest === i) break;
+        [items[i], items[smallest]] = [items[smallest], items[i]];
+        i = smallest;
+      }
+    }
+    return top;
+  }
+}
@@ -0,0 +1,320 @@
+export type TokenType = 'plain' | 'keyword' | 'string' | 'comment' | 'number' | 'function';
+
+export interface Token {
+  type: TokenType;
+  text: string;
+}
+
+interface LanguageDefinition {
+  keywords: Set<string>;
+  lineComment?: string[];
+  blockComment?: [string, string];
+  // Quote characters; strings opened by a multiline quote may span lines
+  quotes: string[];
+  multilineQuotes?: string[];
+}
+
+export const TOKEN_CLASSES: Record<TokenType, string> = {
+  plain: '',
+  keyword: 'text-accent-purple',
+  string: 'text-success',
+  comment: 'text-muted italic',
+  number: 'text-warning',
+  function: 'text-accent',
+};
+
+const words = (list: string) => new Set(list.split(' '));
+
+const JS_KEYWORDS = words(
+  'abstract as async await break case catch class const continue debugger declare default delete do else enum export ' +
+  'extends false finally for from function get if implements import in instanceof interface keyof let new null of ' +
+  'private protected public readonly return set static super switch this throw true try type typeof undefined var ' +
+  'void while with yield'
+);
+
+const C_LIKE_KEYWORDS = words(
+  'auto bool break case catch char class const continue default delete do double else enum extern false final float ' +
+  'for friend goto if inline int long namespace new null nullptr operator override package private protected public ' +
+  'return short signed sizeof static struct super switch template this throw throws true try typedef typename union ' +
+  'unsigned using var virtual void volatile while import extends implements interface fun val when object is in out ' +
+  'let func guard internal self Self struct protocol extension'
+);
+
+const LANGUAGES: Record<string, LanguageDefinition> = {
+  javascript: {
+    keywords: JS_KEYWORDS,
+    lineComment: ['//'],
+    blockComment: ['/*', '*/'],
+    quotes: ['"', "'"],
+    multilineQuotes: ['`'],
+  },
+  clike: {
+    keywords: C_LIKE_KEYWORDS,
+    lineComment: ['//'],
+    blockComment: ['/*', '*/'],
+    quotes: ['"', "'"],
+  },
+  go: {
+    keywords: words(
+      'break case chan const continue default defer else fallthrough false for func go goto if import interface ' +
+      'map nil package range return select struct switch true type var'
+    ),
+    lineComment: ['//'],
+    blockComment: ['/*', '*/'],
+    quotes: ['"', "'"],
+    multilineQuotes: ['`'],
+  },
+  rust: {
+    keywords: words(
+      'as async await break const continue crate dyn else enum extern false fn for if impl in let loop match mod move ' +
+      'mut pub ref return self Self static struct super trait true type unsafe use where while'
+    ),
+    lineComment: ['//'],
+    blockComment: ['/*', '*/'],
+    quotes: ['"'],
+  },
+  python: {
+    keywords: words(
+      'and as assert async await break class continue def del elif else except False finally for from global if ' +
+      'import in is lambda None nonlocal not or pass raise return True try while with yield'
+    ),
+    lineComment: ['#'],
+    blockComment: ['"""', '"""'],
+    quotes: ['"', "'"],
+  },
+  ruby: {
+    keywords: words(
+      'alias and begin break case class def defined do else elsif end ensure false for if in module next nil not or ' +
+      'redo rescue retry return self super then true undef unless until when while yield require'
+    ),
+    lineComment: ['#'],
+    quotes: ['"', "'"],
+  },
+  shell: {
+    keywords: words('if then else elif fi for while until do done case esac in function return local export exit'),
+    lineComment: ['#'],
+    quotes: ['"', "'"],
+  },
+  css: {
+    keywords: words('important media import keyframes from to supports'),
+    blockComment: ['/*', '*/'],
+    quotes: ['"', "'"],
+  },
+  markup: {
+    keywords: new Set(),
+    blockComment: ['<!--', '-->'],
+    quotes: ['"', "'"],
+  },
+  json: {
+    keywords: words('true false null'),
+    quotes: ['"'],
+  },
+  yaml: {
+    keywords: words('true false null yes no on off'),
+    lineComment: ['#'],
+    quotes: ['"', "'"],
+  },
+  sql: {
+    keywords: words(
+      'select from where insert into values update set delete create table alter drop index join left right inner ' +
+      'outer on and or not null is as order by group having limit offset primary key foreign references distinct ' +
+      'union all case when then else end begin commit rollback SELECT FROM WHERE INSERT INTO VALUES UPDATE SET ' +
+      'DELETE CREATE TABLE ALTER DROP INDEX JOIN LEFT RIGHT INNER OUTER ON AND OR NOT NULL IS AS ORDER BY GROUP ' +
+      'HAVING LIMIT OFFSET PRIMARY KEY FOREIGN REFERENCES DISTINCT UNION ALL CASE WHEN THEN ELSE END'
+    ),
+    lineComment: ['--'],
+    blockComment: ['/*', '*/'],
+    quotes: ["'", '"'],
+  },
+};
+
+const EXTENSIONS: Record<string, string> = {
+  js: 'javascript', jsx: 'javascript', mjs: 'javascript', cjs: 'javascript', ts: 'javascript', tsx: 'javascript',
+  c: 'clike', h: 'clike', cc: 'clike', cpp: 'clike', hpp: 'clike', cs: 'clike', java: 'clike', kt: 'clike',
+  kts: 'clike', swift: 'clike', scala: 'clike', dart: 'clike', php: 'clike',
+  go: 'go',
+  rs: 'rust',
+  py: 'python', pyi: 'python',
+  rb: 'ruby', rake: 'ruby',
+  sh: 'shell', bash: 'shell', zsh: 'shell',
+  css: 'css', scss: 'css', less: 'css',
+  html: 'markup', htm: 'markup', xml: 'markup', svg: 'markup', vue: 'markup',
+  json: 'json',
+  yml: 'yaml', yaml: 'yaml', toml: 'yaml',
+  sql: 'sql',
+};
+
+/**
+ * Pick a language for a file from its extension
+ * @returns Language id, or null when the file should be shown as plain text
+ */
+export function getLanguage(fileName: string): string | null {
+  const baseName = fileName.split('/').pop() ?? fileName;
+  if (baseName === 'Dockerfile' || baseName === 'Makefile') return 'shell';
+
+  const extension = baseName.includes('.') ? baseName.split('.').pop()!.toLowerCase() : '';
+  return EXTENSIONS[extension] ?? null;
+}
+
+/**
+ * Split source into lines of highlighted tokens. Block comments and multiline strings carry
+ * over between lines, so pass the whole file rather than highlighting lines one at a time.
+ */
+export function highlight(content: string, language: string | null): Token[][] {
+  const lines = content.split('\n');
+  const definition = language ? LANGUAGES[language] : undefined;
+  if (!definition) {
+    return lines.map(plainLine);
+  }
+
+  return lines.map(createLineTokenizer(definition));
+}
+
+/**
+ * Highlight a large file a chunk of lines at a time, yielding to the renderer in between.
+ * `onProgress` receives every line tokenized so far after each chunk.
+ * @returns Function that stops the remaining work
+ */
+export function highlightInChunks(
+  content: string,
+  language: string | null,
+  onProgress: (lines: Token[][]) => void,
+  chunkSize: number = 2000
+): () => void {
+  const lines = content.split('\n');
+  const definition = language ? LANGUAGES[language] : undefined;
+  const tokenize = definition ? createLineTokenizer(definition) : plainLine;
+  const done: Token[][] = [];
+  let timer: ReturnType<typeof setTimeout> | undefined;
+
+  const step = () => {
+    const end = Math.min(done.length + chunkSize, lines.length);
+    for (let i = done.length; i < end; i++) {
+      done.push(tokenize(lines[i]));
+    }
+    onProgress(done.slice());
+    if (done.length < lines.length) {
+      timer = setTimeout(step, 0);
+    }
+  };
+  timer = setTimeout(step, 0);
+
+  return () => clearTimeout(timer);
+}
+
+// Longer lines (minified bundles, generated data) are shown plain; tokenizing one runs in a
+// single synchronous pass however the file is chunked
+const MAX_HIGHLIGHT_LINE_LENGTH = 5000;
+
+const plainLine = (line: string): Token[] => [{ type: 'plain', text: line }];
+
+function createLineTokenizer(definition: LanguageDefinition): (line: string) => Token[] {
+  // The closing delimiter and token type of a comment or string still open from a previous line
+  let open: { close: string; type: TokenType } | null = null;
+
+  return (line) => {
+    // A comment or string still open stays open; the skipped line cannot close it
+    if (line.length > MAX_HIGHLIGHT_LINE_LENGTH) {
+      return open ? [{ type: open.type, text: line }] : plainLine(line);
+    }
+
+    const tokens: Token[] = [];
+    const push = (type: TokenType, text: string) => {
+      if (!text) return;
+      const last = tokens[tokens.length - 1];
+      if (last && last.type === type) {
+        last.text += text;
+      } else {
+        tokens.push({ type, text });
+      }
+    };
+
+    let i = 0;
+    while (i < line.length) {
+      if (open) {
+        const end = findClose(line, i, open.close);
+        if (end === -1) {
+          push(open.type, line.substring(i));
+          i = line.length;
+        } else {
+          push(open.type, line.substring(i, end + open.close.length));
+          i = end + open.close.length;
+          open = null;
+        }
+        continue;
+      }
+
+      const rest = line.substring(i);
+
+      const lineComment = definition.lineComment?.find((prefix) => rest.startsWith(prefix));
+      if (lineComment) {
+        push('comment', rest);
+        break;
+      }
+
+      const block = definition.blockComment;
+      if (block && rest.startsWith(block[0])) {
+        // Python docstrings use the block slot but read as strings
+        open = { close: block[1], type: block[0].startsWith('"') ? 'string' : 'comment' };
+        push(open.type, block[0]);
+        i += block[0].length;
+        continue;
+      }
+
+      const char = line[i];
+      if (definition.quotes.includes(char) || definition.multilineQuotes?.includes(char)) {
+        const end = findClose(line, i + 1, char);
+        if (end === -1) {
+          push('string', rest);
+          i = line.length;
+          if (definition.multilineQuotes?.includes(char)) {
+            open = { close: char, type: 'string' };
+          }
+        } else {
+          push('string', line.substring(i, end + 1));
+          i = end + 1;
+        }
+        continue;
+      }
+
+      const number = rest.match(/^\d[\w.]*/);
+      if (number && !/[\w$]/.test(line[i - 1] ?? '')) {
+        push('number', number[0]);
+        i += number[0].length;
+        continue;
+      }
+
+      const word = rest.match(/^[A-Za-z_$][\w$]*/);
+      if (word) {
+        const text = word[0];
+        if (definition.keywords.has(text)) {
+          push('keyword', text);
+        } else if (/^\s*\(/.test(line.substring(i + text.length))) {
+          push('function', text);
+        } else {
+          push('plain', text);
+        }
+        i += text.length;
+        continue;
+      }
+
+      push('plain', char);
+      i++;
+    }
+
+    return tokens;
+  };
+}
+
+function findClose(line: string, from: number, close: string): number {
+  for (let i = from; i < line.length; i++) {
+    if (line[i] === '\\') {
+      i++;
+      continue;
+    }
+    if (line.startsWith(close, i)) {
+      return i;
+    }
+  }
+  return -1;
+}
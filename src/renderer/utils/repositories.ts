@@ -0,0 +1,79 @@
+import type { GitProvider, Repository } from '@shared/types/git';
+import { useRepositoryStore } from '../stores/repository';
+
+const WINDOWS_DRIVE_PATH = /^[a-zA-Z]:[\\/]/;
+
+/**
+ * Convert a path reported by git to the form the OS uses. Git prints Windows paths as
+ * "C:/dir", while paths picked in a dialog are "C:\dir".
+ */
+export function toNativePath(path: string): string {
+  return WINDOWS_DRIVE_PATH.test(path) ? path.replace(/\//g, '\\') : path;
+}
+
+/**
+ * Whether two paths name the same repository, ignoring separator style, a trailing separator
+ * and the case of a Windows drive letter
+ */
+export function isSameRepositoryPath(a: string, b: string): boolean {
+  const comparable = (path: string) =>
+    path
+      .replace(/\\/g, '/')
+      .replace(/(.)\/+$/, '$1')
+      .replace(/^[a-zA-Z]:/, (drive) => drive.toLowerCase());
+  return comparable(a) === comparable(b);
+}
+
+/**
+ * Add a local repository to the saved list and refresh the store.
+ * Paths that are already registered are returned as-is.
+ */
+export async function registerRepository(repoPath: string, name: string): Promise<Repository> {
+  const path = toNativePath(repoPath);
+  const existing = useRepositoryStore.getState().repositories.find((repo) => isSameRepositoryPath(repo.path, path));
+  if (existing) {
+    return existing;
+  }
+
+  // Get the current branch
+  const branchesResult = await window.api.git.getBranches(path);
+  const currentBranch = branchesResult.success
+    ? branchesResult.data.find(b => !b.isRemote)?.name || 'main'
+    : 'main';
+
+  // Get the remote URL
+  const remoteResult = await window.api.git.getRemoteUrl(path);
+  const remoteUrl = remoteResult.success ? remoteResult.data : undefined;
+
+  // Determine provider from remote URL
+  let provider: GitProvider = 'generic';
+  if (remoteUrl) {
+    if (remoteUrl.includes('github.com')) provider = 'github';
+    else if (remoteUrl.includes('gitlab.com')) provider = 'gitlab';
+    else if (remoteUrl.includes('bitbucket.org')) provider = 'bitbucket';
+  }
+
+  const newRepo: Repository = {
+    id: crypto.randomUUID(),
+    name,
+    path,
+    provider,
+    currentBranch,
+    remoteUrl,
+    lastSynced: undefined,
+    isFavorite: false,
+  };
+
+  const addResult = await window.api.repository.add(newRepo);
+  if (!addResult.success) {
+    throw addResult.error;
+  }
+
+  // Reload repositories
+  const repos = await window.api.repository.getAll();
+  if (repos.success) {
+    useRepositoryStore.getState().setRepositories(repos.data);
+  }
+
+  return addResult.data;
+}
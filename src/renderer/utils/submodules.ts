@@ -0,0 +1,21 @@
+import type { SubmoduleChange } from '@shared/types/git';
+
+const short = (sha: string) => sha.substring(0, 7);
+
+/**
+ * Describe a submodule pointer change, e.g. "moved from 1a2b3c4 to 5d6e7f8"
+ */
+export function describeSubmoduleChange(change: SubmoduleChange): string {
+  const dirty = change.dirty ? ' (with uncommitted changes)' : '';
+
+  if (change.oldSha && change.newSha && change.oldSha !== change.newSha) {
+    return `moved from ${short(change.oldSha)} to ${short(change.newSha)}${dirty}`;
+  }
+  if (change.newSha && !change.oldSha) {
+    return `added at ${short(change.newSha)}${dirty}`;
+  }
+  if (change.oldSha && !change.newSha) {
+    return `removed (was ${short(change.oldSha)})`;
+  }
+  return change.dirty ? 'has uncommitted changes' : 'unchanged';
+}
@@ -0,0 +1,28 @@
+import React from 'react';
+import { highlight, highlightInChunks, type Token } from './highlight';
+
+// Content above this many characters is tokenized in the background instead of during render
+export const LAZY_HIGHLIGHT_THRESHOLD = 100 * 1024;
+
+/**
+ * Highlight a whole file for display. Small files are tokenized immediately; larger ones fill
+ * in over several frames, so callers must fall back to plain text for lines not yet returned.
+ * @returns Tokens per line, or null when there is no content
+ */
+export function useHighlightedLines(content: string | undefined, language: string | null): Token[][] | null {
+  const eager = React.useMemo(
+    () => (content !== undefined && content.length <= LAZY_HIGHLIGHT_THRESHOLD ? highlight(content, language) : null),
+    [content, language]
+  );
+  const [lazy, setLazy] = React.useState<{ content: string; lines: Token[][] } | null>(null);
+
+  React.useEffect(() => {
+    if (content === undefined || content.length <= LAZY_HIGHLIGHT_THRESHOLD) return;
+
+    return highlightInChunks(content, language, (lines) => setLazy({ content, lines }));
+  }, [content, language]);
+
+  if (eager) return eager;
+  // Ignore lines left over from the previous content until the first chunk arrives
+  return lazy && lazy.content === content ? lazy.lines : null;
+}
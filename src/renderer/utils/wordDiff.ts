@@ -0,0 +1,95 @@
+export interface WordDiffSegment {
+  text: string;
+  changed: boolean;
+}
+
+// Above this many token comparisons the changed middle of the line is highlighted as a whole
+const MAX_LCS_CELLS = 40000;
+
+const tokenize = (text: string) => text.match(/\w+|\s+|[^\w\s]/g) ?? [];
+
+/**
+ * Compare a removed line with the added line that replaced it and mark the words that differ.
+ * Lines are split into words, whitespace runs and single punctuation characters; the longest
+ * common subsequence of those tokens stays unmarked on both sides.
+ */
+export function diffWords(
+  oldText: string,
+  newText: string
+): { oldSegments: WordDiffSegment[]; newSegments: WordDiffSegment[] } {
+  const oldTokens = tokenize(oldText);
+  const newTokens = tokenize(newText);
+
+  // Common prefix and suffix never need the LCS table
+  let start = 0;
+  while (start < oldTokens.length && start < newTokens.length && oldTokens[start] === newTokens[start]) {
+    start++;
+  }
+  let oldEnd = oldTokens.length;
+  let newEnd = newTokens.length;
+  while (oldEnd > start && newEnd > start && oldTokens[oldEnd - 1] === newTokens[newEnd - 1]) {
+    oldEnd--;
+    newEnd--;
+  }
+
+  const oldChanged = new Array<boolean>(oldTokens.length).fill(false);
+  const newChanged = new Array<boolean>(newTokens.length).fill(false);
+  const oldMiddle = oldTokens.slice(start, oldEnd);
+  const newMiddle = newTokens.slice(start, newEnd);
+
+  if (oldMiddle.length * newMiddle.length > MAX_LCS_CELLS) {
+    oldChanged.fill(true, start, oldEnd);
+    newChanged.fill(true, start, newEnd);
+  } else {
+    const common = longestCommonSubsequence(oldMiddle, newMiddle);
+    oldMiddle.forEach((_, i) => (oldChanged[start + i] = !common.old.has(i)));
+    newMiddle.forEach((_, i) => (newChanged[start + i] = !common.new.has(i)));
+  }
+
+  return {
+    oldSegments: toSegments(oldTokens, oldChanged),
+    newSegments: toSegments(newTokens, newChanged),
+  };
+}
+
+function longestCommonSubsequence(a: string[], b: string[]): { old: Set<number>; new: Set<number> } {
+  const rows = a.length + 1;
+  const cols = b.length + 1;
+  const lengths = new Uint16Array(rows * cols);
+
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i * cols + j] = a[i] === b[j]
+        ? lengths[(i + 1) * cols + j + 1] + 1
+        : Math.max(lengths[(i + 1) * cols + j], lengths[i * cols + j + 1]);
+    }
+  }
+
+  const common = { old: new Set<number>(), new: new Set<number>() };
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      common.old.add(i++);
+      common.new.add(j++);
+    } else if (lengths[(i + 1) * cols + j] >= lengths[i * cols + j + 1]) {
+      i++;
+    } else {
+      j++;
+    }
+  }
+  return common;
+}
+
+function toSegments(tokens: string[], changed: boolean[]): WordDiffSegment[] {
+  const segments: WordDiffSegment[] = [];
+  tokens.forEach((token, i) => {
+    const last = segments[segments.length - 1];
+    if (last && last.changed === changed[i]) {
+      last.text += token;
+    } else {
+      segments.push({ text: token, changed: changed[i] });
+    }
+  });
+  return segments;
+}
@@ -1,11 +1,16 @@
 import React from 'react';
-import { Plus, Search, FolderGit2 } from 'lucide-react';
+import { Plus, Search, FolderGit2, FolderPlus, Download } from 'lucide-react';
 import { useRepositoryStore } from '../stores/repository';
 import { RepositoryCard } from '../components/repository/RepositoryCard';
+import { CloneRepositoryDialog } from '../components/repository/CloneRepositoryDialog';
+import { InitRepositoryDialog } from '../components/repository/InitRepositoryDialog';
+import { registerRepository } from '../utils/repositories';
 
 export const RepositoryManagement: React.FC = () => {
   const repositories = useRepositoryStore((state) => state.repositories);
   const [searchQuery, setSearchQuery] = React.useState('');
+  const [showCloneDialog, setShowCloneDialog] = React.useState(false);
+  const [showInitDialog, setShowInitDialog] = React.useState(false);
 
   const handleAddRepository = async () => {
     if (!window.api) {
@@ -17,47 +22,7 @@ export const RepositoryManagement: React.FC = () => {
     const result = await window.api.app.selectFolder();
     if (result.success && result.data) {
       try {
-        // Get the current branch
-        const branchesResult = await window.api.git.getBranches(result.data.path);
-        const currentBranch = branchesResult.success 
-          ? branchesResult.data.find(b => !b.isRemote)?.name || 'main'
-          : 'main';
-
-        // Get the remote URL
-        const remoteResult = await window.api.git.getRemoteUrl(result.data.path);
-        const remoteUrl = remoteResult.success ? remoteResult.data : undefined;
-
-        // Determine provider from remote URL
-        let provider: 'github' | 'gitlab' | 'bitbucket' | 'generic' = 'generic';
-        if (remoteUrl) {
-          if (remoteUrl.includes('github.com')) provider = 'github';
-          else if (remoteUrl.includes('gitlab.com')) provider = 'gitlab';
-          else if (remoteUrl.includes('bitbucket.org')) provider = 'bitbucket';
-        }
-
-        // Add the repository
-        const newRepo = {
-          id: crypto.randomUUID(),
-          name: result.data.name,
-          path: result.data.path,
-          provider: provider,
-          currentBranch: currentBranch,
-          remoteUrl: remoteUrl,
-          lastSynced: undefined,
-          isFavorite: false,
-        };
-
-        const addResult = await window.api.repository.add(newRepo);
-
-        if (addResult.success) {
-          // Reload repositories
-          const repos = await window.api.repository.getAll();
-          if (repos.success) {
-            useRepositoryStore.getState().setRepositories(repos.data);
-          }
-        } else {
-          console.error('Failed to add repository:', addResult.error);
-        }
+        await registerRepository(result.data.path, result.data.name);
       } catch (error) {
         console.error('Error adding repository:', error);
       }
@@ -72,6 +37,12 @@ export const RepositoryManagement: React.FC = () => {
     <div className="h-full flex flex-col">
       {/* Draggable title bar region */}
       <div className="h-10 draggable" />
+
+      {/* Clone Dialog */}
+      {showCloneDialog && <CloneRepositoryDialog onClose={() => setShowCloneDialog(false)} />}
+
+      {/* Init Dialog */}
+      {showInitDialog && <InitRepositoryDialog onClose={() => setShowInitDialog(false)} />}
       
       {/* Header */}
       <header className="h-16 glass border-b border-border flex items-center justify-between px-6">
@@ -91,6 +62,22 @@ export const RepositoryManagement: React.FC = () => {
             />
           </div>
           
+          <button
+            onClick={() => setShowInitDialog(true)}
+            className="flex items-center space-x-2 px-4 py-2 bg-surface hover:bg-surface-elevated rounded-lg transition-colors font-medium"
+          >
+            <FolderPlus className="w-4 h-4" />
+            <span>Init</span>
+          </button>
+
+          <button
+            onClick={() => setShowCloneDialog(true)}
+            className="flex items-center space-x-2 px-4 py-2 bg-surface hover:bg-surface-elevated rounded-lg transition-colors font-medium"
+          >
+            <Download className="w-4 h-4" />
+            <span>Clone</span>
+          </button>
+
           <button 
             onClick={handleAddRepository}
             className="flex items-center space-x-2 px-4 py-2 bg-accent text-background rounded-lg hover:bg-accent-hover transition-colors font-medium"
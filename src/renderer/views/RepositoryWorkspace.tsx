@@ -6,15 +6,34 @@ import { Branches } from './workspace/Branches';
 import { BranchDetails } from './workspace/BranchDetails';
 import { Commits } from './workspace/Commits';
 import { Changes } from './workspace/Changes';
+import { Files } from './workspace/Files';
+import { Blame } from './workspace/Blame';
+import { FileHistory } from './workspace/FileHistory';
+import { Stashes } from './workspace/Stashes';
+import { Tags } from './workspace/Tags';
+import { Rebase } from './workspace/Rebase';
+import { Reflog } from './workspace/Reflog';
 import { Compare } from './workspace/Compare';
 import { Graph } from './workspace/Graph';
 import { Automation } from './workspace/Automation';
-import type { Branch } from '@shared/types/git';
+import { Bug } from 'lucide-react';
+import type { Branch, BisectState } from '@shared/types/git';
 
 export const RepositoryWorkspace: React.FC = () => {
   const selectedRepo = useRepositoryStore((state) => state.selectedRepo);
   const activeView = useAppStore((state) => state.activeView);
+  const setActiveView = useAppStore((state) => state.setActiveView);
   const [selectedBranch, setSelectedBranch] = React.useState<Branch | null>(null);
+  const [bisectState, setBisectState] = React.useState<BisectState | null>(null);
+
+  // A bisect left running from the command line or an earlier session keeps HEAD detached
+  React.useEffect(() => {
+    if (!window.api || !selectedRepo) return;
+
+    window.api.git.getBisectState(selectedRepo.path)
+      .then((result) => setBisectState(result.success ? result.data : null))
+      .catch((error) => console.error('Failed to check bisect state:', error));
+  }, [selectedRepo?.path, activeView]);
 
   if (!selectedRepo) {
     return null;
@@ -41,6 +60,20 @@ export const RepositoryWorkspace: React.FC = () => {
         return <Commits repository={selectedRepo} />;
       case 'changes':
         return <Changes repository={selectedRepo} />;
+      case 'files':
+        return <Files repository={selectedRepo} />;
+      case 'blame':
+        return <Blame repository={selectedRepo} />;
+      case 'file-history':
+        return <FileHistory repository={selectedRepo} />;
+      case 'stashes':
+        return <Stashes repository={selectedRepo} />;
+      case 'tags':
+        return <Tags repository={selectedRepo} />;
+      case 'rebase':
+        return <Rebase repository={selectedRepo} />;
+      case 'reflog':
+        return <Reflog repository={selectedRepo} />;
       case 'compare':
         return <Compare repository={selectedRepo} />;
       case 'graph':
@@ -71,6 +104,29 @@ export const RepositoryWorkspace: React.FC = () => {
         </div>
       </header>
 
+      {/* Bisect In Progress */}
+      {bisectState?.inProgress && activeView !== 'graph' && (
+        <div className="border-b border-border bg-warning/10 px-4 py-3 flex items-center justify-between">
+          <div className="flex items-center space-x-2 text-sm">
+            <Bug className="w-4 h-4 text-warning" />
+            <span className="font-medium">A bisect is in progress</span>
+            {bisectState.bad && bisectState.good.length > 0 && (
+              <span className="text-muted">
+                {bisectState.firstBad
+                  ? `first bad commit found: ${bisectState.firstBad.substring(0, 7)}`
+                  : `${bisectState.remaining.length} commits left to test`}
+              </span>
+            )}
+          </div>
+          <button
+            onClick={() => setActiveView('graph')}
+            className="px-3 py-1 text-xs bg-surface hover:bg-surface-elevated rounded transition-colors"
+          >
+            Open in Graph
+          </button>
+        </div>
+      )}
+
       {/* Main Content */}
       <div className="flex-1 overflow-hidden">
         {renderView()}
@@ -4,6 +4,7 @@ import { useAppStore } from '../stores/app';
 
 export const Settings: React.FC = () => {
   const [theme, setThemeState] = useAppStore((state) => [state.theme, state.setTheme]);
+  const [settings, updateSettings] = useAppStore((state) => [state.settings, state.updateSettings]);
   const [appVersion, setAppVersion] = React.useState('0.1.0');
 
   React.useEffect(() => {
@@ -29,6 +30,11 @@ export const Settings: React.FC = () => {
     { id: 'light', name: 'Light', description: 'Coming soon...' },
   ];
 
+  const diffViewModes = [
+    { id: 'unified', name: 'Unified', description: 'Removed and added lines in a single column' },
+    { id: 'split', name: 'Split', description: 'Old and new file side by side' },
+  ] as const;
+
   return (
     <div className="h-full flex flex-col">
       {/* Draggable title bar region */}
@@ -96,6 +102,34 @@ export const Settings: React.FC = () => {
                   </button>
                 ))}
               </div>
+
+              <h3 className="text-sm font-medium mt-6 mb-4 text-muted">Diff View</h3>
+
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                {diffViewModes.map((mode) => (
+                  <button
+                    key={mode.id}
+                    onClick={() => updateSettings({ diffViewMode: mode.id })}
+                    className={`
+                      p-4 rounded-lg border-2 transition-all text-left cursor-pointer
+                      ${settings.diffViewMode === mode.id
+                        ? 'border-accent bg-accent/10'
+                        : 'border-border hover:border-accent/50 bg-surface'
+                      }
+                    `}
+                  >
+                    <div className="flex items-start justify-between">
+                      <div>
+                        <h4 className="font-semibold">{mode.name}</h4>
+                        <p className="text-xs text-muted mt-1">{mode.description}</p>
+                      </div>
+                      {settings.diffViewMode === mode.id && (
+                        <Check className="w-5 h-5 text-accent" />
+                      )}
+                    </div>
+                  </button>
+                ))}
+              </div>
             </div>
           </section>
 
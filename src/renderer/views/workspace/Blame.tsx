@@ -0,0 +1,306 @@
+import React from 'react';
+import {
+  FileSearch,
+  RefreshCw,
+  ArrowLeft,
+  History,
+  User,
+  Calendar,
+  AlertCircle,
+} from 'lucide-react';
+import type { Repository, BlameResult, BlameLine } from '@shared/types/git';
+import { CommitDetails } from './CommitDetails';
+
+interface BlameProps {
+  repository: Repository;
+}
+
+interface BlameTarget {
+  path: string;
+  rev: string;
+}
+
+interface BlameGroup {
+  sha: string;
+  lines: BlameLine[];
+}
+
+// Lines that are not committed yet are blamed on the all-zero sha
+const isUncommitted = (sha: string) => /^0+$/.test(sha);
+
+export const Blame: React.FC<BlameProps> = ({ repository }) => {
+  const [filePath, setFilePath] = React.useState('');
+  const [rev, setRev] = React.useState('');
+  const [ignoreWhitespace, setIgnoreWhitespace] = React.useState(false);
+  const [detectMoved, setDetectMoved] = React.useState(false);
+  const [ignoreRevsFile, setIgnoreRevsFile] = React.useState('');
+  const [blame, setBlame] = React.useState<BlameResult | null>(null);
+  const [target, setTarget] = React.useState<BlameTarget | null>(null);
+  const [history, setHistory] = React.useState<BlameTarget[]>([]);
+  const [loading, setLoading] = React.useState(false);
+  const [error, setError] = React.useState<string | null>(null);
+  const [selectedCommit, setSelectedCommit] = React.useState<string | null>(null);
+
+  const runBlame = async (next: BlameTarget) => {
+    if (!window.api || !next.path.trim()) return false;
+
+    setLoading(true);
+    setError(null);
+    try {
+      const result = await window.api.git.getBlame(repository.path, next.path.trim(), {
+        rev: next.rev.trim() || undefined,
+        ignoreWhitespace,
+        detectMoved,
+        ignoreRevsFile: ignoreRevsFile.trim() || undefined,
+      });
+      if (result.success) {
+        setBlame(result.data);
+        setTarget(next);
+        return true;
+      }
+      setError(result.error.message || 'Failed to blame file');
+      return false;
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to blame file');
+      return false;
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleBlame = async () => {
+    if (await runBlame({ path: filePath, rev })) {
+      setHistory([]);
+    }
+  };
+
+  const handleBlameParent = async (sha: string) => {
+    const previous = blame?.commits[sha]?.previous;
+    if (!previous || !target) return;
+
+    if (await runBlame({ path: previous.path, rev: previous.sha })) {
+      setHistory([...history, target]);
+    }
+  };
+
+  const handleBack = async () => {
+    const previous = history[history.length - 1];
+    if (!previous) return;
+
+    if (await runBlame(previous)) {
+      setHistory(history.slice(0, -1));
+    }
+  };
+
+  // Consecutive lines from the same commit form one group
+  const groups = React.useMemo(() => {
+    const result: BlameGroup[] = [];
+    for (const line of blame?.lines ?? []) {
+      const last = result[result.length - 1];
+      if (last && last.sha === line.sha) {
+        last.lines.push(line);
+      } else {
+        result.push({ sha: line.sha, lines: [line] });
+      }
+    }
+    return result;
+  }, [blame]);
+
+  const formatDate = (date: Date) => {
+    const d = new Date(date);
+    return d.toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' });
+  };
+
+  if (selectedCommit) {
+    return (
+      <CommitDetails
+        repository={repository}
+        commitSha={selectedCommit}
+        onBack={() => setSelectedCommit(null)}
+      />
+    );
+  }
+
+  return (
+    <div className="h-full flex flex-col">
+      {/* Header */}
+      <div className="glass border-b border-border p-4">
+        <div className="flex items-center justify-between mb-4">
+          <div className="flex items-center space-x-3 min-w-0">
+            <FileSearch className="w-5 h-5 text-accent" />
+            <h2 className="text-xl font-semibold">Blame</h2>
+            {target && (
+              <span className="text-sm text-muted font-mono truncate">
+                {target.path}{target.rev && ` @ ${target.rev.substring(0, 7)}`}
+              </span>
+            )}
+          </div>
+
+          <div className="flex items-center space-x-2">
+            {history.length > 0 && (
+              <button
+                onClick={handleBack}
+                disabled={loading}
+                className="flex items-center space-x-2 px-4 py-2 bg-surface hover:bg-surface-elevated rounded-lg transition-colors disabled:opacity-50"
+              >
+                <ArrowLeft className="w-4 h-4" />
+                <span>Back</span>
+              </button>
+            )}
+            <button
+              onClick={() => target && runBlame(target)}
+              disabled={loading || !target}
+              className="flex items-center space-x-2 px-4 py-2 bg-surface hover:bg-surface-elevated rounded-lg transition-colors disabled:opacity-50"
+            >
+              <RefreshCw className={`w-4 h-4 ${loading ? 'animate-spin' : ''}`} />
+              <span>Refresh</span>
+            </button>
+          </div>
+        </div>
+
+        {/* Blame Form */}
+        <div className="flex items-center space-x-2">
+          <input
+            type="text"
+            value={filePath}
+            onChange={(e) => setFilePath(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && handleBlame()}
+            placeholder="File path, e.g. src/index.ts"
+            className="flex-1 px-4 py-2 bg-surface border border-border rounded-lg text-sm font-mono focus:outline-none focus:border-accent transition-colors"
+          />
+          <input
+            type="text"
+            value={rev}
+            onChange={(e) => setRev(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && handleBlame()}
+            placeholder="Revision (working tree)"
+            className="w-48 px-4 py-2 bg-surface border border-border rounded-lg text-sm font-mono focus:outline-none focus:border-accent transition-colors"
+          />
+          <button
+            onClick={handleBlame}
+            disabled={!filePath.trim() || loading}
+            className="px-4 py-2 bg-accent hover:bg-accent/80 text-background rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed text-sm font-medium"
+          >
+            Blame
+          </button>
+        </div>
+        <div className="flex items-center space-x-4 mt-3 text-sm">
+          <label className="flex items-center space-x-2 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={ignoreWhitespace}
+              onChange={(e) => setIgnoreWhitespace(e.target.checked)}
+            />
+            <span>Ignore whitespace</span>
+          </label>
+          <label className="flex items-center space-x-2 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={detectMoved}
+              onChange={(e) => setDetectMoved(e.target.checked)}
+            />
+            <span>Detect moved or copied lines</span>
+          </label>
+          <input
+            type="text"
+            value={ignoreRevsFile}
+            onChange={(e) => setIgnoreRevsFile(e.target.value)}
+            placeholder="Ignore-revs file, e.g. .git-blame-ignore-revs"
+            className="flex-1 px-3 py-1.5 bg-surface border border-border rounded text-sm font-mono focus:outline-none focus:border-accent transition-colors"
+          />
+        </div>
+      </div>
+
+      {/* Error State */}
+      {error && (
+        <div className="mx-4 mt-4 glass p-3 rounded-lg border border-error">
+          <div className="flex items-center space-x-2 text-error text-sm">
+            <AlertCircle className="w-4 h-4" />
+            <span className="break-all">{error}</span>
+          </div>
+        </div>
+      )}
+
+      {/* Blame Groups */}
+      <div className="flex-1 overflow-y-auto custom-scrollbar">
+        {loading && !blame ? (
+          <div className="flex items-center justify-center h-32">
+            <div className="text-muted">Blaming...</div>
+          </div>
+        ) : !blame ? (
+          <div className="flex flex-col items-center justify-center h-64 text-muted">
+            <FileSearch className="w-16 h-16 mb-4 opacity-50" />
+            <p className="text-lg mb-2">No file blamed</p>
+            <p className="text-sm">Enter a file path to see who last changed each line</p>
+          </div>
+        ) : (
+          <div className="font-mono text-xs">
+            {groups.map((group) => {
+              const commit = blame.commits[group.sha];
+              const uncommitted = isUncommitted(group.sha);
+
+              return (
+                <div key={`${group.sha}-${group.lines[0].lineNumber}`} className="flex border-b border-border">
+                  {/* Commit */}
+                  <div className="w-72 flex-shrink-0 p-2 bg-surface/50 font-sans">
+                    <div className="flex items-start justify-between space-x-2">
+                      <button
+                        onClick={() => !uncommitted && setSelectedCommit(group.sha)}
+                        disabled={uncommitted}
+                        className="flex-1 min-w-0 text-left group disabled:cursor-default"
+                        title={uncommitted ? undefined : 'Show commit'}
+                      >
+                        <div className="flex items-center space-x-2">
+                          <code className="text-accent font-mono">
+                            {uncommitted ? 'working' : group.sha.substring(0, 7)}
+                          </code>
+                          <span className="truncate group-hover:text-accent transition-colors">
+                            {commit?.summary}
+                          </span>
+                        </div>
+                        <div className="flex items-center space-x-3 text-muted mt-1">
+                          <div className="flex items-center space-x-1 min-w-0">
+                            <User className="w-3 h-3 flex-shrink-0" />
+                            <span className="truncate">{commit?.author.name}</span>
+                          </div>
+                          {commit && (
+                            <div className="flex items-center space-x-1 flex-shrink-0">
+                              <Calendar className="w-3 h-3" />
+                              <span>{formatDate(commit.date)}</span>
+                            </div>
+                          )}
+                        </div>
+                      </button>
+                      {commit?.previous && (
+                        <button
+                          onClick={() => handleBlameParent(group.sha)}
+                          disabled={loading}
+                          className="p-1 hover:bg-border rounded transition-colors disabled:opacity-50"
+                          title="Blame at the parent of this commit"
+                        >
+                          <History className="w-3 h-3" />
+                        </button>
+                      )}
+                    </div>
+                  </div>
+
+                  {/* Lines */}
+                  <div className="flex-1 min-w-0">
+                    {group.lines.map((line) => (
+                      <div key={line.lineNumber} className="flex hover:bg-surface-elevated">
+                        <span className="w-12 flex-shrink-0 pr-2 text-right text-muted select-none">
+                          {line.lineNumber}
+                        </span>
+                        <pre className="flex-1 px-2 whitespace-pre overflow-x-hidden">{line.content}</pre>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
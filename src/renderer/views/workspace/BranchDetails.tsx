@@ -2,6 +2,7 @@ import React from 'react';
 import { GitBranch, RefreshCw, Search, ChevronLeft, Calendar, User, Hash } from 'lucide-react';
 import type { Repository, Branch, Commit } from '@shared/types/git';
 import { CommitDetails } from './CommitDetails';
+import { RefBadges } from '../../components/RefBadges';
 
 interface BranchDetailsProps {
   repository: Repository;
@@ -153,6 +154,7 @@ export const BranchDetails: React.FC<BranchDetailsProps> = ({ repository, branch
                         <p className="text-xs text-muted mt-1 font-mono">
                           {commit.sha.substring(0, 7)}
                         </p>
+                        <RefBadges refs={commit.refs} className="mt-2" />
                       </div>
                     </div>
                   </div>
@@ -1,6 +1,23 @@
 import React from 'react';
-import { GitBranch, RefreshCw, Search, ChevronRight } from 'lucide-react';
-import type { Repository, Branch, Commit } from '@shared/types/git';
+import {
+  GitBranch,
+  RefreshCw,
+  Search,
+  ChevronRight,
+  ChevronDown,
+  FolderGit2,
+  FolderPlus,
+  Plus,
+  Lock,
+  Unlock,
+  Trash2,
+  Scissors,
+  AlertCircle,
+  Check,
+} from 'lucide-react';
+import type { Repository, Branch, Commit, Worktree, Result } from '@shared/types/git';
+import { useRepositoryStore } from '../../stores/repository';
+import { isSameRepositoryPath, registerRepository } from '../../utils/repositories';
 
 interface BranchesProps {
   repository: Repository;
@@ -15,11 +32,31 @@ export const Branches: React.FC<BranchesProps> = ({ repository, onSelectBranch }
   const [branches, setBranches] = React.useState<BranchWithCommit[]>([]);
   const [loading, setLoading] = React.useState(true);
   const [searchQuery, setSearchQuery] = React.useState('');
+  const [worktrees, setWorktrees] = React.useState<Worktree[]>([]);
 
   React.useEffect(() => {
     loadBranches();
+    loadWorktrees();
   }, [repository.path]);
 
+  const loadWorktrees = async () => {
+    if (!window.api) return;
+
+    try {
+      const result = await window.api.git.getWorktrees(repository.path);
+      if (result.success) {
+        setWorktrees(result.data);
+      }
+    } catch (error) {
+      console.error('Failed to load worktrees:', error);
+    }
+  };
+
+  const handleRefresh = () => {
+    loadBranches();
+    loadWorktrees();
+  };
+
   const loadBranches = async () => {
     if (!window.api) return;
 
@@ -53,6 +90,10 @@ export const Branches: React.FC<BranchesProps> = ({ repository, onSelectBranch }
     }
   };
 
+  // Linked worktree the branch is checked out in; the main worktree is already marked "Current"
+  const worktreeFor = (branch: Branch) =>
+    branch.isRemote ? undefined : worktrees.find((worktree) => !worktree.isMain && worktree.branch === branch.name);
+
   const filteredBranches = branches.filter((branch) =>
     branch.name.toLowerCase().includes(searchQuery.toLowerCase())
   );
@@ -69,7 +110,7 @@ export const Branches: React.FC<BranchesProps> = ({ repository, onSelectBranch }
           </div>
           
           <button
-            onClick={loadBranches}
+            onClick={handleRefresh}
             disabled={loading}
             className="flex items-center space-x-2 px-4 py-2 bg-surface hover:bg-surface-elevated rounded-lg transition-colors disabled:opacity-50"
           >
@@ -91,6 +132,14 @@ export const Branches: React.FC<BranchesProps> = ({ repository, onSelectBranch }
         </div>
       </div>
 
+      {/* Worktrees */}
+      <WorktreesPanel
+        repository={repository}
+        worktrees={worktrees}
+        branches={branches.filter((branch) => !branch.isRemote).map((branch) => branch.name)}
+        onWorktreesChanged={handleRefresh}
+      />
+
       {/* Table Header */}
       <div className="glass border-b border-border px-4 py-3">
         <div className="grid grid-cols-12 gap-4 text-sm font-medium text-muted">
@@ -137,6 +186,14 @@ export const Branches: React.FC<BranchesProps> = ({ repository, onSelectBranch }
                         Remote
                       </span>
                     )}
+                    {worktreeFor(branch) && (
+                      <span
+                        className="text-xs px-2 py-0.5 bg-accent-purple/20 text-accent-purple rounded"
+                        title={`Checked out in ${worktreeFor(branch)!.path}`}
+                      >
+                        Worktree
+                      </span>
+                    )}
                   </div>
 
                   {/* Last Commit */}
@@ -164,3 +221,263 @@ export const Branches: React.FC<BranchesProps> = ({ repository, onSelectBranch }
     </div>
   );
 };
+
+interface WorktreesPanelProps {
+  repository: Repository;
+  worktrees: Worktree[];
+  branches: string[];
+  onWorktreesChanged: () => void;
+}
+
+const WorktreesPanel: React.FC<WorktreesPanelProps> = ({ repository, worktrees, branches, onWorktreesChanged }) => {
+  const repositories = useRepositoryStore((state) => state.repositories);
+  const [expanded, setExpanded] = React.useState(true);
+  const [busy, setBusy] = React.useState(false);
+  const [error, setError] = React.useState<string | null>(null);
+  const [showAddForm, setShowAddForm] = React.useState(false);
+  const [newPath, setNewPath] = React.useState('');
+  const [newBranch, setNewBranch] = React.useState('');
+  const [createBranch, setCreateBranch] = React.useState(false);
+  const [startPoint, setStartPoint] = React.useState('');
+
+  const runAction = async (action: () => Promise<Result<void>>) => {
+    if (!window.api || busy) return false;
+
+    setBusy(true);
+    setError(null);
+    try {
+      const result = await action();
+      if (!result.success) {
+        setError(result.error.message || 'Worktree operation failed');
+        return false;
+      }
+      return true;
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Worktree operation failed');
+      return false;
+    } finally {
+      onWorktreesChanged();
+      setBusy(false);
+    }
+  };
+
+  const handleAdd = async () => {
+    const worktreePath = newPath.trim();
+    const branch = newBranch.trim();
+    if (!worktreePath || !branch) return;
+
+    const added = await runAction(() =>
+      window.api.git.addWorktree(repository.path, worktreePath, branch, createBranch, startPoint.trim() || undefined)
+    );
+    if (added) {
+      setNewPath('');
+      setNewBranch('');
+      setStartPoint('');
+      setCreateBranch(false);
+      setShowAddForm(false);
+    }
+  };
+
+  const handleRemove = async (worktree: Worktree) => {
+    if (!confirm(`Remove the worktree at ${worktree.path}? The directory will be deleted.`)) return;
+
+    const removed = await runAction(() => window.api.git.removeWorktree(repository.path, worktree.path));
+    if (!removed && confirm('The worktree has uncommitted changes or is locked. Remove it anyway?')) {
+      await runAction(() => window.api.git.removeWorktree(repository.path, worktree.path, true));
+    }
+  };
+
+  const handleRegister = async (worktree: Worktree) => {
+    const name = worktree.path.split(/[\\/]/).pop() || worktree.path;
+
+    setError(null);
+    try {
+      await registerRepository(worktree.path, name);
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to add repository');
+    }
+  };
+
+  const isRegistered = (worktree: Worktree) => repositories.some((repo) => isSameRepositoryPath(repo.path, worktree.path));
+
+  return (
+    <div className="glass border-b border-border px-4 py-3">
+      <div className="flex items-center justify-between">
+        <button
+          onClick={() => setExpanded(!expanded)}
+          className="flex items-center space-x-2 text-sm font-medium"
+        >
+          {expanded ? <ChevronDown className="w-4 h-4" /> : <ChevronRight className="w-4 h-4" />}
+          <FolderGit2 className="w-4 h-4 text-accent" />
+          <span>Worktrees ({worktrees.length})</span>
+        </button>
+        <div className="flex items-center space-x-1">
+          <button
+            onClick={() => runAction(() => window.api.git.pruneWorktrees(repository.path))}
+            disabled={busy || !worktrees.some((worktree) => worktree.prunable)}
+            className="flex items-center space-x-1 px-2 py-1 bg-surface hover:bg-surface-elevated rounded text-xs transition-colors disabled:opacity-50"
+            title="Forget worktrees whose directories were deleted"
+          >
+            <Scissors className="w-3.5 h-3.5" />
+            <span>Prune</span>
+          </button>
+          <button
+            onClick={() => {
+              setExpanded(true);
+              setShowAddForm(!showAddForm);
+            }}
+            className="flex items-center space-x-1 px-2 py-1 bg-surface hover:bg-surface-elevated rounded text-xs transition-colors"
+          >
+            <Plus className="w-3.5 h-3.5" />
+            <span>Add Worktree</span>
+          </button>
+        </div>
+      </div>
+
+      {expanded && (
+        <div className="mt-3 space-y-2">
+          {error && (
+            <div className="p-2 rounded border border-error flex items-center space-x-2 text-error text-xs">
+              <AlertCircle className="w-3.5 h-3.5 flex-shrink-0" />
+              <span className="break-all">{error}</span>
+            </div>
+          )}
+
+          {showAddForm && (
+            <div className="space-y-2">
+              <div className="grid grid-cols-3 gap-2">
+                <input
+                  type="text"
+                  value={newPath}
+                  onChange={(e) => setNewPath(e.target.value)}
+                  placeholder="Directory, e.g. ../project-review"
+                  className="px-3 py-1.5 bg-surface border border-border rounded text-sm font-mono focus:outline-none focus:border-accent transition-colors"
+                />
+                <input
+                  type="text"
+                  list="worktree-branches"
+                  value={newBranch}
+                  onChange={(e) => setNewBranch(e.target.value)}
+                  placeholder={createBranch ? 'New branch name' : 'Branch'}
+                  className="px-3 py-1.5 bg-surface border border-border rounded text-sm font-mono focus:outline-none focus:border-accent transition-colors"
+                />
+                <datalist id="worktree-branches">
+                  {branches.map((branch) => (
+                    <option key={branch} value={branch} />
+                  ))}
+                </datalist>
+                <input
+                  type="text"
+                  value={startPoint}
+                  onChange={(e) => setStartPoint(e.target.value)}
+                  disabled={!createBranch}
+                  placeholder="Start point (defaults to HEAD)"
+                  className="px-3 py-1.5 bg-surface border border-border rounded text-sm font-mono focus:outline-none focus:border-accent transition-colors disabled:opacity-50"
+                />
+              </div>
+              <div className="flex items-center justify-between">
+                <label className="flex items-center space-x-2 text-xs text-muted cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={createBranch}
+                    onChange={(e) => setCreateBranch(e.target.checked)}
+                  />
+                  <span>Create a new branch</span>
+                </label>
+                <div className="flex space-x-2">
+                  <button
+                    onClick={() => setShowAddForm(false)}
+                    className="px-3 py-1.5 bg-surface hover:bg-surface-elevated rounded text-sm transition-colors"
+                  >
+                    Cancel
+                  </button>
+                  <button
+                    onClick={handleAdd}
+                    disabled={!newPath.trim() || !newBranch.trim() || busy}
+                    className="px-3 py-1.5 bg-accent hover:bg-accent/80 text-background rounded text-sm transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    Add Worktree
+                  </button>
+                </div>
+              </div>
+            </div>
+          )}
+
+          {worktrees.map((worktree) => (
+            <div key={worktree.path} className="bg-surface px-3 py-2 rounded">
+              <div className="flex items-center justify-between">
+                <div className="flex items-center space-x-2 min-w-0 flex-1">
+                  <GitBranch className="w-3.5 h-3.5 text-accent flex-shrink-0" />
+                  <span className="text-sm font-medium">
+                    {worktree.branch ?? (worktree.bare ? 'bare' : worktree.head?.substring(0, 7) ?? '-')}
+                  </span>
+                  <span className="font-mono text-xs text-muted truncate" title={worktree.path}>
+                    {worktree.path}
+                  </span>
+                  {worktree.isMain && (
+                    <span className="text-xs px-2 py-0.5 bg-accent/20 text-accent rounded">Main</span>
+                  )}
+                  {worktree.detached && (
+                    <span className="text-xs px-2 py-0.5 bg-muted/20 text-muted rounded">Detached</span>
+                  )}
+                  {worktree.locked && (
+                    <span className="text-xs px-2 py-0.5 bg-warning/20 text-warning rounded" title={worktree.lockReason}>
+                      Locked
+                    </span>
+                  )}
+                  {worktree.prunable && (
+                    <span className="text-xs px-2 py-0.5 bg-error/20 text-error rounded" title={worktree.prunableReason}>
+                      Missing
+                    </span>
+                  )}
+                </div>
+                <div className="flex items-center space-x-1 ml-2">
+                  {isRegistered(worktree) ? (
+                    <span className="p-1.5 text-success" title="In the repository list">
+                      <Check className="w-3.5 h-3.5" />
+                    </span>
+                  ) : (
+                    <button
+                      onClick={() => handleRegister(worktree)}
+                      disabled={worktree.prunable || worktree.bare}
+                      className="p-1.5 hover:bg-border rounded transition-colors disabled:opacity-50"
+                      title="Add to repository list"
+                    >
+                      <FolderPlus className="w-3.5 h-3.5" />
+                    </button>
+                  )}
+                  {!worktree.isMain && (
+                    <>
+                      <button
+                        onClick={() =>
+                          runAction(() =>
+                            worktree.locked
+                              ? window.api.git.unlockWorktree(repository.path, worktree.path)
+                              : window.api.git.lockWorktree(repository.path, worktree.path)
+                          )
+                        }
+                        disabled={busy}
+                        className="p-1.5 hover:bg-border rounded transition-colors disabled:opacity-50"
+                        title={worktree.locked ? 'Unlock worktree' : 'Lock worktree'}
+                      >
+                        {worktree.locked ? <Unlock className="w-3.5 h-3.5" /> : <Lock className="w-3.5 h-3.5" />}
+                      </button>
+                      <button
+                        onClick={() => handleRemove(worktree)}
+                        disabled={busy}
+                        className="p-1.5 hover:bg-red-500/20 text-red-400 rounded transition-colors disabled:opacity-50"
+                        title="Remove worktree"
+                      >
+                        <Trash2 className="w-3.5 h-3.5" />
+                      </button>
+                    </>
+                  )}
+                </div>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -9,9 +9,36 @@ import {
   FileX, 
   AlertTriangle,
   Check,
-  X
+  Eye,
+  GitMerge,
+  AlertCircle,
+  ChevronDown,
+  ChevronRight,
+  Package
 } from 'lucide-react';
-import type { Repository, RepositoryStatus, FileChange } from '@shared/types/git';
+import type {
+  Repository,
+  RepositoryStatus,
+  FileChange,
+  DiffLineSelection,
+  DiffOptions,
+  MergeState,
+  SequencerState,
+} from '@shared/types/git';
+import { DiffViewer } from '../../components/DiffViewer';
+import { ConflictEditor } from '../../components/ConflictEditor';
+import { describeSubmoduleChange } from '../../utils/submodules';
+
+/**
+ * Add the local UTC offset to a datetime-local value ("2024-03-05T14:30"), so git records
+ * the author date in the user's time zone. The offset is taken at that date, so DST is respected.
+ */
+const withLocalOffset = (value: string) => {
+  const offset = -new Date(value).getTimezoneOffset();
+  const pad = (n: number) => String(Math.floor(Math.abs(n))).padStart(2, '0');
+  const seconds = value.length === 16 ? ':00' : '';
+  return `${value}${seconds}${offset < 0 ? '-' : '+'}${pad(offset / 60)}:${pad(offset % 60)}`;
+};
 
 interface ChangesProps {
   repository: Repository;
@@ -20,11 +47,27 @@ interface ChangesProps {
 export const Changes: React.FC<ChangesProps> = ({ repository }) => {
   const [status, setStatus] = React.useState<RepositoryStatus | null>(null);
   const [loading, setLoading] = React.useState(true);
-  const [commitMessage, setCommitMessage] = React.useState('');
+  const [commitSubject, setCommitSubject] = React.useState('');
+  const [commitBody, setCommitBody] = React.useState('');
   const [committing, setCommitting] = React.useState(false);
+  const [commitError, setCommitError] = React.useState<string | null>(null);
+  const [showCommitOptions, setShowCommitOptions] = React.useState(false);
+  const [amend, setAmend] = React.useState(false);
+  const [signOff, setSignOff] = React.useState(false);
+  const [allowEmpty, setAllowEmpty] = React.useState(false);
+  const [authorOverride, setAuthorOverride] = React.useState('');
+  const [dateOverride, setDateOverride] = React.useState('');
   const [selectedStaged, setSelectedStaged] = React.useState<Set<string>>(new Set());
   const [selectedUnstaged, setSelectedUnstaged] = React.useState<Set<string>>(new Set());
   const [selectedUntracked, setSelectedUntracked] = React.useState<Set<string>>(new Set());
+  const [openDiff, setOpenDiff] = React.useState<{ path: string; staged: boolean; diff: string } | null>(null);
+  const [diffOptions, setDiffOptions] = React.useState<DiffOptions>({});
+  const [mergeState, setMergeState] = React.useState<MergeState | null>(null);
+  const [sequencerState, setSequencerState] = React.useState<SequencerState | null>(null);
+  const [resolvingFile, setResolvingFile] = React.useState<string | null>(null);
+  const [operationAction, setOperationAction] = React.useState<'continue' | 'abort' | null>(null);
+  const [operationError, setOperationError] = React.useState<string | null>(null);
+  const [applyError, setApplyError] = React.useState<string | null>(null);
 
   React.useEffect(() => {
     loadStatus();
@@ -39,6 +82,16 @@ export const Changes: React.FC<ChangesProps> = ({ repository }) => {
       if (statusResult.success) {
         setStatus(statusResult.data);
       }
+
+      const mergeResult = await window.api.git.getMergeState(repository.path);
+      if (mergeResult.success) {
+        setMergeState(mergeResult.data);
+      }
+
+      const sequencerResult = await window.api.git.getSequencerState(repository.path);
+      if (sequencerResult.success) {
+        setSequencerState(sequencerResult.data);
+      }
     } catch (error) {
       console.error('Failed to load status:', error);
     } finally {
@@ -75,24 +128,160 @@ export const Changes: React.FC<ChangesProps> = ({ repository }) => {
     }
   };
 
+  const handleViewDiff = async (path: string, staged: boolean, options: DiffOptions = diffOptions) => {
+    if (!window.api) return;
+
+    try {
+      const result = await window.api.git.getFileDiff(repository.path, path, staged, options);
+      if (result.success) {
+        setApplyError(null);
+        setOpenDiff({ path, staged, diff: result.data });
+      }
+    } catch (error) {
+      console.error('Failed to load file diff:', error);
+    }
+  };
+
+  const refreshOpenDiff = async (path: string, staged: boolean) => {
+    await loadStatus();
+    const result = await window.api.git.getFileDiff(repository.path, path, staged, diffOptions);
+    if (result.success && result.data.trim()) {
+      setOpenDiff({ path, staged, diff: result.data });
+    } else {
+      setOpenDiff(null);
+    }
+  };
+
+  const handleDiffOptionsChange = (options: DiffOptions) => {
+    setDiffOptions(options);
+    if (openDiff) {
+      handleViewDiff(openDiff.path, openDiff.staged, options);
+    }
+  };
+
+  const handleApplyHunk = async (hunkIndex: number) => {
+    if (!window.api || !openDiff) return;
+
+    const { path, staged } = openDiff;
+    setApplyError(null);
+    try {
+      const result = staged
+        ? await window.api.git.unstageHunk(repository.path, path, hunkIndex)
+        : await window.api.git.stageHunk(repository.path, path, hunkIndex);
+      if (!result.success) {
+        setApplyError(result.error.message || 'Failed to update hunk');
+      }
+      await refreshOpenDiff(path, staged);
+    } catch (error) {
+      setApplyError(error instanceof Error ? error.message : 'Failed to update hunk');
+    }
+  };
+
+  const handleApplyLines = async (selections: DiffLineSelection[]) => {
+    if (!window.api || !openDiff) return;
+
+    const { path, staged } = openDiff;
+    setApplyError(null);
+    try {
+      const result = staged
+        ? await window.api.git.unstageLines(repository.path, path, selections)
+        : await window.api.git.stageLines(repository.path, path, selections);
+      if (!result.success) {
+        setApplyError(result.error.message || 'Failed to update lines');
+      }
+      await refreshOpenDiff(path, staged);
+    } catch (error) {
+      setApplyError(error instanceof Error ? error.message : 'Failed to update lines');
+    }
+  };
+
+  // A merge and a cherry-pick or revert cannot be in progress at the same time
+  const operationName = mergeState?.inProgress ? 'merge' : sequencerState?.operation;
+
+  const handleOperationAction = async (action: 'continue' | 'abort') => {
+    if (!window.api || operationAction || !operationName) return;
+    if (action === 'abort' && !confirm(`Abort the ${operationName}? All conflict resolutions will be lost.`)) return;
+
+    setOperationAction(action);
+    setOperationError(null);
+    try {
+      let result;
+      if (operationName === 'merge') {
+        result = action === 'continue'
+          ? await window.api.git.mergeContinue(repository.path)
+          : await window.api.git.mergeAbort(repository.path);
+      } else {
+        result = action === 'continue'
+          ? await window.api.git.continueSequencer(repository.path)
+          : await window.api.git.abortSequencer(repository.path);
+      }
+      if (!result.success) {
+        setOperationError(result.error.message || `Failed to ${action} ${operationName}`);
+      }
+      await loadStatus();
+    } catch (error) {
+      setOperationError(error instanceof Error ? error.message : `Failed to ${action} ${operationName}`);
+    } finally {
+      setOperationAction(null);
+    }
+  };
+
+  const handleAmendChange = async (checked: boolean) => {
+    setAmend(checked);
+    if (!checked || !window.api || commitSubject.trim() || commitBody.trim()) return;
+
+    // Start from the message being amended rather than an empty one
+    try {
+      const result = await window.api.git.getCommitDetails(repository.path, 'HEAD');
+      if (result.success) {
+        setCommitSubject(result.data.message);
+        setCommitBody(result.data.body?.trim() ?? '');
+      }
+    } catch (error) {
+      console.error('Failed to load last commit message:', error);
+    }
+  };
+
+  const canCommit = !!status && (status.staged.length > 0 || amend || allowEmpty) && (!!commitSubject.trim() || amend);
+
   const handleCommit = async () => {
-    if (!window.api || !commitMessage.trim() || !status || status.staged.length === 0) return;
+    if (!window.api || !canCommit) return;
+
+    const message = commitBody.trim()
+      ? `${commitSubject.trim()}\n\n${commitBody.trim()}\n`
+      : commitSubject.trim();
 
     setCommitting(true);
+    setCommitError(null);
     try {
-      const result = await window.api.git.commit(repository.path, commitMessage);
+      const result = await window.api.git.commit(repository.path, message, {
+        amend,
+        signOff,
+        allowEmpty,
+        author: authorOverride.trim() || undefined,
+        // datetime-local has no zone; send it with the local offset rather than converted to UTC
+        date: dateOverride ? withLocalOffset(dateOverride) : undefined,
+      });
       if (result.success) {
-        setCommitMessage('');
+        setCommitSubject('');
+        setCommitBody('');
+        setAmend(false);
+        setAllowEmpty(false);
         await loadStatus();
+      } else {
+        setCommitError(result.error.message || 'Failed to commit');
       }
     } catch (error) {
-      console.error('Failed to commit:', error);
+      setCommitError(error instanceof Error ? error.message : 'Failed to commit');
     } finally {
       setCommitting(false);
     }
   };
 
   const getFileIcon = (fileChange: FileChange) => {
+    if (fileChange.submodule) {
+      return <Package className="w-4 h-4 text-accent" />;
+    }
     switch (fileChange.status) {
       case 'added':
         return <FilePlus className="w-4 h-4 text-success" />;
@@ -112,6 +301,7 @@ export const Changes: React.FC<ChangesProps> = ({ repository }) => {
       deleted: { text: 'D', color: 'text-error bg-error/20' },
       renamed: { text: 'R', color: 'text-accent bg-accent/20' },
       copied: { text: 'C', color: 'text-accent bg-accent/20' },
+      'type-changed': { text: 'T', color: 'text-accent-purple bg-accent-purple/20' },
     };
 
     const badge = badges[fileChange.status];
@@ -172,6 +362,35 @@ export const Changes: React.FC<ChangesProps> = ({ repository }) => {
 
   return (
     <div className="h-full flex">
+      {/* Diff Viewer Modal */}
+      {openDiff && (
+        <DiffViewer
+          repoPath={repository.path}
+          diff={openDiff.diff}
+          fileName={openDiff.path}
+          onClose={() => setOpenDiff(null)}
+          stageMode={openDiff.staged ? 'unstage' : 'stage'}
+          onApplyHunk={handleApplyHunk}
+          onApplyLines={handleApplyLines}
+          applyError={applyError}
+          options={diffOptions}
+          onOptionsChange={handleDiffOptionsChange}
+        />
+      )}
+
+      {/* Conflict Editor Modal */}
+      {resolvingFile && (
+        <ConflictEditor
+          repoPath={repository.path}
+          filePath={resolvingFile}
+          onClose={() => setResolvingFile(null)}
+          onResolved={() => {
+            setResolvingFile(null);
+            loadStatus();
+          }}
+        />
+      )}
+
       {/* Left Panel - Changes List */}
       <div className="flex-1 flex flex-col border-r border-border">
         {/* Header */}
@@ -194,6 +413,51 @@ export const Changes: React.FC<ChangesProps> = ({ repository }) => {
           </div>
         </div>
 
+        {/* Merge, Cherry-pick or Revert In Progress */}
+        {operationName && (
+          <div className="border-b border-border bg-warning/10 px-4 py-3">
+            <div className="flex items-center justify-between">
+              <div className="flex items-center space-x-2 min-w-0">
+                <GitMerge className="w-4 h-4 text-warning flex-shrink-0" />
+                <span className="text-sm font-medium capitalize">{operationName} in progress</span>
+                {operationName === 'merge' ? (
+                  mergeState?.message && (
+                    <span className="text-sm text-muted truncate">{mergeState.message}</span>
+                  )
+                ) : (
+                  <span className="text-sm text-muted truncate">
+                    <code className="font-mono">{sequencerState?.currentSha?.substring(0, 7)}</code>
+                    {!!sequencerState?.remaining && ` (${sequencerState.remaining} more after this)`}
+                  </span>
+                )}
+              </div>
+              <div className="flex items-center space-x-2 ml-4">
+                <button
+                  onClick={() => handleOperationAction('continue')}
+                  disabled={!!operationAction || status.conflicted.length > 0}
+                  title={status.conflicted.length > 0 ? 'Resolve all conflicts first' : `Continue the ${operationName}`}
+                  className="px-3 py-1.5 bg-accent hover:bg-accent/80 text-background rounded text-sm transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  {operationAction === 'continue' ? 'Continuing...' : 'Continue'}
+                </button>
+                <button
+                  onClick={() => handleOperationAction('abort')}
+                  disabled={!!operationAction}
+                  className="px-3 py-1.5 bg-surface hover:bg-surface-elevated rounded text-sm transition-colors disabled:opacity-50"
+                >
+                  {operationAction === 'abort' ? 'Aborting...' : 'Abort'}
+                </button>
+              </div>
+            </div>
+            {operationError && (
+              <div className="flex items-center space-x-2 text-error text-sm mt-2">
+                <AlertCircle className="w-4 h-4" />
+                <span className="break-all">{operationError}</span>
+              </div>
+            )}
+          </div>
+        )}
+
         {/* Changes Sections */}
         <div className="flex-1 overflow-y-auto custom-scrollbar">
           {/* Conflicts */}
@@ -213,6 +477,12 @@ export const Changes: React.FC<ChangesProps> = ({ repository }) => {
                   <div className="flex items-center space-x-3">
                     <AlertTriangle className="w-4 h-4 text-error flex-shrink-0" />
                     <span className="font-mono text-sm flex-1 break-all">{file}</span>
+                    <button
+                      onClick={() => setResolvingFile(file)}
+                      className="px-2 py-1 text-xs bg-surface hover:bg-border rounded transition-colors"
+                    >
+                      Resolve
+                    </button>
                   </div>
                 </div>
               ))}
@@ -252,7 +522,29 @@ export const Changes: React.FC<ChangesProps> = ({ repository }) => {
                       className="flex-shrink-0"
                     />
                     {getFileIcon(file)}
-                    <span className="font-mono text-sm flex-1 break-all">{file.path}</span>
+                    <div className="flex-1 min-w-0">
+                      <span className="font-mono text-sm break-all">{file.path}</span>
+                      {file.oldPath && (
+                        <div className="text-xs text-muted font-mono break-all">
+                          {file.status === 'copied' ? 'copied from' : 'renamed from'} {file.oldPath}
+                        </div>
+                      )}
+                      {file.submodule && (
+                        <div className="text-xs text-muted">
+                          Submodule {describeSubmoduleChange(file.submodule)}
+                        </div>
+                      )}
+                    </div>
+                    <button
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        handleViewDiff(file.path, true);
+                      }}
+                      className="p-1 hover:bg-border rounded transition-colors flex-shrink-0"
+                      title="View diff"
+                    >
+                      <Eye className="w-4 h-4 text-muted" />
+                    </button>
                     {getStatusBadge(file)}
                   </div>
                 </div>
@@ -293,7 +585,29 @@ export const Changes: React.FC<ChangesProps> = ({ repository }) => {
                       className="flex-shrink-0"
                     />
                     {getFileIcon(file)}
-                    <span className="font-mono text-sm flex-1 break-all">{file.path}</span>
+                    <div className="flex-1 min-w-0">
+                      <span className="font-mono text-sm break-all">{file.path}</span>
+                      {file.oldPath && (
+                        <div className="text-xs text-muted font-mono break-all">
+                          {file.status === 'copied' ? 'copied from' : 'renamed from'} {file.oldPath}
+                        </div>
+                      )}
+                      {file.submodule && (
+                        <div className="text-xs text-muted">
+                          Submodule {describeSubmoduleChange(file.submodule)}
+                        </div>
+                      )}
+                    </div>
+                    <button
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        handleViewDiff(file.path, false);
+                      }}
+                      className="p-1 hover:bg-border rounded transition-colors flex-shrink-0"
+                      title="View diff"
+                    >
+                      <Eye className="w-4 h-4 text-muted" />
+                    </button>
                     {getStatusBadge(file)}
                   </div>
                 </div>
@@ -365,25 +679,103 @@ export const Changes: React.FC<ChangesProps> = ({ repository }) => {
           </p>
         </div>
 
-        <div className="flex-1 flex flex-col p-4">
+        <div className="flex-1 flex flex-col p-4 min-h-0">
+          <div className="relative">
+            <input
+              type="text"
+              value={commitSubject}
+              onChange={(e) => setCommitSubject(e.target.value)}
+              placeholder={amend ? 'Subject (leave empty to keep)' : 'Subject'}
+              className="w-full bg-surface border border-border rounded-lg px-3 py-2 pr-12 text-sm focus:outline-none focus:border-accent transition-colors"
+            />
+            <span className={`absolute right-3 top-1/2 -translate-y-1/2 text-xs ${
+              commitSubject.length > 72 ? 'text-warning' : 'text-muted'
+            }`}>
+              {commitSubject.length}
+            </span>
+          </div>
           <textarea
-            value={commitMessage}
-            onChange={(e) => setCommitMessage(e.target.value)}
-            placeholder="Enter commit message..."
-            disabled={status.staged.length === 0}
-            className="flex-1 bg-surface border border-border rounded-lg p-3 text-sm focus:outline-none focus:border-accent transition-colors resize-none disabled:opacity-50 disabled:cursor-not-allowed"
+            value={commitBody}
+            onChange={(e) => setCommitBody(e.target.value)}
+            placeholder="Description (optional)"
+            className="flex-1 mt-2 bg-surface border border-border rounded-lg p-3 text-sm focus:outline-none focus:border-accent transition-colors resize-none"
           />
 
+          {/* Commit Options */}
+          <button
+            onClick={() => setShowCommitOptions(!showCommitOptions)}
+            className="flex items-center space-x-1 mt-3 text-xs text-muted hover:text-text-primary transition-colors"
+          >
+            {showCommitOptions ? <ChevronDown className="w-3 h-3" /> : <ChevronRight className="w-3 h-3" />}
+            <span>Options</span>
+            {(amend || signOff || allowEmpty || authorOverride || dateOverride) && (
+              <span className="text-accent">(modified)</span>
+            )}
+          </button>
+          {showCommitOptions && (
+            <div className="mt-2 space-y-2 text-sm">
+              <label className="flex items-center space-x-2 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={amend}
+                  onChange={(e) => handleAmendChange(e.target.checked)}
+                />
+                <span>Amend last commit</span>
+              </label>
+              <label className="flex items-center space-x-2 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={signOff}
+                  onChange={(e) => setSignOff(e.target.checked)}
+                />
+                <span>Add Signed-off-by</span>
+              </label>
+              <label className="flex items-center space-x-2 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={allowEmpty}
+                  onChange={(e) => setAllowEmpty(e.target.checked)}
+                />
+                <span>Allow empty commit</span>
+              </label>
+              <input
+                type="text"
+                value={authorOverride}
+                onChange={(e) => setAuthorOverride(e.target.value)}
+                placeholder="Author override: Name <email>"
+                className="w-full bg-surface border border-border rounded px-3 py-1.5 text-sm focus:outline-none focus:border-accent transition-colors"
+              />
+              <input
+                type="datetime-local"
+                value={dateOverride}
+                onChange={(e) => setDateOverride(e.target.value)}
+                title="Author date override"
+                className="w-full bg-surface border border-border rounded px-3 py-1.5 text-sm focus:outline-none focus:border-accent transition-colors"
+              />
+            </div>
+          )}
+
           <div className="mt-4 space-y-2">
+            {commitError && (
+              <div className="flex items-start space-x-2 text-error text-xs">
+                <AlertCircle className="w-4 h-4 flex-shrink-0" />
+                <span className="break-all whitespace-pre-wrap">{commitError}</span>
+              </div>
+            )}
+
             <button
               onClick={handleCommit}
-              disabled={!commitMessage.trim() || status.staged.length === 0 || committing}
+              disabled={!canCommit || committing}
               className="w-full px-4 py-2 bg-accent hover:bg-accent/80 text-background rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed font-medium"
             >
-              {committing ? 'Committing...' : `Commit (${status.staged.length})`}
+              {committing
+                ? 'Committing...'
+                : amend
+                  ? 'Amend Last Commit'
+                  : `Commit (${status.staged.length})`}
             </button>
 
-            {status.staged.length === 0 && (
+            {status.staged.length === 0 && !amend && !allowEmpty && (
               <p className="text-xs text-muted text-center">
                 Stage files to enable commit
               </p>
@@ -9,10 +9,16 @@ import {
   FileX, 
   FileEdit,
   Plus,
-  Minus
+  Minus,
+  Tag as TagIcon,
+  AlertCircle,
+  GitCommit,
+  Undo2,
+  ArrowRight
 } from 'lucide-react';
-import type { Repository, Commit, FileChange } from '@shared/types/git';
+import type { Repository, Commit, FileChange, DiffOptions } from '@shared/types/git';
 import { DiffViewer } from '../../components/DiffViewer';
+import { CommitActionDialog } from '../../components/CommitActions';
 
 interface CommitDetailsProps {
   repository: Repository;
@@ -23,7 +29,14 @@ interface CommitDetailsProps {
 export const CommitDetails: React.FC<CommitDetailsProps> = ({ repository, commitSha, onBack }) => {
   const [commit, setCommit] = React.useState<(Commit & { files?: FileChange[] }) | null>(null);
   const [loading, setLoading] = React.useState(true);
-  const [selectedFile, setSelectedFile] = React.useState<{ path: string; diff: string } | null>(null);
+  const [selectedFile, setSelectedFile] = React.useState<{ file: FileChange; diff: string } | null>(null);
+  const [diffOptions, setDiffOptions] = React.useState<DiffOptions>({});
+  const [showTagForm, setShowTagForm] = React.useState(false);
+  const [tagName, setTagName] = React.useState('');
+  const [tagMessage, setTagMessage] = React.useState('');
+  const [tagging, setTagging] = React.useState(false);
+  const [tagError, setTagError] = React.useState<string | null>(null);
+  const [commitAction, setCommitAction] = React.useState<'cherry-pick' | 'revert' | null>(null);
 
   React.useEffect(() => {
     loadCommitDetails();
@@ -45,19 +58,58 @@ export const CommitDetails: React.FC<CommitDetailsProps> = ({ repository, commit
     }
   };
 
-  const handleFileClick = async (filePath: string) => {
+  const handleFileClick = async (file: FileChange, options: DiffOptions = diffOptions) => {
     if (!window.api) return;
 
     try {
-      const result = await window.api.git.getCommitFileDiff(repository.path, commitSha, filePath);
+      const result = await window.api.git.getCommitFileDiff(
+        repository.path,
+        commitSha,
+        file.path,
+        file.oldPath,
+        options
+      );
       if (result.success) {
-        setSelectedFile({ path: filePath, diff: result.data });
+        setSelectedFile({ file, diff: result.data });
       }
     } catch (error) {
       console.error('Failed to load file diff:', error);
     }
   };
 
+  const handleDiffOptionsChange = (options: DiffOptions) => {
+    setDiffOptions(options);
+    if (selectedFile) {
+      handleFileClick(selectedFile.file, options);
+    }
+  };
+
+  const handleCreateTag = async () => {
+    if (!window.api || !tagName.trim()) return;
+
+    setTagging(true);
+    setTagError(null);
+    try {
+      const result = await window.api.git.createTag(
+        repository.path,
+        tagName.trim(),
+        commitSha,
+        tagMessage.trim() || undefined
+      );
+      if (result.success) {
+        setTagName('');
+        setTagMessage('');
+        setShowTagForm(false);
+      } else {
+        setTagError(result.error.message || 'Failed to create tag');
+      }
+    } catch (error) {
+      setTagError(error instanceof Error ? error.message : 'Failed to create tag');
+    } finally {
+      setTagging(false);
+    }
+  };
+
   const formatDate = (date: Date) => {
     const d = new Date(date);
     return d.toLocaleString('en-US', { 
@@ -89,6 +141,7 @@ export const CommitDetails: React.FC<CommitDetailsProps> = ({ repository, commit
       deleted: { text: 'D', color: 'text-error bg-error/20' },
       renamed: { text: 'R', color: 'text-accent bg-accent/20' },
       copied: { text: 'C', color: 'text-accent bg-accent/20' },
+      'type-changed': { text: 'T', color: 'text-accent-purple bg-accent-purple/20' },
     };
 
     const badge = badges[fileChange.status];
@@ -120,9 +173,22 @@ export const CommitDetails: React.FC<CommitDetailsProps> = ({ repository, commit
       {/* Diff Viewer Modal */}
       {selectedFile && (
         <DiffViewer
+          repoPath={repository.path}
           diff={selectedFile.diff}
-          fileName={selectedFile.path}
+          fileName={selectedFile.file.path}
           onClose={() => setSelectedFile(null)}
+          options={diffOptions}
+          onOptionsChange={handleDiffOptionsChange}
+        />
+      )}
+
+      {/* Cherry-pick / Revert Dialog */}
+      {commitAction && (
+        <CommitActionDialog
+          repoPath={repository.path}
+          action={commitAction}
+          commits={[commit]}
+          onClose={() => setCommitAction(null)}
         />
       )}
 
@@ -136,12 +202,71 @@ export const CommitDetails: React.FC<CommitDetailsProps> = ({ repository, commit
             <ChevronLeft className="w-5 h-5" />
           </button>
           <Hash className="w-5 h-5 text-accent" />
-          <div>
+          <div className="flex-1 min-w-0">
             <h2 className="text-xl font-semibold">{commit.message}</h2>
             <p className="text-xs text-muted font-mono mt-1">{commit.sha}</p>
           </div>
+          <button
+            onClick={() => setCommitAction('cherry-pick')}
+            className="flex items-center space-x-2 px-3 py-2 bg-surface hover:bg-surface-elevated rounded-lg transition-colors text-sm"
+          >
+            <GitCommit className="w-4 h-4" />
+            <span>Cherry-pick</span>
+          </button>
+          <button
+            onClick={() => setCommitAction('revert')}
+            className="flex items-center space-x-2 px-3 py-2 bg-surface hover:bg-surface-elevated rounded-lg transition-colors text-sm"
+          >
+            <Undo2 className="w-4 h-4" />
+            <span>Revert</span>
+          </button>
+          <button
+            onClick={() => setShowTagForm(!showTagForm)}
+            className="flex items-center space-x-2 px-3 py-2 bg-surface hover:bg-surface-elevated rounded-lg transition-colors text-sm"
+          >
+            <TagIcon className="w-4 h-4" />
+            <span>Tag this commit</span>
+          </button>
         </div>
 
+        {/* Tag Form */}
+        {showTagForm && (
+          <div className="mb-4 space-y-2">
+            <div className="flex items-center space-x-2">
+              <input
+                type="text"
+                value={tagName}
+                onChange={(e) => setTagName(e.target.value)}
+                onKeyDown={(e) => e.key === 'Enter' && handleCreateTag()}
+                placeholder="Tag name"
+                autoFocus
+                className="w-48 px-3 py-1.5 bg-surface border border-border rounded text-sm focus:outline-none focus:border-accent transition-colors"
+              />
+              <input
+                type="text"
+                value={tagMessage}
+                onChange={(e) => setTagMessage(e.target.value)}
+                onKeyDown={(e) => e.key === 'Enter' && handleCreateTag()}
+                placeholder="Message (optional, creates an annotated tag)"
+                className="flex-1 px-3 py-1.5 bg-surface border border-border rounded text-sm focus:outline-none focus:border-accent transition-colors"
+              />
+              <button
+                onClick={handleCreateTag}
+                disabled={!tagName.trim() || tagging}
+                className="px-3 py-1.5 bg-accent hover:bg-accent/80 text-background rounded text-sm transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {tagging ? 'Creating...' : 'Create Tag'}
+              </button>
+            </div>
+            {tagError && (
+              <div className="flex items-center space-x-2 text-error text-sm">
+                <AlertCircle className="w-4 h-4" />
+                <span className="break-all">{tagError}</span>
+              </div>
+            )}
+          </div>
+        )}
+
         {/* Commit Info */}
         <div className="grid grid-cols-2 gap-4 text-sm">
           <div className="flex items-center space-x-2">
@@ -200,14 +325,23 @@ export const CommitDetails: React.FC<CommitDetailsProps> = ({ repository, commit
               {commit.files.map((file, index) => (
                 <div
                   key={index}
-                  onClick={() => handleFileClick(file.path)}
+                  onClick={() => handleFileClick(file)}
                   className="glass p-3 rounded-lg hover:bg-surface-elevated transition-colors cursor-pointer"
                 >
                   <div className="flex items-center space-x-3">
                     {getFileIcon(file)}
-                    <span className="font-mono text-sm flex-1 break-all">{file.path}</span>
+                    <span className="font-mono text-sm flex-1 break-all">
+                      {file.oldPath && (
+                        <>
+                          <span className="text-muted">{file.oldPath}</span>
+                          <ArrowRight className="w-3 h-3 inline mx-1 text-muted" />
+                        </>
+                      )}
+                      {file.path}
+                    </span>
                     {getStatusBadge(file)}
                     <div className="flex items-center space-x-3 text-xs">
+                      {file.binary && <span className="text-muted">binary</span>}
                       {file.additions > 0 && (
                         <span className="text-success">+{file.additions}</span>
                       )}
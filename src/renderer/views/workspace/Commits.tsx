@@ -1,7 +1,11 @@
 import React from 'react';
-import { GitCommit, RefreshCw, Search, Calendar, User, Hash } from 'lucide-react';
-import type { Repository, Commit } from '@shared/types/git';
+import { GitCommit, RefreshCw, Search, Calendar, User, Hash, SlidersHorizontal } from 'lucide-react';
+import type { Repository, Commit, CommitQuery } from '@shared/types/git';
 import { CommitDetails } from './CommitDetails';
+import { RefBadges } from '../../components/RefBadges';
+import { CommitContextMenu, ResetUndoBanner } from '../../components/CommitActions';
+import { CommitQueryBuilder } from '../../components/CommitQueryBuilder';
+import { hasCommitFilters } from '../../utils/commitQuery';
 
 interface CommitsProps {
   repository: Repository;
@@ -14,10 +18,15 @@ export const Commits: React.FC<CommitsProps> = ({ repository }) => {
   const [hasMore, setHasMore] = React.useState(true);
   const [page, setPage] = React.useState(0);
   const [selectedCommit, setSelectedCommit] = React.useState<string | null>(null);
+  const [selectedShas, setSelectedShas] = React.useState<Set<string>>(new Set());
+  const [contextMenu, setContextMenu] = React.useState<{ x: number; y: number; commits: Commit[] } | null>(null);
+  const [actionCount, setActionCount] = React.useState(0);
+  const [query, setQuery] = React.useState<CommitQuery>({});
+  const [showQueryBuilder, setShowQueryBuilder] = React.useState(false);
 
   React.useEffect(() => {
     loadCommits(true);
-  }, [repository.path, repository.currentBranch]);
+  }, [repository.path, repository.currentBranch, query]);
 
   const loadCommits = async (reset: boolean = false) => {
     if (!window.api) return;
@@ -28,7 +37,8 @@ export const Commits: React.FC<CommitsProps> = ({ repository }) => {
       const commitsResult = await window.api.git.getCommits(repository.path, { 
         limit: 50, 
         skip: currentPage * 50,
-        branch: repository.currentBranch
+        branch: repository.currentBranch,
+        query,
       });
       
       if (commitsResult.success) {
@@ -54,6 +64,30 @@ export const Commits: React.FC<CommitsProps> = ({ repository }) => {
     }
   };
 
+  const handleRowClick = (e: React.MouseEvent, commit: Commit) => {
+    // Ctrl/Cmd-click builds a multi-commit selection for cherry-picking
+    if (e.ctrlKey || e.metaKey) {
+      const newSet = new Set(selectedShas);
+      if (newSet.has(commit.sha)) {
+        newSet.delete(commit.sha);
+      } else {
+        newSet.add(commit.sha);
+      }
+      setSelectedShas(newSet);
+      return;
+    }
+    setSelectedCommit(commit.sha);
+  };
+
+  const handleContextMenu = (e: React.MouseEvent, commit: Commit) => {
+    e.preventDefault();
+    const shas = selectedShas.has(commit.sha) ? selectedShas : new Set([commit.sha]);
+    setSelectedShas(shas);
+    // History is listed newest first; apply the selection oldest first
+    const targets = commits.filter((c) => shas.has(c.sha)).reverse();
+    setContextMenu({ x: e.clientX, y: e.clientY, commits: targets });
+  };
+
   const filteredCommits = commits.filter((commit) =>
     commit.message.toLowerCase().includes(searchQuery.toLowerCase()) ||
     commit.author.name.toLowerCase().includes(searchQuery.toLowerCase()) ||
@@ -90,6 +124,21 @@ export const Commits: React.FC<CommitsProps> = ({ repository }) => {
 
   return (
     <div className="h-full flex flex-col">
+      {/* Commit Context Menu */}
+      {contextMenu && (
+        <CommitContextMenu
+          repoPath={repository.path}
+          position={contextMenu}
+          commits={contextMenu.commits}
+          onClose={() => setContextMenu(null)}
+          onCompleted={() => {
+            setSelectedShas(new Set());
+            setActionCount((count) => count + 1);
+            loadCommits(true);
+          }}
+        />
+      )}
+
       {/* Header */}
       <div className="glass border-b border-border p-4">
         <div className="flex items-center justify-between mb-4">
@@ -112,18 +161,39 @@ export const Commits: React.FC<CommitsProps> = ({ repository }) => {
         </div>
 
         {/* Search */}
-        <div className="relative">
-          <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 w-4 h-4 text-muted" />
-          <input
-            type="text"
-            placeholder="Search commits by message, author, or SHA..."
-            value={searchQuery}
-            onChange={(e) => setSearchQuery(e.target.value)}
-            className="w-full pl-10 pr-4 py-2 bg-surface border border-border rounded-lg text-sm focus:outline-none focus:border-accent transition-colors"
-          />
+        <div className="flex items-center space-x-2">
+          <div className="relative flex-1">
+            <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 w-4 h-4 text-muted" />
+            <input
+              type="text"
+              placeholder="Search commits by message, author, or SHA..."
+              value={searchQuery}
+              onChange={(e) => setSearchQuery(e.target.value)}
+              className="w-full pl-10 pr-4 py-2 bg-surface border border-border rounded-lg text-sm focus:outline-none focus:border-accent transition-colors"
+            />
+          </div>
+          <button
+            onClick={() => setShowQueryBuilder(!showQueryBuilder)}
+            className={`flex items-center space-x-2 px-4 py-2 rounded-lg transition-colors text-sm ${
+              hasCommitFilters(query) ? 'bg-accent/20 text-accent' : 'bg-surface hover:bg-surface-elevated'
+            }`}
+            title="Search the whole history with git"
+          >
+            <SlidersHorizontal className="w-4 h-4" />
+            <span>{hasCommitFilters(query) ? 'Filtered' : 'Filters'}</span>
+          </button>
         </div>
+
+        {showQueryBuilder && <CommitQueryBuilder query={query} onApply={setQuery} />}
       </div>
 
+      {/* Undo Hard Reset */}
+      <ResetUndoBanner
+        repoPath={repository.path}
+        refreshKey={actionCount}
+        onUndone={() => loadCommits(true)}
+      />
+
       {/* Table Header */}
       <div className="glass border-b border-border px-4 py-3">
         <div className="grid grid-cols-12 gap-4 text-sm font-medium text-muted">
@@ -142,7 +212,7 @@ export const Commits: React.FC<CommitsProps> = ({ repository }) => {
         ) : filteredCommits.length === 0 ? (
           <div className="flex items-center justify-center h-32">
             <div className="text-muted">
-              {searchQuery ? 'No commits found' : 'No commits in this branch'}
+              {searchQuery || hasCommitFilters(query) ? 'No commits found' : 'No commits in this branch'}
             </div>
           </div>
         ) : (
@@ -150,8 +220,11 @@ export const Commits: React.FC<CommitsProps> = ({ repository }) => {
             {filteredCommits.map((commit) => (
               <div
                 key={commit.sha}
-                onClick={() => setSelectedCommit(commit.sha)}
-                className="px-4 py-4 border-b border-border hover:bg-surface-elevated transition-colors group cursor-pointer"
+                onClick={(e) => handleRowClick(e, commit)}
+                onContextMenu={(e) => handleContextMenu(e, commit)}
+                className={`px-4 py-4 border-b border-border hover:bg-surface-elevated transition-colors group cursor-pointer ${
+                  selectedShas.has(commit.sha) ? 'bg-accent/10' : ''
+                }`}
               >
                 <div className="grid grid-cols-12 gap-4">
                   {/* Commit Message */}
@@ -165,6 +238,7 @@ export const Commits: React.FC<CommitsProps> = ({ repository }) => {
                         <p className="text-xs text-muted mt-1 font-mono">
                           {commit.sha.substring(0, 7)}
                         </p>
+                        <RefBadges refs={commit.refs} className="mt-2" />
                       </div>
                     </div>
                   </div>
@@ -12,7 +12,7 @@ import {
   Calendar,
   User
 } from 'lucide-react';
-import type { Repository, Branch, DiffResult, Commit } from '@shared/types/git';
+import type { Repository, Branch, DiffResult, Commit, FileChange, DiffOptions } from '@shared/types/git';
 import { DiffViewer } from '../../components/DiffViewer';
 
 interface CompareProps {
@@ -29,7 +29,8 @@ export const Compare: React.FC<CompareProps> = ({ repository }) => {
   const [error, setError] = React.useState<string | null>(null);
   const [showBaseDropdown, setShowBaseDropdown] = React.useState(false);
   const [showCompareDropdown, setShowCompareDropdown] = React.useState(false);
-  const [selectedFile, setSelectedFile] = React.useState<{ path: string; diff: string } | null>(null);
+  const [selectedFile, setSelectedFile] = React.useState<{ file: FileChange; diff: string } | null>(null);
+  const [diffOptions, setDiffOptions] = React.useState<DiffOptions>({});
 
   React.useEffect(() => {
     loadBranches();
@@ -124,7 +125,7 @@ export const Compare: React.FC<CompareProps> = ({ repository }) => {
     }
   };
 
-  const handleFileClick = async (filePath: string) => {
+  const handleFileClick = async (file: FileChange, options: DiffOptions = diffOptions) => {
     if (!window.api || !baseBranch || !compareBranch) return;
 
     try {
@@ -133,12 +134,13 @@ export const Compare: React.FC<CompareProps> = ({ repository }) => {
         repository.path,
         baseBranch,
         compareBranch,
-        [filePath]
+        file.oldPath ? [file.oldPath, file.path] : [file.path],
+        options
       );
 
       if (result.success && result.data) {
         setSelectedFile({
-          path: filePath,
+          file,
           diff: result.data,
         });
       }
@@ -147,6 +149,13 @@ export const Compare: React.FC<CompareProps> = ({ repository }) => {
     }
   };
 
+  const handleDiffOptionsChange = (options: DiffOptions) => {
+    setDiffOptions(options);
+    if (selectedFile) {
+      handleFileClick(selectedFile.file, options);
+    }
+  };
+
   return (
     <div className="h-full overflow-y-auto custom-scrollbar">
       <div className="p-6 space-y-6">
@@ -346,20 +355,27 @@ export const Compare: React.FC<CompareProps> = ({ repository }) => {
                   {diffResult.files.map((file, index) => (
                     <button
                       key={index}
-                      onClick={() => handleFileClick(file.path)}
+                      onClick={() => handleFileClick(file)}
                       className="w-full flex items-center justify-between px-3 py-2 hover:bg-surface hover:border-l-2 hover:border-accent rounded transition-all group cursor-pointer"
                     >
                       <div className="flex items-center space-x-2 flex-1 min-w-0">
                         {getFileIcon(file.status)}
                         <span className="text-sm font-mono truncate group-hover:text-accent transition-colors">
+                          {file.oldPath && (
+                            <>
+                              <span className="text-muted">{file.oldPath}</span>
+                              <ArrowRight className="w-3 h-3 inline mx-1 text-muted" />
+                            </>
+                          )}
                           {file.path}
                         </span>
                       </div>
                       
                       <div className="flex items-center space-x-3 ml-4">
                         <span className={`text-xs font-medium ${getFileStatusColor(file.status)} capitalize`}>
-                          {file.status}
+                          {file.status.replace('-', ' ')}
                         </span>
+                        {file.binary && <span className="text-xs text-muted">binary</span>}
                         {file.status !== 'deleted' && file.additions > 0 && (
                           <span className="text-xs text-success">+{file.additions}</span>
                         )}
@@ -404,9 +420,12 @@ export const Compare: React.FC<CompareProps> = ({ repository }) => {
       {/* Diff Viewer Modal */}
       {selectedFile && (
         <DiffViewer
-          fileName={selectedFile.path}
+          repoPath={repository.path}
+          fileName={selectedFile.file.path}
           diff={selectedFile.diff}
           onClose={() => setSelectedFile(null)}
+          options={diffOptions}
+          onOptionsChange={handleDiffOptionsChange}
         />
       )}
     </div>
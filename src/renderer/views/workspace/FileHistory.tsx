@@ -0,0 +1,312 @@
+import React from 'react';
+import {
+  FileClock,
+  RefreshCw,
+  Eye,
+  RotateCcw,
+  User,
+  Calendar,
+  ArrowRight,
+  AlertCircle,
+  Check,
+} from 'lucide-react';
+import type { Repository, FileHistoryEntry, DiffOptions } from '@shared/types/git';
+import { DiffViewer } from '../../components/DiffViewer';
+import { CommitDetails } from './CommitDetails';
+
+interface FileHistoryProps {
+  repository: Repository;
+}
+
+const PAGE_SIZE = 50;
+
+export const FileHistory: React.FC<FileHistoryProps> = ({ repository }) => {
+  const [filePath, setFilePath] = React.useState('');
+  const [historyPath, setHistoryPath] = React.useState<string | null>(null);
+  const [entries, setEntries] = React.useState<FileHistoryEntry[]>([]);
+  const [hasMore, setHasMore] = React.useState(false);
+  const [loading, setLoading] = React.useState(false);
+  const [error, setError] = React.useState<string | null>(null);
+  const [restoring, setRestoring] = React.useState<string | null>(null);
+  const [restoredSha, setRestoredSha] = React.useState<string | null>(null);
+  const [openDiff, setOpenDiff] = React.useState<{ entry: FileHistoryEntry; diff: string } | null>(null);
+  const [diffOptions, setDiffOptions] = React.useState<DiffOptions>({});
+  const [selectedCommit, setSelectedCommit] = React.useState<string | null>(null);
+
+  const loadHistory = async (path: string, append: boolean = false) => {
+    if (!window.api || !path.trim()) return;
+
+    setLoading(true);
+    setError(null);
+    try {
+      const skip = append ? entries.length : 0;
+      const result = await window.api.git.getFileHistory(repository.path, path.trim(), PAGE_SIZE, skip);
+      if (result.success) {
+        setEntries(append ? [...entries, ...result.data] : result.data);
+        setHasMore(result.data.length === PAGE_SIZE);
+        setHistoryPath(path.trim());
+      } else {
+        setError(result.error.message || 'Failed to load file history');
+      }
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to load file history');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleShowHistory = () => {
+    setRestoredSha(null);
+    loadHistory(filePath);
+  };
+
+  const handleViewDiff = async (entry: FileHistoryEntry, options: DiffOptions = diffOptions) => {
+    if (!window.api) return;
+
+    try {
+      const result = await window.api.git.getCommitFileDiff(
+        repository.path,
+        entry.sha,
+        entry.path,
+        entry.oldPath,
+        options
+      );
+      if (result.success) {
+        setOpenDiff({ entry, diff: result.data });
+      }
+    } catch (error) {
+      console.error('Failed to load file diff:', error);
+    }
+  };
+
+  const handleDiffOptionsChange = (options: DiffOptions) => {
+    setDiffOptions(options);
+    if (openDiff) {
+      handleViewDiff(openDiff.entry, options);
+    }
+  };
+
+  const handleRestore = async (entry: FileHistoryEntry) => {
+    if (!window.api || !historyPath || restoring) return;
+    if (!confirm(`Overwrite ${historyPath} with its version from ${entry.sha.substring(0, 7)}? Uncommitted changes to this file will be lost.`)) return;
+
+    setRestoring(entry.sha);
+    setError(null);
+    setRestoredSha(null);
+    try {
+      const result = await window.api.git.restoreFileVersion(repository.path, entry.sha, entry.path, historyPath);
+      if (result.success) {
+        setRestoredSha(entry.sha);
+      } else {
+        setError(result.error.message || 'Failed to restore file');
+      }
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to restore file');
+    } finally {
+      setRestoring(null);
+    }
+  };
+
+  const formatDate = (date: Date) => {
+    const d = new Date(date);
+    return d.toLocaleDateString() + ' ' + d.toLocaleTimeString();
+  };
+
+  const getStatusColor = (status: FileHistoryEntry['status']) => {
+    switch (status) {
+      case 'added':
+        return 'text-success';
+      case 'deleted':
+        return 'text-error';
+      case 'renamed':
+      case 'copied':
+        return 'text-accent';
+      default:
+        return 'text-warning';
+    }
+  };
+
+  if (selectedCommit) {
+    return (
+      <CommitDetails
+        repository={repository}
+        commitSha={selectedCommit}
+        onBack={() => setSelectedCommit(null)}
+      />
+    );
+  }
+
+  return (
+    <div className="h-full flex flex-col">
+      {/* Diff Viewer Modal */}
+      {openDiff && (
+        <DiffViewer
+          repoPath={repository.path}
+          diff={openDiff.diff}
+          fileName={`${openDiff.entry.path} @ ${openDiff.entry.sha.substring(0, 7)}`}
+          onClose={() => setOpenDiff(null)}
+          options={diffOptions}
+          onOptionsChange={handleDiffOptionsChange}
+        />
+      )}
+
+      {/* Header */}
+      <div className="glass border-b border-border p-4">
+        <div className="flex items-center justify-between mb-4">
+          <div className="flex items-center space-x-3 min-w-0">
+            <FileClock className="w-5 h-5 text-accent" />
+            <h2 className="text-xl font-semibold">File History</h2>
+            {historyPath && (
+              <span className="text-sm text-muted font-mono truncate">
+                {historyPath} ({entries.length}{hasMore ? '+' : ''} commits)
+              </span>
+            )}
+          </div>
+
+          <button
+            onClick={() => historyPath && loadHistory(historyPath)}
+            disabled={loading || !historyPath}
+            className="flex items-center space-x-2 px-4 py-2 bg-surface hover:bg-surface-elevated rounded-lg transition-colors disabled:opacity-50"
+          >
+            <RefreshCw className={`w-4 h-4 ${loading ? 'animate-spin' : ''}`} />
+            <span>Refresh</span>
+          </button>
+        </div>
+
+        <div className="flex items-center space-x-2">
+          <input
+            type="text"
+            value={filePath}
+            onChange={(e) => setFilePath(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && handleShowHistory()}
+            placeholder="File path, e.g. src/index.ts"
+            className="flex-1 px-4 py-2 bg-surface border border-border rounded-lg text-sm font-mono focus:outline-none focus:border-accent transition-colors"
+          />
+          <button
+            onClick={handleShowHistory}
+            disabled={!filePath.trim() || loading}
+            className="px-4 py-2 bg-accent hover:bg-accent/80 text-background rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed text-sm font-medium"
+          >
+            Show History
+          </button>
+        </div>
+      </div>
+
+      {/* Error State */}
+      {error && (
+        <div className="mx-4 mt-4 glass p-3 rounded-lg border border-error">
+          <div className="flex items-center space-x-2 text-error text-sm">
+            <AlertCircle className="w-4 h-4" />
+            <span className="break-all">{error}</span>
+          </div>
+        </div>
+      )}
+
+      {/* Restored Notice */}
+      {restoredSha && (
+        <div className="mx-4 mt-4 glass p-3 rounded-lg border border-success">
+          <div className="flex items-center space-x-2 text-success text-sm">
+            <Check className="w-4 h-4" />
+            <span>
+              Restored {historyPath} from {restoredSha.substring(0, 7)}. Review and commit it from Changes.
+            </span>
+          </div>
+        </div>
+      )}
+
+      {/* History List */}
+      <div className="flex-1 overflow-y-auto custom-scrollbar">
+        {loading && entries.length === 0 ? (
+          <div className="flex items-center justify-center h-32">
+            <div className="text-muted">Loading history...</div>
+          </div>
+        ) : !historyPath ? (
+          <div className="flex flex-col items-center justify-center h-64 text-muted">
+            <FileClock className="w-16 h-16 mb-4 opacity-50" />
+            <p className="text-lg mb-2">No file selected</p>
+            <p className="text-sm">Enter a file path to see every commit that changed it, across renames</p>
+          </div>
+        ) : entries.length === 0 ? (
+          <div className="flex items-center justify-center h-32">
+            <div className="text-muted">No commits touched this file</div>
+          </div>
+        ) : (
+          <div>
+            {entries.map((entry) => (
+              <div key={entry.sha} className="px-4 py-3 border-b border-border hover:bg-surface-elevated transition-colors">
+                <div className="flex items-center justify-between">
+                  <div className="flex-1 min-w-0">
+                    <div className="flex items-center space-x-2">
+                      <button
+                        onClick={() => setSelectedCommit(entry.sha)}
+                        className="text-xs text-accent font-mono hover:underline"
+                        title="Show commit"
+                      >
+                        {entry.sha.substring(0, 7)}
+                      </button>
+                      <span className={`text-xs font-medium capitalize ${getStatusColor(entry.status)}`}>
+                        {entry.status}
+                      </span>
+                      <span className="font-medium truncate">{entry.message}</span>
+                    </div>
+                    <div className="flex items-center space-x-4 text-xs text-muted mt-1">
+                      {entry.oldPath ? (
+                        <div className="flex items-center space-x-1 font-mono min-w-0">
+                          <span className="truncate">{entry.oldPath}</span>
+                          <ArrowRight className="w-3 h-3 flex-shrink-0" />
+                          <span className="truncate">{entry.path}</span>
+                        </div>
+                      ) : entry.path !== historyPath && (
+                        <span className="font-mono truncate">{entry.path}</span>
+                      )}
+                      <div className="flex items-center space-x-1">
+                        <User className="w-3 h-3" />
+                        <span>{entry.author.name}</span>
+                      </div>
+                      <div className="flex items-center space-x-1">
+                        <Calendar className="w-3 h-3" />
+                        <span>{formatDate(entry.date)}</span>
+                      </div>
+                    </div>
+                  </div>
+
+                  {/* Actions */}
+                  <div className="flex items-center space-x-1 ml-4">
+                    <button
+                      onClick={() => handleViewDiff(entry)}
+                      className="p-2 hover:bg-border rounded transition-colors"
+                      title="Show diff"
+                    >
+                      <Eye className="w-4 h-4" />
+                    </button>
+                    <button
+                      onClick={() => handleRestore(entry)}
+                      disabled={!!restoring || entry.status === 'deleted'}
+                      className="p-2 hover:bg-border rounded transition-colors disabled:opacity-50"
+                      title={entry.status === 'deleted' ? 'The file was deleted in this commit' : 'Restore this version'}
+                    >
+                      <RotateCcw className={`w-4 h-4 ${restoring === entry.sha ? 'animate-spin' : ''}`} />
+                    </button>
+                  </div>
+                </div>
+              </div>
+            ))}
+
+            {/* Load More */}
+            {hasMore && (
+              <div className="p-4 flex justify-center">
+                <button
+                  onClick={() => historyPath && loadHistory(historyPath, true)}
+                  disabled={loading}
+                  className="px-6 py-2 bg-surface hover:bg-surface-elevated rounded-lg transition-colors disabled:opacity-50"
+                >
+                  {loading ? 'Loading...' : 'Load More'}
+                </button>
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,282 @@
+import React from 'react';
+import {
+  FolderTree,
+  Folder,
+  FolderOpen,
+  File,
+  FileCode,
+  ChevronRight,
+  ChevronDown,
+  Package,
+  AlertCircle,
+} from 'lucide-react';
+import type { Repository, TreeEntry, BlobContent } from '@shared/types/git';
+import { CodePreview } from '../../components/CodePreview';
+
+interface FilesProps {
+  repository: Repository;
+}
+
+export const Files: React.FC<FilesProps> = ({ repository }) => {
+  const [revInput, setRevInput] = React.useState('HEAD');
+  const [rev, setRev] = React.useState('HEAD');
+  const [refNames, setRefNames] = React.useState<string[]>([]);
+  // Directory path -> entries; '' is the root
+  const [trees, setTrees] = React.useState<Record<string, TreeEntry[]>>({});
+  const [expanded, setExpanded] = React.useState<Set<string>>(new Set());
+  const [loading, setLoading] = React.useState(false);
+  const [error, setError] = React.useState<string | null>(null);
+  const [selectedPath, setSelectedPath] = React.useState<string | null>(null);
+  const [blob, setBlob] = React.useState<BlobContent | null>(null);
+  const [blobLoading, setBlobLoading] = React.useState(false);
+
+  React.useEffect(() => {
+    loadRefNames();
+  }, [repository.path]);
+
+  React.useEffect(() => {
+    setTrees({});
+    setExpanded(new Set());
+    setSelectedPath(null);
+    setBlob(null);
+    loadTree('');
+  }, [repository.path, rev]);
+
+  const loadRefNames = async () => {
+    if (!window.api) return;
+
+    try {
+      const [branchResult, tagResult] = await Promise.all([
+        window.api.git.getBranches(repository.path),
+        window.api.git.getTags(repository.path),
+      ]);
+      const names: string[] = [];
+      if (branchResult.success) {
+        names.push(...branchResult.data.map((branch) => branch.name));
+      }
+      if (tagResult.success) {
+        names.push(...tagResult.data.map((tag) => tag.name));
+      }
+      setRefNames(names);
+    } catch (error) {
+      console.error('Failed to load refs:', error);
+    }
+  };
+
+  const loadTree = async (dirPath: string) => {
+    if (!window.api) return;
+
+    setLoading(true);
+    setError(null);
+    try {
+      const result = await window.api.git.getTree(repository.path, rev, dirPath);
+      if (result.success) {
+        setTrees((current) => ({ ...current, [dirPath]: result.data }));
+      } else {
+        setError(result.error.message || 'Failed to load files');
+      }
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to load files');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleToggleDir = (entry: TreeEntry) => {
+    const newSet = new Set(expanded);
+    if (newSet.has(entry.path)) {
+      newSet.delete(entry.path);
+    } else {
+      newSet.add(entry.path);
+      if (!trees[entry.path]) {
+        loadTree(entry.path);
+      }
+    }
+    setExpanded(newSet);
+  };
+
+  const handleSelectFile = async (entry: TreeEntry) => {
+    if (!window.api) return;
+
+    setSelectedPath(entry.path);
+    setBlob(null);
+    setBlobLoading(true);
+    try {
+      const result = await window.api.git.getBlob(repository.path, rev, entry.path);
+      if (result.success) {
+        setBlob(result.data);
+      } else {
+        setError(result.error.message || 'Failed to load file');
+      }
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to load file');
+    } finally {
+      setBlobLoading(false);
+    }
+  };
+
+  const handleOpenRev = () => {
+    const next = revInput.trim();
+    if (next && next !== rev) {
+      setRev(next);
+    }
+  };
+
+  const formatSize = (bytes: number) => {
+    if (bytes < 1024) return `${bytes} B`;
+    if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+    return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  };
+
+  const renderEntries = (dirPath: string, depth: number): React.ReactNode =>
+    (trees[dirPath] ?? []).map((entry) => {
+      const isOpen = expanded.has(entry.path);
+      const indent = { paddingLeft: `${depth * 16 + 8}px` };
+
+      if (entry.type === 'tree') {
+        return (
+          <React.Fragment key={entry.path}>
+            <button
+              onClick={() => handleToggleDir(entry)}
+              style={indent}
+              className="w-full flex items-center space-x-1 pr-2 py-1 text-sm text-left hover:bg-surface-elevated transition-colors"
+            >
+              {isOpen ? <ChevronDown className="w-3 h-3 flex-shrink-0" /> : <ChevronRight className="w-3 h-3 flex-shrink-0" />}
+              {isOpen ? <FolderOpen className="w-4 h-4 text-accent flex-shrink-0" /> : <Folder className="w-4 h-4 text-accent flex-shrink-0" />}
+              <span className="truncate">{entry.name}</span>
+            </button>
+            {isOpen && renderEntries(entry.path, depth + 1)}
+          </React.Fragment>
+        );
+      }
+
+      if (entry.type === 'commit') {
+        return (
+          <div
+            key={entry.path}
+            style={indent}
+            className="flex items-center space-x-1 pr-2 py-1 text-sm text-muted"
+            title={`Submodule at ${entry.sha.substring(0, 7)}`}
+          >
+            <span className="w-3 flex-shrink-0" />
+            <Package className="w-4 h-4 flex-shrink-0" />
+            <span className="truncate">{entry.name}</span>
+          </div>
+        );
+      }
+
+      return (
+        <button
+          key={entry.path}
+          onClick={() => handleSelectFile(entry)}
+          style={indent}
+          className={`w-full flex items-center space-x-1 pr-2 py-1 text-sm text-left hover:bg-surface-elevated transition-colors ${
+            selectedPath === entry.path ? 'bg-accent/10 text-accent' : ''
+          }`}
+        >
+          <span className="w-3 flex-shrink-0" />
+          <File className="w-4 h-4 text-muted flex-shrink-0" />
+          <span className="truncate">{entry.name}</span>
+        </button>
+      );
+    });
+
+  return (
+    <div className="h-full flex flex-col">
+      {/* Header */}
+      <div className="glass border-b border-border p-4">
+        <div className="flex items-center justify-between">
+          <div className="flex items-center space-x-3">
+            <FolderTree className="w-5 h-5 text-accent" />
+            <h2 className="text-xl font-semibold">Files</h2>
+            <span className="text-sm text-muted font-mono">@ {rev}</span>
+          </div>
+
+          <div className="flex items-center space-x-2">
+            <input
+              type="text"
+              list="files-revisions"
+              value={revInput}
+              onChange={(e) => setRevInput(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && handleOpenRev()}
+              placeholder="Branch, tag or commit"
+              className="w-64 px-4 py-2 bg-surface border border-border rounded-lg text-sm font-mono focus:outline-none focus:border-accent transition-colors"
+            />
+            <datalist id="files-revisions">
+              <option value="HEAD" />
+              {refNames.map((name) => (
+                <option key={name} value={name} />
+              ))}
+            </datalist>
+            <button
+              onClick={handleOpenRev}
+              disabled={!revInput.trim() || loading}
+              className="px-4 py-2 bg-accent hover:bg-accent/80 text-background rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed text-sm font-medium"
+            >
+              Open
+            </button>
+          </div>
+        </div>
+      </div>
+
+      {/* Error State */}
+      {error && (
+        <div className="mx-4 mt-4 glass p-3 rounded-lg border border-error">
+          <div className="flex items-center space-x-2 text-error text-sm">
+            <AlertCircle className="w-4 h-4" />
+            <span className="break-all">{error}</span>
+          </div>
+        </div>
+      )}
+
+      <div className="flex-1 flex overflow-hidden">
+        {/* File Tree */}
+        <div className="w-80 border-r border-border overflow-y-auto custom-scrollbar py-2">
+          {loading && !trees[''] ? (
+            <div className="text-sm text-muted px-4">Loading files...</div>
+          ) : (
+            renderEntries('', 0)
+          )}
+        </div>
+
+        {/* Preview */}
+        <div className="flex-1 flex flex-col overflow-hidden">
+          {selectedPath ? (
+            <>
+              <div className="flex items-center justify-between px-4 py-2 border-b border-border">
+                <div className="flex items-center space-x-2 min-w-0">
+                  <FileCode className="w-4 h-4 text-accent flex-shrink-0" />
+                  <span className="text-sm font-mono truncate">{selectedPath}</span>
+                </div>
+                {blob && <span className="text-xs text-muted ml-4">{formatSize(blob.size)}</span>}
+              </div>
+              <div className="flex-1 overflow-auto custom-scrollbar">
+                {blobLoading ? (
+                  <div className="flex items-center justify-center h-32">
+                    <div className="text-muted">Loading file...</div>
+                  </div>
+                ) : blob?.binary ? (
+                  <div className="flex items-center justify-center h-32">
+                    <div className="text-muted">Binary file not shown</div>
+                  </div>
+                ) : blob?.tooLarge ? (
+                  <div className="flex items-center justify-center h-32">
+                    <div className="text-muted">File is too large to preview ({formatSize(blob.size)})</div>
+                  </div>
+                ) : blob?.content !== undefined && (
+                  <CodePreview content={blob.content} fileName={blob.path} />
+                )}
+              </div>
+            </>
+          ) : (
+            <div className="flex flex-col items-center justify-center h-full text-muted">
+              <FolderTree className="w-16 h-16 mb-4 opacity-50" />
+              <p className="text-lg mb-2">No file selected</p>
+              <p className="text-sm">Browse the tree at any branch, tag or commit without checking it out</p>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
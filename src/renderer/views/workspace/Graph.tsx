@@ -7,9 +7,17 @@ import {
   ChevronDown,
   RefreshCw,
   Search,
-  X
+  X,
+  Bug,
+  SlidersHorizontal
 } from 'lucide-react';
-import type { Repository, Branch, Commit } from '@shared/types/git';
+import type { Repository, Branch, Commit, CommitQuery, BisectState } from '@shared/types/git';
+import { CommitContextMenu, ResetUndoBanner } from '../../components/CommitActions';
+import { BisectPanel } from '../../components/BisectPanel';
+import { RefBadges } from '../../components/RefBadges';
+import { CommitQueryBuilder } from '../../components/CommitQueryBuilder';
+import { hasCommitFilters } from '../../utils/commitQuery';
+import { getEdgePath, layoutGraph, type GraphEdge, type GraphGeometry } from '../../utils/graphLayout';
 
 interface GraphProps {
   repository: Repository;
@@ -19,21 +27,51 @@ interface CommitNode extends Commit {
   x: number;
   y: number;
   lane: number;
-  branches: string[];
+  color: number;
 }
 
+// Nodes are 24px circles drawn at the top-left of each row, inside the 24px padding
+const GRAPH_GEOMETRY: GraphGeometry = { laneWidth: 40, rowHeight: 80, offsetX: 36, offsetY: 36 };
+
+const LANE_COLORS = [
+  'rgb(0, 212, 255)',   // accent
+  'rgb(34, 197, 94)',   // success
+  'rgb(251, 191, 36)',  // warning
+  'rgb(244, 63, 94)',   // error
+  'rgb(168, 85, 247)',  // purple
+  'rgb(236, 72, 153)',  // pink
+];
+
+type BisectMark = 'bad' | 'good' | 'skip' | 'testing' | 'candidate';
+
+const BISECT_BADGE_STYLES: Record<BisectMark, string> = {
+  bad: 'bg-error/20 text-error',
+  good: 'bg-success/20 text-success',
+  skip: 'bg-muted/20 text-muted',
+  testing: 'bg-warning/20 text-warning',
+  candidate: '',
+};
+
 export const Graph: React.FC<GraphProps> = ({ repository }) => {
   const [commits, setCommits] = React.useState<CommitNode[]>([]);
+  const [edges, setEdges] = React.useState<GraphEdge[]>([]);
+  const [laneCount, setLaneCount] = React.useState(1);
   const [branches, setBranches] = React.useState<Branch[]>([]);
   const [selectedBranch, setSelectedBranch] = React.useState<string>('all');
   const [loading, setLoading] = React.useState(false);
   const [searchTerm, setSearchTerm] = React.useState('');
   const [showBranchDropdown, setShowBranchDropdown] = React.useState(false);
   const [selectedCommit, setSelectedCommit] = React.useState<Commit | null>(null);
+  const [contextMenu, setContextMenu] = React.useState<{ x: number; y: number; commit: Commit } | null>(null);
+  const [actionCount, setActionCount] = React.useState(0);
+  const [bisectState, setBisectState] = React.useState<BisectState | null>(null);
+  const [showBisect, setShowBisect] = React.useState(false);
+  const [query, setQuery] = React.useState<CommitQuery>({});
+  const [showQueryBuilder, setShowQueryBuilder] = React.useState(false);
 
   React.useEffect(() => {
     loadData();
-  }, [repository.path, selectedBranch]);
+  }, [repository.path, selectedBranch, query]);
 
   const loadData = async () => {
     if (!window.api) return;
@@ -46,15 +84,22 @@ export const Graph: React.FC<GraphProps> = ({ repository }) => {
         setBranches(branchResult.data);
       }
 
+      const bisectResult = await window.api.git.getBisectState(repository.path);
+      if (bisectResult.success) {
+        setBisectState(bisectResult.data);
+      }
+
       // Load commits
       const commitOptions = selectedBranch === 'all' 
-        ? { limit: 100 } 
-        : { limit: 100, branch: selectedBranch };
+        ? { limit: 100, query } 
+        : { limit: 100, branch: selectedBranch, query };
 
       const commitResult = await window.api.git.getCommits(repository.path, commitOptions);
       if (commitResult.success) {
-        const processedCommits = processCommitsForGraph(commitResult.data);
-        setCommits(processedCommits);
+        const graph = processCommitsForGraph(commitResult.data);
+        setCommits(graph.nodes);
+        setEdges(graph.edges);
+        setLaneCount(graph.laneCount);
       }
     } catch (error) {
       console.error('Failed to load graph data:', error);
@@ -63,106 +108,21 @@ export const Graph: React.FC<GraphProps> = ({ repository }) => {
     }
   };
 
-  const processCommitsForGraph = (rawCommits: Commit[]): CommitNode[] => {
-    if (rawCommits.length === 0) return [];
-    
-    const commitMap = new Map<string, CommitNode>();
-    const commitToLane = new Map<string, number>();
-    const childCount = new Map<string, number>(); // Track how many children each commit has
-    const activeLanes: Set<number> = new Set(); // Track which lanes are in use
-    
-    // Initialize nodes (preserve visual order - newest at top)
-    rawCommits.forEach((commit, index) => {
-      const node: CommitNode = {
+  const processCommitsForGraph = (rawCommits: Commit[]) => {
+    const layout = layoutGraph(rawCommits);
+
+    const nodes: CommitNode[] = rawCommits.map((commit, index) => {
+      const { lane, color } = layout.nodes[index];
+      return {
         ...commit,
-        x: 0,
-        y: index * 80,
-        lane: 0,
-        branches: [],
+        x: lane * GRAPH_GEOMETRY.laneWidth,
+        y: index * GRAPH_GEOMETRY.rowHeight,
+        lane,
+        color,
       };
-      commitMap.set(commit.sha, node);
-    });
-    
-    // Count children for each commit
-    rawCommits.forEach(commit => {
-      if (commit.parents) {
-        commit.parents.forEach(parentSha => {
-          childCount.set(parentSha, (childCount.get(parentSha) || 0) + 1);
-        });
-      }
-    });
-    
-    // Process commits in REVERSE order (oldest first) so parents get lanes before children
-    const reversed = [...rawCommits].reverse();
-    
-    reversed.forEach((commit) => {
-      const node = commitMap.get(commit.sha)!;
-      let lane = -1;
-      
-      // If this commit has children, try to use the lane of its first child
-      const firstChild = rawCommits.find(c => 
-        c.parents && c.parents[0] === commit.sha
-      );
-      
-      if (firstChild && commitToLane.has(firstChild.sha)) {
-        // Continue in child's lane (we're the parent, child continues our line)
-        lane = commitToLane.get(firstChild.sha)!;
-      } else if (commit.parents && commit.parents.length > 0) {
-        // This is a new branch point or merge
-        const firstParentSha = commit.parents[0];
-        
-        // If parent has a lane and we're not their main child, get a new lane
-        if (commitToLane.has(firstParentSha)) {
-          const parentLane = commitToLane.get(firstParentSha)!;
-          
-          // Check if parent's main child is already using that lane
-          const parentMainChild = rawCommits.find(c =>
-            c.parents && c.parents[0] === firstParentSha
-          );
-          
-          if (parentMainChild && commitToLane.has(parentMainChild.sha)) {
-            // Parent's main line is taken, we're a branch - get new lane
-            lane = 0;
-            while (activeLanes.has(lane)) lane++;
-          } else {
-            // We are the main child, use parent's lane
-            lane = parentLane;
-          }
-        }
-      }
-      
-      // If still no lane, find first available
-      if (lane === -1) {
-        lane = 0;
-        while (activeLanes.has(lane)) lane++;
-      }
-      
-      // Assign lane
-      node.lane = lane;
-      node.x = lane * 40;
-      commitToLane.set(commit.sha, lane);
-      activeLanes.add(lane);
-      
-      // Free lane if this commit has no more children to process
-      const children = rawCommits.filter(c => 
-        c.parents && c.parents.includes(commit.sha)
-      );
-      
-      if (children.length === 0 || children.every(c => commitToLane.has(c.sha))) {
-        // All children processed, can free the lane
-        activeLanes.delete(lane);
-      }
     });
 
-    // Assign branches to commits
-    branches.forEach(branch => {
-      const commit = commitMap.get(branch.sha);
-      if (commit) {
-        commit.branches.push(branch.name);
-      }
-    });
-
-    return Array.from(commitMap.values());
+    return { nodes, edges: layout.edges, laneCount: Math.max(layout.laneCount, 1) };
   };
 
   const filteredCommits = React.useMemo(() => {
@@ -176,6 +136,19 @@ export const Graph: React.FC<GraphProps> = ({ repository }) => {
     );
   }, [commits, searchTerm]);
 
+  // Bisect role of each commit, for highlighting the remaining range
+  const bisectMarks = React.useMemo(() => {
+    const marks = new Map<string, BisectMark>();
+    if (!bisectState?.inProgress) return marks;
+
+    bisectState.remaining.forEach((sha) => marks.set(sha, 'candidate'));
+    bisectState.skipped.forEach((sha) => marks.set(sha, 'skip'));
+    bisectState.good.forEach((sha) => marks.set(sha, 'good'));
+    if (bisectState.current && !bisectState.firstBad) marks.set(bisectState.current, 'testing');
+    if (bisectState.bad) marks.set(bisectState.bad, 'bad');
+    return marks;
+  }, [bisectState]);
+
   const formatDate = (date: Date) => {
     const d = new Date(date);
     const now = new Date();
@@ -198,24 +171,12 @@ export const Graph: React.FC<GraphProps> = ({ repository }) => {
     }
   };
 
-  const getBranchColor = (branchName: string) => {
-    // Hash branch name to generate consistent color
-    let hash = 0;
-    for (let i = 0; i < branchName.length; i++) {
-      hash = branchName.charCodeAt(i) + ((hash << 5) - hash);
-    }
-    
-    const colors = [
-      'rgb(0, 212, 255)',   // accent
-      'rgb(34, 197, 94)',   // success
-      'rgb(251, 191, 36)',  // warning
-      'rgb(244, 63, 94)',   // error
-      'rgb(168, 85, 247)',  // purple
-      'rgb(236, 72, 153)',  // pink
-    ];
-    
-    return colors[Math.abs(hash) % colors.length];
-  };
+  const getLaneColor = (color: number) => LANE_COLORS[color % LANE_COLORS.length];
+
+  // Search and filter results are listed without the graph, as their parents may be left out
+  const filtered = hasCommitFilters(query);
+  const showEdges = !searchTerm && !filtered;
+  const graphWidth = laneCount * GRAPH_GEOMETRY.laneWidth;
 
   return (
     <div className="h-full flex flex-col">
@@ -291,6 +252,31 @@ export const Graph: React.FC<GraphProps> = ({ repository }) => {
             )}
           </div>
 
+          {/* Advanced Search */}
+          <button
+            onClick={() => setShowQueryBuilder(!showQueryBuilder)}
+            className={`flex items-center space-x-2 px-3 py-2 rounded transition-colors ${
+              filtered ? 'bg-accent/20 text-accent' : 'bg-surface hover:bg-surface-elevated'
+            }`}
+            title="Search the whole history with git"
+          >
+            <SlidersHorizontal className="w-4 h-4" />
+            <span className="text-sm">{filtered ? 'Filtered' : 'Filters'}</span>
+          </button>
+
+          {/* Bisect */}
+          <button
+            onClick={() => setShowBisect(!showBisect)}
+            disabled={bisectState?.inProgress}
+            className={`flex items-center space-x-2 px-3 py-2 rounded transition-colors disabled:cursor-default ${
+              bisectState?.inProgress || showBisect ? 'bg-warning/20 text-warning' : 'bg-surface hover:bg-surface-elevated'
+            }`}
+            title="Find the commit that introduced a bug"
+          >
+            <Bug className="w-4 h-4" />
+            <span className="text-sm">Bisect</span>
+          </button>
+
           {/* Refresh */}
           <button
             onClick={() => loadData()}
@@ -312,8 +298,27 @@ export const Graph: React.FC<GraphProps> = ({ repository }) => {
             </div>
           </div>
         </div>
+
+        {showQueryBuilder && <CommitQueryBuilder query={query} onApply={setQuery} />}
       </div>
 
+      {/* Bisect */}
+      {bisectState && (bisectState.inProgress || showBisect) && (
+        <BisectPanel
+          repoPath={repository.path}
+          state={bisectState}
+          onChanged={() => loadData()}
+          onClose={() => setShowBisect(false)}
+        />
+      )}
+
+      {/* Undo Hard Reset */}
+      <ResetUndoBanner
+        repoPath={repository.path}
+        refreshKey={actionCount}
+        onUndone={() => loadData()}
+      />
+
       {/* Graph Content */}
       <div className="flex-1 overflow-auto custom-scrollbar">
         {loading ? (
@@ -327,7 +332,11 @@ export const Graph: React.FC<GraphProps> = ({ repository }) => {
               <GitCommit className="w-12 h-12 text-muted mx-auto mb-3" />
               <p className="text-lg font-medium">No commits found</p>
               <p className="text-sm text-muted mt-2">
-                {searchTerm ? 'Try a different search term' : 'This repository has no commits'}
+                {searchTerm
+                  ? 'Try a different search term'
+                  : filtered
+                    ? 'No commits match the filters'
+                    : 'This repository has no commits'}
               </p>
             </div>
           </div>
@@ -339,12 +348,12 @@ export const Graph: React.FC<GraphProps> = ({ repository }) => {
               style={{ zIndex: 0 }}
             >
               {/* Draw vertical lane guides */}
-              {Array.from({ length: Math.max(...filteredCommits.map(c => c.lane)) + 1 }).map((_, laneIndex) => (
+              {showEdges && Array.from({ length: laneCount }).map((_, laneIndex) => (
                 <line
                   key={`lane-${laneIndex}`}
-                  x1={30 + laneIndex * 40}
+                  x1={GRAPH_GEOMETRY.offsetX + laneIndex * GRAPH_GEOMETRY.laneWidth}
                   y1={0}
-                  x2={30 + laneIndex * 40}
+                  x2={GRAPH_GEOMETRY.offsetX + laneIndex * GRAPH_GEOMETRY.laneWidth}
                   y2="100%"
                   stroke="rgba(100, 116, 139, 0.1)"
                   strokeWidth="1"
@@ -358,90 +367,39 @@ export const Graph: React.FC<GraphProps> = ({ repository }) => {
               className="absolute top-0 left-0 w-full h-full pointer-events-none"
               style={{ zIndex: 1 }}
             >
-              <defs>
-                {/* Define gradients for different branch colors */}
-                <linearGradient id="line-gradient-accent" x1="0%" y1="0%" x2="0%" y2="100%">
-                  <stop offset="0%" stopColor="rgb(0, 212, 255)" stopOpacity="0.8" />
-                  <stop offset="100%" stopColor="rgb(0, 212, 255)" stopOpacity="0.4" />
-                </linearGradient>
-              </defs>
-              
-              {filteredCommits.flatMap((commit) => {
-                if (!commit.parents || commit.parents.length === 0) return [];
-                
-                return commit.parents.map((parentSha, pIndex) => {
-                  const parentCommit = filteredCommits.find(c => c.sha === parentSha);
-                  if (!parentCommit) return null;
-                  
-                  const x1 = 30 + commit.x;
-                  const y1 = 30 + commit.y;
-                  const x2 = 30 + parentCommit.x;
-                  const y2 = 30 + parentCommit.y;
-                  
-                  // Use branch color or default
-                  const color = commit.branches.length > 0 
-                    ? getBranchColor(commit.branches[0])
-                    : 'rgb(100, 116, 139)';
-                  
-                  // If lanes are different, draw a curved line (merge/branch)
-                  if (commit.lane !== parentCommit.lane) {
-                    // Curved line for merges
-                    const midY = (y1 + y2) / 2;
-                    const controlX1 = x1;
-                    const controlX2 = x2;
-                    
-                    return (
-                      <g key={`${commit.sha}-${parentSha}-${pIndex}`}>
-                        <path
-                          d={`M ${x1},${y1} C ${controlX1},${midY} ${controlX2},${midY} ${x2},${y2}`}
-                          stroke={color}
-                          strokeWidth="3"
-                          fill="none"
-                          strokeOpacity="0.7"
-                          strokeLinecap="round"
-                        />
-                      </g>
-                    );
-                  } else {
-                    // Straight line for same lane
-                    return (
-                      <line
-                        key={`${commit.sha}-${parentSha}-${pIndex}`}
-                        x1={x1}
-                        y1={y1}
-                        x2={x2}
-                        y2={y2}
-                        stroke={color}
-                        strokeWidth="3"
-                        strokeOpacity="0.7"
-                        strokeLinecap="round"
-                      />
-                    );
-                  }
-                }).filter(Boolean);
-              })}
+              {showEdges && edges.map((edge) => (
+                <path
+                  key={`${edge.from}-${edge.to}`}
+                  d={getEdgePath(edge, GRAPH_GEOMETRY)}
+                  stroke={getLaneColor(edge.color)}
+                  strokeWidth="3"
+                  fill="none"
+                  strokeOpacity="0.7"
+                  strokeLinecap="round"
+                  // Parents beyond the loaded commits
+                  strokeDasharray={edge.toRow >= commits.length ? '6 6' : undefined}
+                />
+              ))}
             </svg>
 
             {/* Commit Nodes */}
             <div className="relative" style={{ zIndex: 2 }}>
-              {filteredCommits.map((commit) => (
+              {filteredCommits.map((commit, index) => (
                 <div
                   key={commit.sha}
-                  className="absolute flex items-start space-x-4"
+                  className="absolute left-0 flex items-start space-x-4"
                   style={{
-                    top: `${commit.y}px`,
-                    left: `${commit.x}px`,
+                    top: `${showEdges ? commit.y : index * GRAPH_GEOMETRY.rowHeight}px`,
                   }}
                 >
                   {/* Node */}
-                  <div className="relative flex-shrink-0">
+                  <div className="relative flex-shrink-0 h-6" style={{ width: `${graphWidth}px` }}>
                     <div
-                      className="w-6 h-6 rounded-full border-4 border-background cursor-pointer hover:scale-110 transition-transform"
+                      className="absolute top-0 w-6 h-6 rounded-full border-4 border-background cursor-pointer hover:scale-110 transition-transform"
                       style={{ 
-                        backgroundColor: commit.branches.length > 0 
-                          ? getBranchColor(commit.branches[0]) 
-                          : 'rgb(100, 116, 139)',
-                        boxShadow: `0 0 10px ${commit.branches.length > 0 ? getBranchColor(commit.branches[0]) : 'rgba(100, 116, 139, 0.5)'}`,
+                        left: `${showEdges ? commit.x : 0}px`,
+                        backgroundColor: getLaneColor(commit.color),
+                        boxShadow: `0 0 10px ${getLaneColor(commit.color)}`,
                       }}
                       onClick={() => setSelectedCommit(commit)}
                     />
@@ -449,14 +407,27 @@ export const Graph: React.FC<GraphProps> = ({ repository }) => {
 
                   {/* Commit Info */}
                   <div
-                    className="glass p-3 rounded-lg cursor-pointer hover:border-accent border border-transparent transition-all flex-1"
+                    className={`glass p-3 rounded-lg cursor-pointer hover:border-accent border transition-all flex-1 ${
+                      bisectMarks.has(commit.sha) ? 'border-warning/40' : 'border-transparent'
+                    }`}
                     style={{ width: 'calc(100vw - 280px)', maxWidth: '800px' }}
                     onClick={() => setSelectedCommit(commit)}
+                    onContextMenu={(e) => {
+                      e.preventDefault();
+                      setContextMenu({ x: e.clientX, y: e.clientY, commit });
+                    }}
                   >
                     <div className="flex items-start justify-between mb-2">
                       <div className="flex-1 min-w-0">
                         <p className="text-sm font-medium truncate">{commit.message}</p>
                       </div>
+                      {bisectMarks.get(commit.sha) && bisectMarks.get(commit.sha) !== 'candidate' && (
+                        <span className={`text-xs px-2 py-0.5 rounded ml-3 flex-shrink-0 ${
+                          BISECT_BADGE_STYLES[bisectMarks.get(commit.sha)!]
+                        }`}>
+                          {bisectState?.firstBad === commit.sha ? 'first bad' : bisectMarks.get(commit.sha)}
+                        </span>
+                      )}
                       <code className="text-xs text-muted font-mono ml-3 flex-shrink-0">
                         {commit.sha.substring(0, 7)}
                       </code>
@@ -473,25 +444,8 @@ export const Graph: React.FC<GraphProps> = ({ repository }) => {
                       </div>
                     </div>
 
-                    {/* Branch Tags */}
-                    {commit.branches.length > 0 && (
-                      <div className="flex flex-wrap gap-1 mt-2">
-                        {commit.branches.map((branchName) => (
-                          <span
-                            key={branchName}
-                            className="text-xs px-2 py-0.5 rounded font-medium"
-                            style={{
-                              backgroundColor: `${getBranchColor(branchName)}20`,
-                              color: getBranchColor(branchName),
-                              border: `1px solid ${getBranchColor(branchName)}40`,
-                            }}
-                          >
-                            <GitBranch className="w-3 h-3 inline mr-1" />
-                            {branchName}
-                          </span>
-                        ))}
-                      </div>
-                    )}
+                    {/* Ref Badges */}
+                    <RefBadges refs={commit.refs} className="mt-2" />
                   </div>
                 </div>
               ))}
@@ -500,6 +454,20 @@ export const Graph: React.FC<GraphProps> = ({ repository }) => {
         )}
       </div>
 
+      {/* Commit Context Menu */}
+      {contextMenu && (
+        <CommitContextMenu
+          repoPath={repository.path}
+          position={contextMenu}
+          commits={[contextMenu.commit]}
+          onClose={() => setContextMenu(null)}
+          onCompleted={() => {
+            setActionCount((count) => count + 1);
+            loadData();
+          }}
+        />
+      )}
+
       {/* Commit Details Modal */}
       {selectedCommit && (
         <div
@@ -14,8 +14,10 @@ import {
   Terminal,
   ChevronDown
 } from 'lucide-react';
-import type { Repository, RepositoryStatus, Commit } from '@shared/types/git';
+import type { Repository, RepositoryStatus, Commit, Remote } from '@shared/types/git';
 import { CommitFrequencyGraph } from '../../components/CommitFrequencyGraph';
+import { RemotesPanel } from '../../components/RemotesPanel';
+import { SubmodulesPanel } from '../../components/SubmodulesPanel';
 
 interface OverviewProps {
   repository: Repository;
@@ -31,10 +33,16 @@ export const Overview: React.FC<OverviewProps> = ({ repository }) => {
   const [commits, setCommits] = React.useState<Commit[]>([]);
   const [timeRange, setTimeRange] = React.useState<'week' | 'month' | 'year'>('month');
   const [graphLoading, setGraphLoading] = React.useState(false);
+  const [remotes, setRemotes] = React.useState<Remote[]>([]);
+  const [targetRemote, setTargetRemote] = React.useState('');
+  const [targetBranch, setTargetBranch] = React.useState(repository.currentBranch);
 
   React.useEffect(() => {
     loadRepositoryInfo();
     loadCommitHistory();
+    loadRemotes();
+    setTargetRemote('');
+    setTargetBranch(repository.currentBranch);
   }, [repository.path]);
 
   React.useEffect(() => {
@@ -89,6 +97,29 @@ export const Overview: React.FC<OverviewProps> = ({ repository }) => {
     }
   };
 
+  const loadRemotes = async () => {
+    if (!window.api) return;
+
+    try {
+      const result = await window.api.git.getRemotes(repository.path);
+      if (result.success) {
+        setRemotes(result.data);
+        // Fall back to the upstream if the selected remote was renamed or removed
+        if (targetRemote && !result.data.some((remote) => remote.name === targetRemote)) {
+          setTargetRemote('');
+        }
+      }
+    } catch (error) {
+      console.error('Failed to load remotes:', error);
+    }
+  };
+
+  // With no remote selected, fetch covers all remotes and pull/push use the upstream
+  const syncTarget = (): [string | undefined, string | undefined] => {
+    if (!targetRemote) return [undefined, undefined];
+    return [targetRemote, targetBranch.trim() || undefined];
+  };
+
   const loadCommitHistory = async () => {
     if (!window.api) return;
 
@@ -144,7 +175,7 @@ export const Overview: React.FC<OverviewProps> = ({ repository }) => {
   const handleFetch = async () => {
     if (!window.api || actionLoading) return;
     setActionLoading('fetch');
-    const result = await window.api.git.fetch(repository.path);
+    const result = await window.api.git.fetch(repository.path, ...syncTarget());
     if (result.success) {
       await loadRepositoryInfo();
     } else {
@@ -156,7 +187,7 @@ export const Overview: React.FC<OverviewProps> = ({ repository }) => {
   const handlePull = async () => {
     if (!window.api || actionLoading) return;
     setActionLoading('pull');
-    const result = await window.api.git.pull(repository.path);
+    const result = await window.api.git.pull(repository.path, ...syncTarget());
     if (result.success) {
       await loadRepositoryInfo();
     } else {
@@ -168,7 +199,7 @@ export const Overview: React.FC<OverviewProps> = ({ repository }) => {
   const handlePush = async () => {
     if (!window.api || actionLoading) return;
     setActionLoading('push');
-    const result = await window.api.git.push(repository.path);
+    const result = await window.api.git.push(repository.path, ...syncTarget());
     if (result.success) {
       await loadRepositoryInfo();
     } else {
@@ -182,7 +213,7 @@ export const Overview: React.FC<OverviewProps> = ({ repository }) => {
     setActionLoading('sync');
     
     // Fetch first
-    const fetchResult = await window.api.git.fetch(repository.path);
+    const fetchResult = await window.api.git.fetch(repository.path, ...syncTarget());
     if (!fetchResult.success) {
       console.error('Failed to fetch:', fetchResult.error);
       setActionLoading(null);
@@ -190,7 +221,7 @@ export const Overview: React.FC<OverviewProps> = ({ repository }) => {
     }
     
     // Then pull
-    const pullResult = await window.api.git.pull(repository.path);
+    const pullResult = await window.api.git.pull(repository.path, ...syncTarget());
     if (!pullResult.success) {
       console.error('Failed to pull:', pullResult.error);
       setActionLoading(null);
@@ -198,7 +229,7 @@ export const Overview: React.FC<OverviewProps> = ({ repository }) => {
     }
     
     // Finally push
-    const pushResult = await window.api.git.push(repository.path);
+    const pushResult = await window.api.git.push(repository.path, ...syncTarget());
     if (pushResult.success) {
       await loadRepositoryInfo();
     } else {
@@ -260,6 +291,32 @@ export const Overview: React.FC<OverviewProps> = ({ repository }) => {
               <Upload className={`w-4 h-4 ${actionLoading === 'push' ? 'animate-spin' : ''}`} />
               <span>{actionLoading === 'push' ? 'Pushing...' : 'Push'}</span>
             </button>
+            <div className="relative">
+              <select
+                value={targetRemote}
+                onChange={(e) => setTargetRemote(e.target.value)}
+                disabled={!!actionLoading}
+                title="Remote to sync with"
+                className="appearance-none bg-surface hover:bg-surface-elevated text-sm px-3 py-1.5 pr-8 rounded border border-border focus:outline-none focus:border-accent transition-colors disabled:opacity-50 disabled:cursor-not-allowed cursor-pointer"
+              >
+                <option value="">Upstream</option>
+                {remotes.map((remote) => (
+                  <option key={remote.name} value={remote.name}>{remote.name}</option>
+                ))}
+              </select>
+              <ChevronDown className="absolute right-2 top-1/2 -translate-y-1/2 w-4 h-4 text-muted pointer-events-none" />
+            </div>
+            {targetRemote && (
+              <input
+                type="text"
+                value={targetBranch}
+                onChange={(e) => setTargetBranch(e.target.value)}
+                disabled={!!actionLoading}
+                placeholder="Branch"
+                title="Branch to sync"
+                className="w-40 px-3 py-1.5 bg-surface border border-border rounded text-sm font-mono focus:outline-none focus:border-accent transition-colors disabled:opacity-50"
+              />
+            )}
             <div className="flex-1"></div>
             <button 
               onClick={handleOpenInExplorer}
@@ -357,6 +414,16 @@ export const Overview: React.FC<OverviewProps> = ({ repository }) => {
           </div>
         </div>
 
+        {/* Remotes */}
+        <RemotesPanel
+          repository={repository}
+          remotes={remotes}
+          onRemotesChanged={loadRemotes}
+        />
+
+        {/* Submodules */}
+        <SubmodulesPanel repository={repository} />
+
         {/* Working Directory Status */}
         {status && (
           <div className="glass p-4 rounded-lg">
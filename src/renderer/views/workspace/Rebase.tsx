@@ -0,0 +1,391 @@
+import React from 'react';
+import {
+  GitPullRequestArrow,
+  RefreshCw,
+  ArrowUp,
+  ArrowDown,
+  Play,
+  SkipForward,
+  XCircle,
+  AlertTriangle,
+  AlertCircle,
+} from 'lucide-react';
+import type {
+  Repository,
+  Branch,
+  RebaseAction,
+  RebaseTodoItem,
+  RebaseState,
+  RepositoryStatus,
+  Result,
+} from '@shared/types/git';
+import { ConflictEditor } from '../../components/ConflictEditor';
+
+interface RebaseProps {
+  repository: Repository;
+}
+
+const actions: { value: RebaseAction; label: string; description: string }[] = [
+  { value: 'pick', label: 'pick', description: 'Keep the commit' },
+  { value: 'reword', label: 'reword', description: 'Keep the commit with a new message' },
+  { value: 'edit', label: 'edit', description: 'Stop after this commit to amend it' },
+  { value: 'squash', label: 'squash', description: 'Meld into the previous commit, combining messages' },
+  { value: 'fixup', label: 'fixup', description: 'Meld into the previous commit, discarding this message' },
+  { value: 'drop', label: 'drop', description: 'Remove the commit' },
+];
+
+const actionColors: Record<RebaseAction, string> = {
+  pick: 'text-text-primary',
+  reword: 'text-accent',
+  edit: 'text-warning',
+  squash: 'text-success',
+  fixup: 'text-success',
+  drop: 'text-error line-through',
+};
+
+export const Rebase: React.FC<RebaseProps> = ({ repository }) => {
+  const [branches, setBranches] = React.useState<Branch[]>([]);
+  const [base, setBase] = React.useState('');
+  const [todo, setTodo] = React.useState<RebaseTodoItem[]>([]);
+  const [rebaseState, setRebaseState] = React.useState<RebaseState | null>(null);
+  const [status, setStatus] = React.useState<RepositoryStatus | null>(null);
+  const [loading, setLoading] = React.useState(true);
+  const [planLoading, setPlanLoading] = React.useState(false);
+  const [actionLoading, setActionLoading] = React.useState<string | null>(null);
+  const [error, setError] = React.useState<string | null>(null);
+  const [resolvingFile, setResolvingFile] = React.useState<string | null>(null);
+
+  React.useEffect(() => {
+    setTodo([]);
+    loadState();
+  }, [repository.path]);
+
+  const loadState = async () => {
+    if (!window.api) return;
+
+    setLoading(true);
+    try {
+      const [stateResult, statusResult, branchesResult] = await Promise.all([
+        window.api.git.getRebaseState(repository.path),
+        window.api.git.getStatus(repository.path),
+        window.api.git.getBranches(repository.path),
+      ]);
+      if (stateResult.success) {
+        setRebaseState(stateResult.data);
+      }
+      const currentBranch = statusResult.success ? statusResult.data.branch : undefined;
+      if (statusResult.success) {
+        setStatus(statusResult.data);
+      }
+      if (branchesResult.success) {
+        setBranches(branchesResult.data.filter((branch) => branch.name !== currentBranch));
+      }
+    } catch (error) {
+      console.error('Failed to load rebase state:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const loadPlan = async () => {
+    if (!window.api || !base.trim()) return;
+
+    setPlanLoading(true);
+    setError(null);
+    try {
+      const result = await window.api.git.getRebasePlan(repository.path, base.trim());
+      if (result.success) {
+        setTodo(result.data);
+      } else {
+        setError(result.error.message || 'Failed to load commits');
+      }
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to load commits');
+    } finally {
+      setPlanLoading(false);
+    }
+  };
+
+  const runStep = async (key: string, step: () => Promise<Result<RebaseState | void>>) => {
+    if (!window.api || actionLoading) return;
+
+    setActionLoading(key);
+    setError(null);
+    try {
+      const result = await step();
+      if (!result.success) {
+        setError(result.error.message || 'Rebase failed');
+      } else if (result.data && !result.data.inProgress) {
+        setTodo([]);
+      }
+      await loadState();
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Rebase failed');
+    } finally {
+      setActionLoading(null);
+    }
+  };
+
+  const handleStart = () => {
+    if (!confirm(`Rebase ${todo.length} commit${todo.length !== 1 ? 's' : ''} onto ${base}?`)) return;
+    runStep('start', () => window.api.git.startRebase(repository.path, base.trim(), todo));
+  };
+
+  const handleAbort = () => {
+    if (!confirm('Abort the rebase and restore the branch to its original state?')) return;
+    runStep('abort', () => window.api.git.abortRebase(repository.path));
+  };
+
+  const updateItem = (index: number, changes: Partial<RebaseTodoItem>) => {
+    setTodo(todo.map((item, i) => (i === index ? { ...item, ...changes } : item)));
+  };
+
+  const moveItem = (index: number, direction: -1 | 1) => {
+    const target = index + direction;
+    if (target < 0 || target >= todo.length) return;
+
+    const reordered = [...todo];
+    [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+    setTodo(reordered);
+  };
+
+  const conflicted = status?.conflicted ?? [];
+
+  if (loading && !rebaseState) {
+    return (
+      <div className="flex items-center justify-center h-full">
+        <div className="text-muted">Loading rebase state...</div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="h-full flex flex-col">
+      {/* Conflict Editor Modal */}
+      {resolvingFile && (
+        <ConflictEditor
+          repoPath={repository.path}
+          filePath={resolvingFile}
+          onClose={() => setResolvingFile(null)}
+          onResolved={() => {
+            setResolvingFile(null);
+            loadState();
+          }}
+        />
+      )}
+
+      {/* Header */}
+      <div className="glass border-b border-border p-4">
+        <div className="flex items-center justify-between">
+          <div className="flex items-center space-x-3">
+            <GitPullRequestArrow className="w-5 h-5 text-accent" />
+            <h2 className="text-xl font-semibold">Interactive Rebase</h2>
+          </div>
+          <button
+            onClick={loadState}
+            disabled={loading}
+            className="flex items-center space-x-2 px-4 py-2 bg-surface hover:bg-surface-elevated rounded-lg transition-colors disabled:opacity-50"
+          >
+            <RefreshCw className={`w-4 h-4 ${loading ? 'animate-spin' : ''}`} />
+            <span>Refresh</span>
+          </button>
+        </div>
+
+        {/* Base Selection */}
+        {!rebaseState?.inProgress && (
+          <div className="flex items-center space-x-2 mt-4">
+            <span className="text-sm text-muted whitespace-nowrap">
+              Rebase <span className="font-medium text-text-primary">{status?.branch}</span> onto
+            </span>
+            <input
+              type="text"
+              list="rebase-bases"
+              value={base}
+              onChange={(e) => setBase(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && loadPlan()}
+              placeholder="Branch, tag or commit"
+              className="flex-1 px-3 py-2 bg-surface border border-border rounded-lg text-sm font-mono focus:outline-none focus:border-accent transition-colors"
+            />
+            <datalist id="rebase-bases">
+              {branches.map((branch) => (
+                <option key={branch.name} value={branch.name} />
+              ))}
+            </datalist>
+            <button
+              onClick={loadPlan}
+              disabled={!base.trim() || planLoading}
+              className="px-4 py-2 bg-surface hover:bg-surface-elevated rounded-lg text-sm transition-colors disabled:opacity-50"
+            >
+              {planLoading ? 'Loading...' : 'Load Commits'}
+            </button>
+          </div>
+        )}
+      </div>
+
+      {/* Error State */}
+      {error && (
+        <div className="mx-4 mt-4 glass p-3 rounded-lg border border-error">
+          <div className="flex items-center space-x-2 text-error text-sm">
+            <AlertCircle className="w-4 h-4" />
+            <span className="break-all whitespace-pre-wrap">{error}</span>
+          </div>
+        </div>
+      )}
+
+      <div className="flex-1 overflow-y-auto custom-scrollbar">
+        {rebaseState?.inProgress ? (
+          /* Rebase In Progress */
+          <div className="p-4 space-y-4">
+            <div className="glass p-4 rounded-lg">
+              <div className="flex items-center justify-between">
+                <div>
+                  <div className="font-medium">
+                    Rebasing {rebaseState.headName ?? 'detached HEAD'}
+                    {rebaseState.onto && (
+                      <span className="text-muted"> onto <code className="font-mono">{rebaseState.onto.substring(0, 7)}</code></span>
+                    )}
+                  </div>
+                  {rebaseState.step !== undefined && rebaseState.totalSteps !== undefined && (
+                    <div className="text-sm text-muted mt-1">
+                      Step {rebaseState.step} of {rebaseState.totalSteps}
+                      {rebaseState.stoppedSha && (
+                        <> · stopped at <code className="font-mono">{rebaseState.stoppedSha.substring(0, 7)}</code></>
+                      )}
+                    </div>
+                  )}
+                </div>
+                <div className="flex items-center space-x-2">
+                  <button
+                    onClick={() => runStep('continue', () => window.api.git.continueRebase(repository.path))}
+                    disabled={!!actionLoading || conflicted.length > 0}
+                    title={conflicted.length > 0 ? 'Resolve all conflicts first' : 'Continue the rebase'}
+                    className="flex items-center space-x-1 px-3 py-1.5 bg-accent hover:bg-accent/80 text-background rounded text-sm transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    <Play className="w-4 h-4" />
+                    <span>{actionLoading === 'continue' ? 'Continuing...' : 'Continue'}</span>
+                  </button>
+                  <button
+                    onClick={() => runStep('skip', () => window.api.git.skipRebase(repository.path))}
+                    disabled={!!actionLoading}
+                    className="flex items-center space-x-1 px-3 py-1.5 bg-surface hover:bg-surface-elevated rounded text-sm transition-colors disabled:opacity-50"
+                  >
+                    <SkipForward className="w-4 h-4" />
+                    <span>Skip</span>
+                  </button>
+                  <button
+                    onClick={handleAbort}
+                    disabled={!!actionLoading}
+                    className="flex items-center space-x-1 px-3 py-1.5 bg-red-500/20 hover:bg-red-500/30 text-red-400 rounded text-sm transition-colors disabled:opacity-50"
+                  >
+                    <XCircle className="w-4 h-4" />
+                    <span>Abort</span>
+                  </button>
+                </div>
+              </div>
+
+              {conflicted.length === 0 && (
+                <p className="text-sm text-muted mt-3">
+                  The rebase is paused. Amend the commit from the Changes view if needed, then continue.
+                </p>
+              )}
+            </div>
+
+            {conflicted.length > 0 && (
+              <div className="glass rounded-lg">
+                <div className="bg-error/10 px-4 py-2 flex items-center space-x-2 rounded-t-lg">
+                  <AlertTriangle className="w-4 h-4 text-error" />
+                  <span className="font-medium text-error">Conflicted ({conflicted.length})</span>
+                </div>
+                {conflicted.map((file) => (
+                  <div key={file} className="px-4 py-3 border-t border-border flex items-center space-x-3">
+                    <span className="font-mono text-sm flex-1 break-all">{file}</span>
+                    <button
+                      onClick={() => setResolvingFile(file)}
+                      className="px-2 py-1 text-xs bg-surface hover:bg-border rounded transition-colors"
+                    >
+                      Resolve
+                    </button>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        ) : todo.length === 0 ? (
+          <div className="flex flex-col items-center justify-center h-64 text-muted">
+            <GitPullRequestArrow className="w-16 h-16 mb-4 opacity-50" />
+            <p className="text-lg mb-2">No rebase planned</p>
+            <p className="text-sm">Choose a base and load the commits to replay</p>
+          </div>
+        ) : (
+          /* Todo List */
+          <div>
+            <div className="px-4 py-2 text-xs text-muted border-b border-border">
+              Commits are applied top to bottom. Squash and fixup meld a commit into the one above it.
+            </div>
+            {todo.map((item, index) => (
+              <div key={item.sha} className="px-4 py-2 border-b border-border hover:bg-surface-elevated transition-colors">
+                <div className="flex items-center space-x-3">
+                  <div className="flex flex-col">
+                    <button
+                      onClick={() => moveItem(index, -1)}
+                      disabled={index === 0}
+                      className="p-0.5 hover:bg-border rounded transition-colors disabled:opacity-30"
+                      title="Move up"
+                    >
+                      <ArrowUp className="w-3 h-3" />
+                    </button>
+                    <button
+                      onClick={() => moveItem(index, 1)}
+                      disabled={index === todo.length - 1}
+                      className="p-0.5 hover:bg-border rounded transition-colors disabled:opacity-30"
+                      title="Move down"
+                    >
+                      <ArrowDown className="w-3 h-3" />
+                    </button>
+                  </div>
+                  <select
+                    value={item.action}
+                    onChange={(e) => {
+                      const action = e.target.value as RebaseAction;
+                      updateItem(index, {
+                        action,
+                        newMessage: action === 'reword' ? item.newMessage ?? item.message : undefined,
+                      });
+                    }}
+                    title={actions.find((action) => action.value === item.action)?.description}
+                    className="bg-surface text-sm px-2 py-1 rounded border border-border focus:outline-none focus:border-accent font-mono"
+                  >
+                    {actions.map((action) => (
+                      <option key={action.value} value={action.value}>{action.label}</option>
+                    ))}
+                  </select>
+                  <code className="text-xs text-muted font-mono">{item.sha.substring(0, 7)}</code>
+                  <span className={`text-sm flex-1 truncate ${actionColors[item.action]}`}>{item.message}</span>
+                </div>
+                {item.action === 'reword' && (
+                  <textarea
+                    value={item.newMessage ?? ''}
+                    onChange={(e) => updateItem(index, { newMessage: e.target.value })}
+                    rows={2}
+                    placeholder="New commit message"
+                    className="w-full mt-2 px-3 py-2 bg-surface border border-border rounded text-sm focus:outline-none focus:border-accent transition-colors resize-none"
+                  />
+                )}
+              </div>
+            ))}
+            <div className="p-4 flex justify-end">
+              <button
+                onClick={handleStart}
+                disabled={!!actionLoading}
+                className="flex items-center space-x-2 px-4 py-2 bg-accent hover:bg-accent/80 text-background rounded-lg text-sm font-medium transition-colors disabled:opacity-50"
+              >
+                <Play className="w-4 h-4" />
+                <span>{actionLoading === 'start' ? 'Rebasing...' : 'Start Rebase'}</span>
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,258 @@
+import React from 'react';
+import {
+  History,
+  RefreshCw,
+  RotateCcw,
+  GitBranch,
+  Calendar,
+  ArrowRight,
+  AlertCircle,
+} from 'lucide-react';
+import type { Repository, Branch, ReflogEntry } from '@shared/types/git';
+import { ResetUndoBanner } from '../../components/CommitActions';
+
+interface ReflogProps {
+  repository: Repository;
+}
+
+export const Reflog: React.FC<ReflogProps> = ({ repository }) => {
+  const [ref, setRef] = React.useState('HEAD');
+  const [entries, setEntries] = React.useState<ReflogEntry[]>([]);
+  const [branches, setBranches] = React.useState<Branch[]>([]);
+  const [loading, setLoading] = React.useState(true);
+  const [error, setError] = React.useState<string | null>(null);
+  const [actionLoading, setActionLoading] = React.useState<number | null>(null);
+  const [branchingEntry, setBranchingEntry] = React.useState<number | null>(null);
+  const [branchName, setBranchName] = React.useState('');
+  const [actionCount, setActionCount] = React.useState(0);
+
+  React.useEffect(() => {
+    loadBranches();
+  }, [repository.path]);
+
+  React.useEffect(() => {
+    loadReflog();
+  }, [repository.path, ref]);
+
+  const loadBranches = async () => {
+    if (!window.api) return;
+
+    try {
+      const result = await window.api.git.getBranches(repository.path);
+      if (result.success) {
+        setBranches(result.data.filter((branch) => !branch.isRemote));
+      }
+    } catch (error) {
+      console.error('Failed to load branches:', error);
+    }
+  };
+
+  const loadReflog = async () => {
+    if (!window.api) return;
+
+    setLoading(true);
+    setError(null);
+    try {
+      const result = await window.api.git.getReflog(repository.path, ref);
+      if (result.success) {
+        setEntries(result.data);
+      } else {
+        setEntries([]);
+        setError(result.error.message || 'Failed to load reflog');
+      }
+    } catch (error) {
+      console.error('Failed to load reflog:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const restore = async (entry: ReflogEntry, target: string) => {
+    if (!window.api || actionLoading !== null) return false;
+
+    setActionLoading(entry.index);
+    setError(null);
+    try {
+      const result = await window.api.git.restoreRef(repository.path, target, entry.newSha);
+      if (!result.success) {
+        setError(result.error.message || `Failed to restore ${target}`);
+        return false;
+      }
+      setActionCount((count) => count + 1);
+      await Promise.all([loadReflog(), loadBranches()]);
+      return true;
+    } catch (error) {
+      setError(error instanceof Error ? error.message : `Failed to restore ${target}`);
+      return false;
+    } finally {
+      setActionLoading(null);
+    }
+  };
+
+  const handleRestore = async (entry: ReflogEntry) => {
+    const isCheckedOut = ref === 'HEAD' || ref === repository.currentBranch;
+    const warning = isCheckedOut
+      ? 'This is a hard reset; uncommitted changes are saved so it can be undone.'
+      : `${ref} is not checked out, so only the branch pointer moves.`;
+    if (!confirm(`Restore ${ref} to ${entry.newSha.substring(0, 7)}? ${warning}`)) return;
+
+    await restore(entry, ref);
+  };
+
+  const handleRestoreAsBranch = async (entry: ReflogEntry) => {
+    const name = branchName.trim();
+    if (!name) return;
+    if (branches.some((branch) => branch.name === name) &&
+        !confirm(`Branch ${name} already exists. Move it to ${entry.newSha.substring(0, 7)}?`)) return;
+
+    if (await restore(entry, name)) {
+      setBranchingEntry(null);
+      setBranchName('');
+    }
+  };
+
+  const formatDate = (date: Date) => {
+    const d = new Date(date);
+    return d.toLocaleDateString() + ' ' + d.toLocaleTimeString();
+  };
+
+  return (
+    <div className="h-full flex flex-col">
+      {/* Header */}
+      <div className="glass border-b border-border p-4">
+        <div className="flex items-center justify-between">
+          <div className="flex items-center space-x-3">
+            <History className="w-5 h-5 text-accent" />
+            <h2 className="text-xl font-semibold">Reflog</h2>
+            <span className="text-sm text-muted">({entries.length})</span>
+          </div>
+
+          <div className="flex items-center space-x-2">
+            <select
+              value={ref}
+              onChange={(e) => setRef(e.target.value)}
+              className="px-3 py-2 bg-surface border border-border rounded-lg text-sm focus:outline-none focus:border-accent transition-colors"
+            >
+              <option value="HEAD">HEAD</option>
+              {branches.map((branch) => (
+                <option key={branch.name} value={branch.name}>{branch.name}</option>
+              ))}
+            </select>
+            <button
+              onClick={loadReflog}
+              disabled={loading}
+              className="flex items-center space-x-2 px-4 py-2 bg-surface hover:bg-surface-elevated rounded-lg transition-colors disabled:opacity-50"
+            >
+              <RefreshCw className={`w-4 h-4 ${loading ? 'animate-spin' : ''}`} />
+              <span>Refresh</span>
+            </button>
+          </div>
+        </div>
+      </div>
+
+      {/* Undo Hard Reset */}
+      <ResetUndoBanner
+        repoPath={repository.path}
+        refreshKey={actionCount}
+        onUndone={loadReflog}
+      />
+
+      {/* Error State */}
+      {error && (
+        <div className="mx-4 mt-4 glass p-3 rounded-lg border border-error">
+          <div className="flex items-center space-x-2 text-error text-sm">
+            <AlertCircle className="w-4 h-4" />
+            <span className="break-all">{error}</span>
+          </div>
+        </div>
+      )}
+
+      {/* Reflog Entries */}
+      <div className="flex-1 overflow-y-auto custom-scrollbar">
+        {loading && entries.length === 0 ? (
+          <div className="flex items-center justify-center h-32">
+            <div className="text-muted">Loading reflog...</div>
+          </div>
+        ) : entries.length === 0 ? (
+          <div className="flex flex-col items-center justify-center h-64 text-muted">
+            <History className="w-16 h-16 mb-4 opacity-50" />
+            <p className="text-lg mb-2">No reflog entries</p>
+            <p className="text-sm">{ref} has no recorded history in this clone</p>
+          </div>
+        ) : (
+          <div>
+            {entries.map((entry) => (
+              <div key={entry.index} className="px-4 py-3 border-b border-border hover:bg-surface-elevated transition-colors">
+                <div className="flex items-center justify-between">
+                  <div className="flex-1 min-w-0">
+                    <div className="flex items-center space-x-2">
+                      <code className="text-xs text-accent font-mono">{ref}@{`{${entry.index}}`}</code>
+                      <span className="px-2 py-0.5 bg-surface rounded text-xs font-medium">{entry.action}</span>
+                      <span className="truncate">{entry.message}</span>
+                    </div>
+                    <div className="flex items-center space-x-4 text-xs text-muted mt-1">
+                      <div className="flex items-center space-x-1 font-mono">
+                        <span>{entry.oldSha?.substring(0, 7) ?? 'created'}</span>
+                        <ArrowRight className="w-3 h-3" />
+                        <span>{entry.newSha.substring(0, 7)}</span>
+                      </div>
+                      <div className="flex items-center space-x-1">
+                        <Calendar className="w-3 h-3" />
+                        <span>{formatDate(entry.date)}</span>
+                      </div>
+                    </div>
+                  </div>
+
+                  {/* Actions */}
+                  <div className="flex items-center space-x-1 ml-4">
+                    <button
+                      onClick={() => handleRestore(entry)}
+                      disabled={actionLoading !== null || entry.index === 0}
+                      className="p-2 hover:bg-border rounded transition-colors disabled:opacity-50"
+                      title={`Restore ${ref} to this position`}
+                    >
+                      <RotateCcw className="w-4 h-4" />
+                    </button>
+                    <button
+                      onClick={() => {
+                        setBranchingEntry(branchingEntry === entry.index ? null : entry.index);
+                        setBranchName('');
+                      }}
+                      disabled={actionLoading !== null}
+                      className="p-2 hover:bg-border rounded transition-colors disabled:opacity-50"
+                      title="Restore as branch"
+                    >
+                      <GitBranch className="w-4 h-4" />
+                    </button>
+                  </div>
+                </div>
+
+                {/* Restore As Branch */}
+                {branchingEntry === entry.index && (
+                  <div className="flex items-center space-x-2 mt-3">
+                    <input
+                      type="text"
+                      value={branchName}
+                      onChange={(e) => setBranchName(e.target.value)}
+                      onKeyDown={(e) => e.key === 'Enter' && handleRestoreAsBranch(entry)}
+                      placeholder="Branch name (recreates a deleted branch)"
+                      autoFocus
+                      className="flex-1 px-3 py-1.5 bg-surface border border-border rounded text-sm focus:outline-none focus:border-accent transition-colors"
+                    />
+                    <button
+                      onClick={() => handleRestoreAsBranch(entry)}
+                      disabled={!branchName.trim() || actionLoading !== null}
+                      className="px-3 py-1.5 bg-accent hover:bg-accent/80 text-background rounded text-sm transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                      {actionLoading === entry.index ? 'Restoring...' : 'Restore Branch'}
+                    </button>
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,324 @@
+import React from 'react';
+import {
+  Archive,
+  RefreshCw,
+  Plus,
+  Eye,
+  Play,
+  Download,
+  GitBranch,
+  Trash2,
+  Calendar,
+  AlertCircle,
+} from 'lucide-react';
+import type { Repository, Stash, Result } from '@shared/types/git';
+import { DiffViewer } from '../../components/DiffViewer';
+
+interface StashesProps {
+  repository: Repository;
+}
+
+export const Stashes: React.FC<StashesProps> = ({ repository }) => {
+  const [stashes, setStashes] = React.useState<Stash[]>([]);
+  const [loading, setLoading] = React.useState(true);
+  const [error, setError] = React.useState<string | null>(null);
+  const [actionLoading, setActionLoading] = React.useState<string | null>(null);
+  const [showStashForm, setShowStashForm] = React.useState(false);
+  const [message, setMessage] = React.useState('');
+  const [includeUntracked, setIncludeUntracked] = React.useState(false);
+  const [keepIndex, setKeepIndex] = React.useState(false);
+  const [branchingStash, setBranchingStash] = React.useState<number | null>(null);
+  const [branchName, setBranchName] = React.useState('');
+  const [selectedStash, setSelectedStash] = React.useState<{ stash: Stash; diff: string } | null>(null);
+
+  React.useEffect(() => {
+    loadStashes();
+  }, [repository.path]);
+
+  const loadStashes = async () => {
+    if (!window.api) return;
+
+    setLoading(true);
+    try {
+      const result = await window.api.git.getStashes(repository.path);
+      if (result.success) {
+        setStashes(result.data);
+      }
+    } catch (error) {
+      console.error('Failed to load stashes:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const runAction = async (key: string, action: () => Promise<Result<void>>) => {
+    if (!window.api || actionLoading) return false;
+
+    setActionLoading(key);
+    setError(null);
+    try {
+      const result = await action();
+      if (!result.success) {
+        setError(result.error.message || 'Stash operation failed');
+        return false;
+      }
+      await loadStashes();
+      return true;
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Stash operation failed');
+      return false;
+    } finally {
+      setActionLoading(null);
+    }
+  };
+
+  const handleStash = async () => {
+    const success = await runAction('push', () =>
+      window.api.git.stashPush(repository.path, {
+        message: message.trim() || undefined,
+        includeUntracked,
+        keepIndex,
+      })
+    );
+    if (success) {
+      setMessage('');
+      setShowStashForm(false);
+    }
+  };
+
+  const handleDrop = async (stash: Stash) => {
+    if (!confirm(`Drop ${stash.ref}? This cannot be undone from GitMoon.`)) return;
+    await runAction(`drop-${stash.index}`, () => window.api.git.dropStash(repository.path, stash.index));
+  };
+
+  const handleBranch = async (stash: Stash) => {
+    if (!branchName.trim()) return;
+    const success = await runAction(`branch-${stash.index}`, () =>
+      window.api.git.branchFromStash(repository.path, stash.index, branchName.trim())
+    );
+    if (success) {
+      setBranchingStash(null);
+      setBranchName('');
+    }
+  };
+
+  const handleView = async (stash: Stash) => {
+    if (!window.api) return;
+
+    try {
+      const result = await window.api.git.getStashDiff(repository.path, stash.index);
+      if (result.success) {
+        setSelectedStash({ stash, diff: result.data });
+      }
+    } catch (error) {
+      console.error('Failed to load stash diff:', error);
+    }
+  };
+
+  const formatDate = (date: Date) => {
+    const d = new Date(date);
+    return d.toLocaleDateString() + ' ' + d.toLocaleTimeString();
+  };
+
+  return (
+    <div className="h-full flex flex-col">
+      {/* Diff Viewer Modal */}
+      {selectedStash && (
+        <DiffViewer
+          diff={selectedStash.diff}
+          fileName={`${selectedStash.stash.ref}: ${selectedStash.stash.message}`}
+          onClose={() => setSelectedStash(null)}
+        />
+      )}
+
+      {/* Header */}
+      <div className="glass border-b border-border p-4">
+        <div className="flex items-center justify-between">
+          <div className="flex items-center space-x-3">
+            <Archive className="w-5 h-5 text-accent" />
+            <h2 className="text-xl font-semibold">Stashes</h2>
+            <span className="text-sm text-muted">({stashes.length})</span>
+          </div>
+
+          <div className="flex items-center space-x-2">
+            <button
+              onClick={loadStashes}
+              disabled={loading}
+              className="flex items-center space-x-2 px-4 py-2 bg-surface hover:bg-surface-elevated rounded-lg transition-colors disabled:opacity-50"
+            >
+              <RefreshCw className={`w-4 h-4 ${loading ? 'animate-spin' : ''}`} />
+              <span>Refresh</span>
+            </button>
+            <button
+              onClick={() => setShowStashForm(!showStashForm)}
+              className="flex items-center space-x-2 px-4 py-2 bg-accent text-background rounded-lg hover:bg-accent-hover transition-colors"
+            >
+              <Plus className="w-4 h-4" />
+              <span>Stash Changes</span>
+            </button>
+          </div>
+        </div>
+
+        {/* Stash Form */}
+        {showStashForm && (
+          <div className="mt-4 space-y-3">
+            <input
+              type="text"
+              value={message}
+              onChange={(e) => setMessage(e.target.value)}
+              placeholder="Stash message (optional)"
+              className="w-full px-4 py-2 bg-surface border border-border rounded-lg text-sm focus:outline-none focus:border-accent transition-colors"
+            />
+            <div className="flex items-center justify-between">
+              <div className="flex items-center space-x-4 text-sm">
+                <label className="flex items-center space-x-2 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={includeUntracked}
+                    onChange={(e) => setIncludeUntracked(e.target.checked)}
+                  />
+                  <span>Include untracked files</span>
+                </label>
+                <label className="flex items-center space-x-2 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={keepIndex}
+                    onChange={(e) => setKeepIndex(e.target.checked)}
+                  />
+                  <span>Keep staged changes</span>
+                </label>
+              </div>
+              <button
+                onClick={handleStash}
+                disabled={!!actionLoading}
+                className="px-4 py-2 bg-accent hover:bg-accent/80 text-background rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed text-sm font-medium"
+              >
+                {actionLoading === 'push' ? 'Stashing...' : 'Save Stash'}
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+
+      {/* Error State */}
+      {error && (
+        <div className="mx-4 mt-4 glass p-3 rounded-lg border border-error">
+          <div className="flex items-center space-x-2 text-error text-sm">
+            <AlertCircle className="w-4 h-4" />
+            <span className="break-all">{error}</span>
+          </div>
+        </div>
+      )}
+
+      {/* Stash List */}
+      <div className="flex-1 overflow-y-auto custom-scrollbar">
+        {loading ? (
+          <div className="flex items-center justify-center h-32">
+            <div className="text-muted">Loading stashes...</div>
+          </div>
+        ) : stashes.length === 0 ? (
+          <div className="flex flex-col items-center justify-center h-64 text-muted">
+            <Archive className="w-16 h-16 mb-4 opacity-50" />
+            <p className="text-lg mb-2">No stashes</p>
+            <p className="text-sm">Stash your changes to switch branches with a clean tree</p>
+          </div>
+        ) : (
+          <div>
+            {stashes.map((stash) => (
+              <div key={stash.sha} className="px-4 py-3 border-b border-border hover:bg-surface-elevated transition-colors">
+                <div className="flex items-center justify-between">
+                  <div className="flex-1 min-w-0">
+                    <div className="flex items-center space-x-2">
+                      <code className="text-xs text-accent font-mono">{stash.ref}</code>
+                      <span className="font-medium truncate">{stash.message}</span>
+                    </div>
+                    <div className="flex items-center space-x-4 text-xs text-muted mt-1">
+                      {stash.branch && (
+                        <div className="flex items-center space-x-1">
+                          <GitBranch className="w-3 h-3" />
+                          <span>{stash.branch}</span>
+                        </div>
+                      )}
+                      <div className="flex items-center space-x-1">
+                        <Calendar className="w-3 h-3" />
+                        <span>{formatDate(stash.date)}</span>
+                      </div>
+                    </div>
+                  </div>
+
+                  {/* Actions */}
+                  <div className="flex items-center space-x-1 ml-4">
+                    <button
+                      onClick={() => handleView(stash)}
+                      className="p-2 hover:bg-border rounded transition-colors"
+                      title="Show diff"
+                    >
+                      <Eye className="w-4 h-4" />
+                    </button>
+                    <button
+                      onClick={() => runAction(`apply-${stash.index}`, () => window.api.git.applyStash(repository.path, stash.index))}
+                      disabled={!!actionLoading}
+                      className="p-2 hover:bg-border rounded transition-colors disabled:opacity-50"
+                      title="Apply"
+                    >
+                      <Play className="w-4 h-4" />
+                    </button>
+                    <button
+                      onClick={() => runAction(`pop-${stash.index}`, () => window.api.git.popStash(repository.path, stash.index))}
+                      disabled={!!actionLoading}
+                      className="p-2 hover:bg-border rounded transition-colors disabled:opacity-50"
+                      title="Pop (apply and drop)"
+                    >
+                      <Download className="w-4 h-4" />
+                    </button>
+                    <button
+                      onClick={() => {
+                        setBranchingStash(branchingStash === stash.index ? null : stash.index);
+                        setBranchName('');
+                      }}
+                      disabled={!!actionLoading}
+                      className="p-2 hover:bg-border rounded transition-colors disabled:opacity-50"
+                      title="Create branch from stash"
+                    >
+                      <GitBranch className="w-4 h-4" />
+                    </button>
+                    <button
+                      onClick={() => handleDrop(stash)}
+                      disabled={!!actionLoading}
+                      className="p-2 hover:bg-red-500/20 text-red-400 rounded transition-colors disabled:opacity-50"
+                      title="Drop"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </div>
+                </div>
+
+                {/* Branch From Stash */}
+                {branchingStash === stash.index && (
+                  <div className="flex items-center space-x-2 mt-3">
+                    <input
+                      type="text"
+                      value={branchName}
+                      onChange={(e) => setBranchName(e.target.value)}
+                      onKeyDown={(e) => e.key === 'Enter' && handleBranch(stash)}
+                      placeholder="New branch name"
+                      autoFocus
+                      className="flex-1 px-3 py-1.5 bg-surface border border-border rounded text-sm focus:outline-none focus:border-accent transition-colors"
+                    />
+                    <button
+                      onClick={() => handleBranch(stash)}
+                      disabled={!branchName.trim() || !!actionLoading}
+                      className="px-3 py-1.5 bg-accent hover:bg-accent/80 text-background rounded text-sm transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                      Create Branch
+                    </button>
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,281 @@
+import React from 'react';
+import {
+  Tag as TagIcon,
+  RefreshCw,
+  Plus,
+  Search,
+  Upload,
+  Trash2,
+  User,
+  Calendar,
+  AlertCircle,
+} from 'lucide-react';
+import type { Repository, Tag, Result } from '@shared/types/git';
+
+interface TagsProps {
+  repository: Repository;
+}
+
+export const Tags: React.FC<TagsProps> = ({ repository }) => {
+  const [tags, setTags] = React.useState<Tag[]>([]);
+  const [loading, setLoading] = React.useState(true);
+  const [searchQuery, setSearchQuery] = React.useState('');
+  const [error, setError] = React.useState<string | null>(null);
+  const [actionLoading, setActionLoading] = React.useState<string | null>(null);
+  const [showCreateForm, setShowCreateForm] = React.useState(false);
+  const [tagName, setTagName] = React.useState('');
+  const [target, setTarget] = React.useState('HEAD');
+  const [message, setMessage] = React.useState('');
+
+  React.useEffect(() => {
+    loadTags();
+  }, [repository.path]);
+
+  const loadTags = async () => {
+    if (!window.api) return;
+
+    setLoading(true);
+    try {
+      const result = await window.api.git.getTags(repository.path);
+      if (result.success) {
+        setTags(result.data);
+      }
+    } catch (error) {
+      console.error('Failed to load tags:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const runAction = async (key: string, action: () => Promise<Result<void>>) => {
+    if (!window.api || actionLoading) return false;
+
+    setActionLoading(key);
+    setError(null);
+    try {
+      const result = await action();
+      if (!result.success) {
+        setError(result.error.message || 'Tag operation failed');
+        return false;
+      }
+      await loadTags();
+      return true;
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Tag operation failed');
+      return false;
+    } finally {
+      setActionLoading(null);
+    }
+  };
+
+  const handleCreate = async () => {
+    if (!tagName.trim()) return;
+    const success = await runAction('create', () =>
+      window.api.git.createTag(
+        repository.path,
+        tagName.trim(),
+        target.trim() || 'HEAD',
+        message.trim() || undefined
+      )
+    );
+    if (success) {
+      setTagName('');
+      setTarget('HEAD');
+      setMessage('');
+      setShowCreateForm(false);
+    }
+  };
+
+  const handleDelete = async (tag: Tag) => {
+    if (!confirm(`Delete tag ${tag.name}?`)) return;
+    const alsoRemote = confirm(`Also delete ${tag.name} from origin?`);
+
+    await runAction(`delete-${tag.name}`, async () => {
+      if (alsoRemote) {
+        const remoteResult = await window.api.git.deleteRemoteTag(repository.path, tag.name);
+        if (!remoteResult.success) return remoteResult;
+      }
+      return window.api.git.deleteTag(repository.path, tag.name);
+    });
+  };
+
+  const filteredTags = tags.filter((tag) =>
+    tag.name.toLowerCase().includes(searchQuery.toLowerCase()) ||
+    tag.message?.toLowerCase().includes(searchQuery.toLowerCase())
+  );
+
+  const formatDate = (date?: Date) => {
+    if (!date) return '';
+    return new Date(date).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' });
+  };
+
+  return (
+    <div className="h-full flex flex-col">
+      {/* Header */}
+      <div className="glass border-b border-border p-4">
+        <div className="flex items-center justify-between mb-4">
+          <div className="flex items-center space-x-3">
+            <TagIcon className="w-5 h-5 text-accent" />
+            <h2 className="text-xl font-semibold">Tags</h2>
+            <span className="text-sm text-muted">({filteredTags.length})</span>
+          </div>
+
+          <div className="flex items-center space-x-2">
+            <button
+              onClick={loadTags}
+              disabled={loading}
+              className="flex items-center space-x-2 px-4 py-2 bg-surface hover:bg-surface-elevated rounded-lg transition-colors disabled:opacity-50"
+            >
+              <RefreshCw className={`w-4 h-4 ${loading ? 'animate-spin' : ''}`} />
+              <span>Refresh</span>
+            </button>
+            <button
+              onClick={() => runAction('push-all', () => window.api.git.pushTags(repository.path))}
+              disabled={!!actionLoading || tags.length === 0}
+              className="flex items-center space-x-2 px-4 py-2 bg-surface hover:bg-surface-elevated rounded-lg transition-colors disabled:opacity-50"
+            >
+              <Upload className={`w-4 h-4 ${actionLoading === 'push-all' ? 'animate-pulse' : ''}`} />
+              <span>Push All</span>
+            </button>
+            <button
+              onClick={() => setShowCreateForm(!showCreateForm)}
+              className="flex items-center space-x-2 px-4 py-2 bg-accent text-background rounded-lg hover:bg-accent-hover transition-colors"
+            >
+              <Plus className="w-4 h-4" />
+              <span>New Tag</span>
+            </button>
+          </div>
+        </div>
+
+        {/* Create Form */}
+        {showCreateForm && (
+          <div className="mb-4 space-y-3">
+            <div className="grid grid-cols-2 gap-3">
+              <input
+                type="text"
+                value={tagName}
+                onChange={(e) => setTagName(e.target.value)}
+                placeholder="Tag name (e.g. v1.0.0)"
+                className="px-4 py-2 bg-surface border border-border rounded-lg text-sm focus:outline-none focus:border-accent transition-colors"
+              />
+              <input
+                type="text"
+                value={target}
+                onChange={(e) => setTarget(e.target.value)}
+                placeholder="Commit, branch or HEAD"
+                className="px-4 py-2 bg-surface border border-border rounded-lg text-sm font-mono focus:outline-none focus:border-accent transition-colors"
+              />
+            </div>
+            <textarea
+              value={message}
+              onChange={(e) => setMessage(e.target.value)}
+              placeholder="Annotation message (leave empty for a lightweight tag)"
+              rows={3}
+              className="w-full px-4 py-2 bg-surface border border-border rounded-lg text-sm focus:outline-none focus:border-accent transition-colors resize-none"
+            />
+            <div className="flex justify-end">
+              <button
+                onClick={handleCreate}
+                disabled={!tagName.trim() || !!actionLoading}
+                className="px-4 py-2 bg-accent hover:bg-accent/80 text-background rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed text-sm font-medium"
+              >
+                {actionLoading === 'create' ? 'Creating...' : message.trim() ? 'Create Annotated Tag' : 'Create Tag'}
+              </button>
+            </div>
+          </div>
+        )}
+
+        {/* Search */}
+        <div className="relative">
+          <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 w-4 h-4 text-muted" />
+          <input
+            type="text"
+            placeholder="Search tags..."
+            value={searchQuery}
+            onChange={(e) => setSearchQuery(e.target.value)}
+            className="w-full pl-10 pr-4 py-2 bg-surface border border-border rounded-lg text-sm focus:outline-none focus:border-accent transition-colors"
+          />
+        </div>
+      </div>
+
+      {/* Error State */}
+      {error && (
+        <div className="mx-4 mt-4 glass p-3 rounded-lg border border-error">
+          <div className="flex items-center space-x-2 text-error text-sm">
+            <AlertCircle className="w-4 h-4" />
+            <span className="break-all">{error}</span>
+          </div>
+        </div>
+      )}
+
+      {/* Tag List */}
+      <div className="flex-1 overflow-y-auto custom-scrollbar">
+        {loading ? (
+          <div className="flex items-center justify-center h-32">
+            <div className="text-muted">Loading tags...</div>
+          </div>
+        ) : filteredTags.length === 0 ? (
+          <div className="flex items-center justify-center h-32">
+            <div className="text-muted">{searchQuery ? 'No tags found' : 'No tags'}</div>
+          </div>
+        ) : (
+          <div>
+            {filteredTags.map((tag) => (
+              <div key={tag.name} className="px-4 py-3 border-b border-border hover:bg-surface-elevated transition-colors">
+                <div className="flex items-center justify-between">
+                  <div className="flex-1 min-w-0">
+                    <div className="flex items-center space-x-2">
+                      <TagIcon className="w-4 h-4 text-accent flex-shrink-0" />
+                      <span className="font-medium truncate">{tag.name}</span>
+                      <code className="text-xs text-muted font-mono">{tag.sha.substring(0, 7)}</code>
+                      <span className="text-xs px-2 py-0.5 bg-muted/20 text-muted rounded">
+                        {tag.isAnnotated ? 'Annotated' : 'Lightweight'}
+                      </span>
+                    </div>
+                    {tag.message && (
+                      <p className="text-sm text-muted mt-1 ml-6 whitespace-pre-wrap break-words">{tag.message}</p>
+                    )}
+                    <div className="flex items-center space-x-4 text-xs text-muted mt-1 ml-6">
+                      {tag.tagger && (
+                        <div className="flex items-center space-x-1">
+                          <User className="w-3 h-3" />
+                          <span>{tag.tagger.name}</span>
+                        </div>
+                      )}
+                      {tag.date && (
+                        <div className="flex items-center space-x-1">
+                          <Calendar className="w-3 h-3" />
+                          <span>{formatDate(tag.date)}</span>
+                        </div>
+                      )}
+                    </div>
+                  </div>
+
+                  {/* Actions */}
+                  <div className="flex items-center space-x-1 ml-4">
+                    <button
+                      onClick={() => runAction(`push-${tag.name}`, () => window.api.git.pushTags(repository.path, undefined, tag.name))}
+                      disabled={!!actionLoading}
+                      className="p-2 hover:bg-border rounded transition-colors disabled:opacity-50"
+                      title="Push tag"
+                    >
+                      <Upload className="w-4 h-4" />
+                    </button>
+                    <button
+                      onClick={() => handleDelete(tag)}
+                      disabled={!!actionLoading}
+                      className="p-2 hover:bg-red-500/20 text-red-400 rounded transition-colors disabled:opacity-50"
+                      title="Delete tag"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </div>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
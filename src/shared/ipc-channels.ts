@@ -20,12 +20,83 @@ export const IPC_CHANNELS = {
   GIT_DELETE_BRANCH: 'git:deleteBranch',
   GIT_STAGE_FILES: 'git:stageFiles',
   GIT_UNSTAGE_FILES: 'git:unstageFiles',
+  GIT_GET_FILE_DIFF: 'git:getFileDiff',
+  GIT_STAGE_HUNK: 'git:stageHunk',
+  GIT_UNSTAGE_HUNK: 'git:unstageHunk',
+  GIT_STAGE_LINES: 'git:stageLines',
+  GIT_UNSTAGE_LINES: 'git:unstageLines',
   GIT_COMMIT: 'git:commit',
   GIT_PUSH: 'git:push',
   GIT_PULL: 'git:pull',
   GIT_FETCH: 'git:fetch',
   GIT_GET_REMOTE_URL: 'git:getRemoteUrl',
   GIT_GET_LAST_FETCH_TIME: 'git:getLastFetchTime',
+  GIT_STASH_PUSH: 'git:stashPush',
+  GIT_STASH_LIST: 'git:stashList',
+  GIT_STASH_SHOW: 'git:stashShow',
+  GIT_STASH_APPLY: 'git:stashApply',
+  GIT_STASH_POP: 'git:stashPop',
+  GIT_STASH_DROP: 'git:stashDrop',
+  GIT_STASH_BRANCH: 'git:stashBranch',
+  GIT_GET_TAGS: 'git:getTags',
+  GIT_CREATE_TAG: 'git:createTag',
+  GIT_DELETE_TAG: 'git:deleteTag',
+  GIT_DELETE_REMOTE_TAG: 'git:deleteRemoteTag',
+  GIT_PUSH_TAGS: 'git:pushTags',
+  GIT_GET_REMOTES: 'git:getRemotes',
+  GIT_ADD_REMOTE: 'git:addRemote',
+  GIT_RENAME_REMOTE: 'git:renameRemote',
+  GIT_REMOVE_REMOTE: 'git:removeRemote',
+  GIT_SET_REMOTE_URL: 'git:setRemoteUrl',
+  GIT_GET_MERGE_STATE: 'git:getMergeState',
+  GIT_GET_CONFLICT: 'git:getConflict',
+  GIT_RESOLVE_CONFLICT: 'git:resolveConflict',
+  GIT_MERGE_CONTINUE: 'git:mergeContinue',
+  GIT_MERGE_ABORT: 'git:mergeAbort',
+  GIT_GET_REBASE_PLAN: 'git:getRebasePlan',
+  GIT_START_REBASE: 'git:startRebase',
+  GIT_GET_REBASE_STATE: 'git:getRebaseState',
+  GIT_REBASE_CONTINUE: 'git:rebaseContinue',
+  GIT_REBASE_SKIP: 'git:rebaseSkip',
+  GIT_REBASE_ABORT: 'git:rebaseAbort',
+  GIT_GET_COMMIT_PARENTS: 'git:getCommitParents',
+  GIT_CHERRY_PICK: 'git:cherryPick',
+  GIT_REVERT: 'git:revert',
+  GIT_GET_SEQUENCER_STATE: 'git:getSequencerState',
+  GIT_SEQUENCER_CONTINUE: 'git:sequencerContinue',
+  GIT_SEQUENCER_ABORT: 'git:sequencerAbort',
+  GIT_RESET: 'git:reset',
+  GIT_GET_RESET_SNAPSHOT: 'git:getResetSnapshot',
+  GIT_UNDO_RESET: 'git:undoReset',
+  GIT_DISCARD_RESET_SNAPSHOT: 'git:discardResetSnapshot',
+  GIT_GET_REFLOG: 'git:getReflog',
+  GIT_RESTORE_REF: 'git:restoreRef',
+  GIT_GET_BLAME: 'git:getBlame',
+  GIT_GET_FILE_HISTORY: 'git:getFileHistory',
+  GIT_RESTORE_FILE_VERSION: 'git:restoreFileVersion',
+  GIT_GET_TREE: 'git:getTree',
+  GIT_GET_BLOB: 'git:getBlob',
+  GIT_GET_DIFF_CONTENTS: 'git:getDiffContents',
+  GIT_GET_SUBMODULES: 'git:getSubmodules',
+  GIT_INIT_SUBMODULES: 'git:initSubmodules',
+  GIT_UPDATE_SUBMODULES: 'git:updateSubmodules',
+  GIT_SYNC_SUBMODULES: 'git:syncSubmodules',
+  GIT_GET_WORKTREES: 'git:getWorktrees',
+  GIT_ADD_WORKTREE: 'git:addWorktree',
+  GIT_REMOVE_WORKTREE: 'git:removeWorktree',
+  GIT_LOCK_WORKTREE: 'git:lockWorktree',
+  GIT_UNLOCK_WORKTREE: 'git:unlockWorktree',
+  GIT_PRUNE_WORKTREES: 'git:pruneWorktrees',
+  GIT_GET_BISECT_STATE: 'git:getBisectState',
+  GIT_START_BISECT: 'git:startBisect',
+  GIT_MARK_BISECT: 'git:markBisect',
+  GIT_RESET_BISECT: 'git:resetBisect',
+  GIT_RUN_BISECT: 'git:runBisect',
+  GIT_CLONE: 'git:clone',
+  GIT_CANCEL_CLONE: 'git:cancelClone',
+  GIT_CLONE_PROGRESS: 'git:cloneProgress',
+  GIT_GET_INIT_TEMPLATES: 'git:getInitTemplates',
+  GIT_INIT_REPOSITORY: 'git:initRepository',
 
   // Network
   NETWORK_CHECK_STATUS: 'network:checkStatus',
@@ -39,6 +110,10 @@ export const IPC_CHANNELS = {
   AUTOMATION_EXECUTE_SCRIPT: 'automation:executeScript',
   AUTOMATION_GET_HISTORY: 'automation:getHistory',
 
+  // Settings
+  SETTINGS_GET: 'settings:get',
+  SETTINGS_UPDATE: 'settings:update',
+
   // App
   APP_GET_VERSION: 'app:getVersion',
   APP_QUIT: 'app:quit',
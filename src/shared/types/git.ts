@@ -22,6 +22,17 @@ export interface CommitStats {
   filesChanged: number;
 }
 
+export type CommitRefType = 'local' | 'remote' | 'tag' | 'head' | 'stash';
+
+/**
+ * A ref pointing at a commit. `name` is the short name ("main", "origin/main", "v1.0");
+ * the ref for a checked-out branch is preceded by a `head` ref named "HEAD".
+ */
+export interface CommitRef {
+  name: string;
+  type: CommitRefType;
+}
+
 export interface Commit {
   sha: string;
   message: string;
@@ -30,9 +41,35 @@ export interface Commit {
   committer: Author;
   date: Date;
   parents: string[];
+  refs: CommitRef[];
   stats?: CommitStats;
 }
 
+/**
+ * Filters for a commit log, run by `git log` itself. Empty fields are ignored and the rest
+ * must all match.
+ */
+export interface CommitQuery {
+  author?: string;
+  committer?: string;
+  // Anything `git log --since` accepts, e.g. "2024-01-31" or "2 weeks ago"
+  since?: string;
+  until?: string;
+  message?: string;
+  // Match message, author and committer as extended regexes instead of plain text
+  regex?: boolean;
+  // Only commits touching these paths (relative to the repo root)
+  paths?: string[];
+  // Commits that change the number of occurrences of this string (-S)
+  pickaxe?: string;
+  // Treat pickaxe as a regex matched against added or removed lines instead (-G)
+  pickaxeRegex?: boolean;
+  // Match every pattern regardless of case; git applies this to the pickaxe search as well
+  ignoreCase?: boolean;
+  merges?: 'only' | 'exclude';
+  firstParent?: boolean;
+}
+
 export interface Branch {
   name: string;
   sha: string;
@@ -42,12 +79,186 @@ export interface Branch {
   behind?: number;
 }
 
+export interface Remote {
+  name: string;
+  fetchUrl: string;
+  pushUrl: string;
+}
+
+export interface Tag {
+  name: string;
+  sha: string;
+  isAnnotated: boolean;
+  tagger?: Author;
+  date?: Date;
+  message?: string;
+}
+
 export interface FileChange {
   path: string;
-  status: 'added' | 'modified' | 'deleted' | 'renamed' | 'copied';
+  status: 'added' | 'modified' | 'deleted' | 'renamed' | 'copied' | 'type-changed';
   additions: number;
   deletions: number;
+  // Source path of a rename or copy
+  oldPath?: string;
+  // Binary files have no line counts
+  binary?: boolean;
+  // Set when the path is a submodule, whose change is a pointer move rather than a text diff
+  submodule?: SubmoduleChange;
+}
+
+export interface SubmoduleChange {
+  oldSha?: string;
+  newSha?: string;
+  // The submodule's own working tree has uncommitted changes
+  dirty?: boolean;
+}
+
+export interface Submodule {
+  name: string;
+  path: string;
+  url: string;
+  // Commit recorded in the superproject's index
+  recordedSha?: string;
+  // Commit checked out in the submodule, if it is initialized and cloned
+  checkedOutSha?: string;
+  initialized: boolean;
+  dirty: boolean;
+}
+
+export interface Worktree {
+  path: string;
+  // The repository's own working tree, which cannot be removed
+  isMain: boolean;
+  head?: string;
+  branch?: string;
+  bare: boolean;
+  detached: boolean;
+  locked: boolean;
+  lockReason?: string;
+  // The worktree directory is missing and `git worktree prune` would remove it
+  prunable: boolean;
+  prunableReason?: string;
+}
+
+export type BisectVerdict = 'good' | 'bad' | 'skip';
+
+export interface BisectState {
+  inProgress: boolean;
+  bad?: string;
+  good: string[];
+  skipped: string[];
+  // Commit checked out for testing
+  current?: string;
+  // Commits that may still be the first bad one, skipped commits excluded
+  remaining: string[];
+  estimatedSteps: number;
+  // Set once the bisect has narrowed the range down to a single commit
+  firstBad?: string;
+}
+
+export interface BisectRunStep {
+  sha: string;
+  exitCode: number;
+  output: string;
+  // Missing when the command's exit code stopped the run
+  verdict?: BisectVerdict;
+}
+
+export interface BisectRunResult {
+  steps: BisectRunStep[];
+  firstBad?: string;
+  stoppedReason?: string;
+}
+
+export interface CloneOptions {
+  // Remote URL, path to a local repository (bare or not) or path to a bundle file
+  source: string;
+  targetPath: string;
+  branch?: string;
+  // Shallow clone with this many commits of history
+  depth?: number;
+  recurseSubmodules?: boolean;
+}
+
+export interface CloneProgress {
+  // e.g. "Receiving objects"
+  phase: string;
+  percent?: number;
+  message: string;
+}
+
+export interface InitTemplate {
+  id: string;
+  name: string;
+}
+
+export interface InitTemplates {
+  gitignore: InitTemplate[];
+  licenses: InitTemplate[];
+}
+
+export interface InitRepositoryOptions {
+  path: string;
+  initialBranch: string;
+  // Template ids from InitTemplates
+  gitignore?: string;
+  license?: string;
+  // Copyright holder for the license; defaults to the configured user.name
+  licenseHolder?: string;
+  readme?: boolean;
+  description?: string;
+  commitMessage?: string;
+}
+
+export interface FileHistoryEntry extends Commit {
+  // Path of the file in this commit
+  path: string;
+  // Previous path when this commit renamed or copied the file
   oldPath?: string;
+  status: FileChange['status'];
+}
+
+export interface TreeEntry {
+  name: string;
+  // Path relative to the repository root
+  path: string;
+  // commit entries are submodules
+  type: 'blob' | 'tree' | 'commit';
+  mode: string;
+  sha: string;
+  // Blob size in bytes; undefined for trees and submodules
+  size?: number;
+}
+
+export interface BlobContent {
+  path: string;
+  size: number;
+  binary: boolean;
+  // Content is omitted for binary files and files over the size limit
+  tooLarge: boolean;
+  content?: string;
+}
+
+// Full file contents on each side of a diff; a side is missing when the file was added or
+// deleted, is binary, or is over the preview size limit
+export interface DiffContents {
+  oldContent?: string;
+  newContent?: string;
+}
+
+export type IgnoreWhitespaceMode = 'none' | 'at-eol' | 'change' | 'all';
+
+export type DiffAlgorithm = 'myers' | 'minimal' | 'patience' | 'histogram';
+
+// Options for the patch text of a file diff; omitted fields use git's defaults
+export interface DiffOptions {
+  ignoreWhitespace?: IgnoreWhitespaceMode;
+  ignoreBlankLines?: boolean;
+  contextLines?: number;
+  algorithm?: DiffAlgorithm;
+  // Produces `--word-diff=porcelain` output instead of whole-line changes
+  wordDiff?: boolean;
 }
 
 export interface DiffResult {
@@ -56,6 +267,11 @@ export interface DiffResult {
   totalDeletions: number;
 }
 
+export interface DiffLineSelection {
+  hunkIndex: number;
+  lineIndices: number[];
+}
+
 export interface RepositoryStatus {
   branch: string;
   ahead: number;
@@ -66,6 +282,153 @@ export interface RepositoryStatus {
   conflicted: string[];
 }
 
+export interface CommitOptions {
+  // Replace the last commit instead of creating a new one
+  amend?: boolean;
+  // Append a Signed-off-by trailer for the committer
+  signOff?: boolean;
+  // "Name <email>"
+  author?: string;
+  // Any date format git accepts, e.g. ISO 8601
+  date?: string;
+  allowEmpty?: boolean;
+}
+
+export interface MergeState {
+  inProgress: boolean;
+  mergeHead?: string;
+  message?: string;
+}
+
+export type ConflictSegment =
+  | { type: 'common'; content: string }
+  | { type: 'conflict'; ours: string; base: string; theirs: string };
+
+export interface ConflictFile {
+  path: string;
+  // null when the file does not exist at that stage (added or deleted on one side)
+  base: string | null;
+  ours: string | null;
+  theirs: string | null;
+  segments: ConflictSegment[];
+}
+
+export type RebaseAction = 'pick' | 'reword' | 'edit' | 'squash' | 'fixup' | 'drop';
+
+export interface RebaseTodoItem {
+  action: RebaseAction;
+  sha: string;
+  message: string;
+  // Replacement message for reword
+  newMessage?: string;
+}
+
+export interface RebaseState {
+  inProgress: boolean;
+  headName?: string;
+  onto?: string;
+  step?: number;
+  totalSteps?: number;
+  // Commit the rebase stopped at for an edit or a conflict
+  stoppedSha?: string;
+}
+
+export interface CherryPickOptions {
+  // Append "(cherry picked from commit ...)" to the message (-x)
+  recordOrigin?: boolean;
+  noCommit?: boolean;
+  // Parent number to diff against when picking a merge commit
+  mainline?: number;
+}
+
+export interface RevertOptions {
+  noCommit?: boolean;
+  // Parent number to keep when reverting a merge commit
+  mainline?: number;
+}
+
+export interface SequencerState {
+  inProgress: boolean;
+  operation?: 'cherry-pick' | 'revert';
+  currentSha?: string;
+  remaining?: number;
+}
+
+export type ResetMode = 'soft' | 'mixed' | 'hard';
+
+export interface ResetSnapshot {
+  // HEAD before the hard reset
+  previousHead: string;
+  // Branch that was reset; undefined when HEAD was detached
+  branch?: string;
+  // Stash-like commit holding the index and working tree changes the reset discarded
+  changes?: string;
+}
+
+export interface ReflogEntry {
+  // Position in the reflog, usable as <ref>@{index}
+  index: number;
+  // Undefined for the entry that created the ref
+  oldSha?: string;
+  newSha: string;
+  // e.g. "commit", "checkout", "reset", "rebase (finish)"
+  action: string;
+  message: string;
+  date: Date;
+}
+
+export interface BlameOptions {
+  // Blame as of this revision instead of the working tree
+  rev?: string;
+  ignoreWhitespace?: boolean;
+  // Follow lines moved or copied within and across files (-M -C)
+  detectMoved?: boolean;
+  // Path to a file of revisions to skip, such as .git-blame-ignore-revs
+  ignoreRevsFile?: string;
+}
+
+export interface BlameCommit {
+  sha: string;
+  author: Author;
+  date: Date;
+  summary: string;
+  // Where the blamed lines came from in this commit's parent, for re-blaming further back
+  previous?: { sha: string; path: string };
+  // The commit is the root of the history (or the range boundary)
+  boundary?: boolean;
+}
+
+export interface BlameLine {
+  lineNumber: number;
+  // Line number in the file as of the blamed commit
+  originalLineNumber: number;
+  // Path of the file in the blamed commit, which differs from the current path after a rename or move
+  originalPath: string;
+  sha: string;
+  content: string;
+}
+
+export interface BlameResult {
+  path: string;
+  commits: Record<string, BlameCommit>;
+  lines: BlameLine[];
+}
+
+export interface Stash {
+  index: number;
+  ref: string;
+  sha: string;
+  message: string;
+  branch?: string;
+  date: Date;
+}
+
+export interface StashPushOptions {
+  message?: string;
+  includeUntracked?: boolean;
+  keepIndex?: boolean;
+}
+
 export interface ConnectionStatus {
   isOnline: boolean;
   lastChecked: Date;
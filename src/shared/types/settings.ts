@@ -0,0 +1,18 @@
+import type { CommitQuery } from './git';
+
+export type DiffViewMode = 'unified' | 'split';
+
+export interface SavedCommitSearch {
+  name: string;
+  query: CommitQuery;
+}
+
+export interface AppSettings {
+  diffViewMode: DiffViewMode;
+  savedCommitSearches: SavedCommitSearch[];
+}
+
+export const DEFAULT_SETTINGS: AppSettings = {
+  diffViewMode: 'unified',
+  savedCommitSearches: [],
+};
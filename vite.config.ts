@@ -1,3 +1,4 @@
+/// <reference types="vitest" />
 import { defineConfig } from 'vite';
 import react from '@vitejs/plugin-react';
 import path from 'path';
@@ -19,4 +20,8 @@ export default defineConfig({
   server: {
     port: 3000,
   },
+  test: {
+    // The renderer is the Vite root, but main-process modules have tests as well
+    dir: path.join(__dirname, 'src'),
+  },
 });